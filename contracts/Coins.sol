@@ -2,17 +2,17 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import "./FamiliarsLib.sol";
+import "./GameTokenRoles.sol";
 
 /**
  * @title Coins
  * @dev Implementation of the game's coin system with transfer restrictions
- * @notice This contract implements ERC20 token with whitelist functionality
+ * @notice This contract implements ERC20 token with whitelist functionality, minted and burned by the holders of its roles
  */
-contract Coins is ERC20, Ownable, ERC20Permit, ERC20Burnable {
+contract Coins is ERC20, GameTokenRoles, ERC20Permit, ERC20Burnable {
     /**
      * @dev Operator contract address
      */
@@ -28,6 +28,11 @@ contract Coins is ERC20, Ownable, ERC20Permit, ERC20Burnable {
      */
     address public karmicSpring;
 
+    /**
+     * @dev Crafting contract address
+     */
+    address public crafting;
+
     /**
      * @dev Constructor initializes the coin contract
      * @notice Sets up the token with name "Coins" and symbol "Coins"
@@ -39,34 +44,23 @@ contract Coins is ERC20, Ownable, ERC20Permit, ERC20Burnable {
     {
         operator = _msgSender();
         marketplace = _msgSender();
+        _rewire(address(0), _msgSender(), false);
     }
 
     // Events
     event SetNewOperator(address indexed newOpertor);
     event SetNewMarketplace(address indexed newMarketplace);
     event SetNewKarmicWellSpring(address indexed newKarmic);
-
-    /**
-     * @dev Modifier to restrict function access to only the specified operator/marketplace
-     * @dev Throws if the caller is not the authorized operator/marketplace
-     */
-    modifier onlyOperators() {
-        require(
-            operator == _msgSender() ||
-                marketplace == _msgSender() ||
-                karmicSpring == _msgSender(),
-            "Caller is not the operator or marketplace"
-        );
-        _;
-    }
+    event SetNewCrafting(address indexed newCrafting);
 
     /**
      * @dev Mints new coins to a specified address
      * @param to Address to receive the coins
      * @param amount Amount of coins to mint (before decimals)
-     * @notice Only callable by contract operator/marketplace
+     * @notice Only callable by holders of MINTER_ROLE, draws from their mint allowance
      */
-    function mint(address to, uint256 amount) public onlyOperators {
+    function mint(address to, uint256 amount) public onlyRole(MINTER_ROLE) {
+        _spendMintAllowance(amount);
         uint256 mintAmount = amount * (10 ** decimals());
         _mint(to, mintAmount);
     }
@@ -75,19 +69,39 @@ contract Coins is ERC20, Ownable, ERC20Permit, ERC20Burnable {
      * @dev Burncoins to a specified address
      * @param account Address to receive the coins
      * @param amount Amount of coins to burn
-     * @notice Only callable by contract operator/marketplace
+     * @notice Only callable by holders of BURNER_ROLE
      */
-    function burnCoins(address account, uint256 amount) public onlyOperators {
+    function burnCoins(
+        address account,
+        uint256 amount
+    ) public onlyRole(BURNER_ROLE) {
         _burn(account, amount);
     }
 
     /**
-     * @dev Update operator address
+     * @dev Moves coins between accounts without an approval
+     * @param from Address to take the coins from
+     * @param to Address to receive the coins
+     * @param value Amount of coins to move, in base units
+     * @notice Only callable by holders of BURNER_ROLE, pays player trades
+     */
+    function operatorTransfer(
+        address from,
+        address to,
+        uint256 value
+    ) public onlyRole(BURNER_ROLE) {
+        _transfer(from, to, value);
+    }
+
+    /**
+     * @dev Update operator address, moving the game roles to it
      * @param _newOperator Address new operator
      * @notice Only callable by contract owner
      */
     function setOperator(address _newOperator) external onlyOwner {
+        address previous = operator;
         operator = _newOperator;
+        _rewire(previous, _newOperator, false);
         emit SetNewOperator(_newOperator);
     }
 
@@ -97,7 +111,9 @@ contract Coins is ERC20, Ownable, ERC20Permit, ERC20Burnable {
      * @notice Only callable by contract owner
      */
     function setMarketplace(address _marketplace) external onlyOwner {
+        address previous = marketplace;
         marketplace = _marketplace;
+        _rewire(previous, _marketplace, false);
         emit SetNewMarketplace(_marketplace);
     }
 
@@ -107,7 +123,32 @@ contract Coins is ERC20, Ownable, ERC20Permit, ERC20Burnable {
      * @notice Only callable by contract owner
      */
     function setKarmicWellSpring(address _karmicWellspring) external onlyOwner {
+        address previous = karmicSpring;
         karmicSpring = _karmicWellspring;
+        _rewire(previous, _karmicWellspring, false);
         emit SetNewKarmicWellSpring(_karmicWellspring);
     }
+
+    /**
+     * @dev Update crafting address
+     * @param _crafting Address new crafting contract
+     * @notice Only callable by contract owner
+     */
+    function setCrafting(address _crafting) external onlyOwner {
+        address previous = crafting;
+        crafting = _crafting;
+        _rewire(previous, _crafting, false);
+        emit SetNewCrafting(_crafting);
+    }
+
+    /**
+     * @dev Checks if an address is the operator, marketplace, karmic wellspring or crafting
+     */
+    function _isWired(address _account) internal view override returns (bool) {
+        return
+            operator == _account ||
+            marketplace == _account ||
+            karmicSpring == _account ||
+            crafting == _account;
+    }
 }
@@ -0,0 +1,269 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts/access/Ownable.sol"; // Provides basic access control
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "./FamiliarsLib.sol";
+import "./Coins.sol";
+import "./KarmicEnergy.sol";
+import "./Food.sol";
+import "./FamiliarsItem.sol";
+
+/**
+ * @title Crafting
+ * @dev Turns resources and items held by a Familiar's TBA into FamiliarsItem equipment
+ * @notice Recipes are defined by the owner, crafting is driven by the Operator
+ */
+contract Crafting is Ownable, Pausable {
+    // Contract instances for different game components
+    Coins public coins; // Contract managing in-game currency
+    KarmicEnergy public karmicEnergy; // Contract managing Karmic Energy resource
+    Food public food; // Contract managing Food resource
+    FamiliarsItem public familiarsItem; // Contract of familiar items equippable
+
+    /**
+     * @dev Operator contract address
+     */
+    address public operator;
+
+    /**
+     * @dev Struct representing an amount of a FamiliarsItem id
+     */
+    struct ItemAmount {
+        uint256 itemId;
+        uint256 amount;
+    }
+
+    /**
+     * @dev Struct representing a crafting recipe
+     * @notice Item inputs are stored apart, see getRecipe
+     */
+    struct Recipe {
+        string name;
+        bool enabled;
+        uint256 coins; // Whole coins consumed
+        uint256 food; // Food consumed
+        uint256 karmicEnergy; // Karmic energy consumed
+        uint256 outputItemId; // FamiliarsItem id produced
+        uint256 outputAmount; // Units of the output produced
+        FamiliarsLib.ItemAttributes outputAttributes; // Attributes of the output id, as registered on FamiliarsItem
+    }
+
+    // Recipes by id, ids start at 0
+    mapping(uint256 => Recipe) private recipes;
+
+    // Items consumed by each recipe
+    mapping(uint256 => ItemAmount[]) private recipeItems;
+
+    // Number of recipes ever added
+    uint256 public recipeCount;
+
+    // Events
+    event SetNewOperator(address indexed newOpertor);
+    event SetRecipe(uint256 indexed recipeId, string name, bool enabled);
+    event Crafted(
+        address indexed tba,
+        uint256 indexed recipeId,
+        uint256 itemId,
+        uint256 amount
+    );
+
+    constructor(
+        address _karmic,
+        address _food,
+        address _coins,
+        address _familiarsItem
+    ) Ownable(_msgSender()) {
+        operator = _msgSender();
+        karmicEnergy = KarmicEnergy(_karmic);
+        food = Food(_food);
+        coins = Coins(_coins);
+        familiarsItem = FamiliarsItem(_familiarsItem);
+    }
+
+    /**
+     * @dev Modifier to restrict function access to only the specified operator
+     * @param _caller The address of the function caller
+     * @dev Throws if the caller is not the authorized operator
+     */
+    modifier onlyOperator(address _caller) {
+        require(operator == _caller, "Caller is not the operator");
+        _;
+    }
+
+    /**
+     * @dev Modifier to ensure a recipe exists
+     * @param _recipeId The recipe to check
+     */
+    modifier recipeExists(uint256 _recipeId) {
+        require(_recipeId < recipeCount, "Recipe does not exist");
+        _;
+    }
+
+    /**
+     * @dev Crafts a recipe, burning its inputs from a TBA and minting the output to it
+     * @param _recipeId The recipe to craft
+     * @param _tba TBA of the crafting Familiar
+     */
+    function craft(
+        uint256 _recipeId,
+        address _tba
+    )
+        external
+        onlyOperator(_msgSender())
+        whenNotPaused
+        recipeExists(_recipeId)
+    {
+        Recipe storage recipe = recipes[_recipeId];
+        require(recipe.enabled, "Recipe is not enabled");
+
+        if (recipe.coins > 0) {
+            uint256 coinsAmt = recipe.coins * (10 ** coins.decimals());
+            require(coins.balanceOf(_tba) >= coinsAmt, "Not enough coins");
+            coins.burnCoins(_tba, coinsAmt);
+        }
+        if (recipe.food > 0) {
+            require(
+                food.balanceOf(_tba, 0) >= recipe.food,
+                "Not enough food"
+            );
+            food.burn(_tba, 0, recipe.food);
+        }
+        if (recipe.karmicEnergy > 0) {
+            require(
+                karmicEnergy.balanceOf(_tba, 0) >= recipe.karmicEnergy,
+                "Not enough karmic energy"
+            );
+            karmicEnergy.burn(_tba, 0, recipe.karmicEnergy);
+        }
+
+        ItemAmount[] storage items = recipeItems[_recipeId];
+        for (uint256 i = 0; i < items.length; i++) {
+            require(
+                familiarsItem.balanceOf(_tba, items[i].itemId) >=
+                    items[i].amount,
+                "Not enough items"
+            );
+            familiarsItem.operatorBurn(_tba, items[i].itemId, items[i].amount);
+        }
+
+        // Existing units share the attributes of the id, crafting never rewrites them
+        familiarsItem.mint(
+            _tba,
+            recipe.outputItemId,
+            recipe.outputAmount,
+            familiarsItem.getItemAttributes(recipe.outputItemId)
+        );
+
+        emit Crafted(
+            _tba,
+            _recipeId,
+            recipe.outputItemId,
+            recipe.outputAmount
+        );
+    }
+
+    /**
+     * @dev Adds a new recipe
+     * @param _recipe The recipe to add
+     * @param _items The items consumed by the recipe
+     * @return uint256 The id of the new recipe
+     */
+    function addRecipe(
+        Recipe calldata _recipe,
+        ItemAmount[] calldata _items
+    ) external onlyOwner returns (uint256) {
+        uint256 recipeId = recipeCount;
+        recipeCount = recipeId + 1;
+        _setRecipe(recipeId, _recipe, _items);
+        return recipeId;
+    }
+
+    /**
+     * @dev Replaces an existing recipe
+     * @param _recipeId The recipe to replace
+     * @param _recipe The new recipe
+     * @param _items The items consumed by the new recipe
+     */
+    function updateRecipe(
+        uint256 _recipeId,
+        Recipe calldata _recipe,
+        ItemAmount[] calldata _items
+    ) external onlyOwner recipeExists(_recipeId) {
+        _setRecipe(_recipeId, _recipe, _items);
+    }
+
+    /**
+     * @dev Gets a recipe and the items it consumes
+     * @param _recipeId The recipe to get
+     * @return Recipe The recipe
+     * @return ItemAmount[] The items consumed by the recipe
+     */
+    function getRecipe(
+        uint256 _recipeId
+    )
+        external
+        view
+        recipeExists(_recipeId)
+        returns (Recipe memory, ItemAmount[] memory)
+    {
+        return (recipes[_recipeId], recipeItems[_recipeId]);
+    }
+
+    /**
+     * @dev Update operator address
+     * @param _newOperator Address new operator
+     * @notice Only callable by contract owner
+     */
+    function setOperator(address _newOperator) external onlyOwner {
+        operator = _newOperator;
+        emit SetNewOperator(_newOperator);
+    }
+
+    /**
+     * @dev Pauses or unpauses the contract
+     * @param isPause True to pause, false to unpause
+     */
+    function setPauseContract(bool isPause) external onlyOwner {
+        if (isPause) {
+            _pause();
+        } else {
+            _unpause();
+        }
+    }
+
+    /**
+     * @dev Internal function to validate and store a recipe
+     * @notice The attributes of the output id are set on FamiliarsItem first
+     */
+    function _setRecipe(
+        uint256 _recipeId,
+        Recipe calldata _recipe,
+        ItemAmount[] calldata _items
+    ) internal {
+        require(bytes(_recipe.name).length > 0, "Recipe name is empty");
+        require(_recipe.outputItemId != 0, "Token ID 0 is not allowed");
+        require(_recipe.outputAmount > 0, "Amount must be greater than 0");
+        require(
+            keccak256(abi.encode(_recipe.outputAttributes)) ==
+                keccak256(
+                    abi.encode(
+                        familiarsItem.getItemAttributes(_recipe.outputItemId)
+                    )
+                ),
+            "Output attributes differ from the item"
+        );
+
+        recipes[_recipeId] = _recipe;
+        delete recipeItems[_recipeId];
+        for (uint256 i = 0; i < _items.length; i++) {
+            require(
+                _items[i].itemId != 0 && _items[i].amount > 0,
+                "Invalid item input"
+            );
+            recipeItems[_recipeId].push(_items[i]);
+        }
+
+        emit SetRecipe(_recipeId, _recipe.name, _recipe.enabled);
+    }
+}
@@ -4,9 +4,10 @@ pragma solidity ^0.8.27;
 // Import required OpenZeppelin contracts for standard implementations
 import "@openzeppelin/contracts/access/Ownable.sol"; // Provides basic access control
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol"; // Base NFT implementation
-import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol"; // Adds URI storage capabilities
 import "./FamiliarsLib.sol";
+import "./FamiliarsItem.sol";
+import "./interfaces/IFamiliarsRenderer.sol";
 
 /**
  * @title Familiars
@@ -38,16 +39,26 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
     event SetNewOperator(address indexed newOpertor);
 
     /**
-     * @dev Mapping to track equipped item of familiar
+     * @dev Mapping to track the item equipped in each slot of a familiar, 0 if empty
      * @notice Private to enforce access through getter/setter functions
      */
-    mapping(uint256 => FamiliarsLib.EquipItems) private equippedItem;
+    mapping(uint256 => mapping(uint8 => uint256)) private equippedItems;
+
+    /**
+     * @dev Equipment slot registry, ids are assigned sequentially from 1
+     */
+    mapping(uint8 => string) private slots;
+
+    /**
+     * @dev Number of registered equipment slots
+     */
+    uint256 public slotCount;
 
     /**
      * @dev Mapping to track the current location of each token
      * @notice Private to enforce access through getter/setter functions
      */
-    mapping(uint256 => FamiliarsLib.Location) private tokenLocation;
+    mapping(uint256 => uint8) private tokenLocation;
 
     /**
      * @dev Mapping to store health points for each token
@@ -56,8 +67,60 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
     mapping(uint256 => uint8) private tokenHealth;
 
     // Mapping to track requirements needed for each location
-    mapping(FamiliarsLib.Location => FamiliarsLib.Requirements)
-        private locationRequirements;
+    mapping(uint8 => FamiliarsLib.Requirements) private locationRequirements;
+
+    /**
+     * @dev Location registry, ids are assigned sequentially from 0
+     */
+    mapping(uint8 => FamiliarsLib.LocationInfo) private locations;
+
+    /**
+     * @dev Number of registered locations
+     */
+    uint256 public locationCount;
+
+    /**
+     * @dev Travel duration in seconds between two locations, 0 for instant travel
+     */
+    mapping(uint8 => mapping(uint8 => uint32)) private travelDurations;
+
+    /**
+     * @dev Mapping to track the trip in progress of each token
+     * @notice Private to enforce access through getter/setter functions
+     */
+    mapping(uint256 => FamiliarsLib.Travel) private travels;
+
+    /**
+     * @dev Mapping to track the timestamp upkeep was last settled for each token
+     * @notice Private to enforce access through getter/setter functions
+     */
+    mapping(uint256 => uint64) private lastUpkeep;
+
+    /**
+     * @dev Mapping to track the XP gained by each token at the Karmic Tower
+     * @notice Private to enforce access through getter/setter functions
+     */
+    mapping(uint256 => uint256) private tokenXp;
+
+    /**
+     * @dev Mapping to track the level of each token, levels never go down
+     * @notice Private to enforce access through getter/setter functions
+     */
+    mapping(uint256 => uint8) private tokenLevel;
+
+    // XP needed per level and max health added by each level
+    FamiliarsLib.Leveling public leveling;
+
+    /**
+     * @dev On-chain metadata renderer, unset to only serve the stored URIs
+     */
+    IFamiliarsRenderer public renderer;
+
+    /**
+     * @dev Mapping to track the tokens serving the rendered metadata instead of their stored URI
+     * @notice Private to enforce access through getter/setter functions
+     */
+    mapping(uint256 => bool) private renderedTokens;
 
     /**
      * @dev Modifier to verify token existence before operations
@@ -67,6 +130,24 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
         require(_ownerOf(tokenId) != address(0), "Token does not exist");
         _;
     }
+    /**
+     * @dev Modifier to verify a location is registered
+     * @param _location The location id to verify
+     */
+    modifier locationExists(uint8 _location) {
+        require(_location < locationCount, "Location does not exist");
+        _;
+    }
+
+    /**
+     * @dev Modifier to verify an equipment slot is registered
+     * @param _slot The slot id to verify
+     */
+    modifier slotExists(uint8 _slot) {
+        require(_slot > 0 && _slot <= slotCount, "Slot does not exist");
+        _;
+    }
+
     /**
      * @dev Modifier to restrict function access to only the specified operator
      * @param _caller The address of the function caller
@@ -95,6 +176,42 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
     constructor() ERC721("Familiars", "FMLRS") Ownable(_msgSender()) {
         operator = _msgSender();
         _nextTokenId = 1;
+
+        // Seed the locations that existed before the registry, ids must match FamiliarsLib
+        uint256 everywhere = _actionBit(
+            FamiliarsLib.ActionType.GO_TO_LOCATION
+        ) | _actionBit(FamiliarsLib.ActionType.EQUIP_ITEM);
+        _addLocation(
+            "Karmic Wellspring",
+            everywhere |
+                _actionBit(FamiliarsLib.ActionType.EXCHANGE_KARMIC_ENERGY)
+        );
+        _addLocation(
+            "Karmic Tower",
+            everywhere | _actionBit(FamiliarsLib.ActionType.TRAIN)
+        );
+        _addLocation("Home", everywhere);
+        _addLocation(
+            "Gathering Area",
+            everywhere | _actionBit(FamiliarsLib.ActionType.CRAFT)
+        );
+        _addLocation(
+            "Marketplace",
+            everywhere |
+                _actionBit(FamiliarsLib.ActionType.BUY_FOOD) |
+                _actionBit(FamiliarsLib.ActionType.BUY_TREASURE_BOX) |
+                _actionBit(FamiliarsLib.ActionType.BUY_ITEM) |
+                _actionBit(FamiliarsLib.ActionType.TRADE) |
+                _actionBit(FamiliarsLib.ActionType.REPAIR_ITEM)
+        );
+
+        leveling = FamiliarsLib.Leveling({xpPerLevel: 100, healthPerLevel: 10});
+
+        // Seed the equipment slots, ids must match FamiliarsLib
+        _addSlot("Head");
+        _addSlot("Mouth");
+        _addSlot("Body");
+        _addSlot("Charm");
     }
 
     /**
@@ -111,8 +228,10 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
         latestTokenId = tokenId;
         _safeMint(_to, tokenId);
         _setTokenURI(tokenId, _uri);
-        tokenHealth[tokenId] = 100;
-        tokenLocation[tokenId] = FamiliarsLib.Location.HOME;
+        tokenHealth[tokenId] = FamiliarsLib.BASE_HEALTH;
+        tokenLevel[tokenId] = 1;
+        lastUpkeep[tokenId] = uint64(block.timestamp);
+        tokenLocation[tokenId] = FamiliarsLib.HOME;
         _nextTokenId = tokenId + 1;
         return tokenId;
     }
@@ -133,14 +252,17 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
     /**
      * @dev Sets the health value for a specific token
      * @param _tokenId The ID of the token to modify
-     * @param _health The new health value (0-50)
+     * @param _health The new health value, up to the max health of the token
      * @notice Only callable by contract operator
      */
     function setHealth(
         uint256 _tokenId,
         uint8 _health
     ) external onlyOperator(_msgSender()) tokenExists(_tokenId) {
-        require(_health > 0 && _health <= 100, "Health out of range");
+        require(
+            _health > 0 && _health <= _maxHealth(_tokenId),
+            "Health out of range"
+        );
         tokenHealth[_tokenId] = _health;
         emit FamiliarsLib.SetHealth(_tokenId, _health);
     }
@@ -156,20 +278,270 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
         return tokenHealth[_tokenId];
     }
 
+    /**
+     * @dev Gets the highest health a token can have at its level
+     * @param _tokenId The ID of the token to query
+     * @return uint8 The max health of the token
+     */
+    function getMaxHealth(
+        uint256 _tokenId
+    ) external view tokenExists(_tokenId) returns (uint8) {
+        return _maxHealth(_tokenId);
+    }
+
+    /**
+     * @dev Adds XP to a token, leveling it up every Leveling.xpPerLevel XP
+     * @param _tokenId The ID of the token to modify
+     * @param _xp The XP gained
+     * @notice Only callable by contract operator
+     */
+    function addXp(
+        uint256 _tokenId,
+        uint256 _xp
+    ) external onlyOperator(_msgSender()) tokenExists(_tokenId) {
+        uint256 xp = tokenXp[_tokenId] + _xp;
+        tokenXp[_tokenId] = xp;
+        emit FamiliarsLib.XpGained(_tokenId, _xp, xp);
+
+        uint256 level = 1 + xp / leveling.xpPerLevel;
+        if (level > type(uint8).max) {
+            level = type(uint8).max;
+        }
+        if (level > tokenLevel[_tokenId]) {
+            tokenLevel[_tokenId] = uint8(level);
+            emit FamiliarsLib.LevelUp(_tokenId, uint8(level));
+        }
+    }
+
+    /**
+     * @dev Gets the level of a specific token
+     * @param _tokenId The ID of the token to query
+     * @return uint8 The level of the token, starting at 1
+     */
+    function getLevel(
+        uint256 _tokenId
+    ) external view tokenExists(_tokenId) returns (uint8) {
+        return tokenLevel[_tokenId];
+    }
+
+    /**
+     * @dev Gets the XP gained by a specific token
+     * @param _tokenId The ID of the token to query
+     * @return uint256 The total XP of the token
+     */
+    function getXp(
+        uint256 _tokenId
+    ) external view tokenExists(_tokenId) returns (uint256) {
+        return tokenXp[_tokenId];
+    }
+
+    /**
+     * @dev Sets how tokens level up
+     * @param _xpPerLevel XP needed for each level
+     * @param _healthPerLevel Max health added by each level above 1
+     * @notice Only callable by contract owner, levels already reached are kept
+     */
+    function setLeveling(
+        uint32 _xpPerLevel,
+        uint8 _healthPerLevel
+    ) external onlyOwner {
+        require(_xpPerLevel > 0, "XP per level must be greater than 0");
+        leveling = FamiliarsLib.Leveling({
+            xpPerLevel: _xpPerLevel,
+            healthPerLevel: _healthPerLevel
+        });
+        emit FamiliarsLib.SetLeveling(_xpPerLevel, _healthPerLevel);
+    }
+
+    /**
+     * @dev Sets the timestamp upkeep was last settled for a specific token
+     * @param _tokenId The ID of the token to modify
+     * @param _timestamp The timestamp up to which upkeep has been paid
+     * @notice Only callable by contract operator
+     */
+    function setLastUpkeep(
+        uint256 _tokenId,
+        uint64 _timestamp
+    ) external onlyOperator(_msgSender()) tokenExists(_tokenId) {
+        lastUpkeep[_tokenId] = _timestamp;
+    }
+
+    /**
+     * @dev Gets the timestamp upkeep was last settled for a specific token
+     * @param _tokenId The ID of the token to query
+     * @return uint64 The timestamp, 0 for tokens minted before upkeep existed
+     */
+    function getLastUpkeep(
+        uint256 _tokenId
+    ) external view tokenExists(_tokenId) returns (uint64) {
+        return lastUpkeep[_tokenId];
+    }
+
     /**
      * @dev Moves a NPC to a new location
      * @param _tokenId The ID of the token to move
      * @param _location The destination location
-     * @notice Only callable by contract operator
+     * @notice Only callable by contract operator, cancels any trip in progress
      */
     function goToLocation(
         uint256 _tokenId,
-        FamiliarsLib.Location _location
-    ) external onlyOperator(_msgSender()) tokenExists(_tokenId) {
+        uint8 _location
+    )
+        external
+        onlyOperator(_msgSender())
+        tokenExists(_tokenId)
+        locationExists(_location)
+    {
+        delete travels[_tokenId];
         tokenLocation[_tokenId] = _location;
         emit FamiliarsLib.GoToLocation(_tokenId, locationToString(_location));
     }
 
+    /**
+     * @dev Starts the trip of a NPC to a new location
+     * @param _tokenId The ID of the token to move
+     * @param _destination The destination location
+     * @return uint256 The timestamp from which the NPC can arrive
+     * @notice Only callable by contract operator
+     */
+    function startTravel(
+        uint256 _tokenId,
+        uint8 _destination
+    )
+        external
+        onlyOperator(_msgSender())
+        tokenExists(_tokenId)
+        locationExists(_destination)
+        returns (uint256)
+    {
+        require(travels[_tokenId].arrivalTime == 0, "NPC is in transit");
+        uint8 from = tokenLocation[_tokenId];
+        uint64 arrivalTime = uint64(block.timestamp) +
+            travelDurations[from][_destination];
+        travels[_tokenId] = FamiliarsLib.Travel({
+            from: from,
+            destination: _destination,
+            departureTime: uint64(block.timestamp),
+            arrivalTime: arrivalTime
+        });
+        emit FamiliarsLib.TravelStarted(
+            _tokenId,
+            from,
+            _destination,
+            arrivalTime
+        );
+        return arrivalTime;
+    }
+
+    /**
+     * @dev Ends the trip of a NPC and moves it to the destination
+     * @param _tokenId The ID of the travelling token
+     * @return uint8 The location the NPC arrived at
+     * @notice Only callable by contract operator once the arrival time has passed
+     */
+    function completeTravel(
+        uint256 _tokenId
+    )
+        external
+        onlyOperator(_msgSender())
+        tokenExists(_tokenId)
+        returns (uint8)
+    {
+        FamiliarsLib.Travel memory travel = travels[_tokenId];
+        require(travel.arrivalTime != 0, "NPC is not in transit");
+        require(
+            block.timestamp >= travel.arrivalTime,
+            "NPC has not arrived yet"
+        );
+        delete travels[_tokenId];
+        tokenLocation[_tokenId] = travel.destination;
+        emit FamiliarsLib.GoToLocation(
+            _tokenId,
+            locationToString(travel.destination)
+        );
+        return travel.destination;
+    }
+
+    /**
+     * @dev Gets the trip in progress of a NPC
+     * @param _tokenId The ID of the token to query
+     * @return The trip, with an arrivalTime of 0 if the NPC is not travelling
+     */
+    function getTravel(
+        uint256 _tokenId
+    )
+        external
+        view
+        tokenExists(_tokenId)
+        returns (FamiliarsLib.Travel memory)
+    {
+        return travels[_tokenId];
+    }
+
+    /**
+     * @dev Checks whether a NPC has a trip that has not been completed yet
+     * @param _tokenId The ID of the token to query
+     * @return bool True while the NPC is travelling
+     */
+    function isInTransit(
+        uint256 _tokenId
+    ) external view tokenExists(_tokenId) returns (bool) {
+        return travels[_tokenId].arrivalTime != 0;
+    }
+
+    /**
+     * @dev Gets the estimated arrival of a travelling NPC
+     * @param _tokenId The ID of the token to query
+     * @return destination The location the NPC is travelling to
+     * @return arrivalTime The timestamp from which the NPC can arrive
+     * @return remaining Seconds left until the arrival time, 0 once it passed
+     */
+    function getEta(
+        uint256 _tokenId
+    )
+        external
+        view
+        tokenExists(_tokenId)
+        returns (uint8 destination, uint256 arrivalTime, uint256 remaining)
+    {
+        FamiliarsLib.Travel memory travel = travels[_tokenId];
+        require(travel.arrivalTime != 0, "NPC is not in transit");
+        destination = travel.destination;
+        arrivalTime = travel.arrivalTime;
+        remaining = arrivalTime > block.timestamp
+            ? arrivalTime - block.timestamp
+            : 0;
+    }
+
+    /**
+     * @dev Sets the travel duration from one location to another
+     * @param _from The location the trip starts at
+     * @param _to The destination of the trip
+     * @param _duration The duration in seconds, 0 for instant travel
+     * @notice Only callable by contract owner, trips in progress keep their arrival time
+     */
+    function setTravelDuration(
+        uint8 _from,
+        uint8 _to,
+        uint32 _duration
+    ) external onlyOwner locationExists(_from) locationExists(_to) {
+        travelDurations[_from][_to] = _duration;
+        emit FamiliarsLib.SetTravelDuration(_from, _to, _duration);
+    }
+
+    /**
+     * @dev Gets the travel duration from one location to another
+     * @param _from The location the trip starts at
+     * @param _to The destination of the trip
+     * @return uint32 The duration in seconds
+     */
+    function getTravelDuration(
+        uint8 _from,
+        uint8 _to
+    ) external view returns (uint32) {
+        return travelDurations[_from][_to];
+    }
+
     /**
      * @dev Sets the requirements for a specific location
      * @param _location The location to set requirements for
@@ -177,9 +549,14 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
      * @return The updated requirements for the location
      */
     function setLocationRequirements(
-        FamiliarsLib.Location _location,
+        uint8 _location,
         FamiliarsLib.Requirements memory _requirements
-    ) external onlyOwner returns (FamiliarsLib.Requirements memory) {
+    )
+        external
+        onlyOwner
+        locationExists(_location)
+        returns (FamiliarsLib.Requirements memory)
+    {
         locationRequirements[_location] = _requirements;
         emit FamiliarsLib.SetLocationRequirements(_location, _requirements);
         return _requirements;
@@ -189,16 +566,12 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
      * @dev Gets the current location of a NPC
      * @param _tokenId The ID of the token to query
      * @return string The location name as a string
+     * @return uint8 The location id
      */
     function getCurrentLocation(
         uint256 _tokenId
-    )
-        external
-        view
-        tokenExists(_tokenId)
-        returns (string memory, FamiliarsLib.Location)
-    {
-        FamiliarsLib.Location _location = tokenLocation[_tokenId];
+    ) external view tokenExists(_tokenId) returns (string memory, uint8) {
+        uint8 _location = tokenLocation[_tokenId];
         return (locationToString(_location), _location);
     }
 
@@ -207,7 +580,7 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
      * @return _requirements The requirements for the location
      */
     function getLocationRequirements(
-        FamiliarsLib.Location _location
+        uint8 _location
     ) external view returns (FamiliarsLib.Requirements memory) {
         FamiliarsLib.Requirements memory _requirements = locationRequirements[
             _location
@@ -216,79 +589,256 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
     }
 
     /**
-     * @dev Converts Location enum to human-readable string
-     * @param _location The Location enum value to convert
-     * @return string The human-readable location name
-     * @notice Internal helper function for location conversion
+     * @dev Registers a new location
+     * @param _name The display name of the location
+     * @param _allowedActions Bitmask of the ActionType values allowed at the location
+     * @param _requirements The requirements to travel to the location
+     * @return uint8 The id of the new location
+     * @notice Only callable by contract owner
      */
-    function locationToString(
-        FamiliarsLib.Location _location
-    ) internal pure returns (string memory) {
-        // Define an array of location names corresponding to the enum values
-        string[5] memory locationNames = [
-            "Karmic Wellspring", // Assuming this is the first enum value
-            "Karmic Tower",
-            "Home",
-            "Gathering Area",
-            "Marketplace"
-        ];
+    function addLocation(
+        string memory _name,
+        uint256 _allowedActions,
+        FamiliarsLib.Requirements memory _requirements
+    ) external onlyOwner returns (uint8) {
+        uint8 id = _addLocation(_name, _allowedActions);
+        locationRequirements[id] = _requirements;
+        emit FamiliarsLib.SetLocationRequirements(id, _requirements);
+        return id;
+    }
+
+    /**
+     * @dev Updates the name, enabled flag and allowed actions of a location
+     * @param _location The location id to update
+     * @param _name The display name of the location
+     * @param _enabled False to close the location
+     * @param _allowedActions Bitmask of the ActionType values allowed at the location
+     * @notice Only callable by contract owner
+     */
+    function updateLocation(
+        uint8 _location,
+        string memory _name,
+        bool _enabled,
+        uint256 _allowedActions
+    ) external onlyOwner locationExists(_location) {
+        require(bytes(_name).length > 0, "Location name is empty");
+        locations[_location] = FamiliarsLib.LocationInfo({
+            name: _name,
+            enabled: _enabled,
+            allowedActions: _allowedActions
+        });
+        emit FamiliarsLib.LocationUpdated(
+            _location,
+            _name,
+            _enabled,
+            _allowedActions
+        );
+    }
+
+    /**
+     * @dev Gets a location of the registry with its requirements
+     * @param _location The location id to query
+     * @return The registry entry and the requirements of the location
+     */
+    function getLocation(
+        uint8 _location
+    )
+        external
+        view
+        locationExists(_location)
+        returns (
+            FamiliarsLib.LocationInfo memory,
+            FamiliarsLib.Requirements memory
+        )
+    {
+        return (locations[_location], locationRequirements[_location]);
+    }
 
-        // Convert the enum to its underlying integer value and return the corresponding string
-        uint256 index = uint256(_location);
-        if (index < locationNames.length) {
-            return locationNames[index];
+    /**
+     * @dev Gets every location of the registry, indexed by id
+     * @return _locations The registry entries
+     */
+    function getLocations()
+        external
+        view
+        returns (FamiliarsLib.LocationInfo[] memory _locations)
+    {
+        _locations = new FamiliarsLib.LocationInfo[](locationCount);
+        for (uint256 i = 0; i < locationCount; i++) {
+            _locations[i] = locations[uint8(i)];
         }
+    }
 
-        // Default case if the index is out of bounds
+    /**
+     * @dev Checks whether an action can be taken at a location
+     * @param _location The location id to check
+     * @param _action The action to check
+     * @return bool True if the location exists, is enabled and allows the action
+     */
+    function isActionAllowed(
+        uint8 _location,
+        FamiliarsLib.ActionType _action
+    ) external view returns (bool) {
+        FamiliarsLib.LocationInfo storage location = locations[_location];
+        return
+            _location < locationCount &&
+            location.enabled &&
+            location.allowedActions & _actionBit(_action) != 0;
+    }
+
+    /**
+     * @dev Appends an enabled location to the registry
+     * @param _name The display name of the location
+     * @param _allowedActions Bitmask of the ActionType values allowed at the location
+     * @return id The id of the new location
+     */
+    function _addLocation(
+        string memory _name,
+        uint256 _allowedActions
+    ) private returns (uint8 id) {
+        require(locationCount <= type(uint8).max, "Location limit reached");
+        require(bytes(_name).length > 0, "Location name is empty");
+        id = uint8(locationCount++);
+        locations[id] = FamiliarsLib.LocationInfo({
+            name: _name,
+            enabled: true,
+            allowedActions: _allowedActions
+        });
+        emit FamiliarsLib.LocationAdded(id, _name);
+    }
+
+    /**
+     * @dev Computes the max health of a token from its level
+     * @notice Capped at 255, the largest health that can be stored
+     */
+    function _maxHealth(uint256 _tokenId) internal view returns (uint8) {
+        uint256 maxHealth = FamiliarsLib.BASE_HEALTH +
+            uint256(tokenLevel[_tokenId] - 1) *
+            leveling.healthPerLevel;
+        return
+            maxHealth > type(uint8).max ? type(uint8).max : uint8(maxHealth);
+    }
+
+    /**
+     * @dev Gets the bit of an action in an allowed actions mask
+     * @param _action The action
+     * @return uint256 The mask with only the action bit set
+     */
+    function _actionBit(
+        FamiliarsLib.ActionType _action
+    ) private pure returns (uint256) {
+        return 1 << uint8(_action);
+    }
+
+    /**
+     * @dev Gets the display name of a location
+     * @param _location The location id
+     * @return string The location name, "Unknown Location" if not registered
+     */
+    function locationToString(
+        uint8 _location
+    ) internal view returns (string memory) {
+        if (_location < locationCount) {
+            return locations[_location].name;
+        }
         return "Unknown Location";
     }
 
     /**
-     * @dev Equip Items
-     * @param _tokenId The token ID to equip items to
-     * @param _mouthTokenId The token ID of the mouth item
-     * @param _headTokenId The token ID of the head item
+     * @dev Appends an equipment slot to the registry
+     * @param _name The display name of the slot
+     * @return uint8 The id assigned to the slot
+     * @notice Only callable by contract owner
+     */
+    function addSlot(string memory _name) external onlyOwner returns (uint8) {
+        return _addSlot(_name);
+    }
+
+    /**
+     * @dev Renames an equipment slot
+     * @param _slot The slot id to update
+     * @param _name The display name of the slot
+     * @notice Only callable by contract owner
+     */
+    function updateSlot(
+        uint8 _slot,
+        string memory _name
+    ) external onlyOwner slotExists(_slot) {
+        require(bytes(_name).length > 0, "Slot name is empty");
+        slots[_slot] = _name;
+        emit FamiliarsLib.SlotUpdated(_slot, _name);
+    }
+
+    /**
+     * @dev Gets every registered equipment slot
+     * @return _slots The slot names, the name of slot id i is at index i - 1
+     */
+    function getSlots() external view returns (string[] memory _slots) {
+        _slots = new string[](slotCount);
+        for (uint256 i = 0; i < slotCount; i++) {
+            _slots[i] = slots[uint8(i + 1)];
+        }
+    }
+
+    /**
+     * @dev Appends an equipment slot to the registry
+     * @param _name The display name of the slot
+     * @return id The id assigned to the slot
+     */
+    function _addSlot(string memory _name) private returns (uint8 id) {
+        require(slotCount < type(uint8).max, "Slot limit reached");
+        require(bytes(_name).length > 0, "Slot name is empty");
+        id = uint8(++slotCount);
+        slots[id] = _name;
+        emit FamiliarsLib.SlotAdded(id, _name);
+    }
+
+    /**
+     * @dev Equips an item in a slot, replacing the item already there
+     * @param _tokenId The token ID to equip the item to
+     * @param _slot The slot to fill
+     * @param _itemId The FamiliarsItem id to equip, 0 to empty the slot
      * @param _tba The address of the token balance account
      * @param _familiarItems The address of the ERC1155 contract for items
      * @notice Only callable by contract Operator
      */
     function equipItem(
         uint256 _tokenId,
-        uint256 _mouthTokenId,
-        uint256 _headTokenId,
+        uint8 _slot,
+        uint256 _itemId,
         address _tba,
         address _familiarItems
-    ) external onlyOperator(_msgSender()) tokenExists(_tokenId) {
-        require(
-            _mouthTokenId != _headTokenId,
-            "Mouth and head equippable nft should not equal."
-        );
-        IERC1155 items = IERC1155(_familiarItems);
-        uint256 headBal = items.balanceOf(_tba, _headTokenId);
-        uint256 mouthBal = items.balanceOf(_tba, _mouthTokenId);
-
-        // Initialize equipped items
-        FamiliarsLib.EquipItems memory newEquippedItems = FamiliarsLib
-            .EquipItems({mouth: 0, head: 0});
-
-        // Equip mouth item if balance is greater than 0
-        if (mouthBal > 0) {
-            newEquippedItems.mouth = _mouthTokenId;
+    )
+        external
+        onlyOperator(_msgSender())
+        tokenExists(_tokenId)
+        slotExists(_slot)
+    {
+        uint256 current = equippedItems[_tokenId][_slot];
+        if (_itemId == 0) {
+            require(current != 0, "Slot is empty");
+        } else {
+            FamiliarsItem items = FamiliarsItem(_familiarItems);
+            require(
+                items.getItemSlot(_itemId) == _slot,
+                "Item does not fit the slot"
+            );
+            require(items.balanceOf(_tba, _itemId) > 0, "Item not held");
         }
 
-        // Equip head item if balance is greater than 0
-        if (headBal > 0) {
-            newEquippedItems.head = _headTokenId;
+        if (current != 0) {
+            emit FamiliarsLib.ItemUnequipped(_tokenId, _slot, current);
+        }
+        equippedItems[_tokenId][_slot] = _itemId;
+        if (_itemId != 0) {
+            emit FamiliarsLib.ItemEquipped(_tokenId, _slot, _itemId);
         }
-
-        // Store the equipped items in the mapping
-        equippedItem[_tokenId] = newEquippedItems;
     }
 
     /**
      * @dev Retrieves the equipped items for a given token ID.
      * @param _tokenId The token ID for which to retrieve equipped items.
-     * @return A struct containing the equipped mouth and head item IDs.
+     * @return _items The filled slots with their item IDs, in slot order.
      * @notice This function can only be called if the token exists.
      */
     function getEquippedItems(
@@ -297,10 +847,25 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
         external
         view
         tokenExists(_tokenId)
-        returns (FamiliarsLib.EquipItems memory)
+        returns (FamiliarsLib.EquippedItem[] memory _items)
     {
-        FamiliarsLib.EquipItems memory _equippedItems = equippedItem[_tokenId];
-        return _equippedItems;
+        uint256 count;
+        for (uint256 i = 1; i <= slotCount; i++) {
+            if (equippedItems[_tokenId][uint8(i)] != 0) count++;
+        }
+        _items = new FamiliarsLib.EquippedItem[](count);
+        count = 0;
+        for (uint256 i = 1; i <= slotCount; i++) {
+            uint256 itemId = equippedItems[_tokenId][uint8(i)];
+            if (itemId != 0) {
+                _items[count++] = FamiliarsLib.EquippedItem({
+                    slot: uint8(i),
+                    itemId: itemId,
+                    durability: 0,
+                    maxDurability: 0
+                });
+            }
+        }
     }
 
     /**
@@ -314,13 +879,71 @@ contract Familiars is ERC721, Ownable, ERC721URIStorage {
     }
 
     /**
-     * @dev Required override for tokenURI function due to multiple inheritance
+     * @dev Sets the on-chain metadata renderer
+     * @param _renderer Address of the renderer, 0 to only serve the stored URIs
+     * @notice Only callable by contract owner, asks marketplaces to refresh every token
+     */
+    function setRenderer(address _renderer) external onlyOwner {
+        renderer = IFamiliarsRenderer(_renderer);
+        emit FamiliarsLib.SetRenderer(_renderer);
+        if (latestTokenId > 0) {
+            emit BatchMetadataUpdate(1, latestTokenId);
+        }
+    }
+
+    /**
+     * @dev Switches a token between its stored URI and the rendered metadata
+     * @param _tokenId The ID of the token to switch
+     * @param _rendered True to serve the rendered metadata
+     * @notice Only callable by the token owner or an approved address
+     */
+    function setRenderedURI(
+        uint256 _tokenId,
+        bool _rendered
+    ) external tokenExists(_tokenId) {
+        require(
+            _isAuthorized(_ownerOf(_tokenId), _msgSender(), _tokenId),
+            "Caller is not the token owner"
+        );
+        renderedTokens[_tokenId] = _rendered;
+        emit FamiliarsLib.SetRenderedURI(_tokenId, _rendered);
+        emit MetadataUpdate(_tokenId);
+    }
+
+    /**
+     * @dev Checks whether a token serves the rendered metadata
+     * @param _tokenId The ID of the token to query
+     * @return bool True if the token serves the rendered metadata
+     */
+    function isRenderedURI(
+        uint256 _tokenId
+    ) external view tokenExists(_tokenId) returns (bool) {
+        return renderedTokens[_tokenId];
+    }
+
+    /**
+     * @dev Signals marketplaces that the metadata of a token changed
+     * @param _tokenId The ID of the token whose state changed
+     * @notice Only callable by contract operator, on every action of the token
+     */
+    function notifyMetadataUpdate(
+        uint256 _tokenId
+    ) external onlyOperator(_msgSender()) {
+        emit MetadataUpdate(_tokenId);
+    }
+
+    /**
+     * @dev Gets the metadata URI of a token
      * @param tokenId The ID of the token to query
-     * @return string The URI containing token metadata
+     * @return string The rendered metadata when switched on and a renderer is set, the stored URI otherwise
      */
     function tokenURI(
         uint256 tokenId
     ) public view override(ERC721, ERC721URIStorage) returns (string memory) {
+        if (renderedTokens[tokenId] && address(renderer) != address(0)) {
+            _requireOwned(tokenId);
+            return renderer.tokenURI(tokenId);
+        }
         return super.tokenURI(tokenId);
     }
 
@@ -2,17 +2,17 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
 import "./FamiliarsLib.sol";
 import "./Familiars.sol";
+import "./GameTokenRoles.sol";
 
 /**
  * @title FamiliarsItem
  * @dev Implementation of ERC1155 token for FamiliarsItem equipable item in the game
- * @notice This contract manages the FamiliarsItem resource which can be minted and burned
+ * @notice This contract manages the FamiliarsItem resource which can be minted and burned by the holders of its roles
  */
-contract FamiliarsItem is ERC1155, ERC1155Burnable, Ownable {
+contract FamiliarsItem is ERC1155, ERC1155Burnable, GameTokenRoles {
     // Contract instances for different game components
     Familiars public familiars; // Contract managing Familiar NFTs
     // Operator contract address
@@ -23,12 +23,48 @@ contract FamiliarsItem is ERC1155, ERC1155Burnable, Ownable {
      */
     address public marketplace;
 
+    /**
+     * @dev Crafting contract address
+     */
+    address public crafting;
+
     // Mapping to store item attributes for each token ID
     mapping(uint256 => FamiliarsLib.ItemAttributes) private itemAttributes;
 
+    // Mapping to store the Familiars equipment slot of each token ID, 0 if not equippable
+    mapping(uint256 => uint8) private itemSlots;
+
+    // Uses a unit of each token ID lasts before it breaks, 0 for unbreakable items
+    mapping(uint256 => uint32) private maxDurability;
+
+    // Price in whole coins to restore one use of each token ID
+    mapping(uint256 => uint256) public repairPrices;
+
+    // Uses consumed by the unit in use of each account, reset when the unit breaks
+    // and moved along with the last unit an account transfers
+    mapping(address => mapping(uint256 => uint32)) private wear;
+
     // Event emitted when a new operator is set
     event SetNewOperator(address indexed newOperator);
     event SetNewMarketplace(address indexed newMarketplace);
+    event SetNewCrafting(address indexed newCrafting);
+    event SetItemSlot(uint256 indexed tokenId, uint8 indexed slot);
+    event SetItemDurability(
+        uint256 indexed tokenId,
+        uint32 maxDurability,
+        uint256 repairPrice
+    );
+    event ItemWorn(
+        address indexed account,
+        uint256 indexed tokenId,
+        uint32 durability
+    );
+    event ItemBroken(address indexed account, uint256 indexed tokenId);
+    event ItemRepaired(
+        address indexed account,
+        uint256 indexed tokenId,
+        uint32 restored
+    );
 
     /**
      * @dev Constructor initializes the contract with IPFS URI for token metadata
@@ -40,6 +76,7 @@ contract FamiliarsItem is ERC1155, ERC1155Burnable, Ownable {
     {
         operator = _msgSender();
         marketplace = _msgSender();
+        _rewire(address(0), _msgSender(), true);
     }
 
     /**
@@ -54,9 +91,9 @@ contract FamiliarsItem is ERC1155, ERC1155Burnable, Ownable {
     /**
      * @dev Updates the base URI for token metadata
      * @param newuri New URI to be set
-     * @notice Only callable by contract operator
+     * @notice Only callable by holders of URI_ADMIN_ROLE
      */
-    function setURI(string memory newuri) public onlyOperator {
+    function setURI(string memory newuri) public onlyRole(URI_ADMIN_ROLE) {
         _setURI(newuri);
     }
 
@@ -66,19 +103,52 @@ contract FamiliarsItem is ERC1155, ERC1155Burnable, Ownable {
      * @param tokenId TokenId of the item
      * @param amount Amount of tokens to mint
      * @param _itemAttributes Item attributes
-     * @notice Only callable by contract operator
+     * @notice Only callable by holders of MINTER_ROLE, draws from their mint allowance
      */
     function mint(
         address account,
         uint256 tokenId,
         uint256 amount,
         FamiliarsLib.ItemAttributes calldata _itemAttributes
-    ) public onlyOperator {
+    ) public onlyRole(MINTER_ROLE) {
         require(tokenId != 0, "Token ID 0 is not allowed");
+        _spendMintAllowance(amount);
         _mint(account, tokenId, amount, "");
         itemAttributes[tokenId] = _itemAttributes;
     }
 
+    /**
+     * @dev Moves tokens between accounts without an approval
+     * @param from Address to take the tokens from
+     * @param to Address to receive the tokens
+     * @param id Token ID to move
+     * @param value Amount of tokens to move
+     * @notice Only callable by holders of BURNER_ROLE, escrows player trades
+     */
+    function operatorTransfer(
+        address from,
+        address to,
+        uint256 id,
+        uint256 value
+    ) public onlyRole(BURNER_ROLE) {
+        _safeTransferFrom(from, to, id, value, "");
+    }
+
+    /**
+     * @dev Burns tokens of an account without an approval
+     * @param account Address to burn the tokens from
+     * @param id Token ID to burn
+     * @param value Amount of tokens to burn
+     * @notice Only callable by holders of BURNER_ROLE, consumes crafting inputs
+     */
+    function operatorBurn(
+        address account,
+        uint256 id,
+        uint256 value
+    ) public onlyRole(BURNER_ROLE) {
+        _burn(account, id, value);
+    }
+
     /**
      * @dev Mints FamiliarsItem tokens
      * @param account Address to receive the tokens
@@ -144,12 +214,147 @@ contract FamiliarsItem is ERC1155, ERC1155Burnable, Ownable {
     }
 
     /**
-     * @dev Update operator address
+     * @dev Retrieves the equipment slot of a given token ID
+     * @param _tokenId ID of the item
+     * @return uint8 Slot id in the Familiars slot registry, 0 if not equippable
+     */
+    function getItemSlot(uint256 _tokenId) external view returns (uint8) {
+        return itemSlots[_tokenId];
+    }
+
+    /**
+     * @dev Sets the equipment slot of a given token ID
+     * @param _tokenId ID of the item
+     * @param _slot Slot id in the Familiars slot registry, 0 to make it not equippable
+     * @notice Only callable by contract owner
+     */
+    function setItemSlot(uint256 _tokenId, uint8 _slot) external onlyOwner {
+        itemSlots[_tokenId] = _slot;
+        emit SetItemSlot(_tokenId, _slot);
+    }
+
+    /**
+     * @dev Sets the durability and repair price of a given token ID
+     * @param _tokenId ID of the item
+     * @param _maxDurability Uses a unit lasts before it breaks, 0 for unbreakable
+     * @param _repairPrice Price in whole coins to restore one use
+     * @notice Only callable by contract owner
+     */
+    function setItemDurability(
+        uint256 _tokenId,
+        uint32 _maxDurability,
+        uint256 _repairPrice
+    ) external onlyOwner {
+        maxDurability[_tokenId] = _maxDurability;
+        repairPrices[_tokenId] = _repairPrice;
+        emit SetItemDurability(_tokenId, _maxDurability, _repairPrice);
+    }
+
+    /**
+     * @dev Retrieves the durability of the unit in use of a given token ID
+     * @param _account Account holding the item
+     * @param _tokenId ID of the item
+     * @return durability Uses left before the unit breaks, 0 for unbreakable items
+     * @return max Uses a new unit lasts, 0 for unbreakable items
+     */
+    function getDurability(
+        address _account,
+        uint256 _tokenId
+    ) public view returns (uint32 durability, uint32 max) {
+        max = maxDurability[_tokenId];
+        durability = max - _wearOf(_account, _tokenId);
+    }
+
+    /**
+     * @dev Consumes one use of the unit in use, burning it when it breaks
+     * @param _account Account holding the item
+     * @param _tokenId ID of the item
+     * @return broken True if a unit was burned
+     * @notice Only callable by contract operator, unbreakable items are left as is
+     */
+    function wearItem(
+        address _account,
+        uint256 _tokenId
+    ) external onlyOperator returns (bool broken) {
+        uint32 max = maxDurability[_tokenId];
+        if (max == 0 || balanceOf(_account, _tokenId) == 0) return false;
+
+        uint32 used = _wearOf(_account, _tokenId) + 1;
+        if (used < max) {
+            wear[_account][_tokenId] = used;
+            emit ItemWorn(_account, _tokenId, max - used);
+            return false;
+        }
+        delete wear[_account][_tokenId];
+        _burn(_account, _tokenId, 1);
+        emit ItemBroken(_account, _tokenId);
+        return true;
+    }
+
+    /**
+     * @dev Restores the unit in use to its full durability
+     * @param _account Account holding the item
+     * @param _tokenId ID of the item
+     * @return restored Uses restored, to be paid at repairPrices
+     * @notice Only callable by holders of MINTER_ROLE, restoring uses is as good as minting so each use restored draws from their mint allowance
+     */
+    function repairItem(
+        address _account,
+        uint256 _tokenId
+    ) external onlyRole(MINTER_ROLE) returns (uint32 restored) {
+        require(balanceOf(_account, _tokenId) > 0, "Item not held");
+        restored = _wearOf(_account, _tokenId);
+        require(restored > 0, "Item is not damaged");
+        _spendMintAllowance(restored);
+        delete wear[_account][_tokenId];
+        emit ItemRepaired(_account, _tokenId, restored);
+    }
+
+    /**
+     * @dev Uses consumed by the unit in use, capped at the current max durability
+     * @notice Wear recorded before the owner lowered the max durability counts as a worn out unit
+     */
+    function _wearOf(
+        address _account,
+        uint256 _tokenId
+    ) private view returns (uint32) {
+        uint32 used = wear[_account][_tokenId];
+        uint32 max = maxDurability[_tokenId];
+        return used < max ? used : max;
+    }
+
+    /**
+     * @dev Moves the wear of the last unit an account transfers to the receiver, and forgets it when the unit is burned
+     * @notice Worn units cannot be escrowed by the marketplace, nor sent to an account already using a worn unit
+     */
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override {
+        super._update(from, to, ids, values);
+        if (from == address(0)) return;
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (balanceOf(from, ids[i]) > 0) continue;
+            uint32 used = _wearOf(from, ids[i]);
+            delete wear[from][ids[i]];
+            if (to == address(0) || used == 0) continue;
+            require(to != marketplace, "Repair the item before trading it");
+            require(_wearOf(to, ids[i]) == 0, "Receiver holds a worn unit");
+            wear[to][ids[i]] = used;
+        }
+    }
+
+    /**
+     * @dev Update operator address, moving the game roles and URI_ADMIN_ROLE to it
      * @param _newOperator Address of the new operator
      * @notice Only callable by contract owner
      */
     function setOperator(address _newOperator) external onlyOwner {
+        address previous = operator;
         operator = _newOperator;
+        _rewire(previous, _newOperator, true);
         emit SetNewOperator(_newOperator);
     }
 
@@ -159,7 +364,42 @@ contract FamiliarsItem is ERC1155, ERC1155Burnable, Ownable {
      * @notice Only callable by contract owner
      */
     function setMarketplace(address _marketplace) external onlyOwner {
+        address previous = marketplace;
         marketplace = _marketplace;
+        _rewire(previous, _marketplace, false);
         emit SetNewMarketplace(_marketplace);
     }
+
+    /**
+     * @dev Update crafting address
+     * @param _crafting Address new crafting contract
+     * @notice Only callable by contract owner
+     */
+    function setCrafting(address _crafting) external onlyOwner {
+        address previous = crafting;
+        crafting = _crafting;
+        _rewire(previous, _crafting, false);
+        emit SetNewCrafting(_crafting);
+    }
+
+    /**
+     * @dev Checks if an address is the operator, marketplace or crafting
+     */
+    function _isWired(address _account) internal view override returns (bool) {
+        return
+            operator == _account ||
+            marketplace == _account ||
+            crafting == _account;
+    }
+
+    /**
+     * @dev Required override for supportsInterface function due to multiple inheritance
+     * @param interfaceId The interface identifier to check
+     * @return bool True if the contract supports the interface
+     */
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override(ERC1155, AccessControlEnumerable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
 }
@@ -1,8 +1,11 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.27;
 
-import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
-import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./Familiars.sol";
+import "./FamiliarsItem.sol";
+import "./Coins.sol";
+import "./Food.sol";
+import "./KarmicEnergy.sol";
 
 /**
  * @title FamiliarsLib
@@ -11,14 +14,99 @@ import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
  */
 library FamiliarsLib {
     /**
-     * @dev Enum defining all possible locations in the game
+     * @dev Ids of the locations seeded in the Familiars location registry
+     * @notice Further locations are added by the Familiars owner at runtime
      */
-    enum Location {
-        KARMIC_WELLSPRING, // Location for karma-related activities
-        KARMIC_TOWER, // Advanced karma-related location
-        HOME, // Default resting location
-        GATHERING_AREA, // Resource gathering location
-        MARKET_PLACE // Market place to buy food and coins excgange of karmic energy
+    uint8 internal constant KARMIC_WELLSPRING = 0; // Location for karma-related activities
+    uint8 internal constant KARMIC_TOWER = 1; // Advanced karma-related location
+    uint8 internal constant HOME = 2; // Default resting location
+    uint8 internal constant GATHERING_AREA = 3; // Resource gathering location
+    uint8 internal constant MARKET_PLACE = 4; // Market place to buy food and coins excgange of karmic energy
+
+    /**
+     * @dev Ids of the equipment slots seeded in Familiars, 0 marks items without a slot
+     * @notice Further slots are added by the Familiars owner at runtime
+     */
+    uint8 internal constant HEAD_SLOT = 1;
+    uint8 internal constant MOUTH_SLOT = 2;
+    uint8 internal constant BODY_SLOT = 3;
+    uint8 internal constant CHARM_SLOT = 4;
+
+    /**
+     * @dev Bound of the effective luck of a Familiar, in percent
+     * @notice At MAX_LUCK every random amount rolls its maximum, at -MAX_LUCK its minimum
+     */
+    int16 internal constant MAX_LUCK = 100;
+
+    // Token id of the resources in the ERC-1155 Food and KarmicEnergy contracts
+    uint256 private constant RESOURCE_TOKEN_ID = 0;
+
+    /**
+     * @dev Health of a level 1 Familiar, each level above adds Leveling.healthPerLevel
+     * @notice Health is stored in a uint8, so max health never exceeds 255
+     */
+    uint8 internal constant BASE_HEALTH = 100;
+
+    /**
+     * @dev Enum defining the actions that can be bundled in Operator.executeActions
+     */
+    enum ActionType {
+        GO_TO_LOCATION, // data: abi.encode(uint8 location)
+        EQUIP_ITEM, // data: abi.encode(uint8 slot, uint256 itemId)
+        EXCHANGE_KARMIC_ENERGY, // data: abi.encode(uint256 karmicEnergyAmt)
+        BUY_FOOD, // data: abi.encode(uint256 coinsAmt, uint256 minFoodOut)
+        BUY_TREASURE_BOX, // data: abi.encode(uint256 boxType)
+        BUY_ITEM, // data: abi.encode(uint256 itemId, uint256 qty)
+        TRADE, // Player orders, these cannot be bundled
+        REPAIR_ITEM, // data: abi.encode(uint256 itemId)
+        CRAFT, // data: abi.encode(uint256 recipeId)
+        TRAIN // data: abi.encode(uint256 karmicEnergyAmt)
+    }
+
+    /**
+     * @dev Struct representing a single step of an action bundle
+     */
+    struct Action {
+        ActionType actionType;
+        bytes data;
+    }
+
+    /**
+     * @dev Struct representing an entry of the location registry
+     */
+    struct LocationInfo {
+        string name; // Display name, emitted in GoToLocation
+        bool enabled; // Disabled locations cannot be visited or used
+        uint256 allowedActions; // Bitmask of the ActionType values allowed at the location
+    }
+
+    /**
+     * @dev Struct representing a trip of a Familiar between two locations
+     * @notice arrivalTime is 0 when the Familiar is not travelling
+     */
+    struct Travel {
+        uint8 from; // Location the Familiar left
+        uint8 destination; // Location the Familiar is travelling to
+        uint64 departureTime; // Timestamp the trip started
+        uint64 arrivalTime; // Timestamp from which the Familiar can arrive
+    }
+
+    /**
+     * @dev Struct defining the upkeep Familiars pay while time passes
+     * @notice Health only drains for the hours the food in the account could not cover
+     */
+    struct Upkeep {
+        uint32 foodPerHour; // Food eaten from the account per elapsed hour
+        uint32 healthPerHour; // Health lost per hour without food
+    }
+
+    /**
+     * @dev Struct defining how Familiars level up at the Karmic Tower
+     * @notice Levels start at 1, every xpPerLevel XP reaches the next one
+     */
+    struct Leveling {
+        uint32 xpPerLevel; // XP needed for each level
+        uint8 healthPerLevel; // Max health added by each level above 1
     }
 
     /**
@@ -39,11 +127,13 @@ library FamiliarsLib {
     }
 
     /**
-     * @dev Struct representing the equiped item of Familiar
+     * @dev Struct representing an item equipped in a slot of a Familiar
      */
-    struct EquipItems {
-        uint256 head;
-        uint256 mouth;
+    struct EquippedItem {
+        uint8 slot; // Slot id in the Familiars slot registry
+        uint256 itemId; // FamiliarsItem id
+        uint32 durability; // Uses left, only set by Operator.getNPCStats
+        uint32 maxDurability; // Uses of a new unit, 0 for unbreakable items
     }
 
     /**
@@ -63,13 +153,64 @@ library FamiliarsLib {
         uint8 getHealth; // Health received as reward
         uint8 getKarmicEnergy; // Karmic energy received as reward
         uint8 getFood; // Food received as reward
+        uint8 minLevel; // Minimum level required
+    }
+
+    /**
+     * @dev Struct holding the addresses of the contracts resource changes go through, see applyLocation
+     */
+    struct GameContracts {
+        address familiars;
+        address coins;
+        address food;
+        address karmicEnergy;
+        address familiarsItem;
     }
 
     // Events
     event GoToLocation(uint256 indexed tokenId, string location);
     event GetCurrentLocation(uint256 indexed tokenId, string location);
     event SetHealth(uint256 indexed tokenId, uint256 health);
-    event SetLocationRequirements(Location location, Requirements req);
+    event SetLocationRequirements(uint8 location, Requirements req);
+    event TravelStarted(
+        uint256 indexed tokenId,
+        uint8 from,
+        uint8 destination,
+        uint256 arrivalTime
+    );
+    event SetTravelDuration(
+        uint8 indexed from,
+        uint8 indexed to,
+        uint32 duration
+    );
+    event SetUpkeep(uint32 foodPerHour, uint32 healthPerHour);
+    event SetLeveling(uint32 xpPerLevel, uint8 healthPerLevel);
+    event XpGained(uint256 indexed tokenId, uint256 xp, uint256 totalXp);
+    event LevelUp(uint256 indexed tokenId, uint8 level);
+    event UpkeepSettled(
+        uint256 indexed tokenId,
+        uint256 foodEaten,
+        uint256 healthLost
+    );
+    event LocationAdded(uint8 indexed location, string name);
+    event LocationUpdated(
+        uint8 indexed location,
+        string name,
+        bool enabled,
+        uint256 allowedActions
+    );
+    event SlotAdded(uint8 indexed slot, string name);
+    event SlotUpdated(uint8 indexed slot, string name);
+    event ItemEquipped(
+        uint256 indexed tokenId,
+        uint8 indexed slot,
+        uint256 itemId
+    );
+    event ItemUnequipped(
+        uint256 indexed tokenId,
+        uint8 indexed slot,
+        uint256 itemId
+    );
     event KarmicExchanged(
         address indexed user,
         uint256 karmicAmount,
@@ -77,12 +218,18 @@ library FamiliarsLib {
         uint256 foodReceived
     );
     event SetVerifier(address indexed _newVerifier);
+    event SetCrafting(address indexed crafting);
+    event SetRenderer(address indexed renderer);
+    event SetRenderedURI(uint256 indexed tokenId, bool rendered);
+    event NonceInvalidated(address indexed owner, uint256 nonce);
 
     // Custom errors
     error InsufficientHealth(uint8 required, uint256 current);
     error InsufficientKarmicEnergy(uint256 required, uint256 current);
     error InsufficientFood(uint256 required, uint256 current);
     error InsufficientCoins(uint256 required, uint256 current);
+    error InsufficientLevel(uint8 required, uint256 current);
+    error ActionFailed(uint256 index, bytes reason);
 
     /**
      * @dev Validates if a familiar meets the requirements for an action
@@ -90,6 +237,7 @@ library FamiliarsLib {
      * @param _currentCoins Current coins owned by the familiar
      * @param _currentFood Current food owned by the familiar
      * @param _currentKarmicEnergy Current karmic energy of the familiar
+     * @param _currentLevel Current level of the familiar
      * @param _locationRequirements Requirements structure for the location
      * @notice Reverts if any requirement is not met
      */
@@ -98,11 +246,15 @@ library FamiliarsLib {
         uint256 _currentCoins,
         uint256 _currentFood,
         uint256 _currentKarmicEnergy,
+        uint256 _currentLevel,
         Requirements memory _locationRequirements
-    ) external pure {
+    ) public pure {
         Requirements memory req = _locationRequirements;
 
         // Check minimum requirements
+        if (_currentLevel < req.minLevel) {
+            revert InsufficientLevel(req.minLevel, _currentLevel);
+        }
         if (_currentHealth < req.minHealth) {
             revert InsufficientHealth(req.minHealth, _currentHealth);
         }
@@ -138,25 +290,503 @@ library FamiliarsLib {
     }
 
     /**
-     * @dev Verifies the signature of a gift claim.
-     * @param _nonce The nonce of the contract.
-     * @param _chainId The chainId of the contract where is deployed.
-     * @param _caller The address of the receiver.
-     * @param _signature The signature to verify.
-     * @return signer The address of the signer.
+     * @dev Adds the attributes of an item to a running total
+     * @param total Attributes summed so far, updated in place
+     * @param attr Attributes of the item to add
+     * @notice Each attribute is capped at 255
      */
-    function getVerifier(
-        uint256 _nonce,
-        uint256 _chainId,
-        address _caller,
-        bytes calldata _signature
-    ) internal pure returns (address signer) {
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(_nonce, _chainId, _caller)
+    function addItemAttributes(
+        ItemAttributes memory total,
+        ItemAttributes memory attr
+    ) internal pure {
+        total.healthIncrease = _cappedAdd(
+            total.healthIncrease,
+            attr.healthIncrease
+        );
+        total.healthDecrease = _cappedAdd(
+            total.healthDecrease,
+            attr.healthDecrease
+        );
+        total.karmicIncrease = _cappedAdd(
+            total.karmicIncrease,
+            attr.karmicIncrease
         );
-        bytes32 ethSignedMessageHash = MessageHashUtils.toEthSignedMessageHash(
-            messageHash
+        total.karmicDecrease = _cappedAdd(
+            total.karmicDecrease,
+            attr.karmicDecrease
         );
-        return ECDSA.recover(ethSignedMessageHash, _signature);
+        total.foodIncrease = _cappedAdd(total.foodIncrease, attr.foodIncrease);
+        total.foodDecrease = _cappedAdd(total.foodDecrease, attr.foodDecrease);
+        total.coinIncrease = _cappedAdd(total.coinIncrease, attr.coinIncrease);
+        total.coinDecrease = _cappedAdd(total.coinDecrease, attr.coinDecrease);
+        total.luckIncrease = _cappedAdd(total.luckIncrease, attr.luckIncrease);
+        total.luckDecrease = _cappedAdd(total.luckDecrease, attr.luckDecrease);
+    }
+
+    /**
+     * @dev Adds two attribute values, capped at 255
+     */
+    function _cappedAdd(uint8 a, uint8 b) private pure returns (uint8) {
+        uint256 sum = uint256(a) + b;
+        return sum > type(uint8).max ? type(uint8).max : uint8(sum);
+    }
+
+    /**
+     * @dev Computes the effective luck of a set of equipped items
+     * @param attr Summed attributes of the equipped items
+     * @return int16 luckIncrease minus luckDecrease, bounded by MAX_LUCK
+     */
+    function effectiveLuck(
+        ItemAttributes memory attr
+    ) internal pure returns (int16) {
+        int16 luck = int16(uint16(attr.luckIncrease)) -
+            int16(uint16(attr.luckDecrease));
+        if (luck > MAX_LUCK) return MAX_LUCK;
+        if (luck < -MAX_LUCK) return -MAX_LUCK;
+        return luck;
+    }
+
+    /**
+     * @dev Skews a uniform roll in [0, range) with luck
+     * @param roll Uniform roll, must be below range
+     * @param range Number of possible outcomes
+     * @param luck Effective luck, positive moves the roll toward range - 1
+     *        and negative toward 0, by luck percent of the distance
+     * @return uint256 The skewed roll, still in [0, range)
+     */
+    function applyLuck(
+        uint256 roll,
+        uint256 range,
+        int16 luck
+    ) internal pure returns (uint256) {
+        if (luck > 0) {
+            return roll + ((range - 1 - roll) * uint16(luck)) / 100;
+        }
+        return roll - (roll * uint16(-luck)) / 100;
+    }
+
+    /**
+     * @dev Applies the requirements, costs and rewards of a location and of the equipped items to a Familiar
+     * @param _game Contracts of the game the changes go through
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address
+     * @param _location The location whose requirements apply
+     * @param _costs True to check the requirements, pay the costs and wear the equipment
+     * @param _rewards True to give the rewards
+     * @notice Linked by the Operator, the token contracts see the Operator as caller
+     */
+    function applyLocation(
+        GameContracts memory _game,
+        uint256 _tokenId,
+        address _tba,
+        uint8 _location,
+        bool _costs,
+        bool _rewards
+    ) external {
+        _clearUnheldEquipment(_game, _tokenId, _tba);
+        _processResourceChanges(
+            _game,
+            _tokenId,
+            _tba,
+            _location,
+            _costs,
+            _rewards
+        );
+        if (_costs) _wearEquipment(_game, _tokenId, _tba);
+    }
+
+    /**
+     * @dev Computes the upkeep a Familiar owes since it was last settled
+     * @param _game Contracts of the game
+     * @param _upkeep Current upkeep rates
+     * @param _upkeepChangedAt Time the current rates were set
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address
+     * @return foodEaten Food that will be burned from the Familiar's account
+     * @return healthLost Health that will be drained for the hours without food
+     * @return elapsedHours Whole hours since the last settlement or the rate change
+     * @notice Hours before the rates changed are not owed, health never drains below 1
+     */
+    function pendingUpkeep(
+        GameContracts memory _game,
+        Upkeep memory _upkeep,
+        uint64 _upkeepChangedAt,
+        uint256 _tokenId,
+        address _tba
+    )
+        public
+        view
+        returns (uint256 foodEaten, uint256 healthLost, uint256 elapsedHours)
+    {
+        uint64 since = _upkeepSince(_game, _upkeepChangedAt, _tokenId);
+        if (since == 0) return (0, 0, 0);
+        elapsedHours = (block.timestamp - since) / 1 hours;
+        if (_upkeep.foodPerHour == 0) return (0, 0, elapsedHours);
+
+        uint256 foodBalance = Food(_game.food).balanceOf(
+            _tba,
+            RESOURCE_TOKEN_ID
+        );
+        uint256 foodDue = elapsedHours * _upkeep.foodPerHour;
+        if (foodBalance >= foodDue) {
+            return (foodDue, 0, elapsedHours);
+        }
+
+        // The account is emptied and health drains for every hour it could not cover
+        uint256 fedHours = foodBalance / _upkeep.foodPerHour;
+        uint256 health = Familiars(_game.familiars).getHealth(_tokenId);
+        healthLost = (elapsedHours - fedHours) * _upkeep.healthPerHour;
+        if (healthLost >= health) {
+            healthLost = health - 1;
+        }
+        foodEaten = foodBalance;
+    }
+
+    /**
+     * @dev Eats the food and drains the health owed for the hours since the last settlement
+     * @param _game Contracts of the game the changes go through
+     * @param _upkeep Current upkeep rates
+     * @param _upkeepChangedAt Time the current rates were set
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address
+     * @return foodEaten Food burned from the Familiar's account
+     * @return healthLost Health drained for the hours without food
+     * @notice Linked by the Operator, the token contracts see the Operator as caller
+     */
+    function settleUpkeep(
+        GameContracts memory _game,
+        Upkeep memory _upkeep,
+        uint64 _upkeepChangedAt,
+        uint256 _tokenId,
+        address _tba
+    ) external returns (uint256 foodEaten, uint256 healthLost) {
+        uint64 since = _upkeepSince(_game, _upkeepChangedAt, _tokenId);
+        if (since == 0) {
+            // Start the clock of Familiars minted before upkeep existed
+            Familiars(_game.familiars).setLastUpkeep(
+                _tokenId,
+                uint64(block.timestamp)
+            );
+            return (0, 0);
+        }
+        uint256 elapsedHours;
+        (foodEaten, healthLost, elapsedHours) = pendingUpkeep(
+            _game,
+            _upkeep,
+            _upkeepChangedAt,
+            _tokenId,
+            _tba
+        );
+        if (elapsedHours == 0) return (0, 0);
+
+        // Only whole hours are settled, the rest carries over
+        Familiars(_game.familiars).setLastUpkeep(
+            _tokenId,
+            since + uint64(elapsedHours * 1 hours)
+        );
+        if (foodEaten > 0) {
+            Food(_game.food).burn(_tba, RESOURCE_TOKEN_ID, foodEaten);
+        }
+        if (healthLost > 0) {
+            Familiars familiars = Familiars(_game.familiars);
+            familiars.setHealth(
+                _tokenId,
+                familiars.getHealth(_tokenId) - uint8(healthLost)
+            );
+        }
+    }
+
+    /**
+     * @dev Gets the time the pending upkeep of a Familiar is counted from
+     * @param _game Contracts of the game
+     * @param _upkeepChangedAt Time the current rates were set
+     * @param _tokenId The ID of the Familiar
+     * @return The later of its last settlement and the rate change, 0 before its clock started
+     */
+    function _upkeepSince(
+        GameContracts memory _game,
+        uint64 _upkeepChangedAt,
+        uint256 _tokenId
+    ) private view returns (uint64) {
+        uint64 lastUpkeep = Familiars(_game.familiars).getLastUpkeep(_tokenId);
+        if (lastUpkeep == 0) return 0;
+        return lastUpkeep > _upkeepChangedAt ? lastUpkeep : _upkeepChangedAt;
+    }
+
+    /**
+     * @dev Retrieves the summed attributes of the items equipped in every slot
+     * @param _game Contracts of the game
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address, items it no longer holds are left out
+     * @return items Attributes of all equipped items, each capped at 255
+     */
+    function equippedItemAttributes(
+        GameContracts memory _game,
+        uint256 _tokenId,
+        address _tba
+    ) public view returns (ItemAttributes memory items) {
+        EquippedItem[] memory equipped = Familiars(_game.familiars)
+            .getEquippedItems(_tokenId);
+        FamiliarsItem familiarsItem = FamiliarsItem(_game.familiarsItem);
+        for (uint256 i = 0; i < equipped.length; i++) {
+            uint256 itemId = equipped[i].itemId;
+            if (familiarsItem.balanceOf(_tba, itemId) == 0) continue;
+            addItemAttributes(items, familiarsItem.getItemAttributes(itemId));
+        }
+    }
+
+    /**
+     * @dev Empties the slots whose item is no longer held by the account
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address
+     */
+    function _clearUnheldEquipment(
+        GameContracts memory _game,
+        uint256 _tokenId,
+        address _tba
+    ) private {
+        EquippedItem[] memory equipped = Familiars(_game.familiars)
+            .getEquippedItems(_tokenId);
+
+        // Empty the slots whose item is no longer owned by the account
+        for (uint256 i = 0; i < equipped.length; i++) {
+            if (
+                FamiliarsItem(_game.familiarsItem).balanceOf(
+                    _tba,
+                    equipped[i].itemId
+                ) == 0
+            ) {
+                Familiars(_game.familiars).equipItem(
+                    _tokenId,
+                    equipped[i].slot,
+                    0,
+                    _tba,
+                    _game.familiarsItem
+                );
+            }
+        }
+    }
+
+    /**
+     * @dev Consumes one use of every equipped item, unequipping the broken ones
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address
+     * @notice A broken item stays equipped while the account holds more units
+     */
+    function _wearEquipment(
+        GameContracts memory _game,
+        uint256 _tokenId,
+        address _tba
+    ) private {
+        EquippedItem[] memory equipped = Familiars(_game.familiars)
+            .getEquippedItems(_tokenId);
+
+        for (uint256 i = 0; i < equipped.length; i++) {
+            uint256 itemId = equipped[i].itemId;
+            if (
+                FamiliarsItem(_game.familiarsItem).wearItem(_tba, itemId) &&
+                FamiliarsItem(_game.familiarsItem).balanceOf(_tba, itemId) == 0
+            ) {
+                Familiars(_game.familiars).equipItem(
+                    _tokenId,
+                    equipped[i].slot,
+                    0,
+                    _tba,
+                    _game.familiarsItem
+                );
+            }
+        }
+    }
+
+    /**
+     * @dev Processes all resource changes for a Familiar
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address
+     * @param _costs True to check the requirements and pay the costs
+     * @param _rewards True to give the rewards
+     */
+    function _processResourceChanges(
+        GameContracts memory _game,
+        uint256 _tokenId,
+        address _tba,
+        uint8 _location,
+        bool _costs,
+        bool _rewards
+    ) private {
+        // Get location requirements
+        Requirements memory req = Familiars(_game.familiars)
+            .getLocationRequirements(_location);
+        // Get current health, the other balances are only needed for the checks
+        uint256 currentHealth = Familiars(_game.familiars).getHealth(_tokenId);
+        if (_costs) {
+            // Verify all requirements are met
+            checkRequirements(
+                currentHealth,
+                Coins(_game.coins).balanceOf(_tba),
+                Food(_game.food).balanceOf(_tba, RESOURCE_TOKEN_ID),
+                KarmicEnergy(_game.karmicEnergy).balanceOf(
+                    _tba,
+                    RESOURCE_TOKEN_ID
+                ),
+                Familiars(_game.familiars).getLevel(_tokenId),
+                req
+            );
+        }
+
+        // Get attributes of equipped items
+        ItemAttributes memory items = equippedItemAttributes(
+            _game,
+            _tokenId,
+            _tba
+        );
+
+        // Leave out the side of the changes that is not applied in this step
+        if (!_costs) _clearCosts(req, items);
+        if (!_rewards) _clearRewards(req, items);
+
+        // Process changes for each resource type
+        _processHealthChanges(_game, _tokenId, currentHealth, req, items);
+        _processKarmicEnergyChanges(_game, _tba, req, items);
+        _processFoodChanges(_game, _tba, req, items);
+        _processCoinChanges(_game, _tba, req, items);
+    }
+
+    /**
+     * @dev Zeroes the costs of a location and of the equipped items
+     * @param req Location requirements
+     * @param items Summed attributes of the equipped items
+     */
+    function _clearCosts(
+        Requirements memory req,
+        ItemAttributes memory items
+    ) private pure {
+        req.healthCost = 0;
+        req.karmicEnergyCost = 0;
+        req.foodCost = 0;
+        req.coinCost = 0;
+        items.healthDecrease = 0;
+        items.karmicDecrease = 0;
+        items.foodDecrease = 0;
+        items.coinDecrease = 0;
+    }
+
+    /**
+     * @dev Zeroes the rewards of a location and of the equipped items
+     * @param req Location requirements
+     * @param items Summed attributes of the equipped items
+     */
+    function _clearRewards(
+        Requirements memory req,
+        ItemAttributes memory items
+    ) private pure {
+        req.getHealth = 0;
+        req.getKarmicEnergy = 0;
+        req.getFood = 0;
+        req.getCoin = 0;
+        items.healthIncrease = 0;
+        items.karmicIncrease = 0;
+        items.foodIncrease = 0;
+        items.coinIncrease = 0;
+    }
+
+    /**
+     * @dev Processes health changes for a Familiar
+     * @param _tokenId The ID of the Familiar
+     * @param currentHealth Current health value
+     * @param req Location requirements
+     * @param items Summed attributes of the equipped items
+     */
+    function _processHealthChanges(
+        GameContracts memory _game,
+        uint256 _tokenId,
+        uint256 currentHealth,
+        Requirements memory req,
+        ItemAttributes memory items
+    ) private {
+        unchecked {
+            uint256 healthGain = req.getHealth + items.healthIncrease;
+            uint256 healthLoss = req.healthCost + items.healthDecrease;
+            uint256 newHealth;
+            if (currentHealth + healthGain >= healthLoss) {
+                newHealth = currentHealth + healthGain - healthLoss;
+            } else {
+                newHealth = 0;
+            }
+            uint256 maxHealth = Familiars(_game.familiars).getMaxHealth(
+                _tokenId
+            );
+            if (newHealth > maxHealth) {
+                newHealth = maxHealth;
+            }
+
+            Familiars(_game.familiars).setHealth(_tokenId, uint8(newHealth));
+        }
+    }
+
+    /**
+     * @dev Processes Karmic Energy changes
+     * @param _tba Token Bound Account address
+     * @param req Location requirements
+     * @param items Summed attributes of the equipped items
+     */
+    function _processKarmicEnergyChanges(
+        GameContracts memory _game,
+        address _tba,
+        Requirements memory req,
+        ItemAttributes memory items
+    ) private {
+        uint256 karmicGain = req.getKarmicEnergy + items.karmicIncrease;
+        uint256 karmicLoss = req.karmicEnergyCost + items.karmicDecrease;
+
+        KarmicEnergy karmicEnergy = KarmicEnergy(_game.karmicEnergy);
+        if (karmicGain > karmicLoss) {
+            karmicEnergy.mint(_tba, karmicGain - karmicLoss);
+        } else if (karmicGain < karmicLoss) {
+            karmicEnergy.burn(_tba, RESOURCE_TOKEN_ID, karmicLoss - karmicGain);
+        }
+    }
+
+    /**
+     * @dev Processes Food changes
+     * @param _tba Token Bound Account address
+     * @param req Location requirements
+     * @param items Summed attributes of the equipped items
+     */
+    function _processFoodChanges(
+        GameContracts memory _game,
+        address _tba,
+        Requirements memory req,
+        ItemAttributes memory items
+    ) private {
+        uint256 foodGain = req.getFood + items.foodIncrease;
+        uint256 foodLoss = req.foodCost + items.foodDecrease;
+
+        if (foodGain > foodLoss) {
+            Food(_game.food).mint(_tba, foodGain - foodLoss);
+        } else if (foodGain < foodLoss) {
+            Food(_game.food).burn(_tba, RESOURCE_TOKEN_ID, foodLoss - foodGain);
+        }
+    }
+
+    /**
+     * @dev Processes Coin changes
+     * @param _tba Token Bound Account address
+     * @param req Location requirements
+     * @param items Summed attributes of the equipped items
+     */
+    function _processCoinChanges(
+        GameContracts memory _game,
+        address _tba,
+        Requirements memory req,
+        ItemAttributes memory items
+    ) private {
+        uint256 coinGain = req.getCoin + items.coinIncrease;
+        uint256 coinLoss = req.coinCost + items.coinDecrease;
+
+        if (coinGain > coinLoss) {
+            Coins(_game.coins).mint(_tba, coinGain - coinLoss);
+        } else if (coinGain < coinLoss) {
+            Coins(_game.coins).burnFrom(_tba, coinLoss - coinGain);
+        }
     }
 }
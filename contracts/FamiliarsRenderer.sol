@@ -0,0 +1,223 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts/access/Ownable.sol"; // Provides basic access control
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./interfaces/IFamiliarsRenderer.sol";
+import "./Operator.sol";
+
+/**
+ * @title FamiliarsRenderer
+ * @dev Renders the metadata of Familiars from their live state as a base64 JSON data URI with an SVG card
+ * @notice Location and slot names are written as set by the Familiars owner, without escaping
+ */
+contract FamiliarsRenderer is IFamiliarsRenderer, Ownable {
+    using Strings for uint256;
+
+    // Operator the state of the Familiars is read through
+    Operator public operator;
+
+    /**
+     * @dev Struct holding the state of a Familiar shown on its metadata
+     */
+    struct Card {
+        uint256 tokenId;
+        uint8 health;
+        uint8 maxHealth;
+        uint8 level;
+        string location;
+        uint256 coins; // Whole coins
+        uint256 karmicEnergy;
+        uint256 food;
+        FamiliarsLib.EquippedItem[] items;
+        string[] slotNames; // Indexed by slot id - 1
+    }
+
+    // Events
+    event SetNewOperator(address indexed newOpertor);
+
+    constructor(address _operator) Ownable(_msgSender()) {
+        operator = Operator(_operator);
+    }
+
+    /**
+     * @dev Renders the metadata of a Familiar
+     * @param tokenId The ID of the Familiar
+     * @return string A data:application/json;base64 URI
+     */
+    function tokenURI(
+        uint256 tokenId
+    ) external view override returns (string memory) {
+        Card memory card = _loadCard(tokenId);
+        string memory json = string.concat(
+            '{"name":"Familiar #',
+            tokenId.toString(),
+            '","description":"A Familiar rendered from its on-chain state",',
+            '"image":"data:image/svg+xml;base64,',
+            Base64.encode(bytes(_svg(card))),
+            '","attributes":[',
+            _attributes(card),
+            "]}"
+        );
+        return
+            string.concat(
+                "data:application/json;base64,",
+                Base64.encode(bytes(json))
+            );
+    }
+
+    /**
+     * @dev Update operator address
+     * @param _newOperator Address new operator
+     * @notice Only callable by contract owner
+     */
+    function setOperator(address _newOperator) external onlyOwner {
+        operator = Operator(_newOperator);
+        emit SetNewOperator(_newOperator);
+    }
+
+    /**
+     * @dev Reads the state of a Familiar from the Operator and the Familiars contract
+     */
+    function _loadCard(
+        uint256 _tokenId
+    ) internal view returns (Card memory card) {
+        Familiars familiars = operator.familiars();
+        card.tokenId = _tokenId;
+        (
+            card.health,
+            card.location,
+            card.coins,
+            card.karmicEnergy,
+            card.food,
+            card.items
+        ) = operator.getNPCStats(_tokenId);
+        card.coins /= 10 ** operator.coins().decimals();
+        card.maxHealth = familiars.getMaxHealth(_tokenId);
+        card.level = familiars.getLevel(_tokenId);
+        card.slotNames = familiars.getSlots();
+    }
+
+    /**
+     * @dev Builds the JSON attributes of a Familiar, without the brackets
+     */
+    function _attributes(
+        Card memory _card
+    ) internal pure returns (string memory attributes) {
+        attributes = string.concat(
+            '{"trait_type":"Health","value":',
+            uint256(_card.health).toString(),
+            ',"max_value":',
+            uint256(_card.maxHealth).toString(),
+            '},{"trait_type":"Location","value":"',
+            _card.location,
+            '"},'
+        );
+        attributes = string.concat(
+            attributes,
+            _numberTrait("Level", _card.level),
+            ",",
+            _numberTrait("Coins", _card.coins),
+            ",",
+            _numberTrait("Food", _card.food),
+            ",",
+            _numberTrait("Karmic Energy", _card.karmicEnergy)
+        );
+        for (uint256 i = 0; i < _card.items.length; i++) {
+            attributes = string.concat(
+                attributes,
+                ',{"trait_type":"',
+                _card.slotNames[_card.items[i].slot - 1],
+                '","value":"Item #',
+                _card.items[i].itemId.toString(),
+                '"}'
+            );
+        }
+    }
+
+    /**
+     * @dev Builds a numeric JSON attribute
+     */
+    function _numberTrait(
+        string memory _name,
+        uint256 _value
+    ) internal pure returns (string memory) {
+        return
+            string.concat(
+                '{"display_type":"number","trait_type":"',
+                _name,
+                '","value":',
+                _value.toString(),
+                "}"
+            );
+    }
+
+    /**
+     * @dev Builds the SVG card of a Familiar, one line per stat and equipped item
+     */
+    function _svg(Card memory _card) internal pure returns (string memory svg) {
+        uint256 height = 250 + _card.items.length * 30;
+        svg = string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="',
+            height.toString(),
+            '"><style>text{font-family:monospace;font-size:16px;fill:#f5f0e6}</style>',
+            '<rect width="100%" height="100%" rx="16" fill="#2b2148"/>',
+            _line(0, string.concat("Familiar #", _card.tokenId.toString())),
+            _line(
+                1,
+                string.concat("Level ", uint256(_card.level).toString())
+            )
+        );
+        svg = string.concat(
+            svg,
+            _line(
+                2,
+                string.concat(
+                    "Health ",
+                    uint256(_card.health).toString(),
+                    "/",
+                    uint256(_card.maxHealth).toString()
+                )
+            ),
+            _line(3, _card.location),
+            _line(4, string.concat("Coins ", _card.coins.toString())),
+            _line(5, string.concat("Food ", _card.food.toString())),
+            _line(
+                6,
+                string.concat("Karmic Energy ", _card.karmicEnergy.toString())
+            )
+        );
+        for (uint256 i = 0; i < _card.items.length; i++) {
+            svg = string.concat(
+                svg,
+                _line(
+                    7 + i,
+                    string.concat(
+                        _card.slotNames[_card.items[i].slot - 1],
+                        ": Item #",
+                        _card.items[i].itemId.toString()
+                    )
+                )
+            );
+        }
+        svg = string.concat(svg, "</svg>");
+    }
+
+    /**
+     * @dev Builds a line of text of the SVG card
+     */
+    function _line(
+        uint256 _index,
+        string memory _text
+    ) internal pure returns (string memory) {
+        return
+            string.concat(
+                '<text x="24" y="',
+                (40 + _index * 30).toString(),
+                '">',
+                _text,
+                "</text>"
+            );
+    }
+}
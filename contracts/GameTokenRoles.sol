@@ -0,0 +1,178 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/IAccessControl.sol";
+import "@openzeppelin/contracts/access/extensions/AccessControlEnumerable.sol";
+
+/**
+ * @title GameTokenRoles
+ * @dev Role-based mint, burn and URI permissions shared by the game tokens
+ * @notice Roles are granted and revoked by the owner of the token. A MINTER_ROLE grant may carry a mint allowance that each mint draws from
+ */
+abstract contract GameTokenRoles is AccessControlEnumerable, Ownable {
+    // Allowed to mint tokens, up to its mint allowance
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    // Allowed to burn and move tokens of any account
+    bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+    // Allowed to update the metadata URI
+    bytes32 public constant URI_ADMIN_ROLE = keccak256("URI_ADMIN_ROLE");
+
+    // Mint allowance of grants without a limit
+    uint256 public constant UNLIMITED_ALLOWANCE = type(uint256).max;
+
+    // Amount each holder of a role may still mint, in the unit of the mint functions
+    mapping(bytes32 => mapping(address => uint256)) private mintAllowances;
+
+    // Events
+    event SetMintAllowance(
+        bytes32 indexed role,
+        address indexed account,
+        uint256 allowance
+    );
+
+    /**
+     * @dev Grants a role without a mint allowance limit
+     * @param role Role to grant
+     * @param account Address receiving the role
+     * @notice Only callable by contract owner
+     */
+    function grantRole(
+        bytes32 role,
+        address account
+    ) public override(AccessControl, IAccessControl) onlyOwner {
+        _grantRoleWithAllowance(role, account, UNLIMITED_ALLOWANCE);
+    }
+
+    /**
+     * @dev Grants a role with a mint allowance
+     * @param role Role to grant
+     * @param account Address receiving the role
+     * @param allowance Amount the account may mint, UNLIMITED_ALLOWANCE for no limit
+     * @notice Only callable by contract owner
+     */
+    function grantRoleWithAllowance(
+        bytes32 role,
+        address account,
+        uint256 allowance
+    ) external onlyOwner {
+        _grantRoleWithAllowance(role, account, allowance);
+    }
+
+    /**
+     * @dev Revokes a role and its mint allowance
+     * @param role Role to revoke
+     * @param account Address losing the role
+     * @notice Only callable by contract owner
+     */
+    function revokeRole(
+        bytes32 role,
+        address account
+    ) public override(AccessControl, IAccessControl) onlyOwner {
+        _revokeRole(role, account);
+    }
+
+    /**
+     * @dev Updates the mint allowance of a role holder
+     * @param role Role held by the account
+     * @param account Address holding the role
+     * @param allowance Amount the account may mint, UNLIMITED_ALLOWANCE for no limit
+     * @notice Only callable by contract owner
+     */
+    function setMintAllowance(
+        bytes32 role,
+        address account,
+        uint256 allowance
+    ) external onlyOwner {
+        require(hasRole(role, account), "Account does not hold the role");
+        mintAllowances[role][account] = allowance;
+        emit SetMintAllowance(role, account, allowance);
+    }
+
+    /**
+     * @dev Retrieves the amount a role holder may still mint
+     * @param role Role held by the account
+     * @param account Address holding the role
+     * @return uint256 Remaining allowance, 0 if the account does not hold the role
+     */
+    function mintAllowance(
+        bytes32 role,
+        address account
+    ) external view returns (uint256) {
+        return mintAllowances[role][account];
+    }
+
+    /**
+     * @dev Draws a mint from the MINTER_ROLE allowance of the caller
+     * @param _amount Amount minted
+     */
+    function _spendMintAllowance(uint256 _amount) internal {
+        uint256 allowance = mintAllowances[MINTER_ROLE][_msgSender()];
+        if (allowance == UNLIMITED_ALLOWANCE) return;
+        require(allowance >= _amount, "Mint allowance exceeded");
+        mintAllowances[MINTER_ROLE][_msgSender()] = allowance - _amount;
+    }
+
+    /**
+     * @dev Moves the MINTER_ROLE and BURNER_ROLE of a replaced game contract to its successor
+     * @param _previous Address replaced, keeps its roles while it is still wired in elsewhere
+     * @param _next Address of the new game contract
+     * @param _uriAdmin True to move URI_ADMIN_ROLE as well
+     * @notice Called after the address is updated, so _isWired no longer sees the replaced one
+     */
+    function _rewire(
+        address _previous,
+        address _next,
+        bool _uriAdmin
+    ) internal {
+        if (_previous != address(0) && _previous != _next) {
+            if (_uriAdmin) _revokeRole(URI_ADMIN_ROLE, _previous);
+            if (!_isWired(_previous)) {
+                _revokeRole(MINTER_ROLE, _previous);
+                _revokeRole(BURNER_ROLE, _previous);
+            }
+        }
+        if (_next == address(0)) return;
+        if (_uriAdmin) _grantWiredRole(URI_ADMIN_ROLE, _next);
+        _grantWiredRole(MINTER_ROLE, _next);
+        _grantWiredRole(BURNER_ROLE, _next);
+    }
+
+    /**
+     * @dev Checks if an address is one of the game contracts wired into the token
+     */
+    function _isWired(address _account) internal view virtual returns (bool);
+
+    /**
+     * @dev Grants a role if missing and sets its mint allowance
+     */
+    function _grantRoleWithAllowance(
+        bytes32 _role,
+        address _account,
+        uint256 _allowance
+    ) private {
+        _grantRole(_role, _account);
+        mintAllowances[_role][_account] = _allowance;
+        emit SetMintAllowance(_role, _account, _allowance);
+    }
+
+    /**
+     * @dev Grants a role to a wired game contract without a limit, keeping the allowance of an existing grant
+     */
+    function _grantWiredRole(bytes32 _role, address _account) private {
+        if (!_grantRole(_role, _account)) return;
+        mintAllowances[_role][_account] = UNLIMITED_ALLOWANCE;
+        emit SetMintAllowance(_role, _account, UNLIMITED_ALLOWANCE);
+    }
+
+    /**
+     * @dev Drops the mint allowance of revoked and renounced roles
+     */
+    function _revokeRole(
+        bytes32 _role,
+        address _account
+    ) internal override returns (bool revoked) {
+        revoked = super._revokeRole(_role, _account);
+        if (revoked) delete mintAllowances[_role][_account];
+    }
+}
@@ -2,14 +2,14 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "./GameTokenRoles.sol";
 
 /**
  * @title KarmicEnergy
  * @dev Implementation of ERC1155 token for KarmicEnergy resources in the game
- * @notice This contract manages the KarmicEnergy resource which can be minted and burned
+ * @notice This contract manages the KarmicEnergy resource which can be minted and burned by the holders of its roles
  */
-contract KarmicEnergy is ERC1155, Ownable {
+contract KarmicEnergy is ERC1155, GameTokenRoles {
     /**
      * @dev Operator contract address
      */
@@ -25,6 +25,11 @@ contract KarmicEnergy is ERC1155, Ownable {
      */
     address public karmicSpring;
 
+    /**
+     * @dev Crafting contract address
+     */
+    address public crafting;
+
     /**
      * @dev Constructor initializes the contract with IPFS URI for token metadata
      * @notice Sets the initial URI and transfers ownership to the deployer
@@ -36,33 +41,23 @@ contract KarmicEnergy is ERC1155, Ownable {
         operator = _msgSender();
         marketplace = _msgSender();
         karmicSpring = _msgSender();
+        _rewire(address(0), _msgSender(), true);
     }
 
     // Events
     event SetNewOperator(address indexed newOpertor);
     event SetNewMarketplace(address indexed newMarketplace);
     event SetNewKarmicWellSpring(address indexed newKarmic);
-
-    /**
-     * @dev Modifier to restrict function access to only the specified operator/marketplace
-     * @dev Throws if the caller is not the authorized operator/marketplace
-     */
-    modifier onlyOperators() {
-        require(
-            operator == _msgSender() ||
-                marketplace == _msgSender() ||
-                karmicSpring == _msgSender(),
-            "Caller is not the operator or marketplace"
-        );
-        _;
-    }
+    event SetNewCrafting(address indexed newCrafting);
 
     /**
      * @dev Updates the base URI for token metadata
      * @param newuri New URI to be set
-     * @notice Only callable by contract operator/marketplace
+     * @notice Only callable by holders of URI_ADMIN_ROLE
      */
-    function setURI(string memory newuri) public onlyOperators {
+    function setURI(
+        string memory newuri
+    ) public onlyRole(URI_ADMIN_ROLE) {
         _setURI(newuri);
     }
 
@@ -70,9 +65,13 @@ contract KarmicEnergy is ERC1155, Ownable {
      * @dev Mints KarmicEnergy tokens
      * @param account Address to receive the tokens
      * @param amount Amount of tokens to mint
-     * @notice Only callable by contract operator/marketplace
+     * @notice Only callable by holders of MINTER_ROLE, draws from their mint allowance. Always mints token ID 0
      */
-    function mint(address account, uint256 amount) public onlyOperators {
+    function mint(
+        address account,
+        uint256 amount
+    ) public onlyRole(MINTER_ROLE) {
+        _spendMintAllowance(amount);
         _mint(account, 0, amount, new bytes(0));
     }
 
@@ -82,14 +81,19 @@ contract KarmicEnergy is ERC1155, Ownable {
      * @param ids Array of token IDs to mint
      * @param amounts Array of amounts to mint for each token ID
      * @param data Additional data to pass to receivers
-     * @notice Only callable by contract operator/marketplace
+     * @notice Only callable by holders of MINTER_ROLE, draws the summed amounts from their mint allowance
      */
     function mintBatch(
         address to,
         uint256[] memory ids,
         uint256[] memory amounts,
         bytes memory data
-    ) public onlyOperators {
+    ) public onlyRole(MINTER_ROLE) {
+        uint256 total;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            total += amounts[i];
+        }
+        _spendMintAllowance(total);
         _mintBatch(to, ids, amounts, data);
     }
 
@@ -98,13 +102,13 @@ contract KarmicEnergy is ERC1155, Ownable {
      * @param account Address to burn tokens from
      * @param id Token ID to burn
      * @param value Amount of tokens to burn
-     * @notice Only callable by contract operator/marketplace
+     * @notice Only callable by holders of BURNER_ROLE
      */
     function burn(
         address account,
         uint256 id,
         uint256 value
-    ) public virtual onlyOperators {
+    ) public virtual onlyRole(BURNER_ROLE) {
         _burn(account, id, value);
     }
 
@@ -113,23 +117,42 @@ contract KarmicEnergy is ERC1155, Ownable {
      * @param account Address to burn tokens from
      * @param ids Array of token IDs to burn
      * @param values Array of amounts to burn for each token ID
-     * @notice Only callable by contract operator/marketplace
+     * @notice Only callable by holders of BURNER_ROLE
      */
     function burnBatch(
         address account,
         uint256[] memory ids,
         uint256[] memory values
-    ) public virtual onlyOperators {
+    ) public virtual onlyRole(BURNER_ROLE) {
         _burnBatch(account, ids, values);
     }
 
     /**
-     * @dev Update operator address
+     * @dev Moves tokens between accounts without an approval
+     * @param from Address to take the tokens from
+     * @param to Address to receive the tokens
+     * @param id Token ID to move
+     * @param value Amount of tokens to move
+     * @notice Only callable by holders of BURNER_ROLE, escrows player trades
+     */
+    function operatorTransfer(
+        address from,
+        address to,
+        uint256 id,
+        uint256 value
+    ) public onlyRole(BURNER_ROLE) {
+        _safeTransferFrom(from, to, id, value, "");
+    }
+
+    /**
+     * @dev Update operator address, moving the game roles and URI_ADMIN_ROLE to it
      * @param _newOperator Address new operator
      * @notice Only callable by contract owner
      */
     function setOperator(address _newOperator) external onlyOwner {
+        address previous = operator;
         operator = _newOperator;
+        _rewire(previous, _newOperator, true);
         emit SetNewOperator(_newOperator);
     }
 
@@ -139,7 +162,9 @@ contract KarmicEnergy is ERC1155, Ownable {
      * @notice Only callable by contract owner
      */
     function setMarketplace(address _marketplace) external onlyOwner {
+        address previous = marketplace;
         marketplace = _marketplace;
+        _rewire(previous, _marketplace, false);
         emit SetNewMarketplace(_marketplace);
     }
 
@@ -149,7 +174,43 @@ contract KarmicEnergy is ERC1155, Ownable {
      * @notice Only callable by contract owner
      */
     function setKarmicWellSpring(address _karmicWellspring) external onlyOwner {
+        address previous = karmicSpring;
         karmicSpring = _karmicWellspring;
+        _rewire(previous, _karmicWellspring, false);
         emit SetNewKarmicWellSpring(_karmicWellspring);
     }
+
+    /**
+     * @dev Update crafting address
+     * @param _crafting Address new crafting contract
+     * @notice Only callable by contract owner
+     */
+    function setCrafting(address _crafting) external onlyOwner {
+        address previous = crafting;
+        crafting = _crafting;
+        _rewire(previous, _crafting, false);
+        emit SetNewCrafting(_crafting);
+    }
+
+    /**
+     * @dev Checks if an address is the operator, marketplace, karmic wellspring or crafting
+     */
+    function _isWired(address _account) internal view override returns (bool) {
+        return
+            operator == _account ||
+            marketplace == _account ||
+            karmicSpring == _account ||
+            crafting == _account;
+    }
+
+    /**
+     * @dev Required override for supportsInterface function due to multiple inheritance
+     * @param interfaceId The interface identifier to check
+     * @return bool True if the contract supports the interface
+     */
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override(ERC1155, AccessControlEnumerable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
 }
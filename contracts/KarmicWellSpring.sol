@@ -1,9 +1,10 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.27;
 
-import "@openzeppelin/contracts/access/Ownable.sol"; // Provides basic access control
-import "@openzeppelin/contracts/utils/Pausable.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol"; // Provides basic access control
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "./Familiars.sol";
 import "./FamiliarsLib.sol";
 import "./Coins.sol";
@@ -11,7 +12,12 @@ import "./KarmicEnergy.sol";
 import "./Food.sol";
 import "./FamiliarsItem.sol";
 
-contract KarmicWellSpring is Ownable, Pausable, ReentrancyGuard {
+contract KarmicWellSpring is
+    OwnableUpgradeable,
+    PausableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    UUPSUpgradeable
+{
     // Contract instances for different game components
     Familiars public familiars; // Contract managing Familiar NFTs
     Coins public coins; // Contract managing in-game currency
@@ -23,11 +29,25 @@ contract KarmicWellSpring is Ownable, Pausable, ReentrancyGuard {
      */
     address public operator;
 
-    constructor(
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initializes the KarmicWellSpring proxy with the resource tokens
+     * @param _karmic Address of the KarmicEnergy contract
+     * @param _food Address of the Food contract
+     * @param _coins Address of the Coins contract
+     */
+    function initialize(
         address _karmic,
         address _food,
         address _coins
-    ) Ownable(_msgSender()) {
+    ) external initializer {
+        __Ownable_init(_msgSender());
+        __Pausable_init();
+        __ReentrancyGuard_init();
         operator = _msgSender();
         karmicEnergy = KarmicEnergy(_karmic);
         food = Food(_food);
@@ -39,6 +59,9 @@ contract KarmicWellSpring is Ownable, Pausable, ReentrancyGuard {
     mapping(uint256 => uint256) public karmicToFood;
     mapping(uint256 => bool) public validKarmicAmt;
 
+    // Karmic amounts of every valid tier, used to enumerate exchange rates
+    uint256[] private exchangeTiers;
+
     // Events
     event SetNewOperator(address indexed newOpertor);
 
@@ -102,12 +125,7 @@ contract KarmicWellSpring is Ownable, Pausable, ReentrancyGuard {
         require(_karmicAmount > 0, "Invalid karmic amount");
         require(_coinsReward > 0 || _foodReward > 0, "Invalid rewards");
 
-        if (!validKarmicAmt[_karmicAmount]) {
-            validKarmicAmt[_karmicAmount] = true;
-        }
-
-        karmicToCoins[_karmicAmount] = _coinsReward;
-        karmicToFood[_karmicAmount] = _foodReward;
+        _addExchangeRate(_karmicAmount, _coinsReward, _foodReward);
     }
 
     /**
@@ -138,6 +156,24 @@ contract KarmicWellSpring is Ownable, Pausable, ReentrancyGuard {
         validKarmicAmt[_karmicAmount] = false;
         karmicToCoins[_karmicAmount] = 0;
         karmicToFood[_karmicAmount] = 0;
+
+        // Swap and pop the tier out of the enumeration
+        uint256 last = exchangeTiers.length - 1;
+        for (uint256 i = 0; i <= last; i++) {
+            if (exchangeTiers[i] == _karmicAmount) {
+                exchangeTiers[i] = exchangeTiers[last];
+                exchangeTiers.pop();
+                break;
+            }
+        }
+    }
+
+    /**
+     * @dev Gets the karmic amounts of all valid exchange tiers
+     * @return uint256[] Karmic amounts in no particular order
+     */
+    function getExchangeTiers() external view returns (uint256[] memory) {
+        return exchangeTiers;
     }
 
     /**
@@ -173,6 +209,7 @@ contract KarmicWellSpring is Ownable, Pausable, ReentrancyGuard {
         bool _karmicAmt = validKarmicAmt[_karmicAmount];
         if (!_karmicAmt) {
             validKarmicAmt[_karmicAmount] = true;
+            exchangeTiers.push(_karmicAmount);
         }
         karmicToCoins[_karmicAmount] = _coinsReward;
         karmicToFood[_karmicAmount] = _foodReward;
@@ -190,4 +227,8 @@ contract KarmicWellSpring is Ownable, Pausable, ReentrancyGuard {
         }
     }
 
+    /**
+     * @dev Restricts upgrades of the proxy to the owner
+     */
+    function _authorizeUpgrade(address) internal override onlyOwner {}
 }
@@ -1,43 +1,324 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.27;
 
-import "@openzeppelin/contracts/access/Ownable.sol"; // Provides basic access control
-import "@openzeppelin/contracts/utils/Pausable.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol"; // Provides basic access control
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC1155/utils/ERC1155HolderUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "./Familiars.sol";
 import "./FamiliarsLib.sol";
 import "./Coins.sol";
 import "./KarmicEnergy.sol";
 import "./Food.sol";
 import "./FamiliarsItem.sol";
+import "./interfaces/IRandomnessCoordinator.sol";
+import "./interfaces/IRandomnessConsumer.sol";
 
-contract Marketplace is Ownable, Pausable, ReentrancyGuard {
+contract Marketplace is
+    OwnableUpgradeable,
+    PausableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    ERC1155HolderUpgradeable,
+    UUPSUpgradeable,
+    IRandomnessConsumer
+{
     // Contract instances for different game components
     Familiars public familiars; // Contract managing Familiar NFTs
     Coins public coins; // Contract managing in-game currency
     KarmicEnergy public karmicEnergy; // Contract managing Karmic Energy resource
     Food public food; // Contract managing Food resource
+    FamiliarsItem public familiarsItem; // Contract of familiar items awarded by boxes
 
     /**
      * @dev Operator contract address
      */
     address public operator;
 
-    constructor(
+    /**
+     * @dev Kind of reward a loot table entry awards
+     */
+    enum LootKind {
+        COINS,
+        FOOD,
+        KARMIC_ENERGY,
+        ITEM
+    }
+
+    /**
+     * @dev Struct representing one weighted entry of a loot table
+     * @notice The amount is drawn uniformly between minAmount and maxAmount
+     */
+    struct LootEntry {
+        LootKind kind; // Resource awarded
+        uint256 itemId; // FamiliarsItem id for ITEM entries, 0 otherwise
+        uint128 minAmount; // Smallest amount awarded, whole coins for COINS
+        uint128 maxAmount; // Largest amount awarded
+        uint32 weight; // Relative chance of the entry
+    }
+
+    /**
+     * @dev Struct representing a type of treasure box
+     */
+    struct BoxType {
+        string name; // Display name of the box
+        uint256 price; // Price in whole coins
+        uint256 maxSupply; // Boxes that can be sold, 0 for unlimited
+        uint256 sold; // Boxes sold so far
+        bool enabled; // False to stop sales
+    }
+
+    /**
+     * @dev Struct representing a treasure box waiting for its randomness
+     */
+    struct PendingBox {
+        address tba; // Account the reward goes to
+        uint64 requestBlock; // Block the box was bought in
+        bool viaCoordinator; // True when the coordinator delivers the randomness
+        int16 luck; // Effective luck of the buyer at purchase, skews the amount
+        uint256 boxType; // Type of the box, its loot table is read on opening
+    }
+
+    /**
+     * @dev How the amount of food bought with coins is priced
+     */
+    enum PricingModel {
+        FIXED, // Every coin buys foodPerCoin
+        TIERED, // The largest tier reached by the purchase sets the rate
+        CURVE // The rate falls as food is bought in the current window
+    }
+
+    /**
+     * @dev Struct representing a bulk discount tier
+     */
+    struct PriceTier {
+        uint256 minCoins; // Smallest purchase, in whole coins, the tier applies to
+        uint32 foodPerCoin; // Food per coin in basis points
+    }
+
+    /**
+     * @dev Struct representing the food pricing configuration
+     * @notice With CURVE the rate is foodPerCoin * windowTarget /
+     *         (windowTarget + food bought in the window)
+     */
+    struct FoodPricing {
+        PricingModel model; // Active pricing model
+        uint32 foodPerCoin; // Base food per coin in basis points
+        uint32 window; // Length of a CURVE window in seconds
+        uint256 windowTarget; // Food per window at which the CURVE rate halves
+    }
+
+    /**
+     * @dev Struct representing a FamiliarsItem for sale in the item shop
+     */
+    struct ItemListing {
+        bool listed; // False once the listing is removed
+        uint256 price; // Price of one item in whole coins
+        uint256 stock; // Items left for sale
+        uint256 maxPerNpc; // Items a single account can buy, 0 for unlimited
+        uint64 startTime; // Timestamp sales open at
+        uint64 endTime; // Timestamp sales close at, 0 for no end
+    }
+
+    /**
+     * @dev Resource a player order sells
+     */
+    enum TradeAsset {
+        FOOD,
+        KARMIC_ENERGY,
+        ITEM
+    }
+
+    /**
+     * @dev Struct representing a player sell order, the asset is held in escrow
+     */
+    struct Order {
+        address seller; // TBA selling the asset
+        TradeAsset asset; // Resource sold
+        uint256 itemId; // FamiliarsItem id for ITEM orders, 0 otherwise
+        uint256 amount; // Units left in escrow
+        uint256 price; // Price of one unit in whole coins
+    }
+
+    // Box types by id, ids are assigned sequentially from 0
+    mapping(uint256 => BoxType) private boxTypes;
+
+    // Loot table of each box type
+    mapping(uint256 => LootEntry[]) private lootTables;
+
+    // Number of box types
+    uint256 public boxTypeCount;
+
+    /**
+     * @dev VRF-style coordinator, boxes use commit-reveal when unset
+     */
+    IRandomnessCoordinator public randomnessCoordinator;
+
+    // Unopened treasure boxes by box id
+    mapping(uint256 => PendingBox) public pendingBoxes;
+
+    // Unused, requests are keyed by coordinator in boxOfCoordinatorRequest
+    mapping(uint256 => uint256) private boxOfRequest;
+
+    // Id of the next treasure box, starting at 1
+    uint256 public nextBoxId;
+
+    // Blocks blockhash can look back, boxes revealed later expire
+    uint256 private constant REVEAL_WINDOW = 256;
+
+    // Active food pricing, 1 coin : 1 food by default
+    FoodPricing private foodPricing;
+
+    // Bulk discount tiers of TIERED pricing, sorted by minCoins
+    PriceTier[] private foodPriceTiers;
+
+    // Start of the current CURVE window
+    uint256 public foodWindowStart;
+
+    // Food bought in the current CURVE window
+    uint256 public foodSoldInWindow;
+
+    // Basis points of one food per coin
+    uint32 private constant RATE_PRECISION = 10_000;
+
+    // Item shop listings by FamiliarsItem id
+    mapping(uint256 => ItemListing) private itemListings;
+
+    // Items of each id bought by each account
+    mapping(uint256 => mapping(address => uint256)) public itemsBought;
+
+    // Open player orders by order id
+    mapping(uint256 => Order) public orders;
+
+    // Id of the next player order, starting at 1
+    uint256 public nextOrderId;
+
+    // Fee taken from each fill in basis points of the price
+    uint16 public tradeFee;
+
+    // Receiver of the trade fees, fees are burned when unset
+    address public feeTreasury;
+
+    // Box id of each open request, by coordinator and request id
+    mapping(address => mapping(uint256 => uint256))
+        public boxOfCoordinatorRequest;
+
+    // Coordinator the randomness of each pending box was requested from
+    mapping(uint256 => address) public boxCoordinators;
+
+    // Largest trade fee, 10%
+    uint16 private constant MAX_TRADE_FEE = 1_000;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initializes the Marketplace proxy with the resource tokens
+     * @param _karmic Address of the KarmicEnergy contract
+     * @param _food Address of the Food contract
+     * @param _coins Address of the Coins contract
+     */
+    function initialize(
         address _karmic,
         address _food,
         address _coins
-    ) Ownable(_msgSender()) {
+    ) external initializer {
+        __Ownable_init(_msgSender());
+        __Pausable_init();
+        __ReentrancyGuard_init();
         operator = _msgSender();
+        nextBoxId = 1;
+        nextOrderId = 1;
         karmicEnergy = KarmicEnergy(_karmic);
         food = Food(_food);
         coins = Coins(_coins);
+
+        // Box type 0 keeps the original 5 coin box paying 1 - 20 coins
+        LootEntry[] memory loot = new LootEntry[](1);
+        loot[0] = LootEntry({
+            kind: LootKind.COINS,
+            itemId: 0,
+            minAmount: 1,
+            maxAmount: 20,
+            weight: 1
+        });
+        _setBoxType(boxTypeCount++, "Treasure Box", 5, 0, true, loot);
+
+        foodPricing.foodPerCoin = RATE_PRECISION;
     }
 
     // Events
     event SetNewOperator(address indexed newOpertor);
     event FoodExchange(address indexed tba, uint256 coins, uint256 food);
-    event BuyTreasureBox(address indexed tba, uint256 getCoins);
+    event BuyTreasureBox(
+        address indexed tba,
+        uint256 indexed boxId,
+        uint256 boxType
+    );
+    event RetryTreasureBox(uint256 indexed boxId);
+    event TreasureBoxOpened(
+        uint256 indexed boxId,
+        address indexed tba,
+        LootKind kind,
+        uint256 itemId,
+        uint256 amount
+    );
+    event SetBoxType(
+        uint256 indexed boxType,
+        string name,
+        uint256 price,
+        uint256 maxSupply,
+        bool enabled
+    );
+    event SetFamiliarsItem(address indexed familiarsItem);
+    event SetItemListing(
+        uint256 indexed itemId,
+        uint256 price,
+        uint256 stock,
+        uint256 maxPerNpc,
+        uint64 startTime,
+        uint64 endTime
+    );
+    event RemoveItemListing(uint256 indexed itemId);
+    event OrderCreated(
+        uint256 indexed orderId,
+        address indexed seller,
+        TradeAsset asset,
+        uint256 itemId,
+        uint256 amount,
+        uint256 price
+    );
+    event OrderFilled(
+        uint256 indexed orderId,
+        address indexed buyer,
+        uint256 amount,
+        uint256 coins,
+        uint256 fee
+    );
+    event OrderCancelled(uint256 indexed orderId);
+    event SetTradeFee(uint16 fee, address indexed treasury);
+    event BuyItem(
+        address indexed tba,
+        uint256 indexed itemId,
+        uint256 qty,
+        uint256 coins
+    );
+    event RepairItem(
+        address indexed tba,
+        uint256 indexed itemId,
+        uint32 restored,
+        uint256 coins
+    );
+    event SetFoodPricing(
+        PricingModel model,
+        uint32 foodPerCoin,
+        PriceTier[] tiers,
+        uint32 window,
+        uint256 windowTarget
+    );
+    event SetRandomnessCoordinator(address indexed coordinator);
 
     /**
      * @dev Modifier to restrict function access to only the specified operator
@@ -50,69 +331,756 @@ contract Marketplace is Ownable, Pausable, ReentrancyGuard {
     }
 
     /**
-     * @dev Exchange coins to food
+     * @dev Exchange coins to food at the current food price
      * @param _coinsAmt amount of coins to exchange
+     * @param _minFoodOut smallest amount of food accepted for the coins
      * @param _tba TBA
      * @dev Throws if the caller is not the authorized operator
      */
     function exchangeCoinsToFood(
         uint256 _coinsAmt,
+        uint256 _minFoodOut,
         address _tba
     ) public onlyOperator(_msgSender()) whenNotPaused {
         require(_coinsAmt > 0, "Amount must be greater than 0");
-        uint256 coinsBal = coins.balanceOf(_tba);
-        uint256 amt = _coinsAmt * (10 ** coins.decimals());
-        require(coinsBal >= amt, "Not enough coins");
+        _chargeCoins(_tba, _coinsAmt);
 
-        coins.burnCoins(_tba, amt);
-        food.mint(_tba, _coinsAmt);
-        emit FoodExchange(_tba, _coinsAmt, _coinsAmt);
+        uint256 foodAmt = quoteFood(_coinsAmt);
+        require(foodAmt > 0, "Amount too small to buy food");
+        require(foodAmt >= _minFoodOut, "Food below minimum");
+
+        if (foodPricing.model == PricingModel.CURVE) {
+            if (block.timestamp >= foodWindowStart + foodPricing.window) {
+                foodWindowStart = block.timestamp;
+                foodSoldInWindow = 0;
+            }
+            foodSoldInWindow += foodAmt;
+        }
+
+        food.mint(_tba, foodAmt);
+        emit FoodExchange(_tba, _coinsAmt, foodAmt);
+    }
+
+    /**
+     * @dev Quotes the food bought with an amount of coins
+     * @param _coinsAmt amount of whole coins to exchange
+     * @return The amount of food exchangeCoinsToFood would mint now
+     */
+    function quoteFood(uint256 _coinsAmt) public view returns (uint256) {
+        uint256 rate = foodPricing.foodPerCoin;
+        if (foodPricing.model == PricingModel.TIERED) {
+            for (uint256 i = 0; i < foodPriceTiers.length; i++) {
+                if (_coinsAmt < foodPriceTiers[i].minCoins) break;
+                rate = foodPriceTiers[i].foodPerCoin;
+            }
+        } else if (foodPricing.model == PricingModel.CURVE) {
+            uint256 sold = block.timestamp >=
+                foodWindowStart + foodPricing.window
+                ? 0
+                : foodSoldInWindow;
+            rate =
+                (rate * foodPricing.windowTarget) /
+                (foodPricing.windowTarget + sold);
+        }
+        return (_coinsAmt * rate) / RATE_PRECISION;
+    }
+
+    /**
+     * @dev Gets the food pricing configuration
+     * @return pricing The active pricing
+     * @return tiers The bulk discount tiers used by TIERED pricing
+     */
+    function getFoodPricing()
+        external
+        view
+        returns (FoodPricing memory pricing, PriceTier[] memory tiers)
+    {
+        return (foodPricing, foodPriceTiers);
     }
 
     /**
-     * @dev Buy Treasure box get 1 -20 coins
+     * @dev Buy items listed in the item shop
+     * @param _itemId The FamiliarsItem id to buy
+     * @param _qty The number of items to buy
      * @param _tba TBA
      * @dev Throws if the caller is not the authorized operator
      */
-    function buyTreasureBox(
+    function buyItem(
+        uint256 _itemId,
+        uint256 _qty,
+        address _tba
+    ) public onlyOperator(_msgSender()) whenNotPaused {
+        ItemListing storage listing = itemListings[_itemId];
+        require(listing.listed, "Item is not listed");
+        require(_qty > 0, "Amount must be greater than 0");
+        require(block.timestamp >= listing.startTime, "Sale has not started");
+        require(
+            listing.endTime == 0 || block.timestamp < listing.endTime,
+            "Sale has ended"
+        );
+        require(_qty <= listing.stock, "Not enough stock");
+        uint256 bought = itemsBought[_itemId][_tba] + _qty;
+        require(
+            listing.maxPerNpc == 0 || bought <= listing.maxPerNpc,
+            "Purchase limit reached"
+        );
+        uint256 coinsAmt = listing.price * _qty;
+        _chargeCoins(_tba, coinsAmt);
+
+        listing.stock -= _qty;
+        itemsBought[_itemId][_tba] = bought;
+        familiarsItem.mint(
+            _tba,
+            _itemId,
+            _qty,
+            familiarsItem.getItemAttributes(_itemId)
+        );
+        emit BuyItem(_tba, _itemId, _qty, coinsAmt);
+    }
+
+    /**
+     * @dev Repairs the unit in use of an item to its full durability
+     * @param _itemId The FamiliarsItem id to repair
+     * @param _tba TBA
+     * @dev Throws if the caller is not the authorized operator
+     */
+    function repairItem(
+        uint256 _itemId,
         address _tba
     ) public onlyOperator(_msgSender()) whenNotPaused {
-        uint256 coinsBal = coins.balanceOf(_tba);
-        uint256 price = 5 * (10 ** coins.decimals());
-        require(coinsBal >= price, "Not enough coins");
+        uint32 restored = familiarsItem.repairItem(_tba, _itemId);
+        uint256 coinsAmt = familiarsItem.repairPrices(_itemId) * restored;
+        _chargeCoins(_tba, coinsAmt);
+        emit RepairItem(_tba, _itemId, restored, coinsAmt);
+    }
 
-        coins.burnCoins(_tba, price);
+    /**
+     * @dev Lists a resource of a TBA for coins, the resource is moved to escrow
+     * @param _seller TBA selling the resource
+     * @param _asset The resource sold
+     * @param _itemId The FamiliarsItem id for ITEM orders, 0 otherwise
+     * @param _amount The units to sell
+     * @param _price The price of one unit in whole coins
+     * @return orderId The id of the new order
+     * @dev Throws if the caller is not the authorized operator
+     */
+    function createOrder(
+        address _seller,
+        TradeAsset _asset,
+        uint256 _itemId,
+        uint256 _amount,
+        uint256 _price
+    )
+        public
+        onlyOperator(_msgSender())
+        whenNotPaused
+        returns (uint256 orderId)
+    {
+        require(_amount > 0, "Amount must be greater than 0");
+        require(_price > 0, "Price must be positive");
+        require(
+            (_asset == TradeAsset.ITEM) == (_itemId != 0),
+            "Only item orders have an item id"
+        );
 
-        uint256 getCoins = _generateRandomNumber(20);
+        orderId = nextOrderId++;
+        orders[orderId] = Order({
+            seller: _seller,
+            asset: _asset,
+            itemId: _itemId,
+            amount: _amount,
+            price: _price
+        });
+        _moveAsset(_asset, _itemId, _seller, address(this), _amount);
+        emit OrderCreated(orderId, _seller, _asset, _itemId, _amount, _price);
+    }
 
-        coins.mint(_tba, getCoins);
-        emit BuyTreasureBox(_tba, getCoins);
+    /**
+     * @dev Buys units of an order, the seller is paid in coins minus the trade fee
+     * @param _orderId The id of the order
+     * @param _amount The units to buy
+     * @param _buyer TBA buying the resource
+     * @dev Throws if the caller is not the authorized operator
+     */
+    function fillOrder(
+        uint256 _orderId,
+        uint256 _amount,
+        address _buyer
+    ) public onlyOperator(_msgSender()) whenNotPaused {
+        Order storage order = orders[_orderId];
+        require(order.seller != address(0), "Order does not exist");
+        require(order.seller != _buyer, "Cannot fill own order");
+        require(
+            _amount > 0 && _amount <= order.amount,
+            "Invalid fill amount"
+        );
+        // Priced in base units so the fee of small fills does not round to 0
+        uint256 cost = order.price * _amount * (10 ** coins.decimals());
+        require(coins.balanceOf(_buyer) >= cost, "Not enough coins");
+
+        uint256 fee = (cost * tradeFee) / 10_000;
+        address seller = order.seller;
+        TradeAsset asset = order.asset;
+        uint256 itemId = order.itemId;
+        order.amount -= _amount;
+        if (order.amount == 0) {
+            delete orders[_orderId];
+        }
+
+        coins.operatorTransfer(_buyer, seller, cost - fee);
+        if (fee > 0) {
+            if (feeTreasury != address(0)) {
+                coins.operatorTransfer(_buyer, feeTreasury, fee);
+            } else {
+                coins.burnCoins(_buyer, fee);
+            }
+        }
+        _moveAsset(asset, itemId, address(this), _buyer, _amount);
+        emit OrderFilled(_orderId, _buyer, _amount, cost, fee);
+    }
+
+    /**
+     * @dev Cancels an order and returns the escrowed units to the seller
+     * @param _orderId The id of the order
+     * @param _seller TBA that created the order
+     * @dev Throws if the caller is not the authorized operator
+     */
+    function cancelOrder(
+        uint256 _orderId,
+        address _seller
+    ) public onlyOperator(_msgSender()) {
+        Order memory order = orders[_orderId];
+        require(order.seller != address(0), "Order does not exist");
+        require(order.seller == _seller, "Caller is not the seller");
+
+        delete orders[_orderId];
+        _moveAsset(
+            order.asset,
+            order.itemId,
+            address(this),
+            _seller,
+            order.amount
+        );
+        emit OrderCancelled(_orderId);
     }
 
     /**
-     * @dev Internal function Update operator address
-     * @param maxRange max generation number
-     * @return uint256
+     * @dev Burns whole coins from a TBA, reverting if it cannot pay
+     * @param _tba TBA paying
+     * @param _coinsAmt Amount of whole coins to burn
      */
-    function _generateRandomNumber(
-        uint maxRange
-    ) internal view returns (uint256) {
-        require(maxRange > 0, "Range must be greater than 0");
+    function _chargeCoins(address _tba, uint256 _coinsAmt) private {
+        uint256 amt = _coinsAmt * (10 ** coins.decimals());
+        require(coins.balanceOf(_tba) >= amt, "Not enough coins");
+        coins.burnCoins(_tba, amt);
+    }
 
-        // Using block information and timestamp to generate pseudo-random number
-        uint256 randomNumber = (uint(
-            keccak256(
-                abi.encodePacked(
-                    block.timestamp,
-                    block.prevrandao,
-                    block.number,
-                    block.coinbase,
-                    address(this)
+    /**
+     * @dev Moves an order resource between an account and the escrow
+     */
+    function _moveAsset(
+        TradeAsset _asset,
+        uint256 _itemId,
+        address _from,
+        address _to,
+        uint256 _amount
+    ) private {
+        if (_asset == TradeAsset.FOOD) {
+            food.operatorTransfer(_from, _to, 0, _amount);
+        } else if (_asset == TradeAsset.KARMIC_ENERGY) {
+            karmicEnergy.operatorTransfer(_from, _to, 0, _amount);
+        } else {
+            familiarsItem.operatorTransfer(_from, _to, _itemId, _amount);
+        }
+    }
+
+    /**
+     * @dev Buy Treasure box, it pays from its loot table once its randomness is known
+     * @param _boxType The id of the box type to buy
+     * @param _tba TBA
+     * @param _luck Effective luck of the buyer, kept until the box opens
+     * @return boxId The id of the pending box
+     * @dev Throws if the caller is not the authorized operator
+     * @notice With a coordinator the box opens on fulfilment, otherwise anyone
+     *         can reveal it from the next block on with revealTreasureBox
+     */
+    function buyTreasureBox(
+        uint256 _boxType,
+        address _tba,
+        int16 _luck
+    )
+        public
+        onlyOperator(_msgSender())
+        whenNotPaused
+        returns (uint256 boxId)
+    {
+        require(_boxType < boxTypeCount, "Box type does not exist");
+        BoxType storage boxType = boxTypes[_boxType];
+        require(boxType.enabled, "Box type is not on sale");
+        require(
+            boxType.maxSupply == 0 || boxType.sold < boxType.maxSupply,
+            "Box type is sold out"
+        );
+        _chargeCoins(_tba, boxType.price);
+
+        boxType.sold++;
+
+        boxId = nextBoxId++;
+        PendingBox storage box = pendingBoxes[boxId];
+        box.tba = _tba;
+        box.luck = _luck;
+        box.boxType = _boxType;
+        _requestBoxRandomness(boxId, box);
+        emit BuyTreasureBox(_tba, boxId, _boxType);
+    }
+
+    /**
+     * @dev Requests the randomness of a box again from the current source
+     * @param _boxId The id of the pending box
+     * @notice Callable by anyone for boxes of a replaced coordinator. The box
+     *         is requested from the new coordinator, or bound to a new block
+     *         when the coordinator was removed. Commit-reveal boxes are never
+     *         rolled again, their buyer already knows the hash they read
+     */
+    function retryTreasureBox(uint256 _boxId) external {
+        PendingBox storage box = pendingBoxes[_boxId];
+        require(box.tba != address(0), "Box is not pending");
+        require(
+            box.viaCoordinator &&
+                boxCoordinators[_boxId] != address(randomnessCoordinator),
+            "Box coordinator was not replaced"
+        );
+        _requestBoxRandomness(_boxId, box);
+        emit RetryTreasureBox(_boxId);
+    }
+
+    /**
+     * @dev Commits a box to the block after the current one, or requests its
+     *      randomness from the coordinator when one is set
+     */
+    function _requestBoxRandomness(
+        uint256 _boxId,
+        PendingBox storage _box
+    ) private {
+        IRandomnessCoordinator coordinator = randomnessCoordinator;
+        bool viaCoordinator = address(coordinator) != address(0);
+        _box.requestBlock = uint64(block.number);
+        _box.viaCoordinator = viaCoordinator;
+        boxCoordinators[_boxId] = address(coordinator);
+        if (viaCoordinator) {
+            boxOfCoordinatorRequest[address(coordinator)][
+                coordinator.requestRandomWords(1)
+            ] = _boxId;
+        }
+    }
+
+    /**
+     * @dev Opens a commit-reveal box with the hash of the block after its purchase
+     * @param _boxId The id of the pending box
+     * @notice Callable by anyone from the block after the purchase. Boxes left
+     *         unrevealed for 256 blocks pay the first entry of their loot table
+     *         at its minimum amount, withholding a low roll gains nothing
+     */
+    function revealTreasureBox(uint256 _boxId) external nonReentrant {
+        PendingBox memory box = pendingBoxes[_boxId];
+        require(box.tba != address(0), "Box is not pending");
+        require(!box.viaCoordinator, "Box is opened by the coordinator");
+        require(
+            block.number > box.requestBlock + 1,
+            "Box cannot be revealed yet"
+        );
+        if (block.number > box.requestBlock + REVEAL_WINDOW) {
+            LootEntry memory floor = _drawLoot(box.boxType, 0);
+            _payTreasureBox(_boxId, box.tba, floor, floor.minAmount);
+            return;
+        }
+
+        bytes32 revealHash = blockhash(box.requestBlock + 1);
+        _openTreasureBox(
+            _boxId,
+            uint256(keccak256(abi.encode(revealHash, _boxId)))
+        );
+    }
+
+    /**
+     * @dev Opens the box of a coordinator request
+     * @param _requestId Id returned by the coordinator
+     * @param _randomWords Random words of the request
+     * @notice Only callable by the randomness coordinator
+     */
+    function rawFulfillRandomWords(
+        uint256 _requestId,
+        uint256[] calldata _randomWords
+    ) external nonReentrant {
+        require(
+            _msgSender() == address(randomnessCoordinator),
+            "Caller is not the coordinator"
+        );
+        uint256 boxId = boxOfCoordinatorRequest[_msgSender()][_requestId];
+        require(boxId != 0, "Unknown request");
+        delete boxOfCoordinatorRequest[_msgSender()][_requestId];
+        _openTreasureBox(boxId, _randomWords[0]);
+    }
+
+    /**
+     * @dev Pays the reward of a pending box
+     * @param _boxId The id of the pending box
+     * @param _randomness Random value the reward is drawn from
+     */
+    function _openTreasureBox(uint256 _boxId, uint256 _randomness) private {
+        PendingBox memory box = pendingBoxes[_boxId];
+        require(box.tba != address(0), "Box is not pending");
+
+        LootEntry memory entry = _drawLoot(box.boxType, _randomness);
+        uint256 range = entry.maxAmount - entry.minAmount + 1;
+        _payTreasureBox(
+            _boxId,
+            box.tba,
+            entry,
+            entry.minAmount +
+                FamiliarsLib.applyLuck(
+                    uint256(keccak256(abi.encode(_randomness))) % range,
+                    range,
+                    box.luck
                 )
-            )
-        ) % maxRange) + 1; // Modulo maxRange plus 1 to get number between 1 and maxRange
+        );
+    }
+
+    /**
+     * @dev Clears a pending box and pays its reward
+     * @param _boxId The id of the pending box
+     * @param _tba Account the reward goes to
+     * @param _entry The loot table entry paid
+     * @param _amount Amount of the entry paid
+     */
+    function _payTreasureBox(
+        uint256 _boxId,
+        address _tba,
+        LootEntry memory _entry,
+        uint256 _amount
+    ) private {
+        delete pendingBoxes[_boxId];
+        delete boxCoordinators[_boxId];
+
+        if (_entry.kind == LootKind.COINS) {
+            coins.mint(_tba, _amount);
+        } else if (_entry.kind == LootKind.FOOD) {
+            food.mint(_tba, _amount);
+        } else if (_entry.kind == LootKind.KARMIC_ENERGY) {
+            karmicEnergy.mint(_tba, _amount);
+        } else {
+            familiarsItem.mint(
+                _tba,
+                _entry.itemId,
+                _amount,
+                familiarsItem.getItemAttributes(_entry.itemId)
+            );
+        }
+        emit TreasureBoxOpened(
+            _boxId,
+            _tba,
+            _entry.kind,
+            _entry.itemId,
+            _amount
+        );
+    }
+
+    /**
+     * @dev Picks a weighted entry of the loot table of a box type
+     * @param _boxType The id of the box type
+     * @param _randomness Random value the entry is drawn from
+     * @return The drawn loot table entry
+     */
+    function _drawLoot(
+        uint256 _boxType,
+        uint256 _randomness
+    ) private view returns (LootEntry memory) {
+        LootEntry[] storage loot = lootTables[_boxType];
+        uint256 roll = _randomness % _totalWeight(loot);
+        for (uint256 i = 0; i < loot.length; i++) {
+            if (roll < loot[i].weight) {
+                return loot[i];
+            }
+            roll -= loot[i].weight;
+        }
+        revert("Loot table is empty");
+    }
+
+    /**
+     * @dev Adds a new box type
+     * @param _name The display name of the box
+     * @param _price The price in whole coins
+     * @param _maxSupply Boxes that can be sold, 0 for unlimited
+     * @param _loot The weighted loot table
+     * @return uint256 The id of the new box type
+     * @notice Only callable by contract owner
+     */
+    function addBoxType(
+        string memory _name,
+        uint256 _price,
+        uint256 _maxSupply,
+        LootEntry[] memory _loot
+    ) external onlyOwner returns (uint256) {
+        uint256 id = boxTypeCount++;
+        _setBoxType(id, _name, _price, _maxSupply, true, _loot);
+        return id;
+    }
+
+    /**
+     * @dev Updates a box type and replaces its loot table
+     * @param _boxType The id of the box type
+     * @param _name The display name of the box
+     * @param _price The price in whole coins
+     * @param _maxSupply Boxes that can be sold, 0 for unlimited
+     * @param _enabled False to stop sales
+     * @param _loot The weighted loot table
+     * @notice Only callable by contract owner, pending boxes open with the new table
+     */
+    function updateBoxType(
+        uint256 _boxType,
+        string memory _name,
+        uint256 _price,
+        uint256 _maxSupply,
+        bool _enabled,
+        LootEntry[] memory _loot
+    ) external onlyOwner {
+        require(_boxType < boxTypeCount, "Box type does not exist");
+        require(
+            _maxSupply == 0 || _maxSupply >= boxTypes[_boxType].sold,
+            "Supply below boxes sold"
+        );
+        _setBoxType(_boxType, _name, _price, _maxSupply, _enabled, _loot);
+    }
 
-        return randomNumber;
+    /**
+     * @dev Gets a box type, its loot table and the odds of each entry
+     * @param _boxType The id of the box type
+     * @return boxType The box type
+     * @return loot The loot table
+     * @return odds The chance of each loot entry in basis points
+     */
+    function getBoxType(
+        uint256 _boxType
+    )
+        public
+        view
+        returns (
+            BoxType memory boxType,
+            LootEntry[] memory loot,
+            uint256[] memory odds
+        )
+    {
+        require(_boxType < boxTypeCount, "Box type does not exist");
+        boxType = boxTypes[_boxType];
+        loot = lootTables[_boxType];
+        uint256 totalWeight = _totalWeight(lootTables[_boxType]);
+        odds = new uint256[](loot.length);
+        for (uint256 i = 0; i < loot.length; i++) {
+            odds[i] = (uint256(loot[i].weight) * 10_000) / totalWeight;
+        }
+    }
+
+    /**
+     * @dev Gets every box type with its loot table and odds
+     * @return types The box types, indexed by id
+     * @return loot The loot table of each box type
+     * @return odds The chance of each loot entry in basis points
+     */
+    function getBoxTypes()
+        external
+        view
+        returns (
+            BoxType[] memory types,
+            LootEntry[][] memory loot,
+            uint256[][] memory odds
+        )
+    {
+        types = new BoxType[](boxTypeCount);
+        loot = new LootEntry[][](boxTypeCount);
+        odds = new uint256[][](boxTypeCount);
+        for (uint256 i = 0; i < boxTypeCount; i++) {
+            (types[i], loot[i], odds[i]) = getBoxType(i);
+        }
+    }
+
+    /**
+     * @dev Validates and stores a box type
+     */
+    function _setBoxType(
+        uint256 _boxType,
+        string memory _name,
+        uint256 _price,
+        uint256 _maxSupply,
+        bool _enabled,
+        LootEntry[] memory _loot
+    ) private {
+        require(bytes(_name).length > 0, "Box name is empty");
+        require(_loot.length > 0, "Loot table is empty");
+
+        LootEntry[] storage loot = lootTables[_boxType];
+        while (loot.length > 0) {
+            loot.pop();
+        }
+        for (uint256 i = 0; i < _loot.length; i++) {
+            LootEntry memory entry = _loot[i];
+            require(entry.weight > 0, "Loot weight must be positive");
+            require(
+                entry.minAmount > 0 && entry.minAmount <= entry.maxAmount,
+                "Invalid loot amount"
+            );
+            require(
+                (entry.kind == LootKind.ITEM) == (entry.itemId != 0),
+                "Only item loot has an item id"
+            );
+            loot.push(entry);
+        }
+
+        BoxType storage boxType = boxTypes[_boxType];
+        boxType.name = _name;
+        boxType.price = _price;
+        boxType.maxSupply = _maxSupply;
+        boxType.enabled = _enabled;
+        emit SetBoxType(_boxType, _name, _price, _maxSupply, _enabled);
+    }
+
+    /**
+     * @dev Sums the weights of a loot table
+     */
+    function _totalWeight(
+        LootEntry[] storage _loot
+    ) private view returns (uint256 totalWeight) {
+        for (uint256 i = 0; i < _loot.length; i++) {
+            totalWeight += _loot[i].weight;
+        }
+    }
+
+    /**
+     * @dev Sets how food is priced
+     * @param _model The pricing model
+     * @param _foodPerCoin Base food per coin in basis points
+     * @param _tiers Bulk discount tiers sorted by minCoins, TIERED only
+     * @param _window Length of a window in seconds, CURVE only
+     * @param _windowTarget Food per window at which the rate halves, CURVE only
+     * @notice Only callable by contract owner, restarts the CURVE window
+     */
+    function setFoodPricing(
+        PricingModel _model,
+        uint32 _foodPerCoin,
+        PriceTier[] memory _tiers,
+        uint32 _window,
+        uint256 _windowTarget
+    ) external onlyOwner {
+        require(_foodPerCoin > 0, "Price must be positive");
+        require(
+            _model == PricingModel.TIERED || _tiers.length == 0,
+            "Only tiered pricing has tiers"
+        );
+        if (_model == PricingModel.CURVE) {
+            require(_window > 0 && _windowTarget > 0, "Invalid price curve");
+        }
+
+        delete foodPriceTiers;
+        for (uint256 i = 0; i < _tiers.length; i++) {
+            require(_tiers[i].foodPerCoin > 0, "Price must be positive");
+            require(
+                i == 0 || _tiers[i].minCoins > _tiers[i - 1].minCoins,
+                "Tiers must be sorted"
+            );
+            foodPriceTiers.push(_tiers[i]);
+        }
+        foodPricing = FoodPricing({
+            model: _model,
+            foodPerCoin: _foodPerCoin,
+            window: _window,
+            windowTarget: _windowTarget
+        });
+        foodWindowStart = block.timestamp;
+        foodSoldInWindow = 0;
+        emit SetFoodPricing(
+            _model,
+            _foodPerCoin,
+            _tiers,
+            _window,
+            _windowTarget
+        );
+    }
+
+    /**
+     * @dev Lists an item in the item shop or updates its listing
+     * @param _itemId The FamiliarsItem id to sell
+     * @param _price The price of one item in whole coins
+     * @param _stock The items left for sale
+     * @param _maxPerNpc The items a single account can buy, 0 for unlimited
+     * @param _startTime The timestamp sales open at
+     * @param _endTime The timestamp sales close at, 0 for no end
+     * @notice Only callable by contract owner, past purchases keep counting
+     *         towards the per account limit
+     */
+    function setItemListing(
+        uint256 _itemId,
+        uint256 _price,
+        uint256 _stock,
+        uint256 _maxPerNpc,
+        uint64 _startTime,
+        uint64 _endTime
+    ) external onlyOwner {
+        require(_itemId != 0, "Token ID 0 is not allowed");
+        require(_price > 0, "Price must be positive");
+        require(
+            _endTime == 0 || _endTime > _startTime,
+            "Sale ends before it starts"
+        );
+        itemListings[_itemId] = ItemListing({
+            listed: true,
+            price: _price,
+            stock: _stock,
+            maxPerNpc: _maxPerNpc,
+            startTime: _startTime,
+            endTime: _endTime
+        });
+        emit SetItemListing(
+            _itemId,
+            _price,
+            _stock,
+            _maxPerNpc,
+            _startTime,
+            _endTime
+        );
+    }
+
+    /**
+     * @dev Removes an item from the item shop
+     * @param _itemId The FamiliarsItem id
+     * @notice Only callable by contract owner
+     */
+    function removeItemListing(uint256 _itemId) external onlyOwner {
+        require(itemListings[_itemId].listed, "Item is not listed");
+        delete itemListings[_itemId];
+        emit RemoveItemListing(_itemId);
+    }
+
+    /**
+     * @dev Gets the item shop listing of an item
+     * @param _itemId The FamiliarsItem id
+     * @return ItemListing The listing, listed is false for unlisted items
+     */
+    function getItemListing(
+        uint256 _itemId
+    ) external view returns (ItemListing memory) {
+        return itemListings[_itemId];
+    }
+
+    /**
+     * @dev Sets the fee taken from player trades
+     * @param _fee The fee in basis points of the price, at most 10%
+     * @param _treasury Receiver of the fees, zero to burn them
+     * @notice Only callable by contract owner
+     */
+    function setTradeFee(uint16 _fee, address _treasury) external onlyOwner {
+        require(_fee <= MAX_TRADE_FEE, "Trade fee too high");
+        tradeFee = _fee;
+        feeTreasury = _treasury;
+        emit SetTradeFee(_fee, _treasury);
     }
 
     /**
@@ -127,6 +1095,28 @@ contract Marketplace is Ownable, Pausable, ReentrancyGuard {
         }
     }
 
+    /**
+     * @dev Sets the FamiliarsItem contract that item loot is minted on
+     * @param _familiarsItem Address of the FamiliarsItem contract
+     * @notice Only callable by contract owner
+     */
+    function setFamiliarsItem(address _familiarsItem) external onlyOwner {
+        familiarsItem = FamiliarsItem(_familiarsItem);
+        emit SetFamiliarsItem(_familiarsItem);
+    }
+
+    /**
+     * @dev Sets the VRF-style coordinator treasure boxes request randomness from
+     * @param _coordinator Address of the coordinator, zero for commit-reveal
+     * @notice Only callable by contract owner, boxes of the previous coordinator
+     *         are requested again from the new one with retryTreasureBox, or
+     *         bound to a new block when it is removed
+     */
+    function setRandomnessCoordinator(address _coordinator) external onlyOwner {
+        randomnessCoordinator = IRandomnessCoordinator(_coordinator);
+        emit SetRandomnessCoordinator(_coordinator);
+    }
+
     /**
      * @dev Update operator address
      * @param _newOperator Address new operator
@@ -136,4 +1126,9 @@ contract Marketplace is Ownable, Pausable, ReentrancyGuard {
         operator = _newOperator;
         emit SetNewOperator(_newOperator);
     }
+
+    /**
+     * @dev Restricts upgrades of the proxy to the owner
+     */
+    function _authorizeUpgrade(address) internal override onlyOwner {}
 }
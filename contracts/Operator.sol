@@ -2,8 +2,11 @@
 pragma solidity ^0.8.27;
 
 // Import required OpenZeppelin contracts for standard implementations
-import "@openzeppelin/contracts/access/Ownable.sol"; // Provides basic access control
-import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol"; // Provides basic access control
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "./Familiars.sol";
 import "./FamiliarsLib.sol";
 import "./Coins.sol";
@@ -13,16 +16,22 @@ import "./FamiliarsItem.sol";
 import "./Marketplace.sol";
 import "./ERC6551Registry.sol";
 import "./KarmicWellSpring.sol";
+import "./Crafting.sol";
 
 /**
  * @title Operator
  * @dev Contract managing interactions between Familiars and various game resources
- * @notice Handles location changes and resource management for the game
+ * @notice Handles location changes and resource management for the game, deployed behind a UUPS proxy
+ * @notice Storage is append-only, checked against config/storage-layout by `storage-layout:check`
  */
-contract Operator is Ownable, Pausable {
+contract Operator is
+    OwnableUpgradeable,
+    PausableUpgradeable,
+    EIP712Upgradeable,
+    UUPSUpgradeable
+{
     address TBA_REGISTRY;
     address TBA_IMPL;
-    uint256 constant CHAINID = 84532;
     // Contract instances for different game components
     Familiars public familiars; // Contract managing Familiar NFTs
     Coins public coins; // Contract managing in-game currency
@@ -31,24 +40,102 @@ contract Operator is Ownable, Pausable {
     FamiliarsItem public familiarsItem; // Contract of familiar items equippable
     Marketplace public marketplace;
     KarmicWellSpring public karmicWellSpring;
+    Crafting public crafting; // Contract of the crafting recipes, see setCrafting
 
     // Address authorized to verify certain operations
-    address verifier;
+    address public verifier;
 
-    // Nonce for signing
-    uint256 public nonce;
+    // Food eaten and health drained by every Familiar as time passes
+    FamiliarsLib.Upkeep public upkeep;
+
+    // Sequential signing nonce of each caller
+    mapping(address => uint256) public nonces;
+
+    // Bitmap of consumed unordered nonces per caller, keyed by word position
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    // Time the upkeep rates were last set, earlier hours are not owed at them
+    uint64 public upkeepChangedAt;
 
     // Constant used to identify resource tokens across different contracts
     uint256 private constant RESOURCE_TOKEN_ID = 0;
 
+    // Nonces with this bit set are unordered and consumed through the bitmap
+    uint256 public constant UNORDERED_NONCE_FLAG = 1 << 255;
+
+    // EIP-712 typehashes of the actions signed by the verifier
+    bytes32 public constant CREATE_NPC_TYPEHASH =
+        keccak256(
+            "CreateNPC(address caller,address to,string uri,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant GO_TO_LOCATION_TYPEHASH =
+        keccak256(
+            "GoToLocation(address caller,uint256 tokenId,uint8 location,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant EQUIP_ITEM_TYPEHASH =
+        keccak256(
+            "EquipItem(address caller,uint256 tokenId,uint8 slot,uint256 itemId,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant EXCHANGE_KARMIC_ENERGY_TYPEHASH =
+        keccak256(
+            "ExchangeKarmicEnergy(address caller,uint256 tokenId,uint256 karmicEnergyAmt,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant BUY_FOOD_TYPEHASH =
+        keccak256(
+            "BuyFood(address caller,uint256 tokenId,uint256 coinsAmt,uint256 minFoodOut,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant BUY_TREASURE_BOX_TYPEHASH =
+        keccak256(
+            "BuyTreasureBox(address caller,uint256 tokenId,uint256 boxType,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant BUY_ITEM_TYPEHASH =
+        keccak256(
+            "BuyItem(address caller,uint256 tokenId,uint256 itemId,uint256 qty,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant REPAIR_ITEM_TYPEHASH =
+        keccak256(
+            "RepairItem(address caller,uint256 tokenId,uint256 itemId,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant CRAFT_TYPEHASH =
+        keccak256(
+            "Craft(address caller,uint256 tokenId,uint256 recipeId,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant TRAIN_TYPEHASH =
+        keccak256(
+            "Train(address caller,uint256 tokenId,uint256 karmicEnergyAmt,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant CREATE_ORDER_TYPEHASH =
+        keccak256(
+            "CreateOrder(address caller,uint256 tokenId,uint8 asset,uint256 itemId,uint256 amount,uint256 price,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant FILL_ORDER_TYPEHASH =
+        keccak256(
+            "FillOrder(address caller,uint256 tokenId,uint256 orderId,uint256 amount,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant CANCEL_ORDER_TYPEHASH =
+        keccak256(
+            "CancelOrder(address caller,uint256 tokenId,uint256 orderId,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant ACTION_TYPEHASH =
+        keccak256("Action(uint8 actionType,bytes data)");
+    bytes32 public constant EXECUTE_ACTIONS_TYPEHASH =
+        keccak256(
+            "ExecuteActions(address caller,uint256 tokenId,Action[] actions,uint256 nonce,uint256 deadline)Action(uint8 actionType,bytes data)"
+        );
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
     /**
-     * @dev Constructor initializes the Operator with necessary contract addresses
+     * @dev Initializes the Operator proxy with necessary contract addresses
      * @param _familiars Address of the Familiars contract
      * @param _food Address of the Food contract
      * @param _coins Address of the Coins contract
      * @param _karmicEnergy Address of the KarmicEnergy contract
      */
-    constructor(
+    function initialize(
         address _familiars,
         address _food,
         address _coins,
@@ -58,7 +145,10 @@ contract Operator is Ownable, Pausable {
         address _karmicWellSpring,
         address _tbaRegistry,
         address _tbaAccountImpl
-    ) Ownable(_msgSender()) {
+    ) external initializer {
+        __Ownable_init(_msgSender());
+        __Pausable_init();
+        __EIP712_init("Operator", "1");
         verifier = _msgSender();
         familiars = Familiars(_familiars);
         food = Food(_food);
@@ -69,52 +159,126 @@ contract Operator is Ownable, Pausable {
         karmicWellSpring = KarmicWellSpring(_karmicWellSpring);
         TBA_REGISTRY = _tbaRegistry;
         TBA_IMPL = _tbaAccountImpl;
-        nonce = 1;
     }
 
-    modifier validSig(bytes calldata _signature) {
-        address signer = FamiliarsLib.getVerifier(
-            nonce,
-            CHAINID,
-            _msgSender(),
+    /**
+     * @dev Modifier to verify the verifier's EIP-712 signature over an action
+     * @param _structHash Hash of the typed action struct
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature is no longer valid
+     * @param _signature The signature of the verifier
+     */
+    modifier validSig(
+        bytes32 _structHash,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) {
+        _checkSig(_structHash, _nonce, _deadline, _signature);
+        _;
+    }
+
+    /**
+     * @dev Verifies the verifier's signature and consumes the nonce of the caller
+     * @notice Kept out of validSig so the check is not inlined in every action
+     */
+    function _checkSig(
+        bytes32 _structHash,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) private {
+        require(block.timestamp <= _deadline, "Signature expired");
+        address signer = ECDSA.recover(
+            _hashTypedDataV4(_structHash),
             _signature
         );
         require(signer == verifier, "Invalid signature");
-        _;
+        _useNonce(_msgSender(), _nonce);
     }
 
     /**
      * @dev Creates a new NPC (Non-Player Character) Familiar
      * @param _to Address to receive the NPC
      * @param _uri Metadata URI for the NPC
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
      * @param _signature The signature of the verifier
      */
     function createNPC(
         address _to,
         string memory _uri,
+        uint256 _nonce,
+        uint256 _deadline,
         bytes calldata _signature
-    ) external whenNotPaused validSig(_signature) {
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    CREATE_NPC_TYPEHASH,
+                    _msgSender(),
+                    _to,
+                    keccak256(bytes(_uri)),
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
         uint256 _tokenId = familiars.safeMint(_to, _uri);
         _createTba(_tokenId);
-        nonce += 1;
     }
 
     /**
      * @dev Moves a Familiar to a new location after checking requirements
      * @param _tokenId The ID of the Familiar
      * @param _location The destination location
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
      * @param _signature The signature of the verifier
      */
     function goToLocation(
         uint256 _tokenId,
-        FamiliarsLib.Location _location,
+        uint8 _location,
+        uint256 _nonce,
+        uint256 _deadline,
         bytes calldata _signature
-    ) external whenNotPaused validSig(_signature) {
-        address _tba = _getTba(_tokenId);
-        require(_tba != address(0), "Token not bound to address");
-        _reqChecker(_tokenId, _tba, _location);
-        familiars.goToLocation(_tokenId, _location);
-        nonce += 1;
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    GO_TO_LOCATION_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _location,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _goToLocation(_tokenId, _location);
+    }
+
+    /**
+     * @dev Completes the trip of a Familiar once its arrival time has passed
+     * @param _tokenId The ID of the travelling Familiar
+     * @notice Callable by anyone, the rewards of the destination go to the Familiar
+     */
+    function arrive(uint256 _tokenId) external whenNotPaused {
+        _settleUpkeep(_tokenId);
+        _arrive(_tokenId);
+        familiars.notifyMetadataUpdate(_tokenId);
     }
 
     /**
@@ -134,7 +298,7 @@ contract Operator is Ownable, Pausable {
             uint256, // Coin balance of the NPC
             uint256, // Karmic energy balance of the NPC
             uint256, // Food balance of the NPC
-            FamiliarsLib.EquipItems memory // Equipped items of the NPC
+            FamiliarsLib.EquippedItem[] memory // Equipped items of the NPC
         )
     {
         // Retrieve the address associated with the given tokenId
@@ -142,8 +306,14 @@ contract Operator is Ownable, Pausable {
         require(tba != address(0), "Token not bound to address");
 
         // Retrieve the equipped items for the NPC using the tokenId
-        FamiliarsLib.EquipItems memory _equippedItems = familiars
+        FamiliarsLib.EquippedItem[] memory _equippedItems = familiars
             .getEquippedItems(tokenId);
+        for (uint256 i = 0; i < _equippedItems.length; i++) {
+            (
+                _equippedItems[i].durability,
+                _equippedItems[i].maxDurability
+            ) = familiarsItem.getDurability(tba, _equippedItems[i].itemId);
+        }
 
         // Retrieve the health of the NPC using the tokenId
         uint8 health = familiars.getHealth(tokenId);
@@ -164,12 +334,52 @@ contract Operator is Ownable, Pausable {
         return (health, location, _coins, _karmic, _food, _equippedItems);
     }
 
+    /**
+     * @dev Gets the effective luck of a Familiar from its equipped items
+     * @param _tokenId The ID of the Familiar
+     * @return int16 Luck in percent between -100 and 100, skews random rewards
+     */
+    function getLuck(uint256 _tokenId) external view returns (int16) {
+        FamiliarsLib.ItemAttributes memory items = FamiliarsLib
+            .equippedItemAttributes(
+                _gameContracts(),
+                _tokenId,
+                _getTba(_tokenId)
+            );
+        return FamiliarsLib.effectiveLuck(items);
+    }
+
+    /**
+     * @dev Computes the upkeep a Familiar owes since it was last settled
+     * @param _tokenId The ID of the Familiar
+     * @return foodEaten Food that will be burned from the Familiar's account
+     * @return healthLost Health that will be drained for the hours without food
+     * @return elapsedHours Whole hours since the last settlement or the rate change
+     * @notice Hours before the rates changed are not owed, health never drains below 1
+     */
+    function pendingUpkeep(
+        uint256 _tokenId
+    )
+        external
+        view
+        returns (uint256 foodEaten, uint256 healthLost, uint256 elapsedHours)
+    {
+        return
+            FamiliarsLib.pendingUpkeep(
+                _gameContracts(),
+                upkeep,
+                upkeepChangedAt,
+                _tokenId,
+                _getTba(_tokenId)
+            );
+    }
+
     /**
      * @dev Gets the current location requirements
      * @return _requirements The requirements for the location
      */
     function getLocationRequirements(
-        FamiliarsLib.Location _location
+        uint8 _location
     ) external view returns (FamiliarsLib.Requirements memory) {
         FamiliarsLib.Requirements memory _requirements = familiars
             .getLocationRequirements(_location);
@@ -177,370 +387,958 @@ contract Operator is Ownable, Pausable {
     }
 
     /**
-     * @dev Equips items (mouth and/or head) to a specific token
-     * @param _tokenId The ID of the token to equip items to
-     * @param _mouthTokenId The ID of the mouth item to equip (0 if none)
-     * @param _headTokenId The ID of the head item to equip (0 if none)
+     * @dev Equips an item in a slot of a specific token
+     * @param _tokenId The ID of the token to equip the item to
+     * @param _slot The equipment slot to fill
+     * @param _itemId The ID of the item to equip (0 to empty the slot)
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
      * @param _signature The signature of the verifier
      */
     function equipItem(
         uint256 _tokenId,
-        uint256 _mouthTokenId,
-        uint256 _headTokenId,
+        uint8 _slot,
+        uint256 _itemId,
+        uint256 _nonce,
+        uint256 _deadline,
         bytes calldata _signature
-    ) external whenNotPaused validSig(_signature) {
-        address tba = _getTba(_tokenId);
-        require(tba != address(0), "Token not bound to address");
-        familiars.equipItem(
-            _tokenId,
-            _mouthTokenId,
-            _headTokenId,
-            tba,
-            address(familiarsItem)
-        );
-        nonce += 1;
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    EQUIP_ITEM_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _slot,
+                    _itemId,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _equipItem(_tokenId, _slot, _itemId);
     }
 
     /**
      * @dev Exchanges Karmic Energy for a specific token
      * @param _tokenId The ID of the token to exchange energy for
      * @param _karmicEnergyAmt The amount of Karmic Energy to exchange
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
      * @param _signature The signature of the verifier
      */
     function exchangeKarmicEnergy(
         uint256 _tokenId,
         uint256 _karmicEnergyAmt,
+        uint256 _nonce,
+        uint256 _deadline,
         bytes calldata _signature
-    ) external whenNotPaused validSig(_signature) {
-        address tba = _getTba(_tokenId);
-        require(tba != address(0), "Token not bound to address");
-        (, FamiliarsLib.Location loc) = familiars.getCurrentLocation(_tokenId);
-        require(
-            loc == FamiliarsLib.Location.KARMIC_WELLSPRING,
-            "NPC location should be on Karmic Wellspring"
-        );
-        karmicWellSpring.exchangeKarmicEnergy(_karmicEnergyAmt, tba);
-        nonce += 1;
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    EXCHANGE_KARMIC_ENERGY_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _karmicEnergyAmt,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _exchangeKarmicEnergy(_tokenId, _karmicEnergyAmt);
     }
 
     /**
      * @dev Exchanges coins for food
      * @param _tokenId The ID of the token to exchange energy for
      * @param _coinsAmt The amount of coins to exchange
+     * @param _minFoodOut The smallest amount of food accepted for the coins
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
      * @param _signature The signature of the verifier
      */
     function buyFoodToMarketplace(
         uint256 _tokenId,
         uint256 _coinsAmt,
+        uint256 _minFoodOut,
+        uint256 _nonce,
+        uint256 _deadline,
         bytes calldata _signature
-    ) external whenNotPaused validSig(_signature)  {
-        address tba = _getTba(_tokenId);
-        require(tba != address(0), "Token not bound to address");
-        (, FamiliarsLib.Location loc) = familiars.getCurrentLocation(_tokenId);
-        require(
-            loc == FamiliarsLib.Location.MARKET_PLACE,
-            "NPC location should be on marketplace"
-        );
-        marketplace.exchangeCoinsToFood(_coinsAmt, tba);
-        nonce += 1;
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    BUY_FOOD_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _coinsAmt,
+                    _minFoodOut,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _buyFoodToMarketplace(_tokenId, _coinsAmt, _minFoodOut);
     }
 
     /**
      * @dev Exchanges coins to tresurebox
      * @param _tokenId The ID of the token to exchange energy for
+     * @param _boxType The id of the marketplace box type to buy
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
      * @param _signature The signature of the verifier
      */
     function buyTreasureBox(
         uint256 _tokenId,
+        uint256 _boxType,
+        uint256 _nonce,
+        uint256 _deadline,
         bytes calldata _signature
-    ) external whenNotPaused validSig(_signature)  {
-        address tba = _getTba(_tokenId);
-        require(tba != address(0), "Token not bound to address");
-        (, FamiliarsLib.Location loc) = familiars.getCurrentLocation(_tokenId);
-        require(
-            loc == FamiliarsLib.Location.MARKET_PLACE,
-            "NPC location should be on marketplace"
-        );
-        marketplace.buyTreasureBox(tba);
-        nonce += 1;
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    BUY_TREASURE_BOX_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _boxType,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _buyTreasureBox(_tokenId, _boxType);
     }
 
     /**
-     * @dev Main function that checks requirements and processes resource changes
-     * @param _tokenId The ID of the Familiar
-     * @param _tba Token Bound Account address
+     * @dev Buys items from the marketplace item shop
+     * @param _tokenId The ID of the token buying the items
+     * @param _itemId The FamiliarsItem id to buy
+     * @param _qty The number of items to buy
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
      */
-    function _reqChecker(
+    function buyItem(
         uint256 _tokenId,
-        address _tba,
-        FamiliarsLib.Location _location
-    ) internal {
-        // Split processing into two main parts for better organization
-        _checkAndUpdateEquipment(_tokenId, _tba);
-        _processResourceChanges(_tokenId, _tba, _location);
+        uint256 _itemId,
+        uint256 _qty,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    BUY_ITEM_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _itemId,
+                    _qty,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _buyItem(_tokenId, _itemId, _qty);
+    }
+
+    /**
+     * @dev Repairs an item of a Familiar at the marketplace
+     * @param _tokenId The ID of the token holding the item
+     * @param _itemId The FamiliarsItem id to repair
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
+     */
+    function repairItem(
+        uint256 _tokenId,
+        uint256 _itemId,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    REPAIR_ITEM_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _itemId,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _repairItem(_tokenId, _itemId);
     }
 
     /**
-     * @dev Checks and updates equipment status for a Familiar
+     * @dev Crafts a recipe with the resources of a Familiar
+     * @param _tokenId The ID of the token crafting
+     * @param _recipeId The Crafting recipe to craft
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
+     */
+    function craft(
+        uint256 _tokenId,
+        uint256 _recipeId,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    CRAFT_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _recipeId,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _craft(_tokenId, _recipeId);
+    }
+
+    /**
+     * @dev Spends karmic energy of a Familiar at the Karmic Tower to gain XP
+     * @param _tokenId The ID of the token training
+     * @param _karmicEnergyAmt The karmic energy to spend, 1 XP each
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
+     */
+    function train(
+        uint256 _tokenId,
+        uint256 _karmicEnergyAmt,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    TRAIN_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _karmicEnergyAmt,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _train(_tokenId, _karmicEnergyAmt);
+    }
+
+    /**
+     * @dev Lists a resource of a Familiar on the marketplace order book
+     * @param _tokenId The ID of the token selling the resource
+     * @param _asset The resource sold
+     * @param _itemId The FamiliarsItem id for item orders, 0 otherwise
+     * @param _amount The units to sell, moved to escrow until filled or cancelled
+     * @param _price The price of one unit in whole coins
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
+     */
+    function createOrder(
+        uint256 _tokenId,
+        Marketplace.TradeAsset _asset,
+        uint256 _itemId,
+        uint256 _amount,
+        uint256 _price,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    CREATE_ORDER_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _asset,
+                    _itemId,
+                    _amount,
+                    _price,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _createOrder(_tokenId, _asset, _itemId, _amount, _price);
+    }
+
+    /**
+     * @dev Buys units of a marketplace order
+     * @param _tokenId The ID of the token buying
+     * @param _orderId The id of the order
+     * @param _amount The units to buy
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
+     */
+    function fillOrder(
+        uint256 _tokenId,
+        uint256 _orderId,
+        uint256 _amount,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    FILL_ORDER_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _orderId,
+                    _amount,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _fillOrder(_tokenId, _orderId, _amount);
+    }
+
+    /**
+     * @dev Cancels a marketplace order of a Familiar and returns its escrow
+     * @param _tokenId The ID of the token that created the order
+     * @param _orderId The id of the order
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
+     * @notice Allowed anywhere so escrowed resources are never stuck
+     */
+    function cancelOrder(
+        uint256 _tokenId,
+        uint256 _orderId,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    CANCEL_ORDER_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _orderId,
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        _cancelOrder(_tokenId, _orderId);
+    }
+
+    /**
+     * @dev Executes an ordered bundle of actions for one Familiar with a single signature
      * @param _tokenId The ID of the Familiar
-     * @param _tba Token Bound Account address
+     * @param _actions The actions to apply in order
+     * @param _nonce Nonce of the caller the signature was issued for
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature The signature of the verifier
+     * @notice Reverts with ActionFailed and the index of the failing step if any action fails
      */
-    function _checkAndUpdateEquipment(uint256 _tokenId, address _tba) private {
-        // Get currently equipped items
-        FamiliarsLib.EquipItems memory equipped = familiars.getEquippedItems(
-            _tokenId
-        );
-        bool needsUpdate = false;
-        FamiliarsLib.EquipItems memory newEquippedItems = FamiliarsLib
-            .EquipItems({mouth: 0, head: 0});
-
-        // Check if head item is still owned by the account
-        if (equipped.head != 0) {
-            if (familiarsItem.balanceOf(_tba, equipped.head) > 0) {
-                newEquippedItems.head = equipped.head;
-            } else {
-                needsUpdate = true;
+    function executeActions(
+        uint256 _tokenId,
+        FamiliarsLib.Action[] calldata _actions,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        external
+        whenNotPaused
+        validSig(
+            keccak256(
+                abi.encode(
+                    EXECUTE_ACTIONS_TYPEHASH,
+                    _msgSender(),
+                    _tokenId,
+                    _hashActions(_actions),
+                    _nonce,
+                    _deadline
+                )
+            ),
+            _nonce,
+            _deadline,
+            _signature
+        )
+    {
+        require(_actions.length > 0, "No actions to execute");
+        for (uint256 i = 0; i < _actions.length; i++) {
+            try this.executeBundledAction(_tokenId, _actions[i]) {} catch (
+                bytes memory reason
+            ) {
+                revert FamiliarsLib.ActionFailed(i, reason);
             }
         }
+    }
 
-        // Check if mouth item is still owned by the account
-        if (equipped.mouth != 0) {
-            if (familiarsItem.balanceOf(_tba, equipped.mouth) > 0) {
-                newEquippedItems.mouth = equipped.mouth;
-            } else {
-                needsUpdate = true;
-            }
-        }
+    /**
+     * @dev Applies a single action of a bundle
+     * @param _tokenId The ID of the Familiar
+     * @param _action The action to apply
+     * @notice Only callable by the Operator itself from executeActions
+     */
+    function executeBundledAction(
+        uint256 _tokenId,
+        FamiliarsLib.Action calldata _action
+    ) external {
+        require(_msgSender() == address(this), "Caller is not the operator");
+        FamiliarsLib.ActionType actionType = _action.actionType;
 
-        // Update equipment if items were removed
-        if (needsUpdate) {
-            familiars.equipItem(
+        if (actionType == FamiliarsLib.ActionType.GO_TO_LOCATION) {
+            _goToLocation(
+                _tokenId,
+                abi.decode(_action.data, (uint8))
+            );
+        } else if (actionType == FamiliarsLib.ActionType.EQUIP_ITEM) {
+            (uint8 slot, uint256 itemId) = abi.decode(
+                _action.data,
+                (uint8, uint256)
+            );
+            _equipItem(_tokenId, slot, itemId);
+        } else if (
+            actionType == FamiliarsLib.ActionType.EXCHANGE_KARMIC_ENERGY
+        ) {
+            _exchangeKarmicEnergy(
+                _tokenId,
+                abi.decode(_action.data, (uint256))
+            );
+        } else if (actionType == FamiliarsLib.ActionType.BUY_FOOD) {
+            (uint256 coinsAmt, uint256 minFoodOut) = abi.decode(
+                _action.data,
+                (uint256, uint256)
+            );
+            _buyFoodToMarketplace(_tokenId, coinsAmt, minFoodOut);
+        } else if (actionType == FamiliarsLib.ActionType.BUY_TREASURE_BOX) {
+            _buyTreasureBox(
                 _tokenId,
-                newEquippedItems.mouth,
-                newEquippedItems.head,
-                _tba,
-                address(familiarsItem)
+                abi.decode(_action.data, (uint256))
+            );
+        } else if (actionType == FamiliarsLib.ActionType.BUY_ITEM) {
+            (uint256 itemId, uint256 qty) = abi.decode(
+                _action.data,
+                (uint256, uint256)
             );
+            _buyItem(_tokenId, itemId, qty);
+        } else if (actionType == FamiliarsLib.ActionType.REPAIR_ITEM) {
+            _repairItem(_tokenId, abi.decode(_action.data, (uint256)));
+        } else if (actionType == FamiliarsLib.ActionType.CRAFT) {
+            _craft(_tokenId, abi.decode(_action.data, (uint256)));
+        } else if (actionType == FamiliarsLib.ActionType.TRAIN) {
+            _train(_tokenId, abi.decode(_action.data, (uint256)));
+        } else {
+            revert("Action cannot be bundled");
         }
     }
 
     /**
-     * @dev Processes all resource changes for a Familiar
+     * @dev Sends a Familiar to a new location after checking requirements
      * @param _tokenId The ID of the Familiar
-     * @param _tba Token Bound Account address
+     * @param _location The destination location
+     * @notice Costs are paid on departure, rewards are given on arrival
      */
-    function _processResourceChanges(
+    function _goToLocation(
         uint256 _tokenId,
-        address _tba,
-        FamiliarsLib.Location _location
+        uint8 _location
     ) private {
-        // Get location requirements
-        FamiliarsLib.Requirements memory req = familiars
-            .getLocationRequirements(_location);
-        // Get current balances of all resources
-        uint256 currentHealth = familiars.getHealth(_tokenId);
-        uint256 currentKarmicEnergy = karmicEnergy.balanceOf(
-            _tba,
-            RESOURCE_TOKEN_ID
+        address _tba = _getTba(_tokenId);
+        require(_tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        require(
+            familiars.isActionAllowed(
+                _location,
+                FamiliarsLib.ActionType.GO_TO_LOCATION
+            ),
+            "Location is not open"
         );
+        uint256 arrivalTime = familiars.startTravel(_tokenId, _location);
+        bool arrived = arrivalTime <= block.timestamp;
+        _reqChecker(_tokenId, _tba, _location, arrived);
+        if (arrived) {
+            familiars.completeTravel(_tokenId);
+        }
+    }
 
-        uint256 currentFood = food.balanceOf(_tba, RESOURCE_TOKEN_ID);
-        uint256 currentCoins = coins.balanceOf(_tba);
-        // Verify all requirements are met
-        FamiliarsLib.checkRequirements(
-            currentHealth,
-            currentCoins,
-            currentFood,
-            currentKarmicEnergy,
-            req
+    /**
+     * @dev Ends the trip of a Familiar and gives the rewards of its destination
+     * @param _tokenId The ID of the travelling Familiar
+     */
+    function _arrive(uint256 _tokenId) private {
+        address _tba = _getTba(_tokenId);
+        require(_tba != address(0), "Token not bound to address");
+        uint8 destination = familiars.completeTravel(_tokenId);
+        FamiliarsLib.applyLocation(
+            _gameContracts(),
+            _tokenId,
+            _tba,
+            destination,
+            false,
+            true
         );
+    }
 
-        // Get attributes of equipped items
-        (
-            FamiliarsLib.ItemAttributes memory headAttr,
-            FamiliarsLib.ItemAttributes memory mouthAttr
-        ) = _getEquippedItemAttributes(_tokenId);
+    /**
+     * @dev Settles upkeep and finished trips before an action of the Familiar
+     * @param _tokenId The ID of the Familiar
+     * @notice Every action changes the rendered Familiar, marketplaces refresh its metadata
+     */
+    function _settle(uint256 _tokenId) private {
+        _settleUpkeep(_tokenId);
+        _settleTravel(_tokenId);
+        familiars.notifyMetadataUpdate(_tokenId);
+    }
 
-        // Process changes for each resource type
-        _processHealthChanges(
+    /**
+     * @dev Eats the food and drains the health owed for the hours since the last settlement
+     * @param _tokenId The ID of the Familiar
+     */
+    function _settleUpkeep(uint256 _tokenId) private {
+        (uint256 foodEaten, uint256 healthLost) = FamiliarsLib.settleUpkeep(
+            _gameContracts(),
+            upkeep,
+            upkeepChangedAt,
             _tokenId,
-            currentHealth,
-            req,
-            headAttr,
-            mouthAttr
+            _getTba(_tokenId)
         );
-        _processKarmicEnergyChanges(_tba, req, headAttr, mouthAttr);
-        _processFoodChanges(_tba, req, headAttr, mouthAttr);
-        _processCoinChanges(_tba, req, headAttr, mouthAttr);
+        if (foodEaten > 0 || healthLost > 0) {
+            emit FamiliarsLib.UpkeepSettled(_tokenId, foodEaten, healthLost);
+        }
     }
 
     /**
-     * @dev Retrieves attributes for equipped items
+     * @dev Completes a finished trip before another action of the Familiar
      * @param _tokenId The ID of the Familiar
-     * @return headAttr Attributes of equipped head item
-     * @return mouthAttr Attributes of equipped mouth item
+     * @notice Reverts while the Familiar is still on its way
      */
-    function _getEquippedItemAttributes(
-        uint256 _tokenId
-    )
-        private
-        view
-        returns (
-            FamiliarsLib.ItemAttributes memory headAttr,
-            FamiliarsLib.ItemAttributes memory mouthAttr
-        )
-    {
-        FamiliarsLib.EquipItems memory equipped = familiars.getEquippedItems(
-            _tokenId
+    function _settleTravel(uint256 _tokenId) private {
+        FamiliarsLib.Travel memory travel = familiars.getTravel(_tokenId);
+        if (travel.arrivalTime == 0) return;
+        require(block.timestamp >= travel.arrivalTime, "NPC is in transit");
+        _arrive(_tokenId);
+    }
+
+    /**
+     * @dev Equips an item in a slot of a specific token
+     * @param _tokenId The ID of the token to equip the item to
+     * @param _slot The equipment slot to fill
+     * @param _itemId The ID of the item to equip (0 to empty the slot)
+     */
+    function _equipItem(
+        uint256 _tokenId,
+        uint8 _slot,
+        uint256 _itemId
+    ) private {
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.EQUIP_ITEM);
+        familiars.equipItem(
+            _tokenId,
+            _slot,
+            _itemId,
+            tba,
+            address(familiarsItem)
         );
+    }
 
-        if (equipped.head != 0) {
-            headAttr = familiarsItem.getItemAttributes(equipped.head);
-        }
-        if (equipped.mouth != 0) {
-            mouthAttr = familiarsItem.getItemAttributes(equipped.mouth);
-        }
+    /**
+     * @dev Exchanges Karmic Energy at the Karmic Wellspring
+     * @param _tokenId The ID of the token to exchange energy for
+     * @param _karmicEnergyAmt The amount of Karmic Energy to exchange
+     */
+    function _exchangeKarmicEnergy(
+        uint256 _tokenId,
+        uint256 _karmicEnergyAmt
+    ) private {
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.EXCHANGE_KARMIC_ENERGY);
+        karmicWellSpring.exchangeKarmicEnergy(_karmicEnergyAmt, tba);
     }
 
     /**
-     * @dev Processes health changes for a Familiar
-     * @param _tokenId The ID of the Familiar
-     * @param currentHealth Current health value
-     * @param req Location requirements
-     * @param headAttr Head item attributes
-     * @param mouthAttr Mouth item attributes
+     * @dev Exchanges coins for food at the marketplace
+     * @param _tokenId The ID of the token to exchange coins for
+     * @param _coinsAmt The amount of coins to exchange
+     * @param _minFoodOut The smallest amount of food accepted for the coins
      */
-    function _processHealthChanges(
+    function _buyFoodToMarketplace(
         uint256 _tokenId,
-        uint256 currentHealth,
-        FamiliarsLib.Requirements memory req,
-        FamiliarsLib.ItemAttributes memory headAttr,
-        FamiliarsLib.ItemAttributes memory mouthAttr
+        uint256 _coinsAmt,
+        uint256 _minFoodOut
     ) private {
-        unchecked {
-            uint256 healthGain = req.getHealth +
-                headAttr.healthIncrease +
-                mouthAttr.healthIncrease;
-            uint256 healthLoss = req.healthCost +
-                headAttr.healthDecrease +
-                mouthAttr.healthDecrease;
-            uint256 newHealth;
-            if (currentHealth + healthGain >= healthLoss) {
-                newHealth = currentHealth + healthGain - healthLoss;
-            } else {
-                newHealth = 0;
-            }
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.BUY_FOOD);
+        marketplace.exchangeCoinsToFood(_coinsAmt, _minFoodOut, tba);
+    }
 
-            familiars.setHealth(_tokenId, uint8(newHealth));
-        }
+    /**
+     * @dev Exchanges coins to a treasure box at the marketplace
+     * @param _tokenId The ID of the token buying the box
+     * @param _boxType The id of the marketplace box type to buy
+     */
+    function _buyTreasureBox(uint256 _tokenId, uint256 _boxType) private {
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.BUY_TREASURE_BOX);
+        marketplace.buyTreasureBox(
+            _boxType,
+            tba,
+            FamiliarsLib.effectiveLuck(
+                FamiliarsLib.equippedItemAttributes(
+                    _gameContracts(),
+                    _tokenId,
+                    tba
+                )
+            )
+        );
     }
 
     /**
-     * @dev Processes Karmic Energy changes
-     * @param _tba Token Bound Account address
-     * @param req Location requirements
-     * @param headAttr Head item attributes
-     * @param mouthAttr Mouth item attributes
+     * @dev Buys items from the item shop at the marketplace
+     * @param _tokenId The ID of the token buying the items
+     * @param _itemId The FamiliarsItem id to buy
+     * @param _qty The number of items to buy
      */
-    function _processKarmicEnergyChanges(
-        address _tba,
-        FamiliarsLib.Requirements memory req,
-        FamiliarsLib.ItemAttributes memory headAttr,
-        FamiliarsLib.ItemAttributes memory mouthAttr
+    function _buyItem(
+        uint256 _tokenId,
+        uint256 _itemId,
+        uint256 _qty
     ) private {
-        uint256 karmicGain = req.getKarmicEnergy +
-            headAttr.karmicIncrease +
-            mouthAttr.karmicIncrease;
-        uint256 karmicLoss = req.karmicEnergyCost +
-            headAttr.karmicDecrease +
-            mouthAttr.karmicDecrease;
-
-        if (karmicGain > karmicLoss) {
-            _giveKarmicEnergyToNPC(_tba, karmicGain - karmicLoss);
-        } else if (karmicGain < karmicLoss) {
-            karmicEnergy.burn(_tba, RESOURCE_TOKEN_ID, karmicLoss - karmicGain);
-        }
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.BUY_ITEM);
+        marketplace.buyItem(_itemId, _qty, tba);
     }
 
     /**
-     * @dev Processes Food changes
-     * @param _tba Token Bound Account address
-     * @param req Location requirements
-     * @param headAttr Head item attributes
-     * @param mouthAttr Mouth item attributes
+     * @dev Repairs an item at the marketplace
+     * @param _tokenId The ID of the token holding the item
+     * @param _itemId The FamiliarsItem id to repair
      */
-    function _processFoodChanges(
-        address _tba,
-        FamiliarsLib.Requirements memory req,
-        FamiliarsLib.ItemAttributes memory headAttr,
-        FamiliarsLib.ItemAttributes memory mouthAttr
+    function _repairItem(uint256 _tokenId, uint256 _itemId) private {
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.REPAIR_ITEM);
+        marketplace.repairItem(_itemId, tba);
+    }
+
+    /**
+     * @dev Crafts a recipe, the inputs are burned from the TBA
+     * @param _tokenId The ID of the token crafting
+     * @param _recipeId The Crafting recipe to craft
+     */
+    function _craft(uint256 _tokenId, uint256 _recipeId) private {
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.CRAFT);
+        crafting.craft(_recipeId, tba);
+    }
+
+    /**
+     * @dev Burns karmic energy from the TBA and gives the Familiar as much XP
+     * @param _tokenId The ID of the token training
+     * @param _karmicEnergyAmt The karmic energy to spend
+     */
+    function _train(uint256 _tokenId, uint256 _karmicEnergyAmt) private {
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.TRAIN);
+        require(_karmicEnergyAmt > 0, "Amount must be greater than 0");
+        require(
+            karmicEnergy.balanceOf(tba, RESOURCE_TOKEN_ID) >= _karmicEnergyAmt,
+            "Not enough karmic energy"
+        );
+        karmicEnergy.burn(tba, RESOURCE_TOKEN_ID, _karmicEnergyAmt);
+        familiars.addXp(_tokenId, _karmicEnergyAmt);
+    }
+
+    /**
+     * @dev Lists a resource of a Familiar on the marketplace order book
+     * @param _tokenId The ID of the token selling the resource
+     * @param _asset The resource sold
+     * @param _itemId The FamiliarsItem id for item orders, 0 otherwise
+     * @param _amount The units to sell
+     * @param _price The price of one unit in whole coins
+     */
+    function _createOrder(
+        uint256 _tokenId,
+        Marketplace.TradeAsset _asset,
+        uint256 _itemId,
+        uint256 _amount,
+        uint256 _price
     ) private {
-        uint256 foodGain = req.getFood +
-            headAttr.foodIncrease +
-            mouthAttr.foodIncrease;
-        uint256 foodLoss = req.foodCost +
-            headAttr.foodDecrease +
-            mouthAttr.foodDecrease;
-
-        if (foodGain > foodLoss) {
-            _giveFoodToNPC(_tba, foodGain - foodLoss);
-        } else if (foodGain < foodLoss) {
-            food.burn(_tba, RESOURCE_TOKEN_ID, foodLoss - foodGain);
-        }
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.TRADE);
+        marketplace.createOrder(tba, _asset, _itemId, _amount, _price);
     }
 
     /**
-     * @dev Processes Coin changes
-     * @param _tba Token Bound Account address
-     * @param req Location requirements
-     * @param headAttr Head item attributes
-     * @param mouthAttr Mouth item attributes
+     * @dev Buys units of a marketplace order
+     * @param _tokenId The ID of the token buying
+     * @param _orderId The id of the order
+     * @param _amount The units to buy
      */
-    function _processCoinChanges(
-        address _tba,
-        FamiliarsLib.Requirements memory req,
-        FamiliarsLib.ItemAttributes memory headAttr,
-        FamiliarsLib.ItemAttributes memory mouthAttr
+    function _fillOrder(
+        uint256 _tokenId,
+        uint256 _orderId,
+        uint256 _amount
     ) private {
-        uint256 coinGain = req.getCoin +
-            headAttr.coinIncrease +
-            mouthAttr.coinIncrease;
-        uint256 coinLoss = req.coinCost +
-            headAttr.coinDecrease +
-            mouthAttr.coinDecrease;
-
-        if (coinGain > coinLoss) {
-            _giveCoinsToNPC(_tba, coinGain - coinLoss);
-        } else if (coinGain < coinLoss) {
-            coins.burnFrom(_tba, coinLoss - coinGain);
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        _settle(_tokenId);
+        _requireActionAllowed(_tokenId, FamiliarsLib.ActionType.TRADE);
+        marketplace.fillOrder(_orderId, _amount, tba);
+    }
+
+    /**
+     * @dev Cancels a marketplace order of a Familiar
+     * @param _tokenId The ID of the token that created the order
+     * @param _orderId The id of the order
+     */
+    function _cancelOrder(uint256 _tokenId, uint256 _orderId) private {
+        address tba = _getTba(_tokenId);
+        require(tba != address(0), "Token not bound to address");
+        marketplace.cancelOrder(_orderId, tba);
+        familiars.notifyMetadataUpdate(_tokenId);
+    }
+
+    /**
+     * @dev Reverts unless the current location of a Familiar allows an action
+     * @param _tokenId The ID of the Familiar
+     * @param _action The action to check
+     */
+    function _requireActionAllowed(
+        uint256 _tokenId,
+        FamiliarsLib.ActionType _action
+    ) private view {
+        (, uint8 loc) = familiars.getCurrentLocation(_tokenId);
+        require(
+            familiars.isActionAllowed(loc, _action),
+            "Action not allowed at location"
+        );
+    }
+
+    /**
+     * @dev Computes the EIP-712 hash of a list of bundled actions
+     * @param _actions The bundled actions
+     * @return bytes32 Hash of the Action[] array
+     */
+    function _hashActions(
+        FamiliarsLib.Action[] calldata _actions
+    ) private pure returns (bytes32) {
+        bytes32[] memory hashes = new bytes32[](_actions.length);
+        for (uint256 i = 0; i < _actions.length; i++) {
+            hashes[i] = keccak256(
+                abi.encode(
+                    ACTION_TYPEHASH,
+                    _actions[i].actionType,
+                    keccak256(_actions[i].data)
+                )
+            );
         }
+        return keccak256(abi.encodePacked(hashes));
     }
 
     /**
-     * @dev Mints coins to a specified address
-     * @param to Recipient address
-     * @param amount Amount of coins to mint
+     * @dev Checks whether a nonce of a caller has been used or invalidated
+     * @param _owner The caller the nonce belongs to
+     * @param _nonce The sequential or unordered nonce to check
+     * @return bool True if the nonce can no longer be used
      */
-    function _giveCoinsToNPC(address to, uint256 amount) internal {
-        coins.mint(to, amount);
+    function isNonceUsed(
+        address _owner,
+        uint256 _nonce
+    ) public view returns (bool) {
+        if (_nonce & UNORDERED_NONCE_FLAG == 0) {
+            return _nonce < nonces[_owner];
+        }
+        (uint256 wordPos, uint256 bit) = _bitmapPosition(_nonce);
+        return nonceBitmap[_owner][wordPos] & bit != 0;
     }
 
     /**
-     * @dev Mints food to a specified address
-     * @param to Recipient address
-     * @param amount Amount of food to mint
+     * @dev Cancels an issued signature by invalidating its nonce
+     * @param _owner The caller the nonce belongs to
+     * @param _nonce The nonce to invalidate, sequential nonces also invalidate every lower nonce
+     * @notice Only callable by the nonce owner or the verifier
      */
-    function _giveFoodToNPC(address to, uint256 amount) internal {
-        food.mint(to, amount);
+    function invalidateNonce(address _owner, uint256 _nonce) external {
+        require(
+            _msgSender() == _owner || _msgSender() == verifier,
+            "Caller is not the nonce owner or the verifier"
+        );
+        require(!isNonceUsed(_owner, _nonce), "Nonce already used");
+        _markNonceUsed(_owner, _nonce);
+        emit FamiliarsLib.NonceInvalidated(_owner, _nonce);
     }
 
     /**
-     * @dev Mints Karmic Energy to a specified address
-     * @param to Recipient address
-     * @param amount Amount of Karmic Energy to mint
+     * @dev Consumes a nonce of a caller, reverting if it cannot be used
+     * @param _owner The caller the nonce belongs to
+     * @param _nonce The sequential or unordered nonce to consume
      */
-    function _giveKarmicEnergyToNPC(address to, uint256 amount) internal {
-        karmicEnergy.mint(to, amount);
+    function _useNonce(address _owner, uint256 _nonce) private {
+        if (_nonce & UNORDERED_NONCE_FLAG == 0) {
+            require(_nonce == nonces[_owner], "Invalid nonce");
+        } else {
+            require(!isNonceUsed(_owner, _nonce), "Nonce already used");
+        }
+        _markNonceUsed(_owner, _nonce);
+    }
+
+    /**
+     * @dev Marks a nonce as used without checking it
+     * @param _owner The caller the nonce belongs to
+     * @param _nonce The sequential or unordered nonce to mark
+     */
+    function _markNonceUsed(address _owner, uint256 _nonce) private {
+        if (_nonce & UNORDERED_NONCE_FLAG == 0) {
+            nonces[_owner] = _nonce + 1;
+        } else {
+            (uint256 wordPos, uint256 bit) = _bitmapPosition(_nonce);
+            nonceBitmap[_owner][wordPos] |= bit;
+        }
+    }
+
+    /**
+     * @dev Splits an unordered nonce into its bitmap word and bit mask
+     * @param _nonce The unordered nonce
+     * @return wordPos Index of the bitmap word
+     * @return bit Mask of the nonce bit inside the word
+     */
+    function _bitmapPosition(
+        uint256 _nonce
+    ) private pure returns (uint256 wordPos, uint256 bit) {
+        uint256 index = _nonce & ~UNORDERED_NONCE_FLAG;
+        wordPos = index >> 8;
+        bit = 1 << (index & 0xff);
+    }
+
+    /**
+     * @dev Main function that checks requirements and processes resource changes
+     * @param _tokenId The ID of the Familiar
+     * @param _tba Token Bound Account address
+     * @param _arrived True to also give the rewards, false when they wait for arrival
+     */
+    function _reqChecker(
+        uint256 _tokenId,
+        address _tba,
+        uint8 _location,
+        bool _arrived
+    ) internal {
+        FamiliarsLib.applyLocation(
+            _gameContracts(),
+            _tokenId,
+            _tba,
+            _location,
+            true,
+            _arrived
+        );
+    }
+
+    /**
+     * @dev Gets the contracts the resource changes of the Familiars go through
+     */
+    function _gameContracts()
+        private
+        view
+        returns (FamiliarsLib.GameContracts memory)
+    {
+        return
+            FamiliarsLib.GameContracts({
+                familiars: address(familiars),
+                coins: address(coins),
+                food: address(food),
+                karmicEnergy: address(karmicEnergy),
+                familiarsItem: address(familiarsItem)
+            });
     }
 
     /**
@@ -554,7 +1352,7 @@ contract Operator is Ownable, Pausable {
             registry.createAccount(
                 TBA_IMPL,
                 0,
-                CHAINID,
+                block.chainid,
                 address(familiars),
                 _tokenId
             );
@@ -571,7 +1369,7 @@ contract Operator is Ownable, Pausable {
             registry.account(
                 TBA_IMPL,
                 0,
-                CHAINID,
+                block.chainid,
                 address(familiars),
                 _tokenId
             );
@@ -589,6 +1387,24 @@ contract Operator is Ownable, Pausable {
         }
     }
 
+    /**
+     * @dev Sets the food eaten and health drained per hour by every Familiar
+     * @param _foodPerHour Food eaten per elapsed hour, 0 disables upkeep
+     * @param _healthPerHour Health lost per hour the food could not cover
+     * @notice Hours before the change are not owed, Familiars pay the new rates from now on
+     */
+    function setUpkeep(
+        uint32 _foodPerHour,
+        uint32 _healthPerHour
+    ) external onlyOwner {
+        upkeep = FamiliarsLib.Upkeep({
+            foodPerHour: _foodPerHour,
+            healthPerHour: _healthPerHour
+        });
+        upkeepChangedAt = uint64(block.timestamp);
+        emit FamiliarsLib.SetUpkeep(_foodPerHour, _healthPerHour);
+    }
+
     /**
      * @dev Pauses or unpauses the contract
      * @param _newVerifier True to pause, false to unpause
@@ -597,4 +1413,18 @@ contract Operator is Ownable, Pausable {
         verifier = _newVerifier;
         emit FamiliarsLib.SetVerifier(_newVerifier);
     }
+
+    /**
+     * @dev Sets the Crafting contract used by the craft action
+     * @param _crafting Address of the Crafting contract
+     */
+    function setCrafting(address _crafting) external onlyOwner {
+        crafting = Crafting(_crafting);
+        emit FamiliarsLib.SetCrafting(_crafting);
+    }
+
+    /**
+     * @dev Restricts upgrades of the proxy to the owner
+     */
+    function _authorizeUpgrade(address) internal override onlyOwner {}
 }
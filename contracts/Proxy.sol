@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.27;
+
+// Proxy the upgradeable Operator, Marketplace and KarmicWellSpring are deployed behind
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.27;
+
+/**
+ * @dev Builds the metadata of Familiars tokens from their on-chain state
+ */
+interface IFamiliarsRenderer {
+    /**
+     * @dev Renders the metadata of a token
+     * @param tokenId The ID of the token to render
+     * @return string A data URI holding the JSON metadata
+     */
+    function tokenURI(uint256 tokenId) external view returns (string memory);
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.27;
+
+/**
+ * @dev Receiver of the random words of an IRandomnessCoordinator
+ */
+interface IRandomnessConsumer {
+    /**
+     * @dev Delivers the random words of a request
+     * @param requestId Id returned by requestRandomWords
+     * @param randomWords The random words
+     * @notice Must only accept calls from the coordinator
+     */
+    function rawFulfillRandomWords(
+        uint256 requestId,
+        uint256[] calldata randomWords
+    ) external;
+}
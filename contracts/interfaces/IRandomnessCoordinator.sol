@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.27;
+
+/**
+ * @dev VRF-style source of randomness
+ * @notice Fulfils each request later by calling rawFulfillRandomWords on the requester
+ */
+interface IRandomnessCoordinator {
+    /**
+     * @dev Requests random words for the caller
+     * @param numWords Number of random words to deliver
+     * @return requestId Id passed back with the fulfilment
+     */
+    function requestRandomWords(
+        uint32 numWords
+    ) external returns (uint256 requestId);
+}
@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.27;
+
+import "../interfaces/IRandomnessCoordinator.sol";
+import "../interfaces/IRandomnessConsumer.sol";
+
+/**
+ * @title MockRandomnessCoordinator
+ * @dev Local stand-in for a VRF coordinator, requests are fulfilled by hand
+ * @notice For tests and local networks only, anyone can choose the random words
+ */
+contract MockRandomnessCoordinator is IRandomnessCoordinator {
+    // Id of the next request, starting at 1
+    uint256 public nextRequestId = 1;
+
+    // Requester and number of words of each open request
+    mapping(uint256 => address) public consumers;
+    mapping(uint256 => uint32) public numWordsOf;
+
+    event RandomWordsRequested(
+        uint256 indexed requestId,
+        address indexed consumer,
+        uint32 numWords
+    );
+    event RandomWordsFulfilled(uint256 indexed requestId);
+
+    /**
+     * @dev Records a request of the caller
+     * @param numWords Number of random words to deliver
+     * @return requestId Id of the request
+     */
+    function requestRandomWords(
+        uint32 numWords
+    ) external returns (uint256 requestId) {
+        requestId = nextRequestId++;
+        consumers[requestId] = msg.sender;
+        numWordsOf[requestId] = numWords;
+        emit RandomWordsRequested(requestId, msg.sender, numWords);
+    }
+
+    /**
+     * @dev Fulfils a request with the given words
+     * @param requestId Id of the open request
+     * @param randomWords Words to deliver, must match the requested count
+     */
+    function fulfillRandomWords(
+        uint256 requestId,
+        uint256[] memory randomWords
+    ) public {
+        address consumer = consumers[requestId];
+        require(consumer != address(0), "Unknown request");
+        require(
+            randomWords.length == numWordsOf[requestId],
+            "Wrong number of words"
+        );
+        delete consumers[requestId];
+        delete numWordsOf[requestId];
+        IRandomnessConsumer(consumer).rawFulfillRandomWords(
+            requestId,
+            randomWords
+        );
+        emit RandomWordsFulfilled(requestId);
+    }
+
+    /**
+     * @dev Fulfils a request with words derived from a seed
+     * @param requestId Id of the open request
+     * @param seed Seed the words are hashed from
+     */
+    function fulfillRandomWordsWithSeed(
+        uint256 requestId,
+        uint256 seed
+    ) external {
+        uint256[] memory randomWords = new uint256[](numWordsOf[requestId]);
+        for (uint256 i = 0; i < randomWords.length; i++) {
+            randomWords[i] = uint256(keccak256(abi.encode(seed, i)));
+        }
+        fulfillRandomWords(requestId, randomWords);
+    }
+}
@@ -1,15 +1,34 @@
 import { HardhatUserConfig, vars } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-verify";
+import "./tasks/deployments";
+import "./tasks/gameConfig";
+import "./tasks/indexer";
+import "./tasks/storageLayout";
+import "./tasks/verifier";
+import "./tasks/wiring";
 
 const PRIVATEKEY_DEV = vars.get("PRIVATEKEY_DEV");
 const BASE_SEPOLIA_RPC = vars.get("BASE_SEPOLIA_RPC");
 const BLOCKSCOUT_API_KEY = vars.get("BLOCKSCOUT_API_KEY");
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.27",
+  solidity: {
+    version: "0.8.27",
+    settings: {
+      optimizer: {
+        enabled: true,
+        runs: 200,
+      },
+      // Read by the storage-layout tasks to guard upgrades of the proxies
+      outputSelection: {
+        "*": { "*": ["storageLayout"] },
+      },
+    },
+  },
   networks: {
     baseSepolia: {
+      chainId: 84532,
       url: BASE_SEPOLIA_RPC,
       accounts: [PRIVATEKEY_DEV],
     },
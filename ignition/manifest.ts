@@ -0,0 +1,11 @@
+import hre from "hardhat";
+import { readDeploymentManifest } from "../tasks/deployments";
+
+/**
+ * Deployment manifest of the network being deployed to, undefined until a
+ * deployment is recorded with `deployments:record`
+ */
+export const manifest = readDeploymentManifest(
+  hre.config.paths.root,
+  hre.network.name
+);
@@ -0,0 +1,26 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { manifest } from "../manifest";
+
+/**
+ * Upgrades the KarmicWellSpring proxy to a new implementation. Check the
+ * storage layout first with `npx hardhat storage-layout:check`
+ */
+const KarmicWellSpringUpgradeModule = buildModule(
+  "KarmicWellSpringUpgradeModule",
+  (m) => {
+    const proxy = m.getParameter<string>(
+      "proxy",
+      manifest?.contracts.karmicWellSpring
+    );
+
+    const implementation = m.contract("KarmicWellSpring");
+    const karmicwellspring = m.contractAt("KarmicWellSpring", proxy, {
+      id: "KarmicWellSpringProxy",
+    });
+    m.call(karmicwellspring, "upgradeToAndCall", [implementation, "0x"]);
+
+    return { karmicwellspring, implementation };
+  }
+);
+
+export default KarmicWellSpringUpgradeModule;
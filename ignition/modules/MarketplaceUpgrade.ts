@@ -0,0 +1,26 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { manifest } from "../manifest";
+
+/**
+ * Upgrades the Marketplace proxy to a new implementation. Check the storage
+ * layout first with `npx hardhat storage-layout:check`
+ */
+const MarketplaceUpgradeModule = buildModule(
+  "MarketplaceUpgradeModule",
+  (m) => {
+    const proxy = m.getParameter<string>(
+      "proxy",
+      manifest?.contracts.marketplace
+    );
+
+    const implementation = m.contract("Marketplace");
+    const marketplace = m.contractAt("Marketplace", proxy, {
+      id: "MarketplaceProxy",
+    });
+    m.call(marketplace, "upgradeToAndCall", [implementation, "0x"]);
+
+    return { marketplace, implementation };
+  }
+);
+
+export default MarketplaceUpgradeModule;
@@ -7,6 +7,7 @@ import ERC6551RegistryModule from "./ERC6551Registry";
 import ERC6551AccountModule from "./ERC6551Account";
 import MarketplaceModule from "./Marketplace";
 import FamiliarsItemModule from "./FamiliarsItem";
+import { manifest } from "../manifest";
 
 const OperatorModule = buildModule("OperatorModule", (m) => {
   // Get contract instances from other modules
@@ -14,44 +15,97 @@ const OperatorModule = buildModule("OperatorModule", (m) => {
   const foodModule = m.useModule(FoodModule);
   const coinsModule = m.useModule(CoinsModule);
   const karmicEnergyModule = m.useModule(KarmicEnergyModule);
-  const registryModule = m.useModule(ERC6551RegistryModule);
-  const accountModule = m.useModule(ERC6551AccountModule);
+  // Use the ERC-6551 registry of the network manifest, the canonical one on
+  // public chains, and deploy one elsewhere
+  const registry = manifest?.contracts.registry
+    ? m.contractAt("ERC6551Registry", manifest.contracts.registry)
+    : m.useModule(ERC6551RegistryModule).reg;
+  // Reuse the token bound account implementation of the manifest, it is
+  // stateless and shared by every deployment of the network
+  const account = manifest?.contracts.account
+    ? m.contractAt("ERC6551Account", manifest.contracts.account)
+    : m.useModule(ERC6551AccountModule).account;
   const familiarsItemModule = m.useModule(FamiliarsItemModule);
 
-  // Deploy marketplace with tokens
-  const karmicwellspring = m.contract("KarmicWellSpring", [
+  const resources = [
     karmicEnergyModule.karmicEnergy,
     foodModule.food,
     coinsModule.coins,
-  ]);
+  ];
+
+  // Deploy the karmic wellspring behind a proxy, initialized with the tokens
+  const karmicwellspringImplementation = m.contract("KarmicWellSpring", [], {
+    id: "KarmicWellSpringImplementation",
+  });
+  const karmicwellspringProxy = m.contract(
+    "ERC1967Proxy",
+    [
+      karmicwellspringImplementation,
+      m.encodeFunctionCall(
+        karmicwellspringImplementation,
+        "initialize",
+        resources
+      ),
+    ],
+    { id: "KarmicWellSpringProxy" }
+  );
+  const karmicwellspring = m.contractAt(
+    "KarmicWellSpring",
+    karmicwellspringProxy,
+    { id: "KarmicWellSpring" }
+  );
 
-  // Deploy marketplace with tokens
-  const marketplace = m.contract("Marketplace", [
+  // Deploy the marketplace behind a proxy, initialized with the tokens
+  const marketplaceImplementation = m.contract("Marketplace", [], {
+    id: "MarketplaceImplementation",
+  });
+  const marketplaceProxy = m.contract(
+    "ERC1967Proxy",
+    [
+      marketplaceImplementation,
+      m.encodeFunctionCall(marketplaceImplementation, "initialize", resources),
+    ],
+    { id: "MarketplaceProxy" }
+  );
+  const marketplace = m.contractAt("Marketplace", marketplaceProxy, {
+    id: "Marketplace",
+  });
+
+  // Deploy crafting with tokens
+  const crafting = m.contract("Crafting", [
     karmicEnergyModule.karmicEnergy,
     foodModule.food,
     coinsModule.coins,
+    familiarsItemModule.familiarsItem,
   ]);
 
+  // Deploy the operator behind a proxy, initialized with the game contracts
   const lib = m.library("FamiliarsLib");
-  const operator = m.contract(
-    "Operator",
+  const operatorImplementation = m.contract("Operator", [], {
+    id: "OperatorImplementation",
+    libraries: {
+      FamiliarsLib: lib,
+    },
+  });
+  const operatorProxy = m.contract(
+    "ERC1967Proxy",
     [
-      familiarsModule.familiars,
-      foodModule.food,
-      coinsModule.coins,
-      karmicEnergyModule.karmicEnergy,
-      familiarsItemModule.familiarsItem,
-      marketplace, // Using the marketplace we just deployed
-      karmicwellspring,
-      registryModule.reg,
-      accountModule.account,
+      operatorImplementation,
+      m.encodeFunctionCall(operatorImplementation, "initialize", [
+        familiarsModule.familiars,
+        foodModule.food,
+        coinsModule.coins,
+        karmicEnergyModule.karmicEnergy,
+        familiarsItemModule.familiarsItem,
+        marketplace, // Using the marketplace we just deployed
+        karmicwellspring,
+        registry,
+        account,
+      ]),
     ],
-    {
-      libraries: {
-        FamiliarsLib: lib,
-      },
-    }
+    { id: "OperatorProxy" }
   );
+  const operator = m.contractAt("Operator", operatorProxy, { id: "Operator" });
 
   m.call(familiarsModule.familiars, "setOperator", [operator]);
   m.call(foodModule.food, "setOperator", [operator]);
@@ -69,9 +123,22 @@ const OperatorModule = buildModule("OperatorModule", (m) => {
     karmicwellspring,
   ]);
 
+  m.call(foodModule.food, "setCrafting", [crafting]);
+  m.call(coinsModule.coins, "setCrafting", [crafting]);
+  m.call(karmicEnergyModule.karmicEnergy, "setCrafting", [crafting]);
+  m.call(familiarsItemModule.familiarsItem, "setCrafting", [crafting]);
+  m.call(crafting, "setOperator", [operator]);
+  m.call(operator, "setCrafting", [crafting]);
+
+  // Deploy the on-chain metadata renderer, tokens opt in with setRenderedURI
+  const renderer = m.contract("FamiliarsRenderer", [operator]);
+  m.call(familiarsModule.familiars, "setRenderer", [renderer]);
+
   m.call(marketplace, "setOperator", [operator]);
+  m.call(karmicwellspring, "setOperator", [operator]);
+  m.call(marketplace, "setFamiliarsItem", [familiarsItemModule.familiarsItem]);
 
-  return { operator, marketplace,karmicwellspring };
+  return { operator, marketplace, karmicwellspring, crafting, renderer };
 });
 
 export default OperatorModule;
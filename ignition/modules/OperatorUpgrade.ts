@@ -0,0 +1,24 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { manifest } from "../manifest";
+
+/**
+ * Upgrades the Operator proxy to a new implementation, linked with a new
+ * FamiliarsLib. Check the storage layout first with
+ * `npx hardhat storage-layout:check`
+ */
+const OperatorUpgradeModule = buildModule("OperatorUpgradeModule", (m) => {
+  const proxy = m.getParameter<string>("proxy", manifest?.contracts.operator);
+
+  const lib = m.library("FamiliarsLib");
+  const implementation = m.contract("Operator", [], {
+    libraries: {
+      FamiliarsLib: lib,
+    },
+  });
+  const operator = m.contractAt("Operator", proxy, { id: "OperatorProxy" });
+  m.call(operator, "upgradeToAndCall", [implementation, "0x"]);
+
+  return { operator, implementation };
+});
+
+export default OperatorUpgradeModule;
@@ -0,0 +1,398 @@
+import {
+  Interface,
+  Log,
+  LogDescription,
+  ParamType,
+  Provider,
+  Result,
+} from "ethers";
+import {
+  Coins__factory,
+  Crafting__factory,
+  FamiliarsItem__factory,
+  Familiars__factory,
+  Food__factory,
+  KarmicEnergy__factory,
+  KarmicWellSpring__factory,
+  Marketplace__factory,
+  Operator__factory,
+} from "../typechain-types";
+import { IndexedEvent, IndexedTransfer, IndexerDatabase } from "./database";
+
+/**
+ * Addresses of the contracts followed by the indexer
+ */
+export interface IndexedContracts {
+  operator: string;
+  familiars: string;
+  coins: string;
+  food: string;
+  karmicEnergy: string;
+  familiarsItem: string;
+  marketplace: string;
+  karmicWellSpring: string;
+  crafting: string;
+}
+
+type ContractName = Exclude<keyof IndexedContracts, "operator">;
+
+// Display name, ABI and followed events of each indexed contract
+const CONTRACTS: Record<
+  ContractName,
+  { name: string; iface: Interface; events: string[] }
+> = {
+  familiars: {
+    name: "Familiars",
+    iface: Familiars__factory.createInterface(),
+    events: [
+      "Transfer",
+      "GoToLocation",
+      "TravelStarted",
+      "SetHealth",
+      "SetLocationRequirements",
+      "ItemEquipped",
+      "ItemUnequipped",
+      "XpGained",
+      "LevelUp",
+    ],
+  },
+  coins: {
+    name: "Coins",
+    iface: Coins__factory.createInterface(),
+    events: ["Transfer"],
+  },
+  food: {
+    name: "Food",
+    iface: Food__factory.createInterface(),
+    events: ["TransferSingle", "TransferBatch"],
+  },
+  karmicEnergy: {
+    name: "KarmicEnergy",
+    iface: KarmicEnergy__factory.createInterface(),
+    events: ["TransferSingle", "TransferBatch"],
+  },
+  familiarsItem: {
+    name: "FamiliarsItem",
+    iface: FamiliarsItem__factory.createInterface(),
+    events: [
+      "TransferSingle",
+      "TransferBatch",
+      "ItemWorn",
+      "ItemBroken",
+      "ItemRepaired",
+    ],
+  },
+  marketplace: {
+    name: "Marketplace",
+    iface: Marketplace__factory.createInterface(),
+    events: [
+      "FoodExchange",
+      "BuyTreasureBox",
+      "TreasureBoxOpened",
+      "BuyItem",
+      "RepairItem",
+      "OrderCreated",
+      "OrderFilled",
+      "OrderCancelled",
+    ],
+  },
+  karmicWellSpring: {
+    name: "KarmicWellSpring",
+    iface: KarmicWellSpring__factory.createInterface(),
+    events: ["KarmicExchanged"],
+  },
+  crafting: {
+    name: "Crafting",
+    iface: Crafting__factory.createInterface(),
+    events: ["Crafted", "SetRecipe"],
+  },
+};
+
+// Argument holding the token bound account of events keyed by account
+const TBA_ARGS: Record<string, string> = {
+  KarmicExchanged: "user",
+  FoodExchange: "tba",
+  BuyTreasureBox: "tba",
+  TreasureBoxOpened: "tba",
+  BuyItem: "tba",
+  RepairItem: "tba",
+  Crafted: "tba",
+  ItemWorn: "account",
+  ItemBroken: "account",
+  ItemRepaired: "account",
+  OrderCreated: "seller",
+  OrderFilled: "buyer",
+};
+
+/**
+ * Options of the indexer
+ */
+export interface IndexerOptions {
+  startBlock?: number; // First block to index, 0 by default
+  batchSize?: number; // Blocks per eth_getLogs request, 1000 by default
+}
+
+/**
+ * Outcome of a sync
+ */
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number; // Events stored by this sync
+  reorgedFrom?: number; // First block dropped because of a reorg
+}
+
+/**
+ * Follows the game contracts and writes their events to an IndexerDatabase
+ */
+export class Indexer {
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly contractsByAddress: Map<string, ContractName>;
+
+  constructor(
+    readonly db: IndexerDatabase,
+    readonly provider: Provider,
+    readonly contracts: IndexedContracts,
+    options: IndexerOptions = {}
+  ) {
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 1000;
+    this.contractsByAddress = new Map(
+      (Object.keys(CONTRACTS) as ContractName[]).map((key) => [
+        contracts[key].toLowerCase(),
+        key,
+      ])
+    );
+  }
+
+  /**
+   * Resolves the followed contracts from a deployed Operator
+   * @param operator Address of the Operator
+   * @param provider Provider of the chain
+   */
+  static async resolveContracts(
+    operator: string,
+    provider: Provider
+  ): Promise<IndexedContracts> {
+    const contract = Operator__factory.connect(operator, provider);
+    const [
+      familiars,
+      coins,
+      food,
+      karmicEnergy,
+      familiarsItem,
+      marketplace,
+      karmicWellSpring,
+      crafting,
+    ] = await Promise.all([
+      contract.familiars(),
+      contract.coins(),
+      contract.food(),
+      contract.karmicEnergy(),
+      contract.familiarsItem(),
+      contract.marketplace(),
+      contract.karmicWellSpring(),
+      contract.crafting(),
+    ]);
+    return {
+      operator,
+      familiars,
+      coins,
+      food,
+      karmicEnergy,
+      familiarsItem,
+      marketplace,
+      karmicWellSpring,
+      crafting,
+    };
+  }
+
+  /**
+   * Indexes every block up to the chain head, rolling back reorged blocks first
+   */
+  async sync(): Promise<SyncResult> {
+    const head = await this.provider.getBlockNumber();
+    let cursor = this.db.getCursor() ?? this.startBlock - 1;
+
+    let reorgedFrom: number | undefined;
+    const ancestor = await this.findCommonAncestor(cursor);
+    if (ancestor < cursor) {
+      this.db.rollback(ancestor);
+      reorgedFrom = ancestor + 1;
+      cursor = ancestor;
+    }
+
+    let events = 0;
+    for (let from = cursor + 1; from <= head; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, head);
+      events += await this.indexRange(from, to);
+    }
+    if (head > cursor) {
+      const block = (await this.provider.getBlock(head))!;
+      this.db.recordBlock(head, block.hash!, block.timestamp);
+      this.db.setCursor(head);
+    }
+    this.db.save();
+    return { fromBlock: cursor + 1, toBlock: head, events, reorgedFrom };
+  }
+
+  /**
+   * Finds the newest recorded block that is still on the canonical chain
+   * @param cursor Last indexed block
+   */
+  private async findCommonAncestor(cursor: number): Promise<number> {
+    for (const recorded of this.db.getRecordedBlocks()) {
+      if (recorded.number > cursor) continue;
+      const block = await this.provider.getBlock(recorded.number);
+      if (block?.hash === recorded.hash) return recorded.number;
+    }
+    return Math.min(cursor, this.startBlock - 1);
+  }
+
+  /**
+   * Fetches, decodes and stores the logs of a block range
+   * @return Number of events stored
+   */
+  private async indexRange(fromBlock: number, toBlock: number) {
+    const logs = await this.provider.getLogs({
+      address: [...this.contractsByAddress.keys()],
+      fromBlock,
+      toBlock,
+    });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    let stored = 0;
+    let block: { number: number; timestamp: number } | undefined;
+    for (const log of logs) {
+      if (block?.number !== log.blockNumber) {
+        const { hash, timestamp } = (await this.provider.getBlock(
+          log.blockNumber
+        ))!;
+        this.db.recordBlock(log.blockNumber, hash!, timestamp);
+        block = { number: log.blockNumber, timestamp };
+      }
+      if (await this.indexLog(log, block.timestamp)) stored++;
+    }
+    return stored;
+  }
+
+  /**
+   * Decodes and stores a single log
+   * @return False if the log is not a followed event
+   */
+  private async indexLog(log: Log, timestamp: number): Promise<boolean> {
+    const key = this.contractsByAddress.get(log.address.toLowerCase());
+    if (!key) return false;
+    const { name: contract, iface, events } = CONTRACTS[key];
+    let parsed: LogDescription | null;
+    try {
+      parsed = iface.parseLog(log);
+    } catch {
+      return false;
+    }
+    if (!parsed || !events.includes(parsed.name)) return false;
+
+    const args = toPlain(parsed.args, parsed.fragment.inputs) as Record<
+      string,
+      unknown
+    >;
+    const transfers = toTransfers(contract, parsed);
+    let tokenId: bigint | null = null;
+
+    if (key === "familiars") {
+      // Every Familiars event but SetLocationRequirements names the token
+      if (args.tokenId !== undefined) tokenId = BigInt(String(args.tokenId));
+      if (parsed.name === "Transfer" && BigInt(String(args.from)) === 0n) {
+        args.tba = await Operator__factory.connect(
+          this.contracts.operator,
+          this.provider
+        )._getTba(tokenId!);
+      }
+    } else if (TBA_ARGS[parsed.name]) {
+      tokenId = this.db.findNpcByTba(String(args[TBA_ARGS[parsed.name]]));
+    } else {
+      for (const transfer of transfers) {
+        tokenId =
+          this.db.findNpcByTba(transfer.to) ??
+          this.db.findNpcByTba(transfer.from);
+        if (tokenId !== null) break;
+      }
+    }
+
+    const event: IndexedEvent = {
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      timestamp,
+      contract,
+      name: parsed.name,
+      tokenId,
+      args,
+    };
+    this.db.insertEvent(event, transfers);
+    return true;
+  }
+}
+
+/**
+ * Extracts the token movements of an ERC-20 or ERC-1155 transfer event
+ */
+function toTransfers(
+  contract: string,
+  parsed: LogDescription
+): IndexedTransfer[] {
+  const { args } = parsed;
+  if (contract === "Familiars") return [];
+  if (parsed.name === "Transfer") {
+    return [
+      {
+        token: contract,
+        tokenId: null,
+        from: args.from,
+        to: args.to,
+        amount: args.value,
+      },
+    ];
+  }
+  if (parsed.name === "TransferSingle") {
+    return [
+      {
+        token: contract,
+        tokenId: args.id,
+        from: args.from,
+        to: args.to,
+        amount: args.value,
+      },
+    ];
+  }
+  if (parsed.name === "TransferBatch") {
+    return (args.ids as bigint[]).map((id, i) => ({
+      token: contract,
+      tokenId: id,
+      from: args.from,
+      to: args.to,
+      amount: (args[4] as bigint[])[i],
+    }));
+  }
+  return [];
+}
+
+/**
+ * Converts decoded arguments to JSON-safe values, numbers become strings
+ */
+function toPlain(value: unknown, inputs?: readonly ParamType[]): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Result) {
+    if (inputs && inputs.every((input) => input.name)) {
+      return Object.fromEntries(
+        inputs.map((input, i) => [
+          input.name,
+          toPlain(value[i], input.components ?? undefined),
+        ])
+      );
+    }
+    return Array.from(value, (item) => toPlain(item));
+  }
+  return value;
+}
@@ -0,0 +1,392 @@
+import fs from "fs";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  name TEXT NOT NULL,
+  token_id TEXT,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_token_id ON events (token_id);
+CREATE TABLE IF NOT EXISTS transfers (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  sub_index INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  token TEXT NOT NULL,
+  token_id TEXT,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index, sub_index)
+);
+CREATE TABLE IF NOT EXISTS npcs (
+  token_id TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  tba TEXT NOT NULL,
+  location TEXT,
+  health INTEGER,
+  updated_block INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS npcs_tba ON npcs (tba);
+CREATE TABLE IF NOT EXISTS location_requirements (
+  location INTEGER PRIMARY KEY,
+  requirements TEXT NOT NULL,
+  updated_block INTEGER NOT NULL
+);
+`;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * A decoded contract event as stored by the indexer
+ */
+export interface IndexedEvent {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+  contract: string; // Name of the emitting contract, e.g. "Familiars"
+  name: string; // Event name, e.g. "GoToLocation"
+  tokenId: bigint | null; // Familiar the event belongs to, if any
+  args: Record<string, unknown>; // Decoded arguments, numbers as strings
+}
+
+/**
+ * A token movement extracted from an ERC-20 or ERC-1155 transfer event
+ */
+export interface IndexedTransfer {
+  token: string; // Name of the token contract
+  tokenId: bigint | null; // ERC-1155 id, null for Coins
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * Materialized state of a Familiar
+ */
+export interface NpcRecord {
+  tokenId: bigint;
+  owner: string;
+  tba: string;
+  location: string | null; // Last location name, null until the first trip
+  health: number | null; // Last health set, null until the first change
+  updatedBlock: number;
+}
+
+/**
+ * Minted and burned amounts of a token over one UTC day
+ */
+export interface DailySupplyChange {
+  day: string; // YYYY-MM-DD
+  token: string;
+  minted: bigint;
+  burned: bigint;
+}
+
+/**
+ * SQLite store of the indexer, kept in memory and persisted to a file
+ */
+export class IndexerDatabase {
+  private constructor(private readonly db: Database, readonly file?: string) {
+    db.run(SCHEMA);
+  }
+
+  /**
+   * Opens a database file, creating it on the first save
+   * @param file Path of the SQLite file, in-memory only if omitted
+   */
+  static async open(file?: string): Promise<IndexerDatabase> {
+    const SQL = await initSqlJs();
+    const data = file && fs.existsSync(file) ? fs.readFileSync(file) : null;
+    return new IndexerDatabase(new SQL.Database(data), file);
+  }
+
+  /**
+   * Writes the database to its file
+   */
+  save() {
+    if (this.file) fs.writeFileSync(this.file, this.db.export());
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /**
+   * Last block the indexer has fully processed
+   */
+  getCursor(): number | undefined {
+    const value = this.get("SELECT value FROM meta WHERE key = 'cursor'");
+    return value ? Number(value.value) : undefined;
+  }
+
+  setCursor(block: number) {
+    this.db.run(
+      "INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)",
+      [String(block)]
+    );
+  }
+
+  /**
+   * Records the hash of a processed block for reorg detection
+   */
+  recordBlock(number: number, hash: string, timestamp: number) {
+    this.db.run(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+      [number, hash, timestamp]
+    );
+  }
+
+  /**
+   * Recorded blocks from the newest to the oldest
+   */
+  getRecordedBlocks(): { number: number; hash: string }[] {
+    return this.all("SELECT number, hash FROM blocks ORDER BY number DESC").map(
+      (row) => ({ number: Number(row.number), hash: String(row.hash) })
+    );
+  }
+
+  /**
+   * Stores an event with its transfers and updates the materialized state
+   */
+  insertEvent(event: IndexedEvent, transfers: IndexedTransfer[] = []) {
+    this.db.run(
+      `INSERT OR REPLACE INTO events
+        (block_number, log_index, tx_hash, timestamp, contract, name, token_id, args)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        event.blockNumber,
+        event.logIndex,
+        event.txHash,
+        event.timestamp,
+        event.contract,
+        event.name,
+        event.tokenId === null ? null : event.tokenId.toString(),
+        JSON.stringify(event.args),
+      ]
+    );
+    transfers.forEach((transfer, i) => {
+      this.db.run(
+        `INSERT OR REPLACE INTO transfers
+          (block_number, log_index, sub_index, timestamp, token, token_id, from_address, to_address, amount)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.blockNumber,
+          event.logIndex,
+          i,
+          event.timestamp,
+          transfer.token,
+          transfer.tokenId === null ? null : transfer.tokenId.toString(),
+          transfer.from.toLowerCase(),
+          transfer.to.toLowerCase(),
+          transfer.amount.toString(),
+        ]
+      );
+    });
+    this.applyEvent(event);
+  }
+
+  /**
+   * Drops everything indexed after a block and rebuilds the materialized state
+   * @param block Last block that is still part of the canonical chain
+   */
+  rollback(block: number) {
+    for (const table of ["events", "transfers"]) {
+      this.db.run(`DELETE FROM ${table} WHERE block_number > ?`, [block]);
+    }
+    this.db.run("DELETE FROM blocks WHERE number > ?", [block]);
+    this.db.run("DELETE FROM npcs");
+    this.db.run("DELETE FROM location_requirements");
+    for (const row of this.all(
+      "SELECT * FROM events ORDER BY block_number, log_index"
+    )) {
+      this.applyEvent(toEvent(row));
+    }
+    this.setCursor(block);
+  }
+
+  /**
+   * Finds the Familiar owning a token bound account
+   */
+  findNpcByTba(tba: string): bigint | null {
+    const row = this.get("SELECT token_id FROM npcs WHERE tba = ?", [
+      tba.toLowerCase(),
+    ]);
+    return row ? BigInt(String(row.token_id)) : null;
+  }
+
+  /**
+   * Gets the materialized state of a Familiar
+   */
+  getNpc(tokenId: bigint | number): NpcRecord | undefined {
+    const row = this.get("SELECT * FROM npcs WHERE token_id = ?", [
+      tokenId.toString(),
+    ]);
+    if (!row) return undefined;
+    return {
+      tokenId: BigInt(String(row.token_id)),
+      owner: String(row.owner),
+      tba: String(row.tba),
+      location: row.location === null ? null : String(row.location),
+      health: row.health === null ? null : Number(row.health),
+      updatedBlock: Number(row.updated_block),
+    };
+  }
+
+  /**
+   * Every indexed event of a Familiar, oldest first
+   */
+  getNpcTimeline(tokenId: bigint | number): IndexedEvent[] {
+    return this.all(
+      "SELECT * FROM events WHERE token_id = ? ORDER BY block_number, log_index",
+      [tokenId.toString()]
+    ).map(toEvent);
+  }
+
+  /**
+   * Number of arrivals at each location, most visited first
+   */
+  getLocationVisitCounts(): { location: string; visits: number }[] {
+    return this.all(
+      `SELECT json_extract(args, '$.location') AS location, COUNT(*) AS visits
+        FROM events WHERE name = 'GoToLocation'
+        GROUP BY location ORDER BY visits DESC, location`
+    ).map((row) => ({
+      location: String(row.location),
+      visits: Number(row.visits),
+    }));
+  }
+
+  /**
+   * Minted and burned amounts per token and UTC day
+   * @param token Restricts the totals to one token contract
+   */
+  getDailySupplyChanges(token?: string): DailySupplyChange[] {
+    const totals = new Map<string, DailySupplyChange>();
+    const rows = this.all(
+      `SELECT date(timestamp, 'unixepoch') AS day, token, from_address, to_address, amount
+        FROM transfers
+        WHERE (from_address = ? OR to_address = ?) AND (? IS NULL OR token = ?)
+        ORDER BY day, token`,
+      [ZERO_ADDRESS, ZERO_ADDRESS, token ?? null, token ?? null]
+    );
+    for (const row of rows) {
+      const key = `${row.day}:${row.token}`;
+      const total = totals.get(key) ?? {
+        day: String(row.day),
+        token: String(row.token),
+        minted: 0n,
+        burned: 0n,
+      };
+      const amount = BigInt(String(row.amount));
+      if (row.from_address === ZERO_ADDRESS) total.minted += amount;
+      if (row.to_address === ZERO_ADDRESS) total.burned += amount;
+      totals.set(key, total);
+    }
+    return [...totals.values()];
+  }
+
+  /**
+   * Latest requirements set for each location
+   */
+  getLocationRequirements(): Record<number, Record<string, string>> {
+    const requirements: Record<number, Record<string, string>> = {};
+    for (const row of this.all("SELECT * FROM location_requirements")) {
+      requirements[Number(row.location)] = JSON.parse(String(row.requirements));
+    }
+    return requirements;
+  }
+
+  // Updates the materialized tables with an event
+  private applyEvent(event: IndexedEvent) {
+    const { args } = event;
+    const tokenId = event.tokenId?.toString();
+    if (event.contract === "Familiars" && event.name === "Transfer") {
+      if (args.from === ZERO_ADDRESS) {
+        this.db.run(
+          `INSERT OR REPLACE INTO npcs (token_id, owner, tba, location, health, updated_block)
+            VALUES (?, ?, ?, NULL, NULL, ?)`,
+          [
+            tokenId!,
+            String(args.to).toLowerCase(),
+            String(args.tba).toLowerCase(),
+            event.blockNumber,
+          ]
+        );
+      } else {
+        this.updateNpc(tokenId!, "owner", String(args.to).toLowerCase(), event);
+      }
+    } else if (event.name === "GoToLocation") {
+      this.updateNpc(tokenId!, "location", String(args.location), event);
+    } else if (event.name === "SetHealth") {
+      this.updateNpc(tokenId!, "health", Number(args.health), event);
+    } else if (event.name === "SetLocationRequirements") {
+      this.db.run(
+        "INSERT OR REPLACE INTO location_requirements (location, requirements, updated_block) VALUES (?, ?, ?)",
+        [Number(args.location), JSON.stringify(args.req), event.blockNumber]
+      );
+    }
+  }
+
+  // Sets one column of a Familiar's row
+  private updateNpc(
+    tokenId: string,
+    column: "owner" | "location" | "health",
+    value: SqlValue,
+    event: IndexedEvent
+  ) {
+    this.db.run(
+      `UPDATE npcs SET ${column} = ?, updated_block = ? WHERE token_id = ?`,
+      [value, event.blockNumber, tokenId]
+    );
+  }
+
+  // Runs a query returning its first row
+  private get(sql: string, params: SqlValue[] = []) {
+    return this.all(sql, params)[0];
+  }
+
+  // Runs a query returning all rows as objects
+  private all(sql: string, params: SqlValue[] = []) {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Record<string, SqlValue>[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject());
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+}
+
+// Converts an events row back to an IndexedEvent
+function toEvent(row: Record<string, SqlValue>): IndexedEvent {
+  return {
+    blockNumber: Number(row.block_number),
+    logIndex: Number(row.log_index),
+    txHash: String(row.tx_hash),
+    timestamp: Number(row.timestamp),
+    contract: String(row.contract),
+    name: String(row.name),
+    tokenId: row.token_id === null ? null : BigInt(String(row.token_id)),
+    args: JSON.parse(String(row.args)),
+  };
+}
@@ -0,0 +1,869 @@
+import {
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionResponse,
+  Signer,
+  TypedDataDomain,
+  ZeroAddress,
+} from "ethers";
+import {
+  Coins,
+  Coins__factory,
+  Crafting__factory,
+  Familiars,
+  Familiars__factory,
+  FamiliarsLib,
+  Food,
+  Food__factory,
+  KarmicEnergy,
+  KarmicEnergy__factory,
+  Marketplace,
+  Marketplace__factory,
+  Operator,
+  Operator__factory,
+} from "../typechain-types";
+import { ActionType, BundledAction } from "./actions";
+import { DeploymentManifest, deployedContractAddress } from "./deployments";
+import { LocationInfo, allowedActions, describeLocation } from "./locations";
+import {
+  OperatorAction,
+  OperatorActionValues,
+  getOperatorDomain,
+  signOperatorAction,
+} from "./signatures";
+
+/**
+ * Typed data the verifier is asked to sign for an action
+ */
+export interface SignatureRequest<A extends OperatorAction = OperatorAction> {
+  action: A;
+  domain: TypedDataDomain;
+  value: OperatorActionValues[A];
+}
+
+/**
+ * Produces the verifier signature for an action, e.g. by calling the backend
+ */
+export type SignatureProvider = <A extends OperatorAction>(
+  request: SignatureRequest<A>
+) => Promise<string>;
+
+/**
+ * Signature provider holding the verifier key locally, for tests and scripts
+ * @param verifier Signer holding the verifier key
+ */
+export function localSignatureProvider(verifier: Signer): SignatureProvider {
+  return (request) =>
+    signOperatorAction(verifier, request.domain, request.action, request.value);
+}
+
+/**
+ * Overrides for the nonce and expiry of a signed action
+ */
+export interface ActionOptions {
+  nonce?: BigNumberish; // Defaults to the caller's sequential nonce
+  deadline?: BigNumberish; // Defaults to the latest block timestamp plus ttl
+  ttl?: number; // Seconds the signature stays valid, 600 by default
+}
+
+/**
+ * Named view of Operator.getNPCStats
+ */
+export interface Npc {
+  tokenId: bigint;
+  tba: string; // Token bound account holding the NPC's resources
+  health: number;
+  maxHealth: number; // Raised by every level, see Familiars.setLeveling
+  level: number;
+  xp: bigint; // XP gained at the Karmic Tower
+  location: LocationInfo;
+  coins: bigint; // Raw Coins balance with 18 decimals
+  karmicEnergy: bigint;
+  food: bigint;
+  equippedItems: EquippedItem[]; // Filled slots in slot order
+}
+
+/**
+ * Item equipped in a slot of a Familiar
+ */
+export interface EquippedItem {
+  slot: number; // Id in the Familiars slot registry
+  itemId: bigint;
+  durability: number; // Uses left before the unit in use breaks
+  maxDurability: number; // Uses of a new unit, 0 for unbreakable items
+}
+
+/**
+ * Entry of the Familiars equipment slot registry
+ */
+export interface SlotEntry {
+  id: number; // Slot ids start at 1
+  name: string;
+}
+
+/**
+ * Entry of the Familiars location registry
+ */
+export interface LocationEntry extends LocationInfo {
+  enabled: boolean;
+  allowedActions: ActionType[];
+  requirements: FamiliarsLib.RequirementsStructOutput;
+}
+
+/**
+ * Trip in progress of a Familiar, see Familiars.getTravel
+ */
+export interface Trip {
+  from: number; // Location id the Familiar left
+  destination: number; // Location id the Familiar is travelling to
+  departureTime: number; // Unix timestamp of the departure
+  arrivalTime: number; // Unix timestamp from which the Familiar can arrive
+  remaining: number; // Seconds left until arrivalTime at the latest block, 0 once it passed
+}
+
+/**
+ * Upkeep a Familiar owes since it was last settled, see Operator.pendingUpkeep
+ */
+export interface PendingUpkeep {
+  food: bigint; // Food burned from the account on the next action
+  health: number; // Health drained for the hours without food
+  hours: number; // Whole hours since the last settlement
+}
+
+/**
+ * Reward kinds of a treasure box loot table, see Marketplace.LootKind
+ */
+export enum LootKind {
+  COINS,
+  FOOD,
+  KARMIC_ENERGY,
+  ITEM,
+}
+
+/**
+ * Food pricing models of the marketplace, see Marketplace.PricingModel
+ */
+export enum PricingModel {
+  FIXED,
+  TIERED,
+  CURVE,
+}
+
+/**
+ * Treasure box type of the marketplace with its loot table
+ */
+export interface BoxTypeEntry {
+  id: number;
+  name: string;
+  price: bigint; // Whole coins
+  maxSupply: bigint; // 0 for unlimited
+  sold: bigint;
+  enabled: boolean;
+  loot: {
+    kind: LootKind;
+    itemId: bigint; // FamiliarsItem id of ITEM entries
+    minAmount: bigint;
+    maxAmount: bigint;
+    weight: number;
+    odds: number; // Chance of the entry between 0 and 1
+  }[];
+}
+
+/**
+ * Resources sold on the order book, see Marketplace.TradeAsset
+ */
+export enum TradeAsset {
+  FOOD,
+  KARMIC_ENERGY,
+  ITEM,
+}
+
+/**
+ * Open order of the marketplace order book
+ */
+export interface OrderEntry {
+  orderId: bigint;
+  seller: string; // Token bound account of the seller
+  asset: TradeAsset;
+  itemId: bigint; // FamiliarsItem id of ITEM orders
+  amount: bigint; // Units left in escrow
+  price: bigint; // Whole coins per unit
+}
+
+/**
+ * Item shop listing of the marketplace
+ */
+export interface ItemListingEntry {
+  itemId: bigint;
+  price: bigint; // Whole coins per item
+  stock: bigint;
+  maxPerNpc: bigint; // 0 for unlimited
+  startTime: number; // Unix timestamp sales open at
+  endTime: number; // Unix timestamp sales close at, 0 for no end
+}
+
+/**
+ * Recipe of the Crafting contract with the items it consumes
+ */
+export interface RecipeEntry {
+  id: number;
+  name: string;
+  enabled: boolean;
+  coins: bigint; // Whole coins
+  food: bigint;
+  karmicEnergy: bigint;
+  items: { itemId: bigint; amount: bigint }[];
+  outputItemId: bigint; // FamiliarsItem id produced
+  outputAmount: bigint;
+}
+
+const DEFAULT_TTL = 600;
+
+/**
+ * Client around the Operator and the resource contracts
+ */
+export class FamiliarsClient {
+  constructor(
+    readonly operator: Operator,
+    readonly familiars: Familiars,
+    readonly coins: Coins,
+    readonly food: Food,
+    readonly karmicEnergy: KarmicEnergy,
+    readonly marketplace: Marketplace,
+    private readonly signatureProvider?: SignatureProvider
+  ) {}
+
+  /**
+   * Connects to a deployed Operator and the contracts it points to
+   * @param operatorAddress Address of the Operator
+   * @param runner Provider for reads, or the player's signer for actions
+   * @param signatureProvider Source of verifier signatures for actions
+   */
+  static async connect(
+    operatorAddress: string,
+    runner: ContractRunner,
+    signatureProvider?: SignatureProvider
+  ): Promise<FamiliarsClient> {
+    const operator = Operator__factory.connect(operatorAddress, runner);
+    const [familiars, coins, food, karmicEnergy, marketplace] =
+      await Promise.all([
+        operator.familiars(),
+        operator.coins(),
+        operator.food(),
+        operator.karmicEnergy(),
+        operator.marketplace(),
+      ]);
+    return new FamiliarsClient(
+      operator,
+      Familiars__factory.connect(familiars, runner),
+      Coins__factory.connect(coins, runner),
+      Food__factory.connect(food, runner),
+      KarmicEnergy__factory.connect(karmicEnergy, runner),
+      Marketplace__factory.connect(marketplace, runner),
+      signatureProvider
+    );
+  }
+
+  /**
+   * Connects to the Operator listed in the deployment manifest of a network
+   * @param manifest Deployment manifest of the network the runner is on
+   * @param runner Provider for reads, or the player's signer for actions
+   * @param signatureProvider Source of verifier signatures for actions
+   * @throws If the runner is on another chain than the manifest
+   */
+  static async fromManifest(
+    manifest: DeploymentManifest,
+    runner: ContractRunner,
+    signatureProvider?: SignatureProvider
+  ): Promise<FamiliarsClient> {
+    const network = await runner.provider?.getNetwork();
+    if (network?.chainId !== BigInt(manifest.chainId)) {
+      throw new Error(
+        `Deployment manifest of ${manifest.network} is for chain ${manifest.chainId}, runner is on chain ${network?.chainId}`
+      );
+    }
+    return FamiliarsClient.connect(
+      deployedContractAddress(manifest, "operator"),
+      runner,
+      signatureProvider
+    );
+  }
+
+  /**
+   * Gets the EIP-712 domain of the connected Operator
+   */
+  async getDomain(): Promise<TypedDataDomain> {
+    const { chainId } = await this.provider().getNetwork();
+    return getOperatorDomain(await this.operator.getAddress(), chainId);
+  }
+
+  /**
+   * Gets the token bound account of a Familiar
+   * @param tokenId The ID of the Familiar
+   */
+  async getTba(tokenId: BigNumberish): Promise<string> {
+    return this.operator._getTba(tokenId);
+  }
+
+  /**
+   * Gets the stats of a Familiar as a named object
+   * @param tokenId The ID of the Familiar
+   */
+  async getNpc(tokenId: BigNumberish): Promise<Npc> {
+    const [tba, stats, [, locationId], maxHealth, level, xp] =
+      await Promise.all([
+        this.getTba(tokenId),
+        this.operator.getNPCStats(tokenId),
+        this.familiars.getCurrentLocation(tokenId),
+        this.familiars.getMaxHealth(tokenId),
+        this.familiars.getLevel(tokenId),
+        this.familiars.getXp(tokenId),
+      ]);
+    const [health, location, coins, karmicEnergy, food, equippedItems] = stats;
+    return {
+      tokenId: BigInt(tokenId),
+      tba,
+      health: Number(health),
+      maxHealth: Number(maxHealth),
+      level: Number(level),
+      xp,
+      location: describeLocation(locationId, location),
+      coins,
+      karmicEnergy,
+      food,
+      equippedItems: equippedItems.map(
+        ({ slot, itemId, durability, maxDurability }) => ({
+          slot: Number(slot),
+          itemId,
+          durability: Number(durability),
+          maxDurability: Number(maxDurability),
+        })
+      ),
+    };
+  }
+
+  /**
+   * Gets the trip of a Familiar that has not been completed yet
+   * @param tokenId The ID of the Familiar
+   * @return The trip with its ETA, or null when the Familiar is not travelling
+   */
+  async getTravel(tokenId: BigNumberish): Promise<Trip | null> {
+    const [travel, block] = await Promise.all([
+      this.familiars.getTravel(tokenId),
+      this.provider().getBlock("latest"),
+    ]);
+    if (travel.arrivalTime === 0n) return null;
+    const arrivalTime = Number(travel.arrivalTime);
+    return {
+      from: Number(travel.from),
+      destination: Number(travel.destination),
+      departureTime: Number(travel.departureTime),
+      arrivalTime,
+      remaining: Math.max(arrivalTime - block!.timestamp, 0),
+    };
+  }
+
+  /**
+   * Gets every treasure box type with its loot table and odds
+   */
+  async getBoxTypes(): Promise<BoxTypeEntry[]> {
+    const [types, loot, odds] = await this.marketplace.getBoxTypes();
+    return types.map((boxType, id) => ({
+      id,
+      name: boxType.name,
+      price: boxType.price,
+      maxSupply: boxType.maxSupply,
+      sold: boxType.sold,
+      enabled: boxType.enabled,
+      loot: loot[id].map((entry, i) => ({
+        kind: Number(entry.kind) as LootKind,
+        itemId: entry.itemId,
+        minAmount: entry.minAmount,
+        maxAmount: entry.maxAmount,
+        weight: Number(entry.weight),
+        odds: Number(odds[id][i]) / 10_000,
+      })),
+    }));
+  }
+
+  /**
+   * Gets every recipe of the Crafting contract
+   */
+  async getRecipes(): Promise<RecipeEntry[]> {
+    const crafting = Crafting__factory.connect(
+      await this.operator.crafting(),
+      this.operator.runner
+    );
+    const count = Number(await crafting.recipeCount());
+    return Promise.all(
+      Array.from({ length: count }, async (_, id) => {
+        const [recipe, items] = await crafting.getRecipe(id);
+        return {
+          id,
+          name: recipe.name,
+          enabled: recipe.enabled,
+          coins: recipe.coins,
+          food: recipe.food,
+          karmicEnergy: recipe.karmicEnergy,
+          items: items.map(({ itemId, amount }) => ({ itemId, amount })),
+          outputItemId: recipe.outputItemId,
+          outputAmount: recipe.outputAmount,
+        };
+      })
+    );
+  }
+
+  /**
+   * Gets the item shop listing of an item
+   * @param itemId FamiliarsItem id
+   * @return The listing or null if the item is not for sale
+   */
+  async getItemListing(itemId: BigNumberish): Promise<ItemListingEntry | null> {
+    const listing = await this.marketplace.getItemListing(itemId);
+    if (!listing.listed) return null;
+    return {
+      itemId: BigInt(itemId),
+      price: listing.price,
+      stock: listing.stock,
+      maxPerNpc: listing.maxPerNpc,
+      startTime: Number(listing.startTime),
+      endTime: Number(listing.endTime),
+    };
+  }
+
+  /**
+   * Gets an open order of the marketplace order book
+   * @param orderId Id emitted in the OrderCreated event
+   * @return The order or null once it is filled or cancelled
+   */
+  async getOrder(orderId: BigNumberish): Promise<OrderEntry | null> {
+    const order = await this.marketplace.orders(orderId);
+    if (order.seller === ZeroAddress) return null;
+    return {
+      orderId: BigInt(orderId),
+      seller: order.seller,
+      asset: Number(order.asset) as TradeAsset,
+      itemId: order.itemId,
+      amount: order.amount,
+      price: order.price,
+    };
+  }
+
+  /**
+   * Gets the effective luck of a Familiar from the items it has equipped
+   * @param tokenId The ID of the Familiar
+   * @return Luck in percent between -100 and 100
+   */
+  async getLuck(tokenId: BigNumberish): Promise<number> {
+    return Number(await this.operator.getLuck(tokenId));
+  }
+
+  /**
+   * Gets the upkeep the next action of a Familiar will settle
+   * @param tokenId The ID of the Familiar
+   */
+  async getPendingUpkeep(tokenId: BigNumberish): Promise<PendingUpkeep> {
+    const [food, health, hours] = await this.operator.pendingUpkeep(tokenId);
+    return { food, health: Number(health), hours: Number(hours) };
+  }
+
+  /**
+   * Gets every entry of the location registry with its requirements
+   */
+  async getLocations(): Promise<LocationEntry[]> {
+    const count = Number(await this.familiars.locationCount());
+    return Promise.all(
+      Array.from({ length: count }, async (_, id) => {
+        const [info, requirements] = await this.familiars.getLocation(id);
+        return {
+          ...describeLocation(id, info.name),
+          enabled: info.enabled,
+          allowedActions: allowedActions(info.allowedActions),
+          requirements,
+        };
+      })
+    );
+  }
+
+  /**
+   * Gets every entry of the equipment slot registry
+   */
+  async getSlots(): Promise<SlotEntry[]> {
+    const names = await this.familiars.getSlots();
+    return names.map((name, i) => ({ id: i + 1, name }));
+  }
+
+  /**
+   * Creates a new Familiar and its token bound account
+   * @param to Address to receive the Familiar
+   * @param uri Metadata URI of the Familiar
+   */
+  async createNPC(
+    to: string,
+    uri: string,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize("CreateNPC", { to, uri }, options);
+    return this.operator.createNPC(to, uri, ...auth);
+  }
+
+  /**
+   * Moves a Familiar to a location, see getTravel for trips that take time
+   * @param tokenId The ID of the Familiar
+   * @param location Destination location id
+   */
+  async goToLocation(
+    tokenId: BigNumberish,
+    location: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "GoToLocation",
+      { tokenId, location },
+      options
+    );
+    return this.operator.goToLocation(tokenId, location, ...auth);
+  }
+
+  /**
+   * Completes the trip of a Familiar once its arrival time has passed
+   * @notice Needs no verifier signature, any signer can complete the trip
+   * @param tokenId The ID of the travelling Familiar
+   */
+  async arrive(tokenId: BigNumberish): Promise<ContractTransactionResponse> {
+    return this.operator.arrive(tokenId);
+  }
+
+  /**
+   * Equips an item held by the Familiar's account in its slot
+   * @param tokenId The ID of the Familiar
+   * @param slot Id of the equipment slot, must match FamiliarsItem.getItemSlot
+   * @param itemId Item id to equip, 0 to empty the slot
+   */
+  async equipItem(
+    tokenId: BigNumberish,
+    slot: BigNumberish,
+    itemId: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "EquipItem",
+      { tokenId, slot, itemId },
+      options
+    );
+    return this.operator.equipItem(tokenId, slot, itemId, ...auth);
+  }
+
+  /**
+   * Exchanges karmic energy at the Karmic Wellspring
+   * @param tokenId The ID of the Familiar
+   * @param karmicEnergyAmt Karmic energy to exchange, must be a valid tier
+   */
+  async exchangeKarmicEnergy(
+    tokenId: BigNumberish,
+    karmicEnergyAmt: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "ExchangeKarmicEnergy",
+      { tokenId, karmicEnergyAmt },
+      options
+    );
+    return this.operator.exchangeKarmicEnergy(
+      tokenId,
+      karmicEnergyAmt,
+      ...auth
+    );
+  }
+
+  /**
+   * Buys food at the marketplace
+   * @param tokenId The ID of the Familiar
+   * @param coinsAmt Whole coins to spend
+   * @param minFoodOut Smallest amount of food accepted, see quoteFood
+   */
+  async buyFood(
+    tokenId: BigNumberish,
+    coinsAmt: BigNumberish,
+    minFoodOut: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "BuyFood",
+      { tokenId, coinsAmt, minFoodOut },
+      options
+    );
+    return this.operator.buyFoodToMarketplace(
+      tokenId,
+      coinsAmt,
+      minFoodOut,
+      ...auth
+    );
+  }
+
+  /**
+   * Quotes the food bought at the marketplace for an amount of coins
+   * @param coinsAmt Whole coins to spend
+   */
+  async quoteFood(coinsAmt: BigNumberish): Promise<bigint> {
+    return this.marketplace.quoteFood(coinsAmt);
+  }
+
+  /**
+   * Buys a treasure box at the marketplace
+   * @notice The box pays out once its randomness is known, see revealTreasureBox
+   * @param tokenId The ID of the Familiar
+   * @param boxType Id of the box type to buy, see getBoxTypes
+   */
+  async buyTreasureBox(
+    tokenId: BigNumberish,
+    boxType: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "BuyTreasureBox",
+      { tokenId, boxType },
+      options
+    );
+    return this.operator.buyTreasureBox(tokenId, boxType, ...auth);
+  }
+
+  /**
+   * Buys items from the marketplace item shop
+   * @param tokenId The ID of the Familiar
+   * @param itemId FamiliarsItem id to buy, see getItemListing
+   * @param qty Number of items to buy
+   */
+  async buyItem(
+    tokenId: BigNumberish,
+    itemId: BigNumberish,
+    qty: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "BuyItem",
+      { tokenId, itemId, qty },
+      options
+    );
+    return this.operator.buyItem(tokenId, itemId, qty, ...auth);
+  }
+
+  /**
+   * Restores the unit in use of an item to its full durability at the marketplace
+   * @notice Costs FamiliarsItem.repairPrices coins for every use restored
+   * @param tokenId The ID of the Familiar
+   * @param itemId FamiliarsItem id to repair
+   */
+  async repairItem(
+    tokenId: BigNumberish,
+    itemId: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "RepairItem",
+      { tokenId, itemId },
+      options
+    );
+    return this.operator.repairItem(tokenId, itemId, ...auth);
+  }
+
+  /**
+   * Crafts a recipe with the resources and items of a Familiar
+   * @param tokenId The ID of the Familiar
+   * @param recipeId Crafting recipe id, see getRecipes
+   */
+  async craft(
+    tokenId: BigNumberish,
+    recipeId: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize("Craft", { tokenId, recipeId }, options);
+    return this.operator.craft(tokenId, recipeId, ...auth);
+  }
+
+  /**
+   * Spends karmic energy at the Karmic Tower for as much XP
+   * @param tokenId The ID of the Familiar
+   * @param karmicEnergyAmt Karmic energy to spend
+   */
+  async train(
+    tokenId: BigNumberish,
+    karmicEnergyAmt: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "Train",
+      { tokenId, karmicEnergyAmt },
+      options
+    );
+    return this.operator.train(tokenId, karmicEnergyAmt, ...auth);
+  }
+
+  /**
+   * Lists a resource of a Familiar on the marketplace order book
+   * @notice The units are held in escrow until the order is filled or cancelled
+   * @param tokenId The ID of the Familiar
+   * @param asset Resource to sell
+   * @param itemId FamiliarsItem id of ITEM orders, 0 otherwise
+   * @param amount Units to sell
+   * @param price Whole coins per unit
+   */
+  async createOrder(
+    tokenId: BigNumberish,
+    asset: TradeAsset,
+    itemId: BigNumberish,
+    amount: BigNumberish,
+    price: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "CreateOrder",
+      { tokenId, asset, itemId, amount, price },
+      options
+    );
+    return this.operator.createOrder(
+      tokenId,
+      asset,
+      itemId,
+      amount,
+      price,
+      ...auth
+    );
+  }
+
+  /**
+   * Buys units of a marketplace order
+   * @param tokenId The ID of the Familiar buying
+   * @param orderId Id of the order, see getOrder
+   * @param amount Units to buy
+   */
+  async fillOrder(
+    tokenId: BigNumberish,
+    orderId: BigNumberish,
+    amount: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "FillOrder",
+      { tokenId, orderId, amount },
+      options
+    );
+    return this.operator.fillOrder(tokenId, orderId, amount, ...auth);
+  }
+
+  /**
+   * Cancels an order of a Familiar and returns the units left in escrow
+   * @param tokenId The ID of the Familiar that created the order
+   * @param orderId Id of the order
+   */
+  async cancelOrder(
+    tokenId: BigNumberish,
+    orderId: BigNumberish,
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "CancelOrder",
+      { tokenId, orderId },
+      options
+    );
+    return this.operator.cancelOrder(tokenId, orderId, ...auth);
+  }
+
+  /**
+   * Opens a commit-reveal treasure box from the block after its purchase
+   * @notice Needs no verifier signature, boxes of a coordinator open on fulfilment
+   * @param boxId Id emitted in the BuyTreasureBox event of the purchase
+   */
+  async revealTreasureBox(
+    boxId: BigNumberish
+  ): Promise<ContractTransactionResponse> {
+    return this.marketplace.revealTreasureBox(boxId);
+  }
+
+  /**
+   * Requests the randomness of a treasure box again after its coordinator was
+   * replaced, commit-reveal boxes are never rolled again
+   * @notice Needs no verifier signature
+   * @param boxId Id emitted in the BuyTreasureBox event of the purchase
+   */
+  async retryTreasureBox(
+    boxId: BigNumberish
+  ): Promise<ContractTransactionResponse> {
+    return this.marketplace.retryTreasureBox(boxId);
+  }
+
+  /**
+   * Switches a Familiar between its stored URI and the on-chain rendered metadata
+   * @notice Needs no verifier signature, sent by the owner of the Familiar
+   * @param tokenId The ID of the Familiar
+   * @param rendered True to serve the rendered metadata
+   */
+  async setRenderedURI(
+    tokenId: BigNumberish,
+    rendered: boolean
+  ): Promise<ContractTransactionResponse> {
+    return this.familiars.setRenderedURI(tokenId, rendered);
+  }
+
+  /**
+   * Applies an ordered bundle of actions with a single signature
+   * @param tokenId The ID of the Familiar
+   * @param actions Actions built with the helpers of ./actions
+   */
+  async executeActions(
+    tokenId: BigNumberish,
+    actions: BundledAction[],
+    options?: ActionOptions
+  ): Promise<ContractTransactionResponse> {
+    const auth = await this.authorize(
+      "ExecuteActions",
+      { tokenId, actions },
+      options
+    );
+    return this.operator.executeActions(tokenId, actions, ...auth);
+  }
+
+  /**
+   * Requests the verifier signature for an action of the connected signer
+   * @return The nonce, deadline and signature arguments of the Operator call
+   */
+  private async authorize<A extends OperatorAction>(
+    action: A,
+    params: Omit<OperatorActionValues[A], "caller" | "nonce" | "deadline">,
+    options: ActionOptions = {}
+  ): Promise<[BigNumberish, BigNumberish, string]> {
+    if (!this.signatureProvider) {
+      throw new Error("FamiliarsClient has no signature provider");
+    }
+    const signer = this.operator.runner as Signer | null;
+    if (!signer || typeof signer.getAddress !== "function") {
+      throw new Error("FamiliarsClient must be connected with a signer");
+    }
+    const caller = await signer.getAddress();
+    const nonce = options.nonce ?? (await this.operator.nonces(caller));
+    const deadline =
+      options.deadline ??
+      (await this.provider().getBlock("latest"))!.timestamp +
+        (options.ttl ?? DEFAULT_TTL);
+
+    const value = {
+      ...params,
+      caller,
+      nonce,
+      deadline,
+    } as OperatorActionValues[A];
+    const signature = await this.signatureProvider({
+      action,
+      domain: await this.getDomain(),
+      value,
+    });
+    return [nonce, deadline, signature];
+  }
+
+  // Provider of the runner the client was connected with
+  private provider() {
+    const provider = this.operator.runner?.provider;
+    if (!provider) throw new Error("FamiliarsClient runner has no provider");
+    return provider;
+  }
+}
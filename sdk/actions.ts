@@ -0,0 +1,141 @@
+import { AbiCoder, BigNumberish } from "ethers";
+
+/**
+ * Actions that can be bundled in Operator.executeActions
+ * @notice Order must match FamiliarsLib.ActionType
+ */
+export enum ActionType {
+  GO_TO_LOCATION,
+  EQUIP_ITEM,
+  EXCHANGE_KARMIC_ENERGY,
+  BUY_FOOD,
+  BUY_TREASURE_BOX,
+  BUY_ITEM,
+  TRADE, // Order book actions, these cannot be bundled
+  REPAIR_ITEM,
+  CRAFT,
+  TRAIN,
+}
+
+/**
+ * A single step of an action bundle as expected by FamiliarsLib.Action
+ */
+export interface BundledAction {
+  actionType: ActionType;
+  data: string;
+}
+
+const coder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Builds a bundled move to a location
+ * @param location Destination location id
+ */
+export function goToLocationAction(location: BigNumberish): BundledAction {
+  return {
+    actionType: ActionType.GO_TO_LOCATION,
+    data: coder.encode(["uint8"], [location]),
+  };
+}
+
+/**
+ * Builds a bundled equip of an item in a slot
+ * @param slot Id of the equipment slot
+ * @param itemId Item id to equip, 0 to empty the slot
+ */
+export function equipItemAction(
+  slot: BigNumberish,
+  itemId: BigNumberish
+): BundledAction {
+  return {
+    actionType: ActionType.EQUIP_ITEM,
+    data: coder.encode(["uint8", "uint256"], [slot, itemId]),
+  };
+}
+
+/**
+ * Builds a bundled karmic energy exchange at the Karmic Wellspring
+ * @param karmicEnergyAmt Amount of karmic energy to exchange
+ */
+export function exchangeKarmicEnergyAction(
+  karmicEnergyAmt: BigNumberish
+): BundledAction {
+  return {
+    actionType: ActionType.EXCHANGE_KARMIC_ENERGY,
+    data: coder.encode(["uint256"], [karmicEnergyAmt]),
+  };
+}
+
+/**
+ * Builds a bundled food purchase at the marketplace
+ * @param coinsAmt Whole coins to spend on food
+ * @param minFoodOut Smallest amount of food accepted for the coins
+ */
+export function buyFoodAction(
+  coinsAmt: BigNumberish,
+  minFoodOut: BigNumberish
+): BundledAction {
+  return {
+    actionType: ActionType.BUY_FOOD,
+    data: coder.encode(["uint256", "uint256"], [coinsAmt, minFoodOut]),
+  };
+}
+
+/**
+ * Builds a bundled treasure box purchase at the marketplace
+ * @param boxType Id of the marketplace box type to buy
+ */
+export function buyTreasureBoxAction(boxType: BigNumberish): BundledAction {
+  return {
+    actionType: ActionType.BUY_TREASURE_BOX,
+    data: coder.encode(["uint256"], [boxType]),
+  };
+}
+
+/**
+ * Builds a bundled item shop purchase at the marketplace
+ * @param itemId FamiliarsItem id to buy
+ * @param qty Number of items to buy
+ */
+export function buyItemAction(
+  itemId: BigNumberish,
+  qty: BigNumberish
+): BundledAction {
+  return {
+    actionType: ActionType.BUY_ITEM,
+    data: coder.encode(["uint256", "uint256"], [itemId, qty]),
+  };
+}
+
+/**
+ * Builds a bundled repair of an item at the marketplace
+ * @param itemId FamiliarsItem id to repair
+ */
+export function repairItemAction(itemId: BigNumberish): BundledAction {
+  return {
+    actionType: ActionType.REPAIR_ITEM,
+    data: coder.encode(["uint256"], [itemId]),
+  };
+}
+
+/**
+ * Builds a bundled craft of a recipe
+ * @param recipeId Crafting recipe id
+ */
+export function craftAction(recipeId: BigNumberish): BundledAction {
+  return {
+    actionType: ActionType.CRAFT,
+    data: coder.encode(["uint256"], [recipeId]),
+  };
+}
+
+/**
+ * Builds a bundled training at the Karmic Tower
+ * @param karmicEnergyAmt Karmic energy to spend, 1 XP each
+ */
+export function trainAction(karmicEnergyAmt: BigNumberish): BundledAction {
+  return {
+    actionType: ActionType.TRAIN,
+    data: coder.encode(["uint256"], [karmicEnergyAmt]),
+  };
+}
@@ -0,0 +1,47 @@
+import { formatUnits, parseUnits } from "ethers";
+
+/**
+ * Decimals of the Coins ERC-20, Food and KarmicEnergy are whole numbers
+ */
+export const COIN_DECIMALS = 18;
+
+/**
+ * Formats a raw Coins balance as a decimal string
+ * @param amount Balance in the smallest unit, as returned by Coins.balanceOf
+ */
+export function formatCoins(amount: bigint): string {
+  return formatUnits(amount, COIN_DECIMALS);
+}
+
+/**
+ * Parses a decimal coin amount into the smallest unit
+ * @param amount Decimal amount such as "12.5"
+ */
+export function parseCoins(amount: string): bigint {
+  return parseUnits(amount, COIN_DECIMALS);
+}
+
+/**
+ * Converts a raw Coins balance into whole coins, rounding down
+ * @notice Marketplace and Coins.mint take whole coins
+ * @param amount Balance in the smallest unit
+ */
+export function toWholeCoins(amount: bigint): bigint {
+  return amount / 10n ** BigInt(COIN_DECIMALS);
+}
+
+/**
+ * Converts whole coins into the smallest unit
+ * @param amount Whole coins
+ */
+export function fromWholeCoins(amount: bigint | number): bigint {
+  return BigInt(amount) * 10n ** BigInt(COIN_DECIMALS);
+}
+
+/**
+ * Formats a Food or KarmicEnergy balance, which have no decimals
+ * @param amount Balance as returned by balanceOf(account, 0)
+ */
+export function formatResource(amount: bigint): string {
+  return amount.toString();
+}
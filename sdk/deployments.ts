@@ -0,0 +1,82 @@
+import { isAddress } from "ethers";
+
+/**
+ * Game contracts listed in a deployment manifest
+ */
+export const DEPLOYED_CONTRACTS = [
+  "familiars",
+  "food",
+  "coins",
+  "karmicEnergy",
+  "familiarsItem",
+  "registry",
+  "account",
+  "marketplace",
+  "karmicWellSpring",
+  "crafting",
+  "operator",
+  "renderer",
+] as const;
+
+export type DeployedContract = (typeof DEPLOYED_CONTRACTS)[number];
+
+/**
+ * Addresses of the game contracts deployed on a network, one manifest per
+ * chain under config/deployments/<network>.json
+ */
+export interface DeploymentManifest {
+  network: string; // Hardhat network name
+  chainId: number;
+  contracts: Partial<Record<DeployedContract, string>>;
+}
+
+/**
+ * Validates a deployment manifest read from JSON
+ * @throws If a field is missing, a contract is unknown or an address invalid
+ */
+export function parseDeploymentManifest(value: unknown): DeploymentManifest {
+  const manifest = value as DeploymentManifest;
+  if (typeof manifest?.network !== "string" || !manifest.network) {
+    throw new Error("Deployment manifest has no network");
+  }
+  if (!Number.isInteger(manifest.chainId) || manifest.chainId <= 0) {
+    throw new Error(
+      `Deployment manifest of ${manifest.network} has no chainId`
+    );
+  }
+  if (typeof manifest.contracts !== "object" || manifest.contracts === null) {
+    throw new Error(
+      `Deployment manifest of ${manifest.network} has no contracts`
+    );
+  }
+  for (const [name, address] of Object.entries(manifest.contracts)) {
+    if (!DEPLOYED_CONTRACTS.includes(name as DeployedContract)) {
+      throw new Error(`Unknown contract ${name} in ${manifest.network}`);
+    }
+    if (typeof address !== "string" || !isAddress(address)) {
+      throw new Error(`Invalid ${name} address in ${manifest.network}`);
+    }
+  }
+  return {
+    network: manifest.network,
+    chainId: manifest.chainId,
+    contracts: { ...manifest.contracts },
+  };
+}
+
+/**
+ * Gets the address of a contract from a deployment manifest
+ * @throws If the contract is not deployed on the network of the manifest
+ */
+export function deployedContractAddress(
+  manifest: DeploymentManifest,
+  contract: DeployedContract
+): string {
+  const address = manifest.contracts[contract];
+  if (!address) {
+    throw new Error(
+      `No ${contract} address in the deployment manifest of ${manifest.network}`
+    );
+  }
+  return address;
+}
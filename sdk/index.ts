@@ -0,0 +1,7 @@
+export * from "./actions";
+export * from "./amounts";
+export * from "./deployments";
+export * from "./FamiliarsClient";
+export * from "./locations";
+export * from "./signatures";
+export * from "./tba";
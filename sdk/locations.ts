@@ -0,0 +1,103 @@
+import { ActionType } from "./actions";
+
+/**
+ * Locations seeded in the Familiars location registry
+ * @notice Ids must match the constants of FamiliarsLib, later locations are
+ * only known on chain
+ */
+export enum Location {
+  KARMIC_WELLSPRING,
+  KARMIC_TOWER,
+  HOME,
+  GATHERING_AREA,
+  MARKET_PLACE,
+}
+
+export type LocationKey = keyof typeof Location;
+
+/**
+ * Enum keys of every location, indexed by location id
+ */
+export const LOCATION_KEYS = Object.keys(Location).filter((key) =>
+  isNaN(Number(key))
+) as LocationKey[];
+
+/**
+ * Display names of the seeded locations, as returned by Familiars.getCurrentLocation
+ */
+export const LOCATION_NAMES: Record<Location, string> = {
+  [Location.KARMIC_WELLSPRING]: "Karmic Wellspring",
+  [Location.KARMIC_TOWER]: "Karmic Tower",
+  [Location.HOME]: "Home",
+  [Location.GATHERING_AREA]: "Gathering Area",
+  [Location.MARKET_PLACE]: "Marketplace",
+};
+
+/**
+ * A location with its id, enum key and display name
+ */
+export interface LocationInfo {
+  id: number;
+  key?: LocationKey; // Only set for seeded locations
+  name: string;
+}
+
+/**
+ * Describes a seeded location by its id
+ * @param id Location id as stored on chain
+ */
+export function getLocation(id: number | bigint): LocationInfo {
+  const location = Number(id) as Location;
+  if (!(location in LOCATION_NAMES)) {
+    throw new Error(`Unknown location id ${id}`);
+  }
+  return {
+    id: location,
+    key: Location[location] as LocationKey,
+    name: LOCATION_NAMES[location],
+  };
+}
+
+/**
+ * Describes a seeded location by its enum key or display name
+ * @param name Enum key ("MARKET_PLACE") or display name ("Marketplace")
+ */
+export function parseLocation(name: string): LocationInfo {
+  for (const id of Object.keys(LOCATION_NAMES).map(Number) as Location[]) {
+    if (Location[id] === name || LOCATION_NAMES[id] === name) {
+      return getLocation(id);
+    }
+  }
+  throw new Error(`Unknown location ${name}`);
+}
+
+/**
+ * Describes a location read from the registry
+ * @param id Location id as stored on chain
+ * @param name Display name stored on chain
+ */
+export function describeLocation(
+  id: number | bigint,
+  name: string
+): LocationInfo {
+  const key = Location[Number(id)] as LocationKey | undefined;
+  return key ? { id: Number(id), key, name } : { id: Number(id), name };
+}
+
+/**
+ * Builds the allowed actions mask of a registry entry
+ * @param actions Actions allowed at the location
+ */
+export function allowedActionsMask(actions: ActionType[]): bigint {
+  return actions.reduce((mask, action) => mask | (1n << BigInt(action)), 0n);
+}
+
+/**
+ * Lists the actions of an allowed actions mask
+ * @param mask Mask stored in FamiliarsLib.LocationInfo.allowedActions
+ */
+export function allowedActions(mask: bigint): ActionType[] {
+  return Object.values(ActionType)
+    .filter((action): action is ActionType => typeof action === "number")
+    .filter((action) => ((mask >> BigInt(action)) & 1n) === 1n);
+}
@@ -0,0 +1,287 @@
+import { BigNumberish, Signer, TypedDataDomain, TypedDataField } from "ethers";
+import { BundledAction } from "./actions";
+
+/**
+ * EIP-712 domain name and version used by the Operator contract
+ */
+export const OPERATOR_DOMAIN_NAME = "Operator";
+export const OPERATOR_DOMAIN_VERSION = "1";
+
+/**
+ * Nonces with this bit set are unordered and can be consumed in any order
+ */
+export const UNORDERED_NONCE_FLAG = 1n << 255n;
+
+/**
+ * Typed data definitions for every signed Operator action
+ * @notice Field order must match the *_TYPEHASH constants in Operator.sol
+ */
+export const OPERATOR_TYPES = {
+  CreateNPC: [
+    { name: "caller", type: "address" },
+    { name: "to", type: "address" },
+    { name: "uri", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  GoToLocation: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "location", type: "uint8" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  EquipItem: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "slot", type: "uint8" },
+    { name: "itemId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  ExchangeKarmicEnergy: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "karmicEnergyAmt", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  BuyFood: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "coinsAmt", type: "uint256" },
+    { name: "minFoodOut", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  BuyTreasureBox: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "boxType", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  BuyItem: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "itemId", type: "uint256" },
+    { name: "qty", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  RepairItem: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "itemId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  Craft: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "recipeId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  Train: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "karmicEnergyAmt", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  CreateOrder: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "asset", type: "uint8" },
+    { name: "itemId", type: "uint256" },
+    { name: "amount", type: "uint256" },
+    { name: "price", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  FillOrder: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "orderId", type: "uint256" },
+    { name: "amount", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  CancelOrder: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "orderId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  ExecuteActions: [
+    { name: "caller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "actions", type: "Action[]" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} satisfies Record<string, TypedDataField[]>;
+
+/**
+ * Nested struct types referenced by the Operator actions
+ */
+const NESTED_TYPES: Record<string, TypedDataField[]> = {
+  Action: [
+    { name: "actionType", type: "uint8" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+export type OperatorAction = keyof typeof OPERATOR_TYPES;
+
+// Fields shared by every signed action
+interface SignedActionBase {
+  caller: string; // Address that will submit the transaction
+  nonce: BigNumberish; // Sequential or unordered nonce of the caller
+  deadline: BigNumberish; // Unix timestamp after which the signature expires
+}
+
+export interface CreateNPCValue extends SignedActionBase {
+  to: string;
+  uri: string;
+}
+
+export interface GoToLocationValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  location: BigNumberish;
+}
+
+export interface EquipItemValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  slot: BigNumberish; // Id in the Familiars slot registry
+  itemId: BigNumberish; // 0 to empty the slot
+}
+
+export interface ExchangeKarmicEnergyValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  karmicEnergyAmt: BigNumberish;
+}
+
+export interface BuyFoodValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  coinsAmt: BigNumberish;
+  minFoodOut: BigNumberish; // Smallest amount of food accepted for the coins
+}
+
+export interface BuyTreasureBoxValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  boxType: BigNumberish;
+}
+
+export interface BuyItemValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  itemId: BigNumberish;
+  qty: BigNumberish;
+}
+
+export interface RepairItemValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  itemId: BigNumberish;
+}
+
+export interface CraftValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  recipeId: BigNumberish;
+}
+
+export interface TrainValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  karmicEnergyAmt: BigNumberish; // 1 XP each
+}
+
+export interface CreateOrderValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  asset: BigNumberish; // Marketplace.TradeAsset
+  itemId: BigNumberish;
+  amount: BigNumberish;
+  price: BigNumberish; // Whole coins per unit
+}
+
+export interface FillOrderValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  orderId: BigNumberish;
+  amount: BigNumberish;
+}
+
+export interface CancelOrderValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  orderId: BigNumberish;
+}
+
+export interface ExecuteActionsValue extends SignedActionBase {
+  tokenId: BigNumberish;
+  actions: BundledAction[];
+}
+
+export interface OperatorActionValues {
+  CreateNPC: CreateNPCValue;
+  GoToLocation: GoToLocationValue;
+  EquipItem: EquipItemValue;
+  ExchangeKarmicEnergy: ExchangeKarmicEnergyValue;
+  BuyFood: BuyFoodValue;
+  BuyTreasureBox: BuyTreasureBoxValue;
+  BuyItem: BuyItemValue;
+  RepairItem: RepairItemValue;
+  Craft: CraftValue;
+  Train: TrainValue;
+  CreateOrder: CreateOrderValue;
+  FillOrder: FillOrderValue;
+  CancelOrder: CancelOrderValue;
+  ExecuteActions: ExecuteActionsValue;
+}
+
+/**
+ * Builds the EIP-712 domain of a deployed Operator
+ * @param operator Address of the Operator contract
+ * @param chainId Chain the Operator is deployed on
+ */
+export function getOperatorDomain(
+  operator: string,
+  chainId: BigNumberish
+): TypedDataDomain {
+  return {
+    name: OPERATOR_DOMAIN_NAME,
+    version: OPERATOR_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: operator,
+  };
+}
+
+/**
+ * Builds an unordered nonce so several signed actions can be in flight at once
+ * @param index Position of the nonce in the caller's nonce bitmap
+ */
+export function unorderedNonce(index: BigNumberish): bigint {
+  return UNORDERED_NONCE_FLAG | BigInt(index);
+}
+
+/**
+ * Signs an Operator action with the verifier key
+ * @param verifier Signer holding the verifier key
+ * @param domain Domain returned by getOperatorDomain
+ * @param action Name of the typed action struct
+ * @param value Parameters of the action
+ * @return The signature expected by the Operator entry point
+ */
+export async function signOperatorAction<A extends OperatorAction>(
+  verifier: Signer,
+  domain: TypedDataDomain,
+  action: A,
+  value: OperatorActionValues[A]
+): Promise<string> {
+  const types: Record<string, TypedDataField[]> = {
+    [action]: OPERATOR_TYPES[action],
+  };
+  for (const field of OPERATOR_TYPES[action]) {
+    const nested = field.type.replace("[]", "");
+    if (NESTED_TYPES[nested]) types[nested] = NESTED_TYPES[nested];
+  }
+  return verifier.signTypedData(domain, types, value);
+}
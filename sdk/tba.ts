@@ -0,0 +1,42 @@
+import {
+  AbiCoder,
+  concat,
+  getCreate2Address,
+  keccak256,
+  toBeHex,
+} from "ethers";
+
+// ERC-1167 proxy header and footer wrapped around the account implementation
+const ERC1167_HEADER = "0x3d60ad80600a3d3981f3363d3d373d3d3d363d73";
+const ERC1167_FOOTER = "0x5af43d82803e903d91602b57fd5bf3";
+
+/**
+ * Parameters identifying an ERC-6551 token bound account
+ */
+export interface TbaParams {
+  registry: string; // ERC6551Registry address
+  implementation: string; // ERC6551Account implementation address
+  chainId: bigint | number; // Chain id passed to the registry
+  tokenContract: string; // Familiars address
+  tokenId: bigint | number; // Familiar token id
+  salt?: bigint | number; // Registry salt, the Operator uses 0
+}
+
+/**
+ * Derives the token bound account address of a Familiar without an RPC call
+ * @notice Matches ERC6551Registry.account and Operator._getTba
+ */
+export function computeTbaAddress(params: TbaParams): string {
+  const salt = toBeHex(params.salt ?? 0, 32);
+  const footer = AbiCoder.defaultAbiCoder().encode(
+    ["bytes32", "uint256", "address", "uint256"],
+    [salt, params.chainId, params.tokenContract, params.tokenId]
+  );
+  const bytecode = concat([
+    ERC1167_HEADER,
+    params.implementation,
+    ERC1167_FOOTER,
+    footer,
+  ]);
+  return getCreate2Address(params.registry, salt, keccak256(bytecode));
+}
@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  DeployedContract,
+  DeploymentManifest,
+  deployedContractAddress,
+  parseDeploymentManifest,
+} from "../sdk/deployments";
+
+// Ignition future ids of the contracts listed in the manifests
+const IGNITION_FUTURES: Record<string, DeployedContract> = {
+  "FamiliarsModule#Familiars": "familiars",
+  "FoodModule#Food": "food",
+  "CoinsModule#Coins": "coins",
+  "KarmicEnergyModule#KarmicEnergy": "karmicEnergy",
+  "FamiliarsItemModule#FamiliarsItem": "familiarsItem",
+  "ERC6551RegistryModule#ERC6551Registry": "registry",
+  "OperatorModule#ERC6551Registry": "registry",
+  "ERC6551AccountModule#ERC6551Account": "account",
+  "OperatorModule#ERC6551Account": "account",
+  "OperatorModule#Marketplace": "marketplace",
+  "OperatorModule#KarmicWellSpring": "karmicWellSpring",
+  "OperatorModule#Crafting": "crafting",
+  "OperatorModule#Operator": "operator",
+  "OperatorModule#FamiliarsRenderer": "renderer",
+};
+
+/**
+ * Path of the deployment manifest of a network
+ * @param root Root of the project
+ * @param network Hardhat network name
+ */
+export function deploymentManifestFile(root: string, network: string): string {
+  return path.join(root, "config", "deployments", `${network}.json`);
+}
+
+/**
+ * Reads the deployment manifest of a network
+ * @return The manifest, undefined if the network has none
+ */
+export function readDeploymentManifest(
+  root: string,
+  network: string
+): DeploymentManifest | undefined {
+  const file = deploymentManifestFile(root, network);
+  if (!fs.existsSync(file)) return undefined;
+  return parseDeploymentManifest(JSON.parse(fs.readFileSync(file, "utf8")));
+}
+
+/**
+ * Adds the contracts of an ignition deployment to a manifest
+ * @param deployed Content of the deployed_addresses.json of the deployment
+ * @param manifest Manifest to update, its other contracts are kept
+ * @return The updated manifest
+ */
+export function recordIgnitionDeployment(
+  deployed: Record<string, string>,
+  manifest: DeploymentManifest
+): DeploymentManifest {
+  const contracts = { ...manifest.contracts };
+  for (const [future, address] of Object.entries(deployed)) {
+    const contract = IGNITION_FUTURES[future];
+    if (contract) contracts[contract] = address;
+  }
+  return parseDeploymentManifest({ ...manifest, contracts });
+}
+
+/**
+ * Loads the deployment manifest of the current network
+ * @throws If the network has no manifest or the manifest is for another chain
+ */
+export async function loadDeployment(
+  hre: HardhatRuntimeEnvironment
+): Promise<DeploymentManifest> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const manifest = readDeploymentManifest(
+    hre.config.paths.root,
+    hre.network.name
+  );
+  if (!manifest) {
+    throw new Error(
+      `No deployment manifest for ${hre.network.name}, deploy with ignition and run deployments:record`
+    );
+  }
+  if (BigInt(manifest.chainId) !== chainId) {
+    throw new Error(
+      `Deployment manifest of ${hre.network.name} is for chain ${manifest.chainId}, not ${chainId}`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Reads a contract address from the deployment manifest of the current network
+ * @param contract Contract of the manifest
+ * @param param Task parameter that overrides the address, named in the error
+ */
+export async function deployedAddress(
+  hre: HardhatRuntimeEnvironment,
+  contract: DeployedContract,
+  param: string
+): Promise<string> {
+  try {
+    return deployedContractAddress(await loadDeployment(hre), contract);
+  } catch (error) {
+    throw new Error(`${(error as Error).message}, or pass --${param}`);
+  }
+}
+
+task(
+  "deployments:record",
+  "Records the ignition deployment of the network in its deployment manifest"
+)
+  .addOptionalParam(
+    "deploymentId",
+    "Ignition deployment id (default: chain-<chainId>)"
+  )
+  .setAction(async (args: { deploymentId?: string }, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const deployment = path.join(
+      hre.config.paths.ignition,
+      "deployments",
+      args.deploymentId ?? `chain-${chainId}`,
+      "deployed_addresses.json"
+    );
+    if (!fs.existsSync(deployment)) {
+      throw new Error(`No ignition deployment at ${deployment}`);
+    }
+
+    const root = hre.config.paths.root;
+    const previous = readDeploymentManifest(root, hre.network.name);
+    if (previous && BigInt(previous.chainId) !== chainId) {
+      throw new Error(
+        `Deployment manifest of ${hre.network.name} is for chain ${previous.chainId}, not ${chainId}`
+      );
+    }
+    const manifest = recordIgnitionDeployment(
+      JSON.parse(fs.readFileSync(deployment, "utf8")),
+      previous ?? {
+        network: hre.network.name,
+        chainId: Number(chainId),
+        contracts: {},
+      }
+    );
+    const file = deploymentManifestFile(root, hre.network.name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+    console.log(`Recorded ${path.relative(root, file)}`);
+    for (const [contract, address] of Object.entries(manifest.contracts)) {
+      console.log(`  ${contract}: ${address}`);
+    }
+  });
@@ -0,0 +1,441 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractTransactionResponse } from "ethers";
+import type {
+  Familiars,
+  FamiliarsItem,
+  KarmicWellSpring,
+} from "../typechain-types";
+import { LOCATION_KEYS, Location, LocationKey } from "../sdk/locations";
+import { deployedAddress } from "./deployments";
+
+/**
+ * Schema version of the game-config files understood by these tasks
+ */
+export const GAME_CONFIG_VERSION = 1;
+
+// Field order of FamiliarsLib.Requirements
+export const REQUIREMENT_FIELDS = [
+  "minHealth",
+  "healthCost",
+  "minKarmicEnergy",
+  "karmicEnergyCost",
+  "minFood",
+  "foodCost",
+  "minCoin",
+  "coinCost",
+  "getCoin",
+  "getHealth",
+  "getKarmicEnergy",
+  "getFood",
+  "minLevel",
+] as const;
+
+// Field order of FamiliarsLib.ItemAttributes
+export const ITEM_ATTRIBUTE_FIELDS = [
+  "healthIncrease",
+  "healthDecrease",
+  "karmicIncrease",
+  "karmicDecrease",
+  "foodIncrease",
+  "foodDecrease",
+  "coinIncrease",
+  "coinDecrease",
+  "luckIncrease",
+  "luckDecrease",
+] as const;
+
+export type Requirements = Record<(typeof REQUIREMENT_FIELDS)[number], number>;
+export type ItemAttributes = Record<
+  (typeof ITEM_ATTRIBUTE_FIELDS)[number],
+  number
+>;
+
+// Item entry of a game-config, slot is the Familiars equipment slot id
+export type ItemConfig = ItemAttributes & { slot?: number };
+
+export interface ExchangeTier {
+  karmicAmount: number;
+  coins: number;
+  food: number;
+}
+
+/**
+ * Declarative game balancing for one network
+ * @notice Only the sections and entries present in the file are managed,
+ *         except wellspring tiers which are synced as a whole list
+ */
+export interface GameConfig {
+  version: number;
+  locations?: Partial<Record<LocationKey, Requirements>>;
+  wellspringTiers?: ExchangeTier[];
+  items?: Record<string, ItemConfig>;
+}
+
+export interface GameContracts {
+  familiars: Familiars;
+  karmicWellSpring: KarmicWellSpring;
+  familiarsItem: FamiliarsItem;
+}
+
+export type GameConfigChange =
+  | {
+      kind: "location";
+      location: LocationKey;
+      before: Requirements;
+      after: Requirements;
+    }
+  | {
+      kind: "tier";
+      karmicAmount: number;
+      before?: ExchangeTier;
+      after?: ExchangeTier;
+    }
+  | {
+      kind: "item";
+      itemId: number;
+      before: ItemAttributes;
+      after: ItemAttributes;
+    }
+  | {
+      kind: "itemSlot";
+      itemId: number;
+      before: number;
+      after: number;
+    };
+
+/**
+ * Reads and validates a game-config file
+ * @param file Path of the JSON game-config file
+ */
+export function loadGameConfig(file: string): GameConfig {
+  const config = JSON.parse(fs.readFileSync(file, "utf8")) as GameConfig;
+  if (config.version !== GAME_CONFIG_VERSION) {
+    throw new Error(
+      `Unsupported game-config version ${config.version} in ${file}, expected ${GAME_CONFIG_VERSION}`
+    );
+  }
+  for (const key of Object.keys(config.locations ?? {})) {
+    if (!LOCATION_KEYS.includes(key as LocationKey)) {
+      throw new Error(`Unknown location ${key} in ${file}`);
+    }
+  }
+  return config;
+}
+
+// Picks the given fields of an on-chain struct as plain numbers
+function pick<F extends string>(
+  value: { [K in F]?: number | bigint },
+  fields: readonly F[]
+): Record<F, number> {
+  const result = {} as Record<F, number>;
+  for (const field of fields) result[field] = Number(value[field] ?? 0);
+  return result;
+}
+
+function differs<F extends string>(
+  a: Record<F, number>,
+  b: Record<F, number>,
+  fields: readonly F[]
+): boolean {
+  return fields.some((field) => a[field] !== b[field]);
+}
+
+/**
+ * Compares a game-config with the values currently on chain
+ * @param contracts Game contracts to read from
+ * @param config Desired game-config
+ * @return The entries that have to change, in the order they will be applied
+ */
+export async function diffGameConfig(
+  contracts: GameContracts,
+  config: GameConfig
+): Promise<GameConfigChange[]> {
+  const changes: GameConfigChange[] = [];
+
+  for (const [key, desired] of Object.entries(config.locations ?? {})) {
+    const location = key as LocationKey;
+    const after = pick(desired, REQUIREMENT_FIELDS);
+    const before = pick(
+      await contracts.familiars.getLocationRequirements(Location[location]),
+      REQUIREMENT_FIELDS
+    );
+    if (differs(before, after, REQUIREMENT_FIELDS)) {
+      changes.push({ kind: "location", location, before, after });
+    }
+  }
+
+  if (config.wellspringTiers) {
+    const current = new Map<number, ExchangeTier>();
+    for (const amount of await contracts.karmicWellSpring.getExchangeTiers()) {
+      current.set(Number(amount), {
+        karmicAmount: Number(amount),
+        coins: Number(await contracts.karmicWellSpring.karmicToCoins(amount)),
+        food: Number(await contracts.karmicWellSpring.karmicToFood(amount)),
+      });
+    }
+    const desired = new Set<number>();
+    for (const after of config.wellspringTiers) {
+      desired.add(after.karmicAmount);
+      const before = current.get(after.karmicAmount);
+      if (
+        !before ||
+        before.coins !== after.coins ||
+        before.food !== after.food
+      ) {
+        changes.push({
+          kind: "tier",
+          karmicAmount: after.karmicAmount,
+          before,
+          after,
+        });
+      }
+    }
+    for (const [karmicAmount, before] of current) {
+      if (!desired.has(karmicAmount)) {
+        changes.push({ kind: "tier", karmicAmount, before });
+      }
+    }
+  }
+
+  for (const [id, desired] of Object.entries(config.items ?? {})) {
+    const itemId = Number(id);
+    const after = pick(desired, ITEM_ATTRIBUTE_FIELDS);
+    const before = pick(
+      await contracts.familiarsItem.getItemAttributes(itemId),
+      ITEM_ATTRIBUTE_FIELDS
+    );
+    if (differs(before, after, ITEM_ATTRIBUTE_FIELDS)) {
+      changes.push({ kind: "item", itemId, before, after });
+    }
+    if (desired.slot !== undefined) {
+      const slot = Number(await contracts.familiarsItem.getItemSlot(itemId));
+      if (slot !== desired.slot) {
+        changes.push({
+          kind: "itemSlot",
+          itemId,
+          before: slot,
+          after: desired.slot,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+// Lists the fields that differ as "field: before -> after"
+function describeFields<F extends string>(
+  before: Record<F, number>,
+  after: Record<F, number>,
+  fields: readonly F[]
+): string[] {
+  return fields
+    .filter((field) => before[field] !== after[field])
+    .map((field) => `${field}: ${before[field]} -> ${after[field]}`);
+}
+
+/**
+ * Renders a list of changes as a human-readable diff
+ * @param changes Changes returned by diffGameConfig
+ */
+export function formatGameConfigDiff(changes: GameConfigChange[]): string {
+  if (changes.length === 0) return "Game config is in sync, nothing to apply.";
+
+  const lines: string[] = [];
+  for (const change of changes) {
+    if (change.kind === "location") {
+      lines.push(`~ location ${change.location}`);
+      for (const field of describeFields(
+        change.before,
+        change.after,
+        REQUIREMENT_FIELDS
+      )) {
+        lines.push(`    ${field}`);
+      }
+    } else if (change.kind === "tier") {
+      const { before, after } = change;
+      if (!before && after) {
+        lines.push(
+          `+ wellspring tier ${change.karmicAmount} karmic: ${after.coins} coins, ${after.food} food`
+        );
+      } else if (before && !after) {
+        lines.push(
+          `- wellspring tier ${change.karmicAmount} karmic: ${before.coins} coins, ${before.food} food`
+        );
+      } else if (before && after) {
+        lines.push(
+          `~ wellspring tier ${change.karmicAmount} karmic: ${before.coins} -> ${after.coins} coins, ${before.food} -> ${after.food} food`
+        );
+      }
+    } else if (change.kind === "itemSlot") {
+      lines.push(
+        `~ item ${change.itemId} slot: ${change.before} -> ${change.after}`
+      );
+    } else {
+      lines.push(`~ item ${change.itemId}`);
+      for (const field of describeFields(
+        change.before,
+        change.after,
+        ITEM_ATTRIBUTE_FIELDS
+      )) {
+        lines.push(`    ${field}`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Sends one transaction per changed entry and waits for all of them
+ * @param contracts Game contracts connected to the owner
+ * @param changes Changes returned by diffGameConfig
+ */
+export async function applyGameConfig(
+  contracts: GameContracts,
+  changes: GameConfigChange[]
+): Promise<ContractTransactionResponse[]> {
+  const txs: ContractTransactionResponse[] = [];
+  for (const change of changes) {
+    if (change.kind === "location") {
+      txs.push(
+        await contracts.familiars.setLocationRequirements(
+          Location[change.location],
+          change.after
+        )
+      );
+    } else if (change.kind === "tier") {
+      const { karmicAmount, before, after } = change;
+      if (!after) {
+        txs.push(
+          await contracts.karmicWellSpring.removeExchangeRate(karmicAmount)
+        );
+      } else if (!before) {
+        txs.push(
+          await contracts.karmicWellSpring.addExchangeRate(
+            karmicAmount,
+            after.coins,
+            after.food
+          )
+        );
+      } else {
+        txs.push(
+          await contracts.karmicWellSpring.updateExchangeRate(
+            karmicAmount,
+            after.coins,
+            after.food
+          )
+        );
+      }
+    } else if (change.kind === "itemSlot") {
+      txs.push(
+        await contracts.familiarsItem.setItemSlot(change.itemId, change.after)
+      );
+    } else {
+      txs.push(
+        await contracts.familiarsItem.setItemAttributes(
+          change.itemId,
+          change.after
+        )
+      );
+    }
+  }
+  await Promise.all(txs.map((tx) => tx.wait()));
+  return txs;
+}
+
+interface GameConfigTaskArgs {
+  file?: string;
+  familiars?: string;
+  wellspring?: string;
+  items?: string;
+}
+
+// Contracts of the deployment manifest the task parameters override
+const MANIFEST_CONTRACTS = {
+  familiars: "familiars",
+  wellspring: "karmicWellSpring",
+  items: "familiarsItem",
+} as const;
+
+/**
+ * Resolves the game contracts from the deployment manifest of the current
+ * network, using the addresses passed to the task when given
+ */
+async function resolveGameContracts(
+  hre: HardhatRuntimeEnvironment,
+  args: GameConfigTaskArgs
+): Promise<GameContracts> {
+  const address = async (key: keyof typeof MANIFEST_CONTRACTS) =>
+    args[key] ?? (await deployedAddress(hre, MANIFEST_CONTRACTS[key], key));
+
+  return {
+    familiars: (await hre.ethers.getContractAt(
+      "Familiars",
+      await address("familiars")
+    )) as unknown as Familiars,
+    karmicWellSpring: (await hre.ethers.getContractAt(
+      "KarmicWellSpring",
+      await address("wellspring")
+    )) as unknown as KarmicWellSpring,
+    familiarsItem: (await hre.ethers.getContractAt(
+      "FamiliarsItem",
+      await address("items")
+    )) as unknown as FamiliarsItem,
+  };
+}
+
+// Loads the config file for the task and computes its diff
+async function prepare(
+  hre: HardhatRuntimeEnvironment,
+  args: GameConfigTaskArgs
+) {
+  const file =
+    args.file ??
+    path.join(
+      hre.config.paths.root,
+      "config",
+      "game",
+      `${hre.network.name}.json`
+    );
+  const config = loadGameConfig(file);
+  const contracts = await resolveGameContracts(hre, args);
+  const changes = await diffGameConfig(contracts, config);
+  console.log(`Game config ${file} on ${hre.network.name}:`);
+  console.log(formatGameConfigDiff(changes));
+  return { contracts, changes };
+}
+
+task("game-config:diff", "Prints how a game-config file differs from chain")
+  .addOptionalParam(
+    "file",
+    "Path of the game-config file (default: config/game/<network>.json)",
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam("familiars", "Familiars address override")
+  .addOptionalParam("wellspring", "KarmicWellSpring address override")
+  .addOptionalParam("items", "FamiliarsItem address override")
+  .setAction(async (args: GameConfigTaskArgs, hre) => {
+    await prepare(hre, args);
+  });
+
+task("game-config:apply", "Applies the changed entries of a game-config file")
+  .addOptionalParam(
+    "file",
+    "Path of the game-config file (default: config/game/<network>.json)",
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam("familiars", "Familiars address override")
+  .addOptionalParam("wellspring", "KarmicWellSpring address override")
+  .addOptionalParam("items", "FamiliarsItem address override")
+  .setAction(async (args: GameConfigTaskArgs, hre) => {
+    const { contracts, changes } = await prepare(hre, args);
+    if (changes.length === 0) return;
+    const txs = await applyGameConfig(contracts, changes);
+    console.log(`Applied ${txs.length} change(s):`);
+    for (const tx of txs) console.log(`  ${tx.hash}`);
+  });
@@ -0,0 +1,58 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { Indexer } from "../indexer/Indexer";
+import { IndexerDatabase } from "../indexer/database";
+import { deployedAddress } from "./deployments";
+
+interface IndexerTaskArgs {
+  operator?: string;
+  db?: string;
+  start: number;
+  poll: number;
+}
+
+task("indexer:sync", "Indexes game events into a local SQLite database")
+  .addOptionalParam("operator", "Operator address override")
+  .addOptionalParam(
+    "db",
+    "Path of the SQLite file (default: indexer/data/<chainId>.sqlite)"
+  )
+  .addOptionalParam("start", "First block to index", 0, types.int)
+  .addOptionalParam(
+    "poll",
+    "Keep following the chain, polling every N seconds (0 syncs once)",
+    0,
+    types.int
+  )
+  .setAction(async (args: IndexerTaskArgs, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const operator =
+      args.operator ?? (await deployedAddress(hre, "operator", "operator"));
+    const file =
+      args.db ??
+      path.join(hre.config.paths.root, "indexer", "data", `${chainId}.sqlite`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    const db = await IndexerDatabase.open(file);
+    const contracts = await Indexer.resolveContracts(
+      operator,
+      hre.ethers.provider
+    );
+    const indexer = new Indexer(db, hre.ethers.provider, contracts, {
+      startBlock: args.start,
+    });
+
+    for (;;) {
+      const result = await indexer.sync();
+      if (result.reorgedFrom !== undefined) {
+        console.log(`Reorg: dropped blocks from ${result.reorgedFrom}`);
+      }
+      console.log(
+        `Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} event(s)`
+      );
+      if (args.poll <= 0) break;
+      await new Promise((resolve) => setTimeout(resolve, args.poll * 1000));
+    }
+    db.close();
+  });
@@ -0,0 +1,197 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Contracts deployed behind a UUPS proxy, their storage must stay compatible
+ */
+export const UPGRADEABLE_CONTRACTS = [
+  "Operator",
+  "Marketplace",
+  "KarmicWellSpring",
+] as const;
+
+export type UpgradeableContract = (typeof UPGRADEABLE_CONTRACTS)[number];
+
+/**
+ * A state variable of a storage layout, with its type spelled out in full
+ */
+export interface StorageSlot {
+  label: string;
+  slot: number;
+  offset: number;
+  type: string;
+}
+
+// Storage layout emitted by solc for a contract
+interface SolcStorageLayout {
+  storage: { label: string; slot: string; offset: number; type: string }[];
+  types: Record<
+    string,
+    {
+      label: string;
+      key?: string;
+      value?: string;
+      base?: string;
+      members?: { label: string; slot: string; offset: number; type: string }[];
+    }
+  > | null;
+}
+
+/**
+ * Spells out a solc type id without the AST ids it embeds, so layouts of
+ * different compilations compare equal. Struct members are listed in order
+ */
+function describeType(
+  types: NonNullable<SolcStorageLayout["types"]>,
+  id: string
+): string {
+  const type = types[id];
+  if (type.members) {
+    const members = type.members.map(
+      (member) =>
+        `${member.label}: ${describeType(types, member.type)} @${member.slot}:${member.offset}`
+    );
+    return `${type.label} { ${members.join(", ")} }`;
+  }
+  if (type.key && type.value) {
+    return `mapping(${describeType(types, type.key)} => ${describeType(
+      types,
+      type.value
+    )})`;
+  }
+  if (type.base) {
+    const length = type.label.slice(type.label.lastIndexOf("["));
+    return `${describeType(types, type.base)}${length}`;
+  }
+  return type.label;
+}
+
+/**
+ * Reads the storage layout of a compiled contract
+ * @param name Name of the contract under contracts/
+ */
+export async function readStorageLayout(
+  hre: HardhatRuntimeEnvironment,
+  name: string
+): Promise<StorageSlot[]> {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact(name);
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${sourceName}:${contractName}`
+  );
+  const layout = (
+    buildInfo?.output.contracts[sourceName][contractName] as unknown as {
+      storageLayout?: SolcStorageLayout;
+    }
+  )?.storageLayout;
+  if (!layout) {
+    throw new Error(`No storage layout for ${name}, compile it first`);
+  }
+  return layout.storage.map((entry) => ({
+    label: entry.label,
+    slot: Number(entry.slot),
+    offset: entry.offset,
+    type: describeType(layout.types ?? {}, entry.type),
+  }));
+}
+
+/**
+ * Lists what makes a layout unsafe to upgrade to from a deployed one
+ * @param deployed Layout of the implementation behind the proxy
+ * @param next Layout of the new implementation
+ * @return One message per variable that moved, changed type or was removed,
+ *         empty when only new variables were appended
+ */
+export function compareStorageLayouts(
+  deployed: StorageSlot[],
+  next: StorageSlot[]
+): string[] {
+  const problems: string[] = [];
+  for (const variable of deployed) {
+    const current = next.find(
+      (entry) =>
+        entry.slot === variable.slot && entry.offset === variable.offset
+    );
+    const renamed = next.find((entry) => entry.label === variable.label);
+    if (!current) {
+      problems.push(
+        renamed
+          ? `${variable.label} moved from slot ${variable.slot}:${variable.offset} to ${renamed.slot}:${renamed.offset}`
+          : `${variable.label} was removed from slot ${variable.slot}:${variable.offset}`
+      );
+    } else if (current.label !== variable.label) {
+      problems.push(
+        `${variable.label} at slot ${variable.slot}:${variable.offset} was replaced by ${current.label}`
+      );
+    } else if (current.type !== variable.type) {
+      problems.push(
+        `${variable.label} changed type from ${variable.type} to ${current.type}`
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Path of the recorded layout of a contract, the one its proxy is running
+ */
+export function storageLayoutFile(
+  hre: HardhatRuntimeEnvironment,
+  name: UpgradeableContract
+): string {
+  return path.join(
+    hre.config.paths.root,
+    "config",
+    "storage-layout",
+    `${name}.json`
+  );
+}
+
+/**
+ * Loads the recorded layout of a contract
+ */
+export function loadStorageLayout(
+  hre: HardhatRuntimeEnvironment,
+  name: UpgradeableContract
+): StorageSlot[] {
+  return JSON.parse(fs.readFileSync(storageLayoutFile(hre, name), "utf8"));
+}
+
+task(
+  "storage-layout:check",
+  "Checks the upgradeable contracts against their recorded storage layouts"
+).setAction(async (_, hre) => {
+  await hre.run("compile");
+  let failed = false;
+  for (const name of UPGRADEABLE_CONTRACTS) {
+    const problems = compareStorageLayouts(
+      loadStorageLayout(hre, name),
+      await readStorageLayout(hre, name)
+    );
+    if (problems.length === 0) {
+      console.log(`${name}: compatible`);
+      continue;
+    }
+    failed = true;
+    console.log(`${name}:`);
+    for (const problem of problems) console.log(`  ${problem}`);
+  }
+  if (failed) throw new Error("Storage layouts are not upgrade safe");
+});
+
+task(
+  "storage-layout:record",
+  "Records the storage layouts of the upgradeable contracts once they are deployed"
+).setAction(async (_, hre) => {
+  await hre.run("compile");
+  for (const name of UPGRADEABLE_CONTRACTS) {
+    const file = storageLayoutFile(hre, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(
+      file,
+      JSON.stringify(await readStorageLayout(hre, name), null, 2) + "\n"
+    );
+    console.log(`Recorded ${path.relative(hre.config.paths.root, file)}`);
+  }
+});
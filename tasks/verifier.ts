@@ -0,0 +1,48 @@
+import { task, types, vars } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Signer, Wallet } from "ethers";
+import { createVerifierService } from "../verifier/server";
+import { deployedAddress } from "./deployments";
+
+interface VerifierTaskArgs {
+  operator?: string;
+  port: number;
+  limit: number;
+  window: number;
+}
+
+task("verifier:serve", "Runs the verifier signing service against a network")
+  .addOptionalParam("operator", "Operator address override")
+  .addOptionalParam("port", "Port to listen on", 3001, types.int)
+  .addOptionalParam("limit", "Requests allowed per caller", 10, types.int)
+  .addOptionalParam("window", "Rate limit window in seconds", 60, types.int)
+  .setAction(async (args: VerifierTaskArgs, hre) => {
+    const operator =
+      args.operator ?? (await deployedAddress(hre, "operator", "operator"));
+    const verifier = await loadVerifier(hre);
+    const server = await createVerifierService({
+      operator,
+      provider: hre.ethers.provider,
+      verifier,
+      rateLimit: { limit: args.limit, windowMs: args.window * 1000 },
+    });
+
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(
+      `Verifier ${await verifier.getAddress()} signing for Operator ${operator}`
+    );
+    console.log(`Listening on http://localhost:${args.port}/sign`);
+    await new Promise((resolve) => server.on("close", resolve));
+  });
+
+/**
+ * Uses the VERIFIER_KEY variable, or the deployer which is the verifier of a fresh Operator
+ */
+export async function loadVerifier(
+  hre: HardhatRuntimeEnvironment
+): Promise<Signer> {
+  const key = vars.get("VERIFIER_KEY", "");
+  if (key) return new Wallet(key, hre.ethers.provider);
+  const [deployer] = await hre.ethers.getSigners();
+  return deployer;
+}
@@ -0,0 +1,496 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BaseContract, Signer, TransactionResponse, getAddress } from "ethers";
+import type {
+  Coins,
+  Crafting,
+  Familiars,
+  FamiliarsItem,
+  FamiliarsRenderer,
+  Food,
+  KarmicEnergy,
+  KarmicWellSpring,
+  Marketplace,
+  Operator,
+} from "../typechain-types";
+import { deployedContractAddress } from "../sdk/deployments";
+import { loadDeployment } from "./deployments";
+import { loadVerifier } from "./verifier";
+
+/**
+ * Game contracts whose pointers, owners and roles are checked
+ */
+export interface WiringContracts {
+  familiars: Familiars;
+  food: Food;
+  coins: Coins;
+  karmicEnergy: KarmicEnergy;
+  familiarsItem: FamiliarsItem;
+  marketplace: Marketplace;
+  karmicWellSpring: KarmicWellSpring;
+  crafting: Crafting;
+  operator: Operator;
+  renderer: FamiliarsRenderer;
+}
+
+export type WiredContract = keyof WiringContracts;
+
+// Contracts of the deployment manifest checked by the task
+export const WIRED_CONTRACTS: WiredContract[] = [
+  "familiars",
+  "food",
+  "coins",
+  "karmicEnergy",
+  "familiarsItem",
+  "marketplace",
+  "karmicWellSpring",
+  "crafting",
+  "operator",
+  "renderer",
+];
+
+// Typechain name of each checked contract
+const CONTRACT_NAMES: Record<WiredContract, string> = {
+  familiars: "Familiars",
+  food: "Food",
+  coins: "Coins",
+  karmicEnergy: "KarmicEnergy",
+  familiarsItem: "FamiliarsItem",
+  marketplace: "Marketplace",
+  karmicWellSpring: "KarmicWellSpring",
+  crafting: "Crafting",
+  operator: "Operator",
+  renderer: "FamiliarsRenderer",
+};
+
+/**
+ * Accounts the deployment is expected to be administered by
+ */
+export interface WiringExpectation {
+  owner: string; // Owner of every game contract
+  verifier: string; // Signer of the Operator actions
+}
+
+/**
+ * Transaction restoring an expected pointer, owner or role
+ */
+export interface WiringFix {
+  to: string;
+  data: string;
+  call: string; // Readable form of the call, e.g. setOperator(operator)
+}
+
+/**
+ * Pointer, owner or role that differs from the expected graph
+ * @notice Pointers set once at initialization have no fix and need a new deployment
+ */
+export interface WiringMismatch {
+  contract: WiredContract;
+  check: string;
+  expected: string;
+  actual: string;
+  fix?: WiringFix;
+}
+
+// Token contracts with mint, burn and URI roles
+const ROLE_TOKENS = ["food", "coins", "karmicEnergy", "familiarsItem"] as const;
+type RoleToken = (typeof ROLE_TOKENS)[number];
+
+// Expected holders of each token role, matching the setters that rewire them
+const ROLE_HOLDERS: Record<RoleToken, WiredContract[]> = {
+  food: ["operator", "marketplace", "karmicWellSpring", "crafting"],
+  coins: ["operator", "marketplace", "karmicWellSpring", "crafting"],
+  karmicEnergy: ["operator", "marketplace", "karmicWellSpring", "crafting"],
+  familiarsItem: ["operator", "marketplace", "crafting"],
+};
+const URI_ADMINS: Record<RoleToken, WiredContract[]> = {
+  food: ["operator"],
+  coins: [],
+  karmicEnergy: ["operator"],
+  familiarsItem: ["operator"],
+};
+
+/**
+ * Compares the wiring of a deployment with the graph built by the Operator
+ * ignition module
+ * @param contracts Game contracts of the deployment
+ * @param expected Owner and verifier the deployment should have
+ * @return The mismatches, ownership transfers last so the other fixes can
+ *         still be sent by the current owner
+ */
+export async function checkWiring(
+  contracts: WiringContracts,
+  expected: WiringExpectation
+): Promise<WiringMismatch[]> {
+  const addresses = {} as Record<WiredContract, string>;
+  const names = new Map<string, string>();
+  for (const contract of WIRED_CONTRACTS) {
+    addresses[contract] = await contracts[contract].getAddress();
+    names.set(addresses[contract], contract);
+  }
+  // Names the game contracts and roles, and leaves other accounts as addresses
+  const label = (address: string) => names.get(address) ?? address;
+
+  const mismatches: WiringMismatch[] = [];
+  const fix = (
+    contract: WiredContract,
+    method: string,
+    args: string[]
+  ): WiringFix => ({
+    to: addresses[contract],
+    data: (contracts[contract] as BaseContract).interface.encodeFunctionData(
+      method,
+      args
+    ),
+    call: `${method}(${args.map(label).join(", ")})`,
+  });
+
+  // Records a pointer that does not hold the expected address
+  async function compare(
+    contract: WiredContract,
+    check: string,
+    read: Promise<string>,
+    target: string,
+    setter?: string
+  ) {
+    const actual = getAddress(await read);
+    if (actual === getAddress(target)) return;
+    mismatches.push({
+      contract,
+      check,
+      expected: label(getAddress(target)),
+      actual: label(actual),
+      fix: setter ? fix(contract, setter, [target]) : undefined,
+    });
+  }
+
+  const { operator } = contracts;
+  await compare(
+    "operator",
+    "verifier",
+    operator.verifier(),
+    expected.verifier,
+    "setVerifier"
+  );
+  await compare(
+    "operator",
+    "familiars",
+    operator.familiars(),
+    addresses.familiars
+  );
+  await compare("operator", "food", operator.food(), addresses.food);
+  await compare("operator", "coins", operator.coins(), addresses.coins);
+  await compare(
+    "operator",
+    "karmicEnergy",
+    operator.karmicEnergy(),
+    addresses.karmicEnergy
+  );
+  await compare(
+    "operator",
+    "familiarsItem",
+    operator.familiarsItem(),
+    addresses.familiarsItem
+  );
+  await compare(
+    "operator",
+    "marketplace",
+    operator.marketplace(),
+    addresses.marketplace
+  );
+  await compare(
+    "operator",
+    "karmicWellSpring",
+    operator.karmicWellSpring(),
+    addresses.karmicWellSpring
+  );
+  await compare(
+    "operator",
+    "crafting",
+    operator.crafting(),
+    addresses.crafting,
+    "setCrafting"
+  );
+
+  const { familiars } = contracts;
+  await compare(
+    "familiars",
+    "operator",
+    familiars.operator(),
+    addresses.operator,
+    "setOperator"
+  );
+  await compare(
+    "familiars",
+    "renderer",
+    familiars.renderer(),
+    addresses.renderer,
+    "setRenderer"
+  );
+
+  for (const token of ["food", "coins", "karmicEnergy"] as const) {
+    const contract = contracts[token];
+    await compare(
+      token,
+      "operator",
+      contract.operator(),
+      addresses.operator,
+      "setOperator"
+    );
+    await compare(
+      token,
+      "marketplace",
+      contract.marketplace(),
+      addresses.marketplace,
+      "setMarketplace"
+    );
+    await compare(
+      token,
+      "karmicSpring",
+      contract.karmicSpring(),
+      addresses.karmicWellSpring,
+      "setKarmicWellSpring"
+    );
+    await compare(
+      token,
+      "crafting",
+      contract.crafting(),
+      addresses.crafting,
+      "setCrafting"
+    );
+  }
+
+  const { familiarsItem } = contracts;
+  await compare(
+    "familiarsItem",
+    "operator",
+    familiarsItem.operator(),
+    addresses.operator,
+    "setOperator"
+  );
+  await compare(
+    "familiarsItem",
+    "marketplace",
+    familiarsItem.marketplace(),
+    addresses.marketplace,
+    "setMarketplace"
+  );
+  await compare(
+    "familiarsItem",
+    "crafting",
+    familiarsItem.crafting(),
+    addresses.crafting,
+    "setCrafting"
+  );
+
+  const { marketplace } = contracts;
+  await compare(
+    "marketplace",
+    "operator",
+    marketplace.operator(),
+    addresses.operator,
+    "setOperator"
+  );
+  await compare(
+    "marketplace",
+    "familiarsItem",
+    marketplace.familiarsItem(),
+    addresses.familiarsItem,
+    "setFamiliarsItem"
+  );
+
+  // The token pointers of these contracts are only set at initialization
+  for (const contract of [
+    "marketplace",
+    "karmicWellSpring",
+    "crafting",
+  ] as const) {
+    const instance = contracts[contract];
+    await compare(contract, "food", instance.food(), addresses.food);
+    await compare(contract, "coins", instance.coins(), addresses.coins);
+    await compare(
+      contract,
+      "karmicEnergy",
+      instance.karmicEnergy(),
+      addresses.karmicEnergy
+    );
+  }
+  await compare(
+    "crafting",
+    "familiarsItem",
+    contracts.crafting.familiarsItem(),
+    addresses.familiarsItem
+  );
+
+  for (const contract of [
+    "karmicWellSpring",
+    "crafting",
+    "renderer",
+  ] as const) {
+    await compare(
+      contract,
+      "operator",
+      contracts[contract].operator(),
+      addresses.operator,
+      "setOperator"
+    );
+  }
+
+  for (const token of ROLE_TOKENS) {
+    const contract = contracts[token];
+    for (const [role, holders] of [
+      ["MINTER_ROLE", ROLE_HOLDERS[token]],
+      ["BURNER_ROLE", ROLE_HOLDERS[token]],
+      ["URI_ADMIN_ROLE", URI_ADMINS[token]],
+    ] as const) {
+      const id = await contract[role]();
+      names.set(id, role);
+      const members = (await contract.getRoleMembers(id)).map((member) =>
+        getAddress(member)
+      );
+      for (const holder of holders) {
+        if (members.includes(addresses[holder])) continue;
+        mismatches.push({
+          contract: token,
+          check: role,
+          expected: holder,
+          actual: "missing",
+          fix: fix(token, "grantRole", [id, addresses[holder]]),
+        });
+      }
+      // Accounts keeping a role they are no longer wired to use
+      for (const member of members) {
+        if (holders.some((holder) => addresses[holder] === member)) continue;
+        mismatches.push({
+          contract: token,
+          check: role,
+          expected: "-",
+          actual: label(member),
+          fix: fix(token, "revokeRole", [id, member]),
+        });
+      }
+    }
+  }
+
+  for (const contract of WIRED_CONTRACTS) {
+    await compare(
+      contract,
+      "owner",
+      contracts[contract].owner(),
+      expected.owner,
+      "transferOwnership"
+    );
+  }
+
+  return mismatches;
+}
+
+/**
+ * Renders the mismatches as a table
+ * @param mismatches Mismatches returned by checkWiring
+ */
+export function formatWiringReport(mismatches: WiringMismatch[]): string {
+  if (mismatches.length === 0) {
+    return "Deployment wiring matches, nothing to fix.";
+  }
+
+  const header = ["Contract", "Check", "Expected", "Actual", "Fix"];
+  const rows = mismatches.map((mismatch) => [
+    mismatch.contract,
+    mismatch.check,
+    mismatch.expected,
+    mismatch.actual,
+    mismatch.fix?.call ?? "none",
+  ]);
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join(" | ")
+      .trimEnd();
+  return [
+    line(header),
+    widths.map((width) => "-".repeat(width)).join("-|-"),
+    ...rows.map(line),
+  ].join("\n");
+}
+
+/**
+ * Sends the fix of each mismatch that has one and waits for all of them
+ * @param signer Owner of the game contracts
+ * @param mismatches Mismatches returned by checkWiring
+ */
+export async function fixWiring(
+  signer: Signer,
+  mismatches: WiringMismatch[]
+): Promise<TransactionResponse[]> {
+  const txs: TransactionResponse[] = [];
+  for (const { fix } of mismatches) {
+    if (fix)
+      txs.push(await signer.sendTransaction({ to: fix.to, data: fix.data }));
+  }
+  await Promise.all(txs.map((tx) => tx.wait()));
+  return txs;
+}
+
+interface WiringTaskArgs {
+  owner?: string;
+  verifier?: string;
+  fix: boolean;
+  calldata: boolean;
+}
+
+/**
+ * Connects to the game contracts of the deployment manifest of the current
+ * network
+ */
+async function resolveWiringContracts(
+  hre: HardhatRuntimeEnvironment
+): Promise<WiringContracts> {
+  const manifest = await loadDeployment(hre);
+  const contracts = {} as Record<WiredContract, BaseContract>;
+  for (const contract of WIRED_CONTRACTS) {
+    contracts[contract] = await hre.ethers.getContractAt(
+      CONTRACT_NAMES[contract],
+      deployedContractAddress(manifest, contract)
+    );
+  }
+  return contracts as unknown as WiringContracts;
+}
+
+task(
+  "wiring:check",
+  "Checks the pointers, owners, verifier and roles of the deployed game contracts"
+)
+  .addOptionalParam("owner", "Expected owner (default: the deployer)")
+  .addOptionalParam(
+    "verifier",
+    "Expected verifier (default: VERIFIER_KEY, or the deployer)"
+  )
+  .addFlag("fix", "Send the transactions fixing the mismatches")
+  .addFlag("calldata", "Print the transactions fixing the mismatches")
+  .setAction(async (args: WiringTaskArgs, hre) => {
+    const [deployer] = await hre.ethers.getSigners();
+    const expected: WiringExpectation = {
+      owner: args.owner ?? deployer.address,
+      verifier: args.verifier ?? (await (await loadVerifier(hre)).getAddress()),
+    };
+    const mismatches = await checkWiring(
+      await resolveWiringContracts(hre),
+      expected
+    );
+    console.log(`Deployment wiring on ${hre.network.name}:`);
+    console.log(formatWiringReport(mismatches));
+
+    if (args.calldata) {
+      for (const { fix } of mismatches) {
+        if (fix) console.log(`${fix.to} ${fix.data} # ${fix.call}`);
+      }
+    }
+    if (!args.fix || mismatches.length === 0) return;
+    const txs = await fixWiring(deployer, mismatches);
+    console.log(`Sent ${txs.length} fix(es):`);
+    for (const tx of txs) console.log(`  ${tx.hash}`);
+  });
@@ -52,9 +52,12 @@ describe("Coins Contract", function () {
     });
 
     it("Should not allow non-operator/marketplace to mint", async function () {
-      await expect(
-        coins.connect(addr1).mint(addr2.address, INITIAL_AMOUNT)
-      ).to.be.revertedWith("Caller is not the operator or marketplace");
+      await expect(coins.connect(addr1).mint(addr2.address, INITIAL_AMOUNT))
+        .to.be.revertedWithCustomError(
+          coins,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(addr1.address, await coins.MINTER_ROLE());
     });
   });
 
@@ -74,6 +77,20 @@ describe("Coins Contract", function () {
       const balance = await coins.balanceOf(addr2.address);
       expect(balance).to.equal(transferAmount);
     });
+
+    it("Should let the marketplace move coins without an approval", async function () {
+      await coins
+        .connect(marketplace)
+        .operatorTransfer(addr1.address, addr2.address, 25n);
+      expect(await coins.balanceOf(addr2.address)).to.equal(25n);
+
+      await expect(
+        coins.connect(addr2).operatorTransfer(addr1.address, addr2.address, 1n)
+      ).to.be.revertedWithCustomError(
+        coins,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
   });
 
   describe("Access Control", function () {
@@ -93,6 +110,91 @@ describe("Coins Contract", function () {
     });
   });
 
+  describe("Roles", function () {
+    it("Should move the game roles with the wired contracts", async function () {
+      const MINTER_ROLE = await coins.MINTER_ROLE();
+      expect(await coins.getRoleMembers(MINTER_ROLE)).to.deep.equal([
+        operator.address,
+        marketplace.address,
+      ]);
+
+      await expect(coins.setOperator(addr1.address))
+        .to.emit(coins, "RoleRevoked")
+        .withArgs(MINTER_ROLE, operator.address, owner.address)
+        .and.to.emit(coins, "RoleGranted")
+        .withArgs(MINTER_ROLE, addr1.address, owner.address);
+      expect(await coins.getRoleMemberCount(MINTER_ROLE)).to.equal(2);
+      expect(await coins.hasRole(MINTER_ROLE, operator.address)).to.be.false;
+      expect(await coins.hasRole(await coins.BURNER_ROLE(), addr1.address)).to
+        .be.true;
+    });
+
+    it("Should keep the roles of an address wired elsewhere", async function () {
+      await coins.setOperator(marketplace.address);
+      await coins.setOperator(addr1.address);
+
+      expect(
+        await coins.hasRole(await coins.MINTER_ROLE(), marketplace.address)
+      ).to.be.true;
+    });
+
+    it("Should limit mints to the allowance of a grant", async function () {
+      const MINTER_ROLE = await coins.MINTER_ROLE();
+      await expect(
+        coins.grantRoleWithAllowance(MINTER_ROLE, addr1.address, 150)
+      )
+        .to.emit(coins, "RoleGranted")
+        .withArgs(MINTER_ROLE, addr1.address, owner.address)
+        .and.to.emit(coins, "SetMintAllowance")
+        .withArgs(MINTER_ROLE, addr1.address, 150);
+
+      await coins.connect(addr1).mint(addr2.address, INITIAL_AMOUNT);
+      expect(await coins.mintAllowance(MINTER_ROLE, addr1.address)).to.equal(
+        50
+      );
+      await expect(
+        coins.connect(addr1).mint(addr2.address, 60)
+      ).to.be.revertedWith("Mint allowance exceeded");
+
+      await coins.setMintAllowance(MINTER_ROLE, addr1.address, 100);
+      await coins.connect(addr1).mint(addr2.address, 60);
+      expect(await coins.balanceOf(addr2.address)).to.equal(160n * MULTIPLIER);
+      expect(await coins.mintAllowance(MINTER_ROLE, operator.address)).to.equal(
+        ethers.MaxUint256
+      );
+    });
+
+    it("Should revoke roles with their allowance", async function () {
+      const MINTER_ROLE = await coins.MINTER_ROLE();
+      await expect(coins.revokeRole(MINTER_ROLE, operator.address))
+        .to.emit(coins, "RoleRevoked")
+        .withArgs(MINTER_ROLE, operator.address, owner.address);
+
+      expect(await coins.mintAllowance(MINTER_ROLE, operator.address)).to.equal(
+        0
+      );
+      await expect(
+        coins.connect(operator).mint(addr1.address, INITIAL_AMOUNT)
+      ).to.be.revertedWithCustomError(
+        coins,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(
+        coins.setMintAllowance(MINTER_ROLE, operator.address, 10)
+      ).to.be.revertedWith("Account does not hold the role");
+    });
+
+    it("Should only allow the owner to manage roles", async function () {
+      const MINTER_ROLE = await coins.MINTER_ROLE();
+      await expect(
+        coins.connect(operator).grantRole(MINTER_ROLE, addr1.address)
+      ).to.be.revertedWithCustomError(coins, "OwnableUnauthorizedAccount");
+      await expect(
+        coins.connect(operator).revokeRole(MINTER_ROLE, marketplace.address)
+      ).to.be.revertedWithCustomError(coins, "OwnableUnauthorizedAccount");
+    });
+  });
+
   describe("Burning", function () {
     beforeEach(async function () {
       await coins.connect(operator).mint(operator.address, INITIAL_AMOUNT);
@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  Crafting,
+  KarmicEnergy,
+  Food,
+  Coins,
+  FamiliarsItem,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("Crafting Contract", function () {
+  let crafting: Crafting;
+  let karmicEnergy: KarmicEnergy;
+  let food: Food;
+  let coins: Coins;
+  let familiarsItem: FamiliarsItem;
+  let owner: SignerWithAddress;
+  let operator: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  const NO_ATTRIBUTES = {
+    healthIncrease: 0,
+    healthDecrease: 0,
+    karmicIncrease: 0,
+    karmicDecrease: 0,
+    foodIncrease: 0,
+    foodDecrease: 0,
+    coinIncrease: 0,
+    coinDecrease: 0,
+    luckIncrease: 0,
+    luckDecrease: 0,
+  };
+  const recipe = {
+    name: "Lucky Charm",
+    enabled: true,
+    coins: 10,
+    food: 5,
+    karmicEnergy: 3,
+    outputItemId: 7,
+    outputAmount: 1,
+    outputAttributes: { ...NO_ATTRIBUTES, luckIncrease: 20 },
+  };
+  const INPUT_ITEM_ID = 2;
+
+  beforeEach(async function () {
+    [owner, operator, user] = await ethers.getSigners();
+
+    karmicEnergy = await ethers.deployContract("KarmicEnergy");
+    food = await ethers.deployContract("Food");
+    coins = await ethers.deployContract("Coins");
+    familiarsItem = await ethers.deployContract("FamiliarsItem");
+    crafting = await ethers.deployContract("Crafting", [
+      await karmicEnergy.getAddress(),
+      await food.getAddress(),
+      await coins.getAddress(),
+      await familiarsItem.getAddress(),
+    ]);
+    const craftingAddress = await crafting.getAddress();
+
+    // Set up permissions
+    await crafting.setOperator(operator.address);
+    for (const token of [karmicEnergy, food, coins, familiarsItem]) {
+      await token.setOperator(operator.address);
+      await token.setCrafting(craftingAddress);
+    }
+
+    // Give the user the inputs of the recipe
+    await coins.connect(operator).mint(user.address, 20);
+    await food.connect(operator).mint(user.address, 10);
+    await karmicEnergy.connect(operator).mint(user.address, 10);
+    await familiarsItem.ownerMint(
+      user.address,
+      INPUT_ITEM_ID,
+      3,
+      NO_ATTRIBUTES
+    );
+
+    await familiarsItem.setItemAttributes(
+      recipe.outputItemId,
+      recipe.outputAttributes
+    );
+    await crafting.addRecipe(recipe, [{ itemId: INPUT_ITEM_ID, amount: 2 }]);
+  });
+
+  describe("Recipe Management", function () {
+    it("Should add recipes with their item inputs", async function () {
+      await expect(crafting.addRecipe({ ...recipe, name: "Hat" }, []))
+        .to.emit(crafting, "SetRecipe")
+        .withArgs(1, "Hat", true);
+
+      expect(await crafting.recipeCount()).to.equal(2);
+      const [stored, items] = await crafting.getRecipe(0);
+      expect(stored.name).to.equal(recipe.name);
+      expect(stored.outputItemId).to.equal(recipe.outputItemId);
+      expect(stored.outputAttributes.luckIncrease).to.equal(20);
+      expect(items.map(({ itemId, amount }) => [itemId, amount])).to.deep.equal(
+        [[2n, 2n]]
+      );
+    });
+
+    it("Should replace a recipe and its item inputs", async function () {
+      await crafting.updateRecipe(0, { ...recipe, enabled: false }, []);
+
+      const [stored, items] = await crafting.getRecipe(0);
+      expect(stored.enabled).to.be.false;
+      expect(items).to.have.length(0);
+    });
+
+    it("Should reject invalid recipes", async function () {
+      await expect(
+        crafting.addRecipe({ ...recipe, name: "" }, [])
+      ).to.be.revertedWith("Recipe name is empty");
+      await expect(
+        crafting.addRecipe({ ...recipe, outputItemId: 0 }, [])
+      ).to.be.revertedWith("Token ID 0 is not allowed");
+      await expect(
+        crafting.addRecipe({ ...recipe, outputAmount: 0 }, [])
+      ).to.be.revertedWith("Amount must be greater than 0");
+      await expect(
+        crafting.addRecipe(recipe, [{ itemId: INPUT_ITEM_ID, amount: 0 }])
+      ).to.be.revertedWith("Invalid item input");
+      await expect(
+        crafting.addRecipe(
+          {
+            ...recipe,
+            outputAttributes: { ...NO_ATTRIBUTES, luckIncrease: 50 },
+          },
+          []
+        )
+      ).to.be.revertedWith("Output attributes differ from the item");
+      await expect(crafting.updateRecipe(5, recipe, [])).to.be.revertedWith(
+        "Recipe does not exist"
+      );
+    });
+
+    it("Should only allow the owner to manage recipes", async function () {
+      await expect(
+        crafting.connect(user).addRecipe(recipe, [])
+      ).to.be.revertedWithCustomError(crafting, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Crafting", function () {
+    it("Should burn the inputs and mint the output", async function () {
+      await expect(crafting.connect(operator).craft(0, user.address))
+        .to.emit(crafting, "Crafted")
+        .withArgs(user.address, 0, recipe.outputItemId, 1);
+
+      expect(await coins.balanceOf(user.address)).to.equal(
+        ethers.parseEther("10")
+      );
+      expect(await food.balanceOf(user.address, 0)).to.equal(5);
+      expect(await karmicEnergy.balanceOf(user.address, 0)).to.equal(7);
+      expect(
+        await familiarsItem.balanceOf(user.address, INPUT_ITEM_ID)
+      ).to.equal(1);
+      expect(
+        await familiarsItem.balanceOf(user.address, recipe.outputItemId)
+      ).to.equal(1);
+      const attributes = await familiarsItem.getItemAttributes(
+        recipe.outputItemId
+      );
+      expect(attributes.luckIncrease).to.equal(20);
+    });
+
+    it("Should keep the attributes of existing units of the output", async function () {
+      await familiarsItem.ownerMint(
+        owner.address,
+        recipe.outputItemId,
+        1,
+        recipe.outputAttributes
+      );
+      const updated = { ...recipe.outputAttributes, luckIncrease: 25 };
+      await familiarsItem.setItemAttributes(recipe.outputItemId, updated);
+
+      await crafting.connect(operator).craft(0, user.address);
+      const attributes = await familiarsItem.getItemAttributes(
+        recipe.outputItemId
+      );
+      expect(attributes.luckIncrease).to.equal(25);
+    });
+
+    it("Should fail without enough inputs", async function () {
+      await crafting.connect(operator).craft(0, user.address);
+
+      await expect(
+        crafting.connect(operator).craft(0, user.address)
+      ).to.be.revertedWith("Not enough items");
+      await crafting.updateRecipe(0, { ...recipe, food: 50 }, []);
+      await expect(
+        crafting.connect(operator).craft(0, user.address)
+      ).to.be.revertedWith("Not enough food");
+    });
+
+    it("Should not craft disabled or unknown recipes", async function () {
+      await crafting.updateRecipe(0, { ...recipe, enabled: false }, []);
+      await expect(
+        crafting.connect(operator).craft(0, user.address)
+      ).to.be.revertedWith("Recipe is not enabled");
+      await expect(
+        crafting.connect(operator).craft(1, user.address)
+      ).to.be.revertedWith("Recipe does not exist");
+    });
+
+    it("Should only allow the operator to craft", async function () {
+      await expect(
+        crafting.connect(user).craft(0, user.address)
+      ).to.be.revertedWith("Caller is not the operator");
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { DeploymentManifest, parseDeploymentManifest } from "../sdk";
+import {
+  deployedAddress,
+  deploymentManifestFile,
+  readDeploymentManifest,
+  recordIgnitionDeployment,
+} from "../tasks/deployments";
+
+describe("Deployment Manifests", function () {
+  const OPERATOR = "0x7a2088a1bFc9d81c55368AE168C2C02570cB814F";
+  const REGISTRY = "0x000000006551c19487814612e58FE06813775758";
+
+  const manifest: DeploymentManifest = {
+    network: "baseSepolia",
+    chainId: 84532,
+    contracts: { registry: REGISTRY },
+  };
+
+  describe("Parsing", function () {
+    it("Should accept a valid manifest", function () {
+      expect(parseDeploymentManifest(manifest)).to.deep.equal(manifest);
+    });
+
+    it("Should reject invalid manifests", function () {
+      expect(() => parseDeploymentManifest({ chainId: 1 })).to.throw(
+        "Deployment manifest has no network"
+      );
+      expect(() =>
+        parseDeploymentManifest({ ...manifest, chainId: "84532" })
+      ).to.throw("Deployment manifest of baseSepolia has no chainId");
+      expect(() =>
+        parseDeploymentManifest({ ...manifest, contracts: { vault: OPERATOR } })
+      ).to.throw("Unknown contract vault in baseSepolia");
+      expect(() =>
+        parseDeploymentManifest({ ...manifest, contracts: { operator: "0x1" } })
+      ).to.throw("Invalid operator address in baseSepolia");
+    });
+  });
+
+  describe("Recording", function () {
+    it("Should add the contracts of an ignition deployment", function () {
+      const recorded = recordIgnitionDeployment(
+        {
+          "OperatorModule#OperatorImplementation": REGISTRY,
+          "OperatorModule#Operator": OPERATOR,
+        },
+        manifest
+      );
+
+      expect(recorded.contracts).to.deep.equal({
+        registry: REGISTRY,
+        operator: OPERATOR,
+      });
+      expect(recorded.chainId).to.equal(84532);
+    });
+
+    it("Should read manifests by network", function () {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+      const file = deploymentManifestFile(root, "baseSepolia");
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(manifest));
+
+      expect(readDeploymentManifest(root, "baseSepolia")).to.deep.equal(
+        manifest
+      );
+      expect(readDeploymentManifest(root, "localhost")).to.be.undefined;
+    });
+
+    it("Should ask for a manifest or an address override", async function () {
+      await expect(
+        deployedAddress(hre, "operator", "operator")
+      ).to.be.rejectedWith(
+        "No deployment manifest for hardhat, deploy with ignition and run deployments:record, or pass --operator"
+      );
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { Familiars, FamiliarsItem as FamiliarsItems } from "../typechain-types";
 
@@ -26,6 +28,8 @@ describe("Familiars Contract", function () {
   const INITIAL_HEALTH = 100;
   const HEAD_ITEM_ID = 1;
   const MOUTH_ITEM_ID = 2;
+  const HEAD_SLOT = 1;
+  const MOUTH_SLOT = 2;
 
   beforeEach(async function () {
     // Get signers
@@ -99,6 +103,17 @@ describe("Familiars Contract", function () {
       expect(await familiars.getHealth(1)).to.equal(100);
     });
 
+    it("Should start the upkeep clock at mint", async function () {
+      await familiars.connect(addr1).safeMint(addr1.address, TOKEN_URI);
+      expect(await familiars.getLastUpkeep(1)).to.equal(await time.latest());
+
+      await familiars.connect(addr1).setLastUpkeep(1, 42);
+      expect(await familiars.getLastUpkeep(1)).to.equal(42);
+      await expect(
+        familiars.connect(addr2).setLastUpkeep(1, 0)
+      ).to.be.revertedWith("Caller is not the operator");
+    });
+
     it("Should increment token IDs correctly", async function () {
       await familiars.connect(addr1).safeMint(addr2.address, TOKEN_URI);
       await familiars.connect(addr1).safeMint(addr2.address, TOKEN_URI);
@@ -145,6 +160,62 @@ describe("Familiars Contract", function () {
     });
   });
 
+  describe("Levels", function () {
+    beforeEach(async function () {
+      await familiars.connect(addr1).safeMint(addr1.address, TOKEN_URI);
+    });
+
+    it("Should start at level 1 with base max health", async function () {
+      expect(await familiars.getLevel(1)).to.equal(1);
+      expect(await familiars.getXp(1)).to.equal(0);
+      expect(await familiars.getMaxHealth(1)).to.equal(INITIAL_HEALTH);
+    });
+
+    it("Should level up every xpPerLevel XP", async function () {
+      await expect(familiars.connect(addr1).addXp(1, 90))
+        .to.emit(familiars, "XpGained")
+        .withArgs(1, 90, 90)
+        .and.not.to.emit(familiars, "LevelUp");
+
+      await expect(familiars.connect(addr1).addXp(1, 220))
+        .to.emit(familiars, "LevelUp")
+        .withArgs(1, 4);
+      expect(await familiars.getLevel(1)).to.equal(4);
+      expect(await familiars.getXp(1)).to.equal(310);
+    });
+
+    it("Should raise max health with the level", async function () {
+      await familiars.connect(addr1).addXp(1, 100);
+      expect(await familiars.getMaxHealth(1)).to.equal(110);
+      await familiars.connect(addr1).setHealth(1, 110);
+
+      await familiars.setLeveling(1, 200);
+      await familiars.connect(addr1).addXp(1, 1);
+      // Capped at the largest storable health
+      expect(await familiars.getMaxHealth(1)).to.equal(255);
+    });
+
+    it("Should keep reached levels when the leveling changes", async function () {
+      await familiars.connect(addr1).addXp(1, 200);
+      await expect(familiars.setLeveling(1000, 10))
+        .to.emit(familiars, "SetLeveling")
+        .withArgs(1000, 10);
+      expect(await familiars.getLevel(1)).to.equal(3);
+    });
+
+    it("Should only allow the operator to add XP and the owner to set leveling", async function () {
+      await expect(familiars.connect(addr2).addXp(1, 100)).to.be.revertedWith(
+        "Caller is not the operator"
+      );
+      await expect(
+        familiars.connect(addr1).setLeveling(10, 10)
+      ).to.be.revertedWithCustomError(familiars, "OwnableUnauthorizedAccount");
+      await expect(familiars.setLeveling(0, 10)).to.be.revertedWith(
+        "XP per level must be greater than 0"
+      );
+    });
+  });
+
   describe("Location Management", function () {
     const requirements = {
       minHealth: 50,
@@ -159,6 +230,7 @@ describe("Familiars Contract", function () {
       getHealth: 3,
       getKarmicEnergy: 4,
       getFood: 2,
+      minLevel: 0,
     };
 
     beforeEach(async function () {
@@ -229,6 +301,208 @@ describe("Familiars Contract", function () {
     });
   });
 
+  describe("Location Registry", function () {
+    const requirements = {
+      minHealth: 20,
+      healthCost: 10,
+      minKarmicEnergy: 0,
+      karmicEnergyCost: 0,
+      minFood: 0,
+      foodCost: 0,
+      minCoin: 0,
+      coinCost: 0,
+      getCoin: 7,
+      getHealth: 0,
+      getKarmicEnergy: 0,
+      getFood: 0,
+      minLevel: 0,
+    };
+    // GO_TO_LOCATION and BUY_FOOD
+    const DUNGEON_ACTIONS = (1n << 0n) | (1n << 3n);
+
+    beforeEach(async function () {
+      await familiars.connect(addr1).safeMint(addr1.address, TOKEN_URI);
+    });
+
+    it("Should seed the existing locations", async function () {
+      expect(await familiars.locationCount()).to.equal(5);
+      const locations = await familiars.getLocations();
+      expect(locations.map((location) => location.name)).to.deep.equal([
+        "Karmic Wellspring",
+        "Karmic Tower",
+        "Home",
+        "Gathering Area",
+        "Marketplace",
+      ]);
+      expect(locations.every((location) => location.enabled)).to.be.true;
+      expect(await familiars.isActionAllowed(Location.MARKETPLACE, 3)).to.be
+        .true;
+      expect(await familiars.isActionAllowed(Location.HOME, 3)).to.be.false;
+    });
+
+    it("Should allow the owner to add a location", async function () {
+      await expect(
+        familiars.addLocation("Dungeon", DUNGEON_ACTIONS, requirements)
+      )
+        .to.emit(familiars, "LocationAdded")
+        .withArgs(5, "Dungeon")
+        .and.to.emit(familiars, "SetLocationRequirements");
+
+      const [info, reqs] = await familiars.getLocation(5);
+      expect(info.name).to.equal("Dungeon");
+      expect(info.enabled).to.be.true;
+      expect(info.allowedActions).to.equal(DUNGEON_ACTIONS);
+      expect(reqs.getCoin).to.equal(requirements.getCoin);
+      expect(await familiars.isActionAllowed(5, 3)).to.be.true;
+      expect(await familiars.isActionAllowed(5, 1)).to.be.false;
+    });
+
+    it("Should move NPCs to added locations", async function () {
+      await familiars.addLocation("Dungeon", DUNGEON_ACTIONS, requirements);
+
+      await expect(familiars.connect(addr1).goToLocation(1, 5))
+        .to.emit(familiars, "GoToLocation")
+        .withArgs(1, "Dungeon");
+      expect(await familiars.getCurrentLocation(1)).to.deep.equal([
+        "Dungeon",
+        5,
+      ]);
+    });
+
+    it("Should allow the owner to update a location", async function () {
+      await expect(
+        familiars.updateLocation(
+          Location.KARMIC_TOWER,
+          "Ruined Tower",
+          false,
+          0
+        )
+      )
+        .to.emit(familiars, "LocationUpdated")
+        .withArgs(Location.KARMIC_TOWER, "Ruined Tower", false, 0);
+
+      const [info] = await familiars.getLocation(Location.KARMIC_TOWER);
+      expect(info.name).to.equal("Ruined Tower");
+      expect(info.enabled).to.be.false;
+      expect(await familiars.isActionAllowed(Location.KARMIC_TOWER, 0)).to.be
+        .false;
+    });
+
+    it("Should reject unknown locations", async function () {
+      await expect(
+        familiars.connect(addr1).goToLocation(1, 5)
+      ).to.be.revertedWith("Location does not exist");
+      await expect(familiars.getLocation(5)).to.be.revertedWith(
+        "Location does not exist"
+      );
+      await expect(
+        familiars.setLocationRequirements(5, requirements)
+      ).to.be.revertedWith("Location does not exist");
+      expect(await familiars.isActionAllowed(5, 0)).to.be.false;
+    });
+
+    it("Should reject empty location names", async function () {
+      await expect(
+        familiars.addLocation("", DUNGEON_ACTIONS, requirements)
+      ).to.be.revertedWith("Location name is empty");
+    });
+
+    it("Should not allow non-owner to manage locations", async function () {
+      await expect(
+        familiars.connect(addr1).addLocation("Dungeon", 1, requirements)
+      ).to.be.revertedWithCustomError(familiars, "OwnableUnauthorizedAccount");
+      await expect(
+        familiars.connect(addr1).updateLocation(Location.HOME, "Home", false, 1)
+      ).to.be.revertedWithCustomError(familiars, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Travel", function () {
+    beforeEach(async function () {
+      await familiars.connect(addr1).safeMint(addr1.address, TOKEN_URI);
+      await familiars.setTravelDuration(
+        Location.HOME,
+        Location.MARKETPLACE,
+        3600
+      );
+    });
+
+    it("Should store travel durations per direction", async function () {
+      expect(
+        await familiars.getTravelDuration(Location.HOME, Location.MARKETPLACE)
+      ).to.equal(3600);
+      expect(
+        await familiars.getTravelDuration(Location.MARKETPLACE, Location.HOME)
+      ).to.equal(0);
+    });
+
+    it("Should only allow the owner to set travel durations", async function () {
+      await expect(
+        familiars
+          .connect(addr2)
+          .setTravelDuration(Location.HOME, Location.KARMIC_TOWER, 60)
+      ).to.be.revertedWithCustomError(familiars, "OwnableUnauthorizedAccount");
+      await expect(
+        familiars.setTravelDuration(Location.HOME, 9, 60)
+      ).to.be.revertedWith("Location does not exist");
+    });
+
+    it("Should keep the NPC at its origin until the trip completes", async function () {
+      await expect(
+        familiars.connect(addr1).startTravel(1, Location.MARKETPLACE)
+      )
+        .to.emit(familiars, "TravelStarted")
+        .withArgs(1, Location.HOME, Location.MARKETPLACE, anyValue);
+
+      expect(await familiars.isInTransit(1)).to.be.true;
+      expect(await familiars.getCurrentLocation(1)).to.deep.equal([
+        "Home",
+        Location.HOME,
+      ]);
+      const [destination, arrivalTime, remaining] = await familiars.getEta(1);
+      expect(destination).to.equal(Location.MARKETPLACE);
+      expect(arrivalTime).to.equal((await time.latest()) + 3600);
+      expect(remaining).to.equal(3600);
+
+      await expect(
+        familiars.connect(addr1).completeTravel(1)
+      ).to.be.revertedWith("NPC has not arrived yet");
+      await expect(
+        familiars.connect(addr1).startTravel(1, Location.KARMIC_TOWER)
+      ).to.be.revertedWith("NPC is in transit");
+
+      await time.increase(3600);
+      expect((await familiars.getEta(1)).remaining).to.equal(0);
+      await expect(familiars.connect(addr1).completeTravel(1))
+        .to.emit(familiars, "GoToLocation")
+        .withArgs(1, "Marketplace");
+      expect(await familiars.isInTransit(1)).to.be.false;
+      expect((await familiars.getTravel(1)).arrivalTime).to.equal(0);
+    });
+
+    it("Should cancel the trip when the operator moves the NPC", async function () {
+      await familiars.connect(addr1).startTravel(1, Location.MARKETPLACE);
+      await familiars.connect(addr1).goToLocation(1, Location.KARMIC_TOWER);
+
+      expect(await familiars.isInTransit(1)).to.be.false;
+      await expect(familiars.getEta(1)).to.be.revertedWith(
+        "NPC is not in transit"
+      );
+      await expect(
+        familiars.connect(addr1).completeTravel(1)
+      ).to.be.revertedWith("NPC is not in transit");
+    });
+
+    it("Should not allow non-operator to start or complete trips", async function () {
+      await expect(
+        familiars.connect(addr2).startTravel(1, Location.MARKETPLACE)
+      ).to.be.revertedWith("Caller is not the operator");
+      await expect(
+        familiars.connect(addr2).completeTravel(1)
+      ).to.be.revertedWith("Caller is not the operator");
+    });
+  });
+
   describe("Equippable Items", function () {
     const itemStats = {
       healthIncrease: 12,
@@ -250,62 +524,132 @@ describe("Familiars Contract", function () {
       await familiarItems
         .connect(owner)
         .mint(tba.address, MOUTH_ITEM_ID, 1, itemStats);
+      await familiarItems.connect(owner).setItemSlot(HEAD_ITEM_ID, HEAD_SLOT);
+      await familiarItems.connect(owner).setItemSlot(MOUTH_ITEM_ID, MOUTH_SLOT);
     });
 
     it("Should allow operator to equip items", async function () {
+      const items = await familiarItems.getAddress();
       await familiars
         .connect(addr1)
-        .equipItem(
-          1,
-          MOUTH_ITEM_ID,
-          HEAD_ITEM_ID,
-          tba.address,
-          await familiarItems.getAddress()
-        );
+        .equipItem(1, HEAD_SLOT, HEAD_ITEM_ID, tba.address, items);
+      await familiars
+        .connect(addr1)
+        .equipItem(1, MOUTH_SLOT, MOUTH_ITEM_ID, tba.address, items);
 
       const equipped = await familiars.getEquippedItems(1);
-      expect(equipped.head).to.equal(HEAD_ITEM_ID);
-      expect(equipped.mouth).to.equal(MOUTH_ITEM_ID);
+      expect(equipped.map(({ slot, itemId }) => [slot, itemId])).to.deep.equal([
+        [HEAD_SLOT, HEAD_ITEM_ID],
+        [MOUTH_SLOT, MOUTH_ITEM_ID],
+      ]);
     });
 
-    it("Should not allow equipping same item to head and mouth", async function () {
+    it("Should not allow equipping an item in another slot", async function () {
       await expect(
         familiars
           .connect(addr1)
           .equipItem(
             1,
-            HEAD_ITEM_ID,
+            MOUTH_SLOT,
             HEAD_ITEM_ID,
             tba.address,
             await familiarItems.getAddress()
           )
-      ).to.be.revertedWith("Mouth and head equippable nft should not equal.");
+      ).to.be.revertedWith("Item does not fit the slot");
     });
 
-    it("Should handle equipping when TBA has no items", async function () {
-      await familiars
-        .connect(addr1)
-        .equipItem(1, 999, 888, tba.address, await familiarItems.getAddress());
+    it("Should not allow equipping items the TBA does not hold", async function () {
+      await familiarItems.connect(owner).setItemSlot(999, HEAD_SLOT);
+      await expect(
+        familiars
+          .connect(addr1)
+          .equipItem(
+            1,
+            HEAD_SLOT,
+            999,
+            tba.address,
+            await familiarItems.getAddress()
+          )
+      ).to.be.revertedWith("Item not held");
+    });
 
-      const equipped = await familiars.getEquippedItems(1);
-      expect(equipped.head).to.equal(0);
-      expect(equipped.mouth).to.equal(0);
+    it("Should emit events when replacing and emptying a slot", async function () {
+      const items = await familiarItems.getAddress();
+      await familiarItems.connect(owner).setItemSlot(3, HEAD_SLOT);
+      await familiarItems.connect(owner).mint(tba.address, 3, 1, itemStats);
+      await expect(
+        familiars
+          .connect(addr1)
+          .equipItem(1, HEAD_SLOT, HEAD_ITEM_ID, tba.address, items)
+      )
+        .to.emit(familiars, "ItemEquipped")
+        .withArgs(1, HEAD_SLOT, HEAD_ITEM_ID);
+
+      await expect(
+        familiars.connect(addr1).equipItem(1, HEAD_SLOT, 3, tba.address, items)
+      )
+        .to.emit(familiars, "ItemUnequipped")
+        .withArgs(1, HEAD_SLOT, HEAD_ITEM_ID)
+        .and.to.emit(familiars, "ItemEquipped")
+        .withArgs(1, HEAD_SLOT, 3);
+
+      await expect(
+        familiars.connect(addr1).equipItem(1, HEAD_SLOT, 0, tba.address, items)
+      )
+        .to.emit(familiars, "ItemUnequipped")
+        .withArgs(1, HEAD_SLOT, 3);
+      expect(await familiars.getEquippedItems(1)).to.be.empty;
+
+      await expect(
+        familiars.connect(addr1).equipItem(1, HEAD_SLOT, 0, tba.address, items)
+      ).to.be.revertedWith("Slot is empty");
     });
+  });
 
-    it("Should allow partial equipping", async function () {
-      await familiars
-        .connect(addr1)
-        .equipItem(
-          1,
-          MOUTH_ITEM_ID,
-          0,
-          tba.address,
-          await familiarItems.getAddress()
-        );
+  describe("Equipment Slots", function () {
+    it("Should seed the default slots", async function () {
+      expect(await familiars.slotCount()).to.equal(4);
+      expect(await familiars.getSlots()).to.deep.equal([
+        "Head",
+        "Mouth",
+        "Body",
+        "Charm",
+      ]);
+    });
 
-      const equipped = await familiars.getEquippedItems(1);
-      expect(equipped.head).to.equal(0);
-      expect(equipped.mouth).to.equal(MOUTH_ITEM_ID);
+    it("Should allow owner to add and rename slots", async function () {
+      await expect(familiars.connect(owner).addSlot("Ring"))
+        .to.emit(familiars, "SlotAdded")
+        .withArgs(5, "Ring");
+      await expect(familiars.connect(owner).updateSlot(5, "Left Ring"))
+        .to.emit(familiars, "SlotUpdated")
+        .withArgs(5, "Left Ring");
+
+      expect((await familiars.getSlots())[4]).to.equal("Left Ring");
+      await expect(
+        familiars.connect(owner).updateSlot(6, "Right Ring")
+      ).to.be.revertedWith("Slot does not exist");
+      await expect(familiars.connect(owner).addSlot("")).to.be.revertedWith(
+        "Slot name is empty"
+      );
+      await expect(
+        familiars.connect(addr1).addSlot("Ring")
+      ).to.be.revertedWithCustomError(familiars, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should not equip items in unknown slots", async function () {
+      await familiars.connect(addr1).safeMint(addr1.address, TOKEN_URI);
+      await expect(
+        familiars
+          .connect(addr1)
+          .equipItem(
+            1,
+            0,
+            HEAD_ITEM_ID,
+            tba.address,
+            await familiarItems.getAddress()
+          )
+      ).to.be.revertedWith("Slot does not exist");
     });
   });
 
@@ -357,5 +701,44 @@ describe("Familiars Contract", function () {
     it("Should revert for non-existent token URI", async function () {
       await expect(familiars.tokenURI(999)).to.be.reverted;
     });
+
+    it("Should let the token owner switch to the rendered metadata", async function () {
+      await familiars.connect(addr1).safeMint(addr2.address, TOKEN_URI);
+
+      await expect(familiars.connect(addr2).setRenderedURI(1, true))
+        .to.emit(familiars, "MetadataUpdate")
+        .withArgs(1);
+      expect(await familiars.isRenderedURI(1)).to.be.true;
+      // Without a renderer the stored URI is still served
+      expect(await familiars.tokenURI(1)).to.equal(TOKEN_URI);
+
+      await expect(
+        familiars.connect(addr1).setRenderedURI(1, false)
+      ).to.be.revertedWith("Caller is not the token owner");
+    });
+
+    it("Should refresh every token when the renderer changes", async function () {
+      await familiars.connect(addr1).safeMint(addr2.address, TOKEN_URI);
+      await familiars.connect(addr1).safeMint(addr2.address, TOKEN_URI);
+
+      await expect(familiars.setRenderer(addr2.address))
+        .to.emit(familiars, "BatchMetadataUpdate")
+        .withArgs(1, 2);
+      expect(await familiars.renderer()).to.equal(addr2.address);
+      await expect(
+        familiars.connect(addr1).setRenderer(addr1.address)
+      ).to.be.revertedWithCustomError(familiars, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should only allow the operator to signal metadata updates", async function () {
+      await familiars.connect(addr1).safeMint(addr2.address, TOKEN_URI);
+
+      await expect(familiars.connect(addr1).notifyMetadataUpdate(1))
+        .to.emit(familiars, "MetadataUpdate")
+        .withArgs(1);
+      await expect(
+        familiars.connect(addr2).notifyMetadataUpdate(1)
+      ).to.be.revertedWith("Caller is not the operator");
+    });
   });
 });
@@ -0,0 +1,332 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  Operator,
+  Familiars,
+  Coins,
+  Food,
+  ERC6551Account,
+  ERC6551Registry,
+  KarmicWellSpring,
+  Marketplace,
+} from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
+import {
+  FamiliarsClient,
+  Location,
+  LootKind,
+  PricingModel,
+  computeTbaAddress,
+  formatCoins,
+  fromWholeCoins,
+  getLocation,
+  goToLocationAction,
+  localSignatureProvider,
+  parseCoins,
+  parseLocation,
+  toWholeCoins,
+  unorderedNonce,
+} from "../sdk";
+
+describe("FamiliarsClient", function () {
+  let operator: Operator;
+  let familiars: Familiars;
+  let coins: Coins;
+  let food: Food;
+  let registry: ERC6551Registry;
+  let tbaImpl: ERC6551Account;
+  let client: FamiliarsClient;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+
+  const TOKEN_URI = "ipfs://QmTest";
+
+  beforeEach(async function () {
+    [owner, addr1] = await ethers.getSigners();
+
+    familiars = await ethers.deployContract("Familiars");
+    const familiarsLib = await ethers.deployContract("FamiliarsLib");
+    tbaImpl = await ethers.deployContract("ERC6551Account");
+    coins = await ethers.deployContract("Coins");
+    const karmicEnergy = await ethers.deployContract("KarmicEnergy");
+    food = await ethers.deployContract("Food");
+    const familiarsItem = await ethers.deployContract("FamiliarsItem");
+    registry = await ethers.deployContract("ERC6551Registry");
+    const resources = [
+      await karmicEnergy.getAddress(),
+      await food.getAddress(),
+      await coins.getAddress(),
+    ];
+    const wellspring = await deployProxy<KarmicWellSpring>(
+      "KarmicWellSpring",
+      resources
+    );
+    const marketplace = await deployProxy<Marketplace>(
+      "Marketplace",
+      resources
+    );
+
+    operator = await deployProxy<Operator>(
+      "Operator",
+      [
+        await familiars.getAddress(),
+        await food.getAddress(),
+        await coins.getAddress(),
+        await karmicEnergy.getAddress(),
+        await familiarsItem.getAddress(),
+        await marketplace.getAddress(),
+        await wellspring.getAddress(),
+        await registry.getAddress(),
+        await tbaImpl.getAddress(),
+      ],
+      { libraries: { FamiliarsLib: familiarsLib } }
+    );
+
+    const operatorAddress = await operator.getAddress();
+    for (const contract of [
+      familiars,
+      coins,
+      karmicEnergy,
+      food,
+      familiarsItem,
+      marketplace,
+      wellspring,
+    ]) {
+      await contract.setOperator(operatorAddress);
+    }
+    for (const contract of [coins, karmicEnergy, food]) {
+      await contract.setMarketplace(await marketplace.getAddress());
+      await contract.setKarmicWellSpring(await wellspring.getAddress());
+    }
+
+    client = await FamiliarsClient.connect(
+      operatorAddress,
+      addr1,
+      localSignatureProvider(owner)
+    );
+    await client.createNPC(addr1.address, TOKEN_URI);
+  });
+
+  describe("Reads", function () {
+    it("Should resolve the contracts behind the Operator", async function () {
+      expect(await client.familiars.getAddress()).to.equal(
+        await familiars.getAddress()
+      );
+      expect(await client.coins.getAddress()).to.equal(
+        await coins.getAddress()
+      );
+      expect(await client.food.getAddress()).to.equal(await food.getAddress());
+    });
+
+    it("Should connect through a deployment manifest", async function () {
+      const manifest = {
+        network: "hardhat",
+        chainId: 31337,
+        contracts: { operator: await operator.getAddress() },
+      };
+      const connected = await FamiliarsClient.fromManifest(manifest, addr1);
+      expect(await connected.familiars.getAddress()).to.equal(
+        await familiars.getAddress()
+      );
+
+      await expect(
+        FamiliarsClient.fromManifest({ ...manifest, chainId: 84532 }, addr1)
+      ).to.be.rejectedWith("is for chain 84532, runner is on chain 31337");
+      await expect(
+        FamiliarsClient.fromManifest({ ...manifest, contracts: {} }, addr1)
+      ).to.be.rejectedWith("No operator address");
+    });
+
+    it("Should return NPC stats as a named object", async function () {
+      const tba = await operator._getTba(1);
+      const npc = await client.getNpc(1);
+      expect(npc.tokenId).to.equal(1n);
+      expect(npc.tba).to.equal(tba);
+      expect(npc.health).to.equal(100);
+      expect(npc.location).to.deep.equal(getLocation(Location.HOME));
+      expect(npc.coins).to.equal(0n);
+      expect(npc.food).to.equal(0n);
+      expect(npc.equippedItems).to.deep.equal([]);
+    });
+
+    it("Should report the upkeep owed by a Familiar", async function () {
+      await operator.setUpkeep(1, 5);
+      await time.increase(3 * 3600);
+
+      // The account holds no food, so every hour drains health
+      expect(await client.getPendingUpkeep(1)).to.deep.equal({
+        food: 0n,
+        health: 15,
+        hours: 3,
+      });
+    });
+
+    it("Should report the luck of a Familiar", async function () {
+      expect(await client.getLuck(1)).to.equal(0);
+    });
+
+    it("Should list treasure box types with their odds", async function () {
+      const [box] = await client.getBoxTypes();
+      expect(box).to.deep.include({
+        id: 0,
+        name: "Treasure Box",
+        price: 5n,
+        enabled: true,
+      });
+      expect(box.loot).to.deep.equal([
+        {
+          kind: LootKind.COINS,
+          itemId: 0n,
+          minAmount: 1n,
+          maxAmount: 20n,
+          weight: 1,
+          odds: 1,
+        },
+      ]);
+    });
+
+    it("Should quote food at the marketplace price", async function () {
+      expect(await client.quoteFood(10)).to.equal(10n);
+      await client.marketplace
+        .connect(owner)
+        .setFoodPricing(PricingModel.FIXED, 5_000, [], 0, 0);
+      expect(await client.quoteFood(10)).to.equal(5n);
+    });
+
+    it("Should return item shop listings", async function () {
+      expect(await client.getItemListing(3)).to.equal(null);
+      await client.marketplace.connect(owner).setItemListing(3, 10, 5, 2, 0, 0);
+      expect(await client.getItemListing(3)).to.deep.equal({
+        itemId: 3n,
+        price: 10n,
+        stock: 5n,
+        maxPerNpc: 2n,
+        startTime: 0,
+        endTime: 0,
+      });
+    });
+
+    it("Should compute token bound accounts offline", async function () {
+      const tba = computeTbaAddress({
+        registry: await registry.getAddress(),
+        implementation: await tbaImpl.getAddress(),
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        tokenContract: await familiars.getAddress(),
+        tokenId: 1,
+      });
+      expect(tba).to.equal(await client.getTba(1));
+    });
+  });
+
+  describe("Actions", function () {
+    it("Should sign and send actions with the caller's nonce", async function () {
+      await client.goToLocation(1, Location.GATHERING_AREA);
+
+      expect((await client.getNpc(1)).location.key).to.equal("GATHERING_AREA");
+      expect(await operator.nonces(addr1.address)).to.equal(2n);
+    });
+
+    it("Should accept nonce overrides", async function () {
+      const nonce = unorderedNonce(7);
+      await client.goToLocation(1, Location.GATHERING_AREA, { nonce });
+
+      expect(await operator.isNonceUsed(addr1.address, nonce)).to.be.true;
+      expect(await operator.nonces(addr1.address)).to.equal(1n);
+    });
+
+    it("Should execute bundled actions", async function () {
+      await client.executeActions(1, [
+        goToLocationAction(Location.GATHERING_AREA),
+        goToLocationAction(Location.HOME),
+      ]);
+
+      expect((await client.getNpc(1)).location.id).to.equal(Location.HOME);
+    });
+
+    it("Should report the ETA of trips and complete them", async function () {
+      await familiars.setTravelDuration(
+        Location.HOME,
+        Location.MARKET_PLACE,
+        60
+      );
+      await client.goToLocation(1, Location.MARKET_PLACE);
+
+      const trip = await client.getTravel(1);
+      expect(trip).to.include({
+        from: Location.HOME,
+        destination: Location.MARKET_PLACE,
+        remaining: 60,
+      });
+      expect(trip!.arrivalTime - trip!.departureTime).to.equal(60);
+
+      await time.increase(60);
+      await client.arrive(1);
+      expect(await client.getTravel(1)).to.be.null;
+      expect((await client.getNpc(1)).location.id).to.equal(
+        Location.MARKET_PLACE
+      );
+    });
+
+    it("Should buy and reveal treasure boxes", async function () {
+      await familiars.setLocationRequirements(Location.MARKET_PLACE, {
+        minHealth: 0,
+        healthCost: 0,
+        minKarmicEnergy: 0,
+        karmicEnergyCost: 0,
+        minFood: 0,
+        foodCost: 0,
+        minCoin: 0,
+        coinCost: 0,
+        getCoin: 5,
+        getHealth: 0,
+        getKarmicEnergy: 0,
+        getFood: 0,
+        minLevel: 0,
+      });
+      await client.goToLocation(1, Location.MARKET_PLACE);
+      await client.buyTreasureBox(1, 0);
+      await mine(1);
+
+      await expect(client.revealTreasureBox(1)).to.emit(
+        client.marketplace,
+        "TreasureBoxOpened"
+      );
+      expect((await client.getNpc(1)).coins).to.be.gte(parseCoins("1"));
+    });
+
+    it("Should reject signatures past the deadline", async function () {
+      const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+      await expect(
+        client.goToLocation(1, Location.GATHERING_AREA, {
+          deadline: timestamp - 1,
+        })
+      ).to.be.revertedWith("Signature expired");
+    });
+
+    it("Should require a signature provider", async function () {
+      const readOnly = await FamiliarsClient.connect(
+        await operator.getAddress(),
+        addr1
+      );
+      await expect(
+        readOnly.goToLocation(1, Location.GATHERING_AREA)
+      ).to.be.rejectedWith("FamiliarsClient has no signature provider");
+    });
+  });
+
+  describe("Helpers", function () {
+    it("Should convert coin amounts", function () {
+      expect(parseCoins("12.5")).to.equal(12500000000000000000n);
+      expect(formatCoins(fromWholeCoins(3))).to.equal("3.0");
+      expect(toWholeCoins(parseCoins("7.9"))).to.equal(7n);
+    });
+
+    it("Should parse location names and keys", function () {
+      expect(parseLocation("Marketplace").id).to.equal(Location.MARKET_PLACE);
+      expect(parseLocation("KARMIC_TOWER").name).to.equal("Karmic Tower");
+      expect(() => parseLocation("Moon")).to.throw("Unknown location Moon");
+    });
+  });
+});
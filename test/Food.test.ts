@@ -44,6 +44,35 @@ describe("Food Contract", function () {
     });
   });
 
+  describe("Roles", function () {
+    it("Should move the URI admin role with the operator", async function () {
+      const URI_ADMIN_ROLE = await food.URI_ADMIN_ROLE();
+      expect(await food.getRoleMembers(URI_ADMIN_ROLE)).to.deep.equal([
+        addr1.address,
+      ]);
+
+      await food.setOperator(addr2.address);
+      await expect(food.connect(addr1).setURI("ipfs://newUri"))
+        .to.be.revertedWithCustomError(food, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, URI_ADMIN_ROLE);
+      expect(await food.getRoleMembers(URI_ADMIN_ROLE)).to.deep.equal([
+        addr2.address,
+      ]);
+    });
+
+    it("Should draw batch mints from the allowance", async function () {
+      const MINTER_ROLE = await food.MINTER_ROLE();
+      await food.grantRoleWithAllowance(MINTER_ROLE, addr2.address, 10);
+
+      await expect(
+        food.connect(addr2).mintBatch(addr2.address, [0, 0], [6, 5], "0x")
+      ).to.be.revertedWith("Mint allowance exceeded");
+      await food.connect(addr2).mintBatch(addr2.address, [0, 0], [6, 4], "0x");
+      expect(await food.balanceOf(addr2.address, 0)).to.equal(10);
+      expect(await food.mintAllowance(MINTER_ROLE, addr2.address)).to.equal(0);
+    });
+  });
+
   describe("Burning", function () {
     it("Should allow the operator to burn tokens", async function () {
       await food.connect(addr1).mint(addr1.address, 100);
@@ -59,9 +88,9 @@ describe("Food Contract", function () {
       await food.connect(addr1).mint(addr1.address, 100);
 
       // Ensure addr2 does not approve the operator to burn tokens
-      await expect(
-        food.connect(addr2).burn(addr1.address, 0, 50)
-      ).to.be.rejectedWith("Caller is not the operator");
+      await expect(food.connect(addr2).burn(addr1.address, 0, 50))
+        .to.be.revertedWithCustomError(food, "AccessControlUnauthorizedAccount")
+        .withArgs(addr2.address, await food.BURNER_ROLE());
     });
   });
 
@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { Familiars, FamiliarsItem, KarmicWellSpring } from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
+import {
+  GameConfig,
+  GameContracts,
+  applyGameConfig,
+  diffGameConfig,
+  formatGameConfigDiff,
+  loadGameConfig,
+} from "../tasks/gameConfig";
+
+describe("Game Config Sync", function () {
+  let familiars: Familiars;
+  let karmicWellSpring: KarmicWellSpring;
+  let familiarsItem: FamiliarsItem;
+  let contracts: GameContracts;
+  let configFile: string;
+
+  const requirements = {
+    minHealth: 1,
+    healthCost: 10,
+    minKarmicEnergy: 0,
+    karmicEnergyCost: 0,
+    minFood: 0,
+    foodCost: 0,
+    minCoin: 0,
+    coinCost: 0,
+    getCoin: 5,
+    getHealth: 0,
+    getKarmicEnergy: 0,
+    getFood: 10,
+    minLevel: 0,
+  };
+
+  const itemAttributes = {
+    healthIncrease: 0,
+    healthDecrease: 0,
+    karmicIncrease: 5,
+    karmicDecrease: 0,
+    foodIncrease: 0,
+    foodDecrease: 0,
+    coinIncrease: 0,
+    coinDecrease: 0,
+    luckIncrease: 5,
+    luckDecrease: 0,
+  };
+
+  const config: GameConfig = {
+    version: 1,
+    locations: { GATHERING_AREA: requirements },
+    wellspringTiers: [
+      { karmicAmount: 50, coins: 10, food: 10 },
+      { karmicAmount: 100, coins: 30, food: 25 },
+    ],
+    items: { "1": itemAttributes },
+  };
+
+  function writeConfig(value: object) {
+    fs.writeFileSync(configFile, JSON.stringify(value));
+  }
+
+  beforeEach(async function () {
+    familiars = await (await ethers.getContractFactory("Familiars")).deploy();
+    familiarsItem = await (
+      await ethers.getContractFactory("FamiliarsItem")
+    ).deploy();
+    const karmicEnergy = await (
+      await ethers.getContractFactory("KarmicEnergy")
+    ).deploy();
+    const food = await (await ethers.getContractFactory("Food")).deploy();
+    const coins = await (await ethers.getContractFactory("Coins")).deploy();
+    karmicWellSpring = await deployProxy<KarmicWellSpring>("KarmicWellSpring", [
+      await karmicEnergy.getAddress(),
+      await food.getAddress(),
+      await coins.getAddress(),
+    ]);
+    contracts = { familiars, karmicWellSpring, familiarsItem };
+
+    // Start from a partially configured chain
+    await karmicWellSpring.addExchangeRate(100, 25, 25);
+    await karmicWellSpring.addExchangeRate(200, 60, 60);
+
+    configFile = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "game-config-")),
+      "game.json"
+    );
+    writeConfig(config);
+  });
+
+  describe("Loading", function () {
+    it("Should load a versioned config file", async function () {
+      expect(loadGameConfig(configFile)).to.deep.equal(config);
+    });
+
+    it("Should reject an unsupported version", async function () {
+      writeConfig({ ...config, version: 2 });
+      expect(() => loadGameConfig(configFile)).to.throw(
+        "Unsupported game-config version 2"
+      );
+    });
+
+    it("Should reject an unknown location", async function () {
+      writeConfig({ ...config, locations: { DUNGEON: requirements } });
+      expect(() => loadGameConfig(configFile)).to.throw(
+        "Unknown location DUNGEON"
+      );
+    });
+  });
+
+  describe("Diff", function () {
+    it("Should list only the changed entries", async function () {
+      const changes = await diffGameConfig(contracts, config);
+
+      expect(changes.map((change) => change.kind)).to.deep.equal([
+        "location",
+        "tier",
+        "tier",
+        "tier",
+        "item",
+      ]);
+      const diff = formatGameConfigDiff(changes);
+      expect(diff).to.contain("~ location GATHERING_AREA");
+      expect(diff).to.contain("    getFood: 0 -> 10");
+      expect(diff).to.contain("+ wellspring tier 50 karmic: 10 coins, 10 food");
+      expect(diff).to.contain(
+        "~ wellspring tier 100 karmic: 25 -> 30 coins, 25 -> 25 food"
+      );
+      expect(diff).to.contain(
+        "- wellspring tier 200 karmic: 60 coins, 60 food"
+      );
+      expect(diff).to.contain("    luckIncrease: 0 -> 5");
+    });
+
+    it("Should report nothing when the chain matches", async function () {
+      await applyGameConfig(contracts, await diffGameConfig(contracts, config));
+
+      const changes = await diffGameConfig(contracts, config);
+      expect(changes).to.be.empty;
+      expect(formatGameConfigDiff(changes)).to.equal(
+        "Game config is in sync, nothing to apply."
+      );
+    });
+  });
+
+  describe("Item Slots", function () {
+    it("Should diff and apply item slots", async function () {
+      const slotted: GameConfig = {
+        version: 1,
+        items: { "1": { ...itemAttributes, slot: 4 } },
+      };
+      const changes = await diffGameConfig(contracts, slotted);
+
+      expect(changes.map((change) => change.kind)).to.deep.equal([
+        "item",
+        "itemSlot",
+      ]);
+      expect(formatGameConfigDiff(changes)).to.contain("~ item 1 slot: 0 -> 4");
+      await applyGameConfig(contracts, changes);
+      expect(await familiarsItem.getItemSlot(1)).to.equal(4);
+      expect(await diffGameConfig(contracts, slotted)).to.be.empty;
+    });
+  });
+
+  describe("Apply", function () {
+    it("Should apply the changed entries on chain", async function () {
+      const txs = await applyGameConfig(
+        contracts,
+        await diffGameConfig(contracts, config)
+      );
+
+      expect(txs).to.have.length(5);
+      const req = await familiars.getLocationRequirements(3);
+      expect(req.getFood).to.equal(10);
+      expect(req.getCoin).to.equal(5);
+      expect(await karmicWellSpring.karmicToCoins(100)).to.equal(30);
+      expect(await karmicWellSpring.validKarmicAmt(50)).to.be.true;
+      expect(await karmicWellSpring.validKarmicAmt(200)).to.be.false;
+      expect((await familiarsItem.getItemAttributes(1)).luckIncrease).to.equal(
+        5
+      );
+    });
+
+    it("Should apply a config file through the Hardhat task", async function () {
+      await hre.run("game-config:apply", {
+        file: configFile,
+        familiars: await familiars.getAddress(),
+        wellspring: await karmicWellSpring.getAddress(),
+        items: await familiarsItem.getAddress(),
+      });
+
+      expect(await diffGameConfig(contracts, config)).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  Familiars,
+  KarmicWellSpring,
+  Marketplace,
+  Operator,
+} from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
+import {
+  FamiliarsClient,
+  Location,
+  fromWholeCoins,
+  localSignatureProvider,
+} from "../sdk";
+import { Indexer } from "../indexer/Indexer";
+import { IndexerDatabase } from "../indexer/database";
+
+describe("Indexer", function () {
+  let operator: Operator;
+  let familiars: Familiars;
+  let client: FamiliarsClient;
+  let db: IndexerDatabase;
+  let indexer: Indexer;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  let addr2: SignerWithAddress;
+  let startBlock: number;
+
+  const TOKEN_URI = "ipfs://QmTest";
+  const NO_REQUIREMENTS = {
+    minHealth: 0,
+    healthCost: 0,
+    minKarmicEnergy: 0,
+    karmicEnergyCost: 0,
+    minFood: 0,
+    foodCost: 0,
+    minCoin: 0,
+    coinCost: 0,
+    getCoin: 0,
+    getHealth: 0,
+    getKarmicEnergy: 0,
+    getFood: 0,
+    minLevel: 0,
+  };
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    familiars = await ethers.deployContract("Familiars");
+    const familiarsLib = await ethers.deployContract("FamiliarsLib");
+    const tbaImpl = await ethers.deployContract("ERC6551Account");
+    const coins = await ethers.deployContract("Coins");
+    const karmicEnergy = await ethers.deployContract("KarmicEnergy");
+    const food = await ethers.deployContract("Food");
+    const familiarsItem = await ethers.deployContract("FamiliarsItem");
+    const registry = await ethers.deployContract("ERC6551Registry");
+    const resources = [
+      await karmicEnergy.getAddress(),
+      await food.getAddress(),
+      await coins.getAddress(),
+    ];
+    const wellspring = await deployProxy<KarmicWellSpring>(
+      "KarmicWellSpring",
+      resources
+    );
+    const marketplace = await deployProxy<Marketplace>(
+      "Marketplace",
+      resources
+    );
+
+    operator = await deployProxy<Operator>(
+      "Operator",
+      [
+        await familiars.getAddress(),
+        await food.getAddress(),
+        await coins.getAddress(),
+        await karmicEnergy.getAddress(),
+        await familiarsItem.getAddress(),
+        await marketplace.getAddress(),
+        await wellspring.getAddress(),
+        await registry.getAddress(),
+        await tbaImpl.getAddress(),
+      ],
+      { libraries: { FamiliarsLib: familiarsLib } }
+    );
+
+    const operatorAddress = await operator.getAddress();
+    for (const contract of [
+      familiars,
+      coins,
+      karmicEnergy,
+      food,
+      familiarsItem,
+      marketplace,
+      wellspring,
+    ]) {
+      await contract.setOperator(operatorAddress);
+    }
+    for (const contract of [coins, karmicEnergy, food]) {
+      await contract.setMarketplace(await marketplace.getAddress());
+      await contract.setKarmicWellSpring(await wellspring.getAddress());
+    }
+
+    // Gathering pays 10 coins and 3 food for 5 health
+    await familiars.setLocationRequirements(Location.GATHERING_AREA, {
+      ...NO_REQUIREMENTS,
+      healthCost: 5,
+      getCoin: 10,
+      getFood: 3,
+    });
+
+    client = await FamiliarsClient.connect(
+      operatorAddress,
+      addr1,
+      localSignatureProvider(owner)
+    );
+    await client.createNPC(addr1.address, TOKEN_URI);
+
+    db = await IndexerDatabase.open();
+    indexer = new Indexer(
+      db,
+      ethers.provider,
+      await Indexer.resolveContracts(operatorAddress, ethers.provider),
+      { startBlock }
+    );
+  });
+
+  afterEach(function () {
+    db.close();
+  });
+
+  describe("NPC state", function () {
+    it("Should materialize the state of a Familiar", async function () {
+      await client.goToLocation(1, Location.GATHERING_AREA);
+      await indexer.sync();
+
+      const npc = db.getNpc(1)!;
+      expect(npc.owner).to.equal(addr1.address.toLowerCase());
+      expect(npc.tba).to.equal((await operator._getTba(1)).toLowerCase());
+      expect(npc.location).to.equal("Gathering Area");
+      expect(npc.health).to.equal(95);
+    });
+
+    it("Should follow ownership transfers", async function () {
+      await familiars
+        .connect(addr1)
+        .transferFrom(addr1.address, addr2.address, 1);
+      await indexer.sync();
+
+      expect(db.getNpc(1)!.owner).to.equal(addr2.address.toLowerCase());
+    });
+
+    it("Should index location requirements", async function () {
+      await indexer.sync();
+
+      const requirements = db.getLocationRequirements();
+      expect(requirements[Location.GATHERING_AREA].getCoin).to.equal("10");
+      expect(requirements[Location.GATHERING_AREA].healthCost).to.equal("5");
+    });
+  });
+
+  describe("Queries", function () {
+    beforeEach(async function () {
+      await client.goToLocation(1, Location.GATHERING_AREA);
+      await client.goToLocation(1, Location.MARKET_PLACE);
+      await client.buyFood(1, 2, 2);
+      await client.goToLocation(1, Location.GATHERING_AREA);
+      await indexer.sync();
+    });
+
+    it("Should return the timeline of a Familiar", async function () {
+      const timeline = db.getNpcTimeline(1);
+      const names = timeline.map((event) => `${event.contract}.${event.name}`);
+
+      expect(names[0]).to.equal("Familiars.Transfer");
+      expect(names).to.include("Marketplace.FoodExchange");
+      expect(names).to.include("Coins.Transfer");
+      expect(
+        names.filter((name) => name === "Familiars.GoToLocation")
+      ).to.have.lengthOf(3);
+      const blocks = timeline.map((event) => event.blockNumber);
+      expect(blocks).to.deep.equal([...blocks].sort((a, b) => a - b));
+      expect(db.getNpcTimeline(2)).to.be.empty;
+    });
+
+    it("Should count visits per location", async function () {
+      expect(db.getLocationVisitCounts()).to.deep.equal([
+        { location: "Gathering Area", visits: 2 },
+        { location: "Marketplace", visits: 1 },
+      ]);
+    });
+
+    it("Should total daily mints and burns", async function () {
+      const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+      const day = new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+      expect(db.getDailySupplyChanges("Coins")).to.deep.equal([
+        {
+          day,
+          token: "Coins",
+          minted: fromWholeCoins(20),
+          burned: fromWholeCoins(2),
+        },
+      ]);
+      expect(db.getDailySupplyChanges("Food")).to.deep.equal([
+        { day, token: "Food", minted: 8n, burned: 0n },
+      ]);
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Should roll back events of dropped blocks", async function () {
+      await client.goToLocation(1, Location.GATHERING_AREA);
+      await indexer.sync();
+      const snapshot = await network.provider.send("evm_snapshot");
+
+      await client.goToLocation(1, Location.MARKET_PLACE);
+      await client.buyFood(1, 2, 2);
+      await indexer.sync();
+      expect(db.getNpc(1)!.location).to.equal("Marketplace");
+
+      // Replace the dropped blocks with a different history
+      await network.provider.send("evm_revert", [snapshot]);
+      await client.goToLocation(1, Location.HOME);
+      await network.provider.send("evm_mine");
+      const result = await indexer.sync();
+
+      expect(result.reorgedFrom).to.not.be.undefined;
+      expect(db.getNpc(1)!.location).to.equal("Home");
+      const names = db.getNpcTimeline(1).map((event) => event.name);
+      expect(names).to.not.include("FoodExchange");
+      expect(db.getLocationVisitCounts()).to.deep.equal([
+        { location: "Gathering Area", visits: 1 },
+        { location: "Home", visits: 1 },
+      ]);
+    });
+
+    it("Should roll back when the chain gets shorter", async function () {
+      await indexer.sync();
+      const snapshot = await network.provider.send("evm_snapshot");
+      await client.goToLocation(1, Location.GATHERING_AREA);
+      await indexer.sync();
+
+      await network.provider.send("evm_revert", [snapshot]);
+      const result = await indexer.sync();
+
+      expect(result.reorgedFrom).to.not.be.undefined;
+      expect(db.getNpc(1)!.location).to.be.null;
+      expect(db.getLocationVisitCounts()).to.be.empty;
+    });
+  });
+
+  describe("Persistence", function () {
+    it("Should resume from the database file", async function () {
+      const file = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+        "test.sqlite"
+      );
+      const contracts = indexer.contracts;
+      const first = await IndexerDatabase.open(file);
+      await new Indexer(first, ethers.provider, contracts, {
+        startBlock,
+      }).sync();
+      first.close();
+
+      await client.goToLocation(1, Location.GATHERING_AREA);
+      const second = await IndexerDatabase.open(file);
+      const result = await new Indexer(second, ethers.provider, contracts, {
+        startBlock,
+      }).sync();
+
+      expect(result.events).to.be.greaterThan(0);
+      expect(result.fromBlock).to.be.greaterThan(startBlock);
+      expect(second.getNpc(1)!.location).to.equal("Gathering Area");
+      second.close();
+      fs.rmSync(path.dirname(file), { recursive: true });
+    });
+  });
+});
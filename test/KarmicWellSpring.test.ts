@@ -6,6 +6,7 @@ import {
   Food,
   Coins,
 } from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 
 describe("KarmicWellSpring Contract", function () {
@@ -31,14 +32,11 @@ describe("KarmicWellSpring Contract", function () {
     coins = await CoinsFactory.deploy();
 
     // Deploy KarmicWellSpring
-    const KarmicWellSpringFactory = await ethers.getContractFactory(
-      "KarmicWellSpring"
-    );
-    karmicWellSpring = await KarmicWellSpringFactory.deploy(
+    karmicWellSpring = await deployProxy<KarmicWellSpring>("KarmicWellSpring", [
       await karmicEnergy.getAddress(),
       await food.getAddress(),
-      await coins.getAddress()
-    );
+      await coins.getAddress(),
+    ]);
 
     const karmicwellspring = await karmicWellSpring.getAddress();
 
@@ -97,6 +95,19 @@ describe("KarmicWellSpring Contract", function () {
       expect(await karmicWellSpring.karmicToFood(50)).to.equal(0);
     });
 
+    it("Should enumerate exchange tiers", async function () {
+      await karmicWellSpring.connect(owner).addExchangeRate(50, 10, 10);
+      await karmicWellSpring.connect(owner).addExchangeRate(100, 25, 25);
+      await karmicWellSpring.connect(owner).addExchangeRate(50, 20, 20);
+      expect(await karmicWellSpring.getExchangeTiers()).to.deep.equal([
+        50n,
+        100n,
+      ]);
+
+      await karmicWellSpring.connect(owner).removeExchangeRate(50);
+      expect(await karmicWellSpring.getExchangeTiers()).to.deep.equal([100n]);
+    });
+
     it("Should fail to add invalid exchange rates", async function () {
       await expect(
         karmicWellSpring.connect(owner).addExchangeRate(0, 10, 10)
@@ -1,8 +1,27 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { Marketplace, KarmicEnergy, Food, Coins } from "../typechain-types";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+  Marketplace,
+  KarmicEnergy,
+  Food,
+  Coins,
+  MockRandomnessCoordinator,
+  FamiliarsItem,
+} from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
+import { LootKind, PricingModel, TradeAsset } from "../sdk/FamiliarsClient";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 
+// Amount Marketplace draws between min and max for a random word
+function rollAmount(word: bigint, min: bigint, max: bigint): bigint {
+  const hash = ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [word])
+  );
+  return min + (BigInt(hash) % (max - min + 1n));
+}
+
 describe("Marketplace Contract", function () {
   let marketplace: Marketplace;
   let karmicEnergy: KarmicEnergy;
@@ -26,12 +45,11 @@ describe("Marketplace Contract", function () {
     coins = await CoinsFactory.deploy();
 
     // Deploy Marketplace
-    const MarketplaceFactory = await ethers.getContractFactory("Marketplace");
-    marketplace = await MarketplaceFactory.deploy(
+    marketplace = await deployProxy<Marketplace>("Marketplace", [
       await karmicEnergy.getAddress(),
       await food.getAddress(),
-      await coins.getAddress()
-    );
+      await coins.getAddress(),
+    ]);
 
     const marketplaceAddress = await marketplace.getAddress();
 
@@ -78,7 +96,7 @@ describe("Marketplace Contract", function () {
 
       await marketplace
         .connect(operator)
-        .exchangeCoinsToFood(exchangeAmount, user.address);
+        .exchangeCoinsToFood(exchangeAmount, exchangeAmount, user.address);
 
       const finalCoinBalance = await coins.balanceOf(user.address);
       const finalFoodBalance = await food.balanceOf(user.address, 0);
@@ -94,13 +112,13 @@ describe("Marketplace Contract", function () {
       await coins.connect(operator).burnCoins(user.address, balance);
 
       await expect(
-        marketplace.connect(operator).exchangeCoinsToFood(10, user.address)
+        marketplace.connect(operator).exchangeCoinsToFood(10, 10, user.address)
       ).to.be.revertedWith("Not enough coins");
     });
 
     it("Should fail with zero amount", async function () {
       await expect(
-        marketplace.connect(operator).exchangeCoinsToFood(0, user.address)
+        marketplace.connect(operator).exchangeCoinsToFood(0, 0, user.address)
       ).to.be.revertedWith("Amount must be greater than 0");
     });
 
@@ -109,13 +127,134 @@ describe("Marketplace Contract", function () {
       await expect(
         marketplace
           .connect(operator)
-          .exchangeCoinsToFood(exchangeAmount, user.address)
+          .exchangeCoinsToFood(exchangeAmount, exchangeAmount, user.address)
       )
         .to.emit(marketplace, "FoodExchange")
         .withArgs(user.address, exchangeAmount, exchangeAmount);
     });
   });
 
+  describe("Food Pricing", function () {
+    const tiers = [
+      { minCoins: 10, foodPerCoin: 12_000 },
+      { minCoins: 50, foodPerCoin: 15_000 },
+    ];
+
+    beforeEach(async function () {
+      await coins.connect(operator).mint(user.address, 1000);
+    });
+
+    it("Should quote 1 food per coin by default", async function () {
+      expect(await marketplace.quoteFood(25)).to.equal(25);
+      const [pricing, priceTiers] = await marketplace.getFoodPricing();
+      expect(pricing.model).to.equal(PricingModel.FIXED);
+      expect(pricing.foodPerCoin).to.equal(10_000);
+      expect(priceTiers).to.be.empty;
+    });
+
+    it("Should sell food at a fixed price", async function () {
+      await expect(
+        marketplace.setFoodPricing(PricingModel.FIXED, 5_000, [], 0, 0)
+      )
+        .to.emit(marketplace, "SetFoodPricing")
+        .withArgs(PricingModel.FIXED, 5_000, [], 0, 0);
+
+      expect(await marketplace.quoteFood(10)).to.equal(5);
+      await expect(
+        marketplace.connect(operator).exchangeCoinsToFood(10, 5, user.address)
+      )
+        .to.emit(marketplace, "FoodExchange")
+        .withArgs(user.address, 10, 5);
+      expect(await food.balanceOf(user.address, 0)).to.equal(5);
+    });
+
+    it("Should apply the largest tier reached", async function () {
+      await marketplace.setFoodPricing(
+        PricingModel.TIERED,
+        10_000,
+        tiers,
+        0,
+        0
+      );
+
+      expect(await marketplace.quoteFood(9)).to.equal(9);
+      expect(await marketplace.quoteFood(10)).to.equal(12);
+      expect(await marketplace.quoteFood(49)).to.equal(58);
+      expect(await marketplace.quoteFood(50)).to.equal(75);
+    });
+
+    it("Should raise the price as food is bought in a window", async function () {
+      await marketplace.setFoodPricing(
+        PricingModel.CURVE,
+        10_000,
+        [],
+        3600,
+        100
+      );
+
+      await marketplace
+        .connect(operator)
+        .exchangeCoinsToFood(100, 100, user.address);
+      expect(await marketplace.foodSoldInWindow()).to.equal(100);
+      expect(await marketplace.quoteFood(100)).to.equal(50);
+
+      await marketplace
+        .connect(operator)
+        .exchangeCoinsToFood(100, 50, user.address);
+      expect(await marketplace.quoteFood(100)).to.equal(40);
+
+      await time.increase(3600);
+      expect(await marketplace.quoteFood(100)).to.equal(100);
+      await marketplace
+        .connect(operator)
+        .exchangeCoinsToFood(10, 10, user.address);
+      expect(await marketplace.foodSoldInWindow()).to.equal(10);
+    });
+
+    it("Should revert when the food is below the minimum", async function () {
+      await marketplace.setFoodPricing(PricingModel.FIXED, 5_000, [], 0, 0);
+
+      await expect(
+        marketplace.connect(operator).exchangeCoinsToFood(10, 6, user.address)
+      ).to.be.revertedWith("Food below minimum");
+      await expect(
+        marketplace.connect(operator).exchangeCoinsToFood(1, 0, user.address)
+      ).to.be.revertedWith("Amount too small to buy food");
+    });
+
+    it("Should validate the pricing", async function () {
+      await expect(
+        marketplace.setFoodPricing(PricingModel.FIXED, 0, [], 0, 0)
+      ).to.be.revertedWith("Price must be positive");
+      await expect(
+        marketplace.setFoodPricing(PricingModel.FIXED, 10_000, tiers, 0, 0)
+      ).to.be.revertedWith("Only tiered pricing has tiers");
+      await expect(
+        marketplace.setFoodPricing(
+          PricingModel.TIERED,
+          10_000,
+          [tiers[1], tiers[0]],
+          0,
+          0
+        )
+      ).to.be.revertedWith("Tiers must be sorted");
+      await expect(
+        marketplace.setFoodPricing(PricingModel.CURVE, 10_000, [], 0, 100)
+      ).to.be.revertedWith("Invalid price curve");
+    });
+
+    it("Should only let the owner set the pricing", async function () {
+      await expect(
+        marketplace
+          .connect(user)
+          .setFoodPricing(PricingModel.FIXED, 5_000, [], 0, 0)
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
   describe("Treasure Box Purchase", function () {
     beforeEach(async function () {
       // Mint some coins to user for testing
@@ -126,7 +265,7 @@ describe("Marketplace Contract", function () {
     it("Should buy treasure box successfully", async function () {
       const initialCoinBalance = await coins.balanceOf(user.address);
 
-      await marketplace.connect(operator).buyTreasureBox(user.address);
+      await marketplace.connect(operator).buyTreasureBox(0, user.address, 0);
 
       const finalCoinBalance = await coins.balanceOf(user.address);
 
@@ -138,11 +277,948 @@ describe("Marketplace Contract", function () {
       await coins.connect(operator).burnCoins(user.address, balance);
 
       await expect(
-        marketplace.connect(operator).buyTreasureBox(user.address)
+        marketplace.connect(operator).buyTreasureBox(0, user.address, 0)
+      ).to.be.revertedWith("Not enough coins");
+    });
+
+    describe("Commit-reveal", function () {
+      it("Should reveal a pending box from the block after the purchase", async function () {
+        await expect(
+          marketplace.connect(operator).buyTreasureBox(0, user.address, 0)
+        )
+          .to.emit(marketplace, "BuyTreasureBox")
+          .withArgs(user.address, 1, 0);
+        expect((await marketplace.pendingBoxes(1)).tba).to.equal(user.address);
+        const paid = await coins.balanceOf(user.address);
+
+        await expect(marketplace.revealTreasureBox(1)).to.be.revertedWith(
+          "Box cannot be revealed yet"
+        );
+        await mine(1);
+        await expect(marketplace.connect(owner).revealTreasureBox(1))
+          .to.emit(marketplace, "TreasureBoxOpened")
+          .withArgs(1, user.address, LootKind.COINS, 0, anyValue);
+
+        const reward = (await coins.balanceOf(user.address)) - paid;
+        expect(reward).to.be.gte(ethers.parseEther("1"));
+        expect(reward).to.be.lte(ethers.parseEther("20"));
+        await expect(marketplace.revealTreasureBox(1)).to.be.revertedWith(
+          "Box is not pending"
+        );
+      });
+
+      it("Should pay the floor of the loot table to expired boxes", async function () {
+        await marketplace.connect(operator).buyTreasureBox(0, user.address, 0);
+        const paid = await coins.balanceOf(user.address);
+        await mine(300);
+
+        await expect(marketplace.revealTreasureBox(1))
+          .to.emit(marketplace, "TreasureBoxOpened")
+          .withArgs(1, user.address, LootKind.COINS, 0, 1);
+        expect(await coins.balanceOf(user.address)).to.equal(
+          paid + ethers.parseEther("1")
+        );
+        expect((await marketplace.getBoxType(0))[0].sold).to.equal(1);
+      });
+
+      it("Should not roll a box again when its reveal is withheld", async function () {
+        await marketplace.connect(operator).buyTreasureBox(0, user.address, 0);
+        // The buyer knows the roll from the next block on and holds it back
+        await mine(1);
+        await expect(marketplace.retryTreasureBox(1)).to.be.revertedWith(
+          "Box coordinator was not replaced"
+        );
+        await mine(300);
+
+        await expect(
+          marketplace.connect(user).retryTreasureBox(1)
+        ).to.be.revertedWith("Box coordinator was not replaced");
+        const coordinator = await ethers.deployContract(
+          "MockRandomnessCoordinator"
+        );
+        await marketplace.setRandomnessCoordinator(
+          await coordinator.getAddress()
+        );
+        await expect(marketplace.retryTreasureBox(1)).to.be.revertedWith(
+          "Box coordinator was not replaced"
+        );
+        expect((await marketplace.pendingBoxes(1)).viaCoordinator).to.be.false;
+
+        await expect(marketplace.connect(user).revealTreasureBox(1))
+          .to.emit(marketplace, "TreasureBoxOpened")
+          .withArgs(1, user.address, LootKind.COINS, 0, 1);
+        await expect(marketplace.retryTreasureBox(1)).to.be.revertedWith(
+          "Box is not pending"
+        );
+      });
+    });
+
+    describe("Coordinator", function () {
+      let coordinator: MockRandomnessCoordinator;
+
+      beforeEach(async function () {
+        coordinator = await ethers.deployContract("MockRandomnessCoordinator");
+        await marketplace.setRandomnessCoordinator(
+          await coordinator.getAddress()
+        );
+      });
+
+      it("Should pay out when the coordinator fulfils the request", async function () {
+        await expect(
+          marketplace.connect(operator).buyTreasureBox(0, user.address, 0)
+        )
+          .to.emit(coordinator, "RandomWordsRequested")
+          .withArgs(1, await marketplace.getAddress(), 1);
+        expect(
+          await marketplace.boxOfCoordinatorRequest(
+            await coordinator.getAddress(),
+            1
+          )
+        ).to.equal(1);
+        const paid = await coins.balanceOf(user.address);
+
+        const amount = rollAmount(41n, 1n, 20n);
+        await expect(coordinator.fulfillRandomWords(1, [41]))
+          .to.emit(marketplace, "TreasureBoxOpened")
+          .withArgs(1, user.address, LootKind.COINS, 0, amount);
+        expect(await coins.balanceOf(user.address)).to.equal(
+          paid + ethers.parseEther(amount.toString())
+        );
+        await expect(
+          coordinator.fulfillRandomWords(1, [41])
+        ).to.be.revertedWith("Unknown request");
+      });
+
+      it("Should only accept randomness from the coordinator", async function () {
+        await marketplace.connect(operator).buyTreasureBox(0, user.address, 0);
+
+        await expect(
+          marketplace.connect(user).rawFulfillRandomWords(1, [0])
+        ).to.be.revertedWith("Caller is not the coordinator");
+        await mine(1);
+        await expect(marketplace.revealTreasureBox(1)).to.be.revertedWith(
+          "Box is opened by the coordinator"
+        );
+      });
+
+      it("Should request the boxes of a replaced coordinator again", async function () {
+        await marketplace.connect(operator).buyTreasureBox(0, user.address, 0);
+        await expect(marketplace.retryTreasureBox(1)).to.be.revertedWith(
+          "Box coordinator was not replaced"
+        );
+        const next = await ethers.deployContract("MockRandomnessCoordinator");
+        await marketplace.setRandomnessCoordinator(await next.getAddress());
+
+        // Request ids of the new coordinator restart without reaching old boxes
+        await expect(coordinator.fulfillRandomWords(1, [7])).to.be.revertedWith(
+          "Caller is not the coordinator"
+        );
+        await marketplace.connect(operator).buyTreasureBox(0, user.address, 0);
+        await expect(next.fulfillRandomWords(1, [7]))
+          .to.emit(marketplace, "TreasureBoxOpened")
+          .withArgs(2, user.address, LootKind.COINS, 0, anyValue);
+        expect((await marketplace.pendingBoxes(1)).tba).to.equal(user.address);
+
+        await expect(marketplace.retryTreasureBox(1))
+          .to.emit(next, "RandomWordsRequested")
+          .withArgs(2, await marketplace.getAddress(), 1);
+        expect(await marketplace.boxCoordinators(1)).to.equal(
+          await next.getAddress()
+        );
+        await expect(next.fulfillRandomWords(2, [7]))
+          .to.emit(marketplace, "TreasureBoxOpened")
+          .withArgs(1, user.address, LootKind.COINS, 0, anyValue);
+      });
+
+      it("Should move the boxes of a removed coordinator to commit-reveal", async function () {
+        await marketplace.connect(operator).buyTreasureBox(0, user.address, 0);
+        await marketplace.setRandomnessCoordinator(ethers.ZeroAddress);
+
+        await marketplace.retryTreasureBox(1);
+        expect((await marketplace.pendingBoxes(1)).viaCoordinator).to.be.false;
+        await mine(1);
+        await expect(marketplace.revealTreasureBox(1))
+          .to.emit(marketplace, "TreasureBoxOpened")
+          .withArgs(1, user.address, LootKind.COINS, 0, anyValue);
+      });
+
+      it("Should only allow the owner to set the coordinator", async function () {
+        await expect(
+          marketplace.connect(user).setRandomnessCoordinator(user.address)
+        ).to.be.revertedWithCustomError(
+          marketplace,
+          "OwnableUnauthorizedAccount"
+        );
+        await expect(marketplace.setRandomnessCoordinator(ethers.ZeroAddress))
+          .to.emit(marketplace, "SetRandomnessCoordinator")
+          .withArgs(ethers.ZeroAddress);
+      });
+    });
+  });
+
+  describe("Box Types", function () {
+    const ITEM_ID = 7;
+    const itemAttributes = {
+      healthIncrease: 5,
+      healthDecrease: 0,
+      karmicIncrease: 0,
+      karmicDecrease: 0,
+      foodIncrease: 0,
+      foodDecrease: 0,
+      coinIncrease: 0,
+      coinDecrease: 0,
+      luckIncrease: 3,
+      luckDecrease: 0,
+    };
+    const loot = [
+      {
+        kind: LootKind.FOOD,
+        itemId: 0,
+        minAmount: 3,
+        maxAmount: 3,
+        weight: 1,
+      },
+      {
+        kind: LootKind.KARMIC_ENERGY,
+        itemId: 0,
+        minAmount: 2,
+        maxAmount: 2,
+        weight: 1,
+      },
+      {
+        kind: LootKind.ITEM,
+        itemId: ITEM_ID,
+        minAmount: 1,
+        maxAmount: 1,
+        weight: 2,
+      },
+    ];
+    let familiarsItem: FamiliarsItem;
+    let coordinator: MockRandomnessCoordinator;
+
+    beforeEach(async function () {
+      familiarsItem = await ethers.deployContract("FamiliarsItem");
+      await familiarsItem.setMarketplace(await marketplace.getAddress());
+      await familiarsItem.setItemAttributes(ITEM_ID, itemAttributes);
+      await marketplace.setFamiliarsItem(await familiarsItem.getAddress());
+      coordinator = await ethers.deployContract("MockRandomnessCoordinator");
+      await marketplace.setRandomnessCoordinator(
+        await coordinator.getAddress()
+      );
+      await coins.connect(operator).mint(user.address, 100);
+      await marketplace.addBoxType("Supply Crate", 10, 3, loot);
+    });
+
+    it("Should list box types with their odds", async function () {
+      const [types, tables, odds] = await marketplace.getBoxTypes();
+
+      expect(types.map((type) => type.name)).to.deep.equal([
+        "Treasure Box",
+        "Supply Crate",
+      ]);
+      expect(types[0].price).to.equal(5);
+      expect(tables[0][0].maxAmount).to.equal(20);
+      expect(odds[0]).to.deep.equal([10_000n]);
+      expect(tables[1].map((entry) => entry.kind)).to.deep.equal([
+        BigInt(LootKind.FOOD),
+        BigInt(LootKind.KARMIC_ENERGY),
+        BigInt(LootKind.ITEM),
+      ]);
+      expect(odds[1]).to.deep.equal([2_500n, 2_500n, 5_000n]);
+    });
+
+    it("Should award the loot entry picked by the weights", async function () {
+      // Words 0, 1 and 2 modulo the total weight of 4 hit each entry in turn
+      for (let i = 0; i < 3; i++) {
+        await marketplace.connect(operator).buyTreasureBox(1, user.address, 0);
+      }
+      await coordinator.fulfillRandomWords(1, [4]);
+      await coordinator.fulfillRandomWords(2, [5]);
+      await coordinator.fulfillRandomWords(3, [6]);
+
+      expect(await food.balanceOf(user.address, 0)).to.equal(3);
+      expect(await karmicEnergy.balanceOf(user.address, 0)).to.equal(2);
+      expect(await familiarsItem.balanceOf(user.address, ITEM_ID)).to.equal(1);
+    });
+
+    it("Should mint item loot with its attributes", async function () {
+      await marketplace.connect(operator).buyTreasureBox(1, user.address, 0);
+
+      await expect(coordinator.fulfillRandomWords(1, [2]))
+        .to.emit(marketplace, "TreasureBoxOpened")
+        .withArgs(1, user.address, LootKind.ITEM, ITEM_ID, 1);
+      expect(await familiarsItem.balanceOf(user.address, ITEM_ID)).to.equal(1);
+      expect(
+        (await familiarsItem.getItemAttributes(ITEM_ID)).luckIncrease
+      ).to.equal(3);
+    });
+
+    it("Should charge the price of the box type", async function () {
+      const balance = await coins.balanceOf(user.address);
+      await expect(
+        marketplace.connect(operator).buyTreasureBox(1, user.address, 0)
+      )
+        .to.emit(marketplace, "BuyTreasureBox")
+        .withArgs(user.address, 1, 1);
+
+      expect(await coins.balanceOf(user.address)).to.equal(
+        balance - ethers.parseEther("10")
+      );
+    });
+
+    it("Should stop sales at the supply limit", async function () {
+      for (let i = 0; i < 3; i++) {
+        await marketplace.connect(operator).buyTreasureBox(1, user.address, 0);
+      }
+
+      await expect(
+        marketplace.connect(operator).buyTreasureBox(1, user.address, 0)
+      ).to.be.revertedWith("Box type is sold out");
+      await expect(
+        marketplace.updateBoxType(1, "Supply Crate", 10, 2, true, loot)
+      ).to.be.revertedWith("Supply below boxes sold");
+      expect((await marketplace.getBoxType(1)).boxType.sold).to.equal(3);
+    });
+
+    it("Should not sell disabled or unknown box types", async function () {
+      await marketplace.updateBoxType(1, "Supply Crate", 10, 0, false, loot);
+
+      await expect(
+        marketplace.connect(operator).buyTreasureBox(1, user.address, 0)
+      ).to.be.revertedWith("Box type is not on sale");
+      await expect(
+        marketplace.connect(operator).buyTreasureBox(2, user.address, 0)
+      ).to.be.revertedWith("Box type does not exist");
+    });
+
+    it("Should validate loot tables", async function () {
+      const entry = loot[0];
+      await expect(
+        marketplace.addBoxType("Empty", 1, 0, [])
+      ).to.be.revertedWith("Loot table is empty");
+      await expect(
+        marketplace.addBoxType("Zero", 1, 0, [{ ...entry, weight: 0 }])
+      ).to.be.revertedWith("Loot weight must be positive");
+      await expect(
+        marketplace.addBoxType("Range", 1, 0, [{ ...entry, minAmount: 4 }])
+      ).to.be.revertedWith("Invalid loot amount");
+      await expect(
+        marketplace.addBoxType("Item", 1, 0, [{ ...loot[2], itemId: 0 }])
+      ).to.be.revertedWith("Only item loot has an item id");
+      await expect(
+        marketplace.connect(user).addBoxType("Crate", 1, 0, loot)
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Luck", function () {
+    // Food amounts from 1 to 100, the only entry of the box type
+    const loot = [
+      {
+        kind: LootKind.FOOD,
+        itemId: 0,
+        minAmount: 1,
+        maxAmount: 100,
+        weight: 1,
+      },
+    ];
+    const BOXES = 20;
+    let coordinator: MockRandomnessCoordinator;
+    let requestId: number;
+
+    beforeEach(async function () {
+      coordinator = await ethers.deployContract("MockRandomnessCoordinator");
+      await marketplace.setRandomnessCoordinator(
+        await coordinator.getAddress()
+      );
+      await coins.connect(operator).mint(user.address, 1000);
+      await marketplace.addBoxType("Food Crate", 1, 0, loot);
+      requestId = 0;
+    });
+
+    // Opens one box per seed with the given luck and returns the food amounts
+    async function openBoxes(luck: number) {
+      const amounts: bigint[] = [];
+      for (let seed = 0; seed < BOXES; seed++) {
+        await marketplace
+          .connect(operator)
+          .buyTreasureBox(1, user.address, luck);
+        const before = await food.balanceOf(user.address, 0);
+        await coordinator.fulfillRandomWords(++requestId, [seed]);
+        amounts.push((await food.balanceOf(user.address, 0)) - before);
+      }
+      return amounts;
+    }
+
+    const total = (amounts: bigint[]) => amounts.reduce((a, b) => a + b, 0n);
+
+    it("Should shift box amounts with the buyer's luck", async function () {
+      const unlucky = await openBoxes(-50);
+      const neutral = await openBoxes(0);
+      const lucky = await openBoxes(50);
+
+      // Same seeds, so every box moves in the direction of the luck
+      for (let i = 0; i < BOXES; i++) {
+        expect(unlucky[i]).to.be.at.most(neutral[i]);
+        expect(lucky[i]).to.be.at.least(neutral[i]);
+      }
+      expect(total(unlucky)).to.be.lessThan(total(neutral));
+      expect(total(lucky)).to.be.greaterThan(total(neutral));
+      // Luck 50 halves the distance to the bound of the range
+      expect(lucky.every((amount) => amount >= 1n && amount <= 100n)).to.be
+        .true;
+      expect(Number(total(lucky)) / BOXES).to.be.greaterThan(60);
+      expect(Number(total(unlucky)) / BOXES).to.be.lessThan(40);
+    });
+
+    it("Should roll the bounds at maximum luck", async function () {
+      expect(await openBoxes(100)).to.deep.equal(Array(BOXES).fill(100n));
+      expect(await openBoxes(-100)).to.deep.equal(Array(BOXES).fill(1n));
+    });
+
+    it("Should keep the luck of the purchase until the box opens", async function () {
+      await marketplace.connect(operator).buyTreasureBox(1, user.address, 100);
+      expect((await marketplace.pendingBoxes(1)).luck).to.equal(100);
+
+      await expect(coordinator.fulfillRandomWords(1, [7]))
+        .to.emit(marketplace, "TreasureBoxOpened")
+        .withArgs(1, user.address, LootKind.FOOD, 0, 100);
+    });
+  });
+
+  describe("Item Shop", function () {
+    const ITEM_ID = 3;
+    let familiarsItem: FamiliarsItem;
+
+    beforeEach(async function () {
+      familiarsItem = await ethers.deployContract("FamiliarsItem");
+      await familiarsItem.setMarketplace(await marketplace.getAddress());
+      await familiarsItem.setItemAttributes(ITEM_ID, {
+        healthIncrease: 0,
+        healthDecrease: 0,
+        karmicIncrease: 0,
+        karmicDecrease: 0,
+        foodIncrease: 2,
+        foodDecrease: 0,
+        coinIncrease: 0,
+        coinDecrease: 0,
+        luckIncrease: 0,
+        luckDecrease: 0,
+      });
+      await marketplace.setFamiliarsItem(await familiarsItem.getAddress());
+      await coins.connect(operator).mint(user.address, 100);
+      await marketplace.setItemListing(ITEM_ID, 10, 5, 3, 0, 0);
+    });
+
+    it("Should sell listed items for coins", async function () {
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 2, user.address)
+      )
+        .to.emit(marketplace, "BuyItem")
+        .withArgs(user.address, ITEM_ID, 2, 20);
+
+      expect(await familiarsItem.balanceOf(user.address, ITEM_ID)).to.equal(2);
+      expect(await coins.balanceOf(user.address)).to.equal(
+        ethers.parseEther("80")
+      );
+      expect((await marketplace.getItemListing(ITEM_ID)).stock).to.equal(3);
+      expect(await marketplace.itemsBought(ITEM_ID, user.address)).to.equal(2);
+      expect(
+        (await familiarsItem.getItemAttributes(ITEM_ID)).foodIncrease
+      ).to.equal(2);
+    });
+
+    it("Should enforce stock and the per account limit", async function () {
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 4, user.address)
+      ).to.be.revertedWith("Purchase limit reached");
+      await marketplace.connect(operator).buyItem(ITEM_ID, 3, user.address);
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 1, user.address)
+      ).to.be.revertedWith("Purchase limit reached");
+
+      await coins.connect(operator).mint(owner.address, 100);
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 3, owner.address)
+      ).to.be.revertedWith("Not enough stock");
+    });
+
+    it("Should only sell within the sale window", async function () {
+      const now = await time.latest();
+      await marketplace.setItemListing(ITEM_ID, 10, 5, 0, now + 100, now + 200);
+
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 1, user.address)
+      ).to.be.revertedWith("Sale has not started");
+      await time.increaseTo(now + 100);
+      await marketplace.connect(operator).buyItem(ITEM_ID, 1, user.address);
+      await time.increaseTo(now + 200);
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 1, user.address)
+      ).to.be.revertedWith("Sale has ended");
+    });
+
+    it("Should refuse unlisted items and missing coins", async function () {
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID + 1, 1, user.address)
+      ).to.be.revertedWith("Item is not listed");
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 0, user.address)
+      ).to.be.revertedWith("Amount must be greater than 0");
+
+      await marketplace.setItemListing(ITEM_ID, 60, 5, 0, 0, 0);
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 2, user.address)
+      ).to.be.revertedWith("Not enough coins");
+
+      await expect(marketplace.removeItemListing(ITEM_ID))
+        .to.emit(marketplace, "RemoveItemListing")
+        .withArgs(ITEM_ID);
+      await expect(
+        marketplace.connect(operator).buyItem(ITEM_ID, 1, user.address)
+      ).to.be.revertedWith("Item is not listed");
+    });
+
+    it("Should validate listings and restrict them to the owner", async function () {
+      await expect(
+        marketplace.setItemListing(0, 10, 5, 0, 0, 0)
+      ).to.be.revertedWith("Token ID 0 is not allowed");
+      await expect(
+        marketplace.setItemListing(ITEM_ID, 0, 5, 0, 0, 0)
+      ).to.be.revertedWith("Price must be positive");
+      await expect(
+        marketplace.setItemListing(ITEM_ID, 10, 5, 0, 200, 100)
+      ).to.be.revertedWith("Sale ends before it starts");
+      await expect(
+        marketplace.connect(user).setItemListing(ITEM_ID, 10, 5, 0, 0, 0)
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(
+        marketplace.connect(user).buyItem(ITEM_ID, 1, user.address)
+      ).to.be.revertedWith("Caller is not the operator");
+    });
+  });
+
+  describe("Item Repair", function () {
+    const ITEM_ID = 4;
+    let familiarsItem: FamiliarsItem;
+
+    beforeEach(async function () {
+      familiarsItem = await ethers.deployContract("FamiliarsItem");
+      await familiarsItem.setMarketplace(await marketplace.getAddress());
+      await familiarsItem.setOperator(operator.address);
+      await marketplace.setFamiliarsItem(await familiarsItem.getAddress());
+      await familiarsItem.setItemDurability(ITEM_ID, 5, 3);
+      await familiarsItem.ownerMint(user.address, ITEM_ID, 2, {
+        healthIncrease: 0,
+        healthDecrease: 0,
+        karmicIncrease: 0,
+        karmicDecrease: 0,
+        foodIncrease: 0,
+        foodDecrease: 0,
+        coinIncrease: 0,
+        coinDecrease: 0,
+        luckIncrease: 0,
+        luckDecrease: 0,
+      });
+      await coins.connect(operator).mint(user.address, 100);
+    });
+
+    it("Should wear the unit in use and burn it when it breaks", async function () {
+      for (let i = 0; i < 4; i++) {
+        await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      }
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([1n, 5n]);
+
+      await expect(
+        familiarsItem.connect(operator).wearItem(user.address, ITEM_ID)
+      )
+        .to.emit(familiarsItem, "ItemBroken")
+        .withArgs(user.address, ITEM_ID);
+      expect(await familiarsItem.balanceOf(user.address, ITEM_ID)).to.equal(1);
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([5n, 5n]);
+    });
+
+    it("Should charge the repair price for every use restored", async function () {
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+
+      await expect(
+        marketplace.connect(operator).repairItem(ITEM_ID, user.address)
+      )
+        .to.emit(marketplace, "RepairItem")
+        .withArgs(user.address, ITEM_ID, 2, 6);
+      expect(await coins.balanceOf(user.address)).to.equal(
+        ethers.parseEther("94")
+      );
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([5n, 5n]);
+    });
+
+    it("Should cap the wear when the max durability is lowered", async function () {
+      for (let i = 0; i < 4; i++) {
+        await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      }
+
+      await familiarsItem.setItemDurability(ITEM_ID, 2, 3);
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([0n, 2n]);
+      await expect(
+        marketplace.connect(operator).repairItem(ITEM_ID, user.address)
+      )
+        .to.emit(marketplace, "RepairItem")
+        .withArgs(user.address, ITEM_ID, 2, 6);
+
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      await familiarsItem.setItemDurability(ITEM_ID, 0, 0);
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([0n, 0n]);
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      expect(await familiarsItem.balanceOf(user.address, ITEM_ID)).to.equal(2);
+      await expect(
+        marketplace.connect(operator).repairItem(ITEM_ID, user.address)
+      ).to.be.revertedWith("Item is not damaged");
+    });
+
+    it("Should break a unit worn past the lowered max durability", async function () {
+      for (let i = 0; i < 4; i++) {
+        await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      }
+      await familiarsItem.setItemDurability(ITEM_ID, 3, 3);
+
+      await expect(
+        familiarsItem.connect(operator).wearItem(user.address, ITEM_ID)
+      )
+        .to.emit(familiarsItem, "ItemBroken")
+        .withArgs(user.address, ITEM_ID);
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([3n, 3n]);
+    });
+
+    it("Should keep the wear of a unit sent away and back", async function () {
+      const [, , , other] = await ethers.getSigners();
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+
+      // A spare unit leaves fresh and the worn one stays in use
+      await familiarsItem
+        .connect(user)
+        .safeTransferFrom(user.address, other.address, ITEM_ID, 1, "0x");
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([3n, 5n]);
+      expect(
+        await familiarsItem.getDurability(other.address, ITEM_ID)
+      ).to.deep.equal([5n, 5n]);
+
+      // The last unit carries its wear, there and back
+      await familiarsItem
+        .connect(user)
+        .safeTransferFrom(user.address, other.address, ITEM_ID, 1, "0x");
+      expect(
+        await familiarsItem.getDurability(other.address, ITEM_ID)
+      ).to.deep.equal([3n, 5n]);
+      await familiarsItem
+        .connect(other)
+        .safeTransferFrom(other.address, user.address, ITEM_ID, 2, "0x");
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([3n, 5n]);
+      expect(
+        await familiarsItem.getDurability(other.address, ITEM_ID)
+      ).to.deep.equal([5n, 5n]);
+      await expect(
+        marketplace.connect(operator).repairItem(ITEM_ID, user.address)
+      )
+        .to.emit(marketplace, "RepairItem")
+        .withArgs(user.address, ITEM_ID, 2, 6);
+    });
+
+    it("Should not merge the wear of two worn units", async function () {
+      const [, , , other] = await ethers.getSigners();
+      await familiarsItem
+        .connect(user)
+        .safeTransferFrom(user.address, other.address, ITEM_ID, 1, "0x");
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      await familiarsItem.connect(operator).wearItem(other.address, ITEM_ID);
+
+      await expect(
+        familiarsItem
+          .connect(user)
+          .safeTransferFrom(user.address, other.address, ITEM_ID, 1, "0x")
+      ).to.be.revertedWith("Receiver holds a worn unit");
+    });
+
+    it("Should keep the wear across an order escrow", async function () {
+      await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+
+      // Spare units are escrowed fresh and come back fresh
+      await marketplace
+        .connect(operator)
+        .createOrder(user.address, TradeAsset.ITEM, ITEM_ID, 1, 10);
+      await marketplace.connect(operator).cancelOrder(1, user.address);
+      expect(await familiarsItem.balanceOf(user.address, ITEM_ID)).to.equal(2);
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([4n, 5n]);
+
+      // The worn unit in use cannot be listed until it is repaired
+      await expect(
+        marketplace
+          .connect(operator)
+          .createOrder(user.address, TradeAsset.ITEM, ITEM_ID, 2, 10)
+      ).to.be.revertedWith("Repair the item before trading it");
+      await marketplace.connect(operator).repairItem(ITEM_ID, user.address);
+      await marketplace
+        .connect(operator)
+        .createOrder(user.address, TradeAsset.ITEM, ITEM_ID, 2, 10);
+      await marketplace.connect(operator).cancelOrder(2, user.address);
+      expect(
+        await familiarsItem.getDurability(user.address, ITEM_ID)
+      ).to.deep.equal([5n, 5n]);
+    });
+
+    it("Should draw the uses restored from the mint allowance", async function () {
+      const [, , , minter] = await ethers.getSigners();
+      await familiarsItem.grantRoleWithAllowance(
+        await familiarsItem.MINTER_ROLE(),
+        minter.address,
+        2
+      );
+      for (let i = 0; i < 3; i++) {
+        await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      }
+
+      await expect(
+        familiarsItem.connect(minter).repairItem(user.address, ITEM_ID)
+      ).to.be.revertedWith("Mint allowance exceeded");
+      await familiarsItem.setMintAllowance(
+        await familiarsItem.MINTER_ROLE(),
+        minter.address,
+        3
+      );
+      await familiarsItem.connect(minter).repairItem(user.address, ITEM_ID);
+      expect(
+        await familiarsItem.mintAllowance(
+          await familiarsItem.MINTER_ROLE(),
+          minter.address
+        )
+      ).to.equal(0);
+    });
+
+    it("Should not repair items in full condition or not held", async function () {
+      await expect(
+        marketplace.connect(operator).repairItem(ITEM_ID, user.address)
+      ).to.be.revertedWith("Item is not damaged");
+      await expect(
+        marketplace.connect(operator).repairItem(ITEM_ID, owner.address)
+      ).to.be.revertedWith("Item not held");
+    });
+
+    it("Should not repair without enough coins", async function () {
+      await familiarsItem.setItemDurability(ITEM_ID, 50, 10);
+      for (let i = 0; i < 11; i++) {
+        await familiarsItem.connect(operator).wearItem(user.address, ITEM_ID);
+      }
+
+      await expect(
+        marketplace.connect(operator).repairItem(ITEM_ID, user.address)
       ).to.be.revertedWith("Not enough coins");
     });
   });
 
+  describe("Order Book", function () {
+    const ITEM_ID = 4;
+    let familiarsItem: FamiliarsItem;
+    let buyer: SignerWithAddress;
+    let treasury: SignerWithAddress;
+
+    beforeEach(async function () {
+      [, , , buyer, treasury] = await ethers.getSigners();
+      familiarsItem = await ethers.deployContract("FamiliarsItem");
+      await familiarsItem.setMarketplace(await marketplace.getAddress());
+      await marketplace.setFamiliarsItem(await familiarsItem.getAddress());
+      await familiarsItem.ownerMint(user.address, ITEM_ID, 3, {
+        healthIncrease: 1,
+        healthDecrease: 0,
+        karmicIncrease: 0,
+        karmicDecrease: 0,
+        foodIncrease: 0,
+        foodDecrease: 0,
+        coinIncrease: 0,
+        coinDecrease: 0,
+        luckIncrease: 0,
+        luckDecrease: 0,
+      });
+      await food.connect(operator).mint(user.address, 10);
+      await coins.connect(operator).mint(buyer.address, 100);
+    });
+
+    it("Should escrow the resource of a new order", async function () {
+      const marketplaceAddress = await marketplace.getAddress();
+      await expect(
+        marketplace
+          .connect(operator)
+          .createOrder(user.address, TradeAsset.FOOD, 0, 6, 2)
+      )
+        .to.emit(marketplace, "OrderCreated")
+        .withArgs(1, user.address, TradeAsset.FOOD, 0, 6, 2);
+
+      expect(await food.balanceOf(user.address, 0)).to.equal(4);
+      expect(await food.balanceOf(marketplaceAddress, 0)).to.equal(6);
+      const order = await marketplace.orders(1);
+      expect(order.seller).to.equal(user.address);
+      expect(order.amount).to.equal(6);
+      expect(await marketplace.nextOrderId()).to.equal(2);
+    });
+
+    it("Should fill orders in parts and pay the seller", async function () {
+      await marketplace
+        .connect(operator)
+        .createOrder(user.address, TradeAsset.ITEM, ITEM_ID, 3, 10);
+
+      await expect(marketplace.connect(operator).fillOrder(1, 2, buyer.address))
+        .to.emit(marketplace, "OrderFilled")
+        .withArgs(1, buyer.address, 2, ethers.parseEther("20"), 0);
+      expect(await familiarsItem.balanceOf(buyer.address, ITEM_ID)).to.equal(2);
+      expect(await coins.balanceOf(buyer.address)).to.equal(
+        ethers.parseEther("80")
+      );
+      expect(await coins.balanceOf(user.address)).to.equal(
+        ethers.parseEther("20")
+      );
+      expect((await marketplace.orders(1)).amount).to.equal(1);
+
+      await marketplace.connect(operator).fillOrder(1, 1, buyer.address);
+      expect((await marketplace.orders(1)).seller).to.equal(ethers.ZeroAddress);
+      await expect(
+        marketplace.connect(operator).fillOrder(1, 1, buyer.address)
+      ).to.be.revertedWith("Order does not exist");
+    });
+
+    it("Should send the trade fee to the treasury or burn it", async function () {
+      await expect(marketplace.setTradeFee(500, treasury.address))
+        .to.emit(marketplace, "SetTradeFee")
+        .withArgs(500, treasury.address);
+      await marketplace
+        .connect(operator)
+        .createOrder(user.address, TradeAsset.FOOD, 0, 10, 4);
+
+      await expect(marketplace.connect(operator).fillOrder(1, 5, buyer.address))
+        .to.emit(marketplace, "OrderFilled")
+        .withArgs(
+          1,
+          buyer.address,
+          5,
+          ethers.parseEther("20"),
+          ethers.parseEther("1")
+        );
+      expect(await coins.balanceOf(user.address)).to.equal(
+        ethers.parseEther("19")
+      );
+      expect(await coins.balanceOf(treasury.address)).to.equal(
+        ethers.parseEther("1")
+      );
+
+      await marketplace.setTradeFee(500, ethers.ZeroAddress);
+      const supply = await coins.totalSupply();
+      await marketplace.connect(operator).fillOrder(1, 5, buyer.address);
+      expect(await coins.totalSupply()).to.equal(
+        supply - ethers.parseEther("1")
+      );
+    });
+
+    it("Should charge the trade fee on small fills", async function () {
+      await marketplace.setTradeFee(250, treasury.address);
+      await marketplace
+        .connect(operator)
+        .createOrder(user.address, TradeAsset.FOOD, 0, 10, 1);
+
+      // 2.5% of a single coin is below one whole coin
+      const fee = ethers.parseEther("0.025");
+      await expect(marketplace.connect(operator).fillOrder(1, 1, buyer.address))
+        .to.emit(marketplace, "OrderFilled")
+        .withArgs(1, buyer.address, 1, ethers.parseEther("1"), fee);
+      expect(await coins.balanceOf(user.address)).to.equal(
+        ethers.parseEther("1") - fee
+      );
+      expect(await coins.balanceOf(treasury.address)).to.equal(fee);
+      expect(await coins.balanceOf(buyer.address)).to.equal(
+        ethers.parseEther("99")
+      );
+    });
+
+    it("Should return the escrow on cancellation", async function () {
+      await marketplace
+        .connect(operator)
+        .createOrder(user.address, TradeAsset.FOOD, 0, 6, 2);
+      await marketplace.connect(operator).fillOrder(1, 2, buyer.address);
+
+      await expect(
+        marketplace.connect(operator).cancelOrder(1, buyer.address)
+      ).to.be.revertedWith("Caller is not the seller");
+      await expect(marketplace.connect(operator).cancelOrder(1, user.address))
+        .to.emit(marketplace, "OrderCancelled")
+        .withArgs(1);
+      expect(await food.balanceOf(user.address, 0)).to.equal(8);
+      expect(await food.balanceOf(await marketplace.getAddress(), 0)).to.equal(
+        0
+      );
+    });
+
+    it("Should validate orders and fills", async function () {
+      await expect(
+        marketplace
+          .connect(operator)
+          .createOrder(user.address, TradeAsset.FOOD, 0, 0, 2)
+      ).to.be.revertedWith("Amount must be greater than 0");
+      await expect(
+        marketplace
+          .connect(operator)
+          .createOrder(user.address, TradeAsset.FOOD, 0, 1, 0)
+      ).to.be.revertedWith("Price must be positive");
+      await expect(
+        marketplace
+          .connect(operator)
+          .createOrder(user.address, TradeAsset.ITEM, 0, 1, 1)
+      ).to.be.revertedWith("Only item orders have an item id");
+      await expect(
+        marketplace
+          .connect(user)
+          .createOrder(user.address, TradeAsset.FOOD, 0, 1, 1)
+      ).to.be.revertedWith("Caller is not the operator");
+
+      await marketplace
+        .connect(operator)
+        .createOrder(user.address, TradeAsset.FOOD, 0, 5, 30);
+      await expect(
+        marketplace.connect(operator).fillOrder(1, 1, user.address)
+      ).to.be.revertedWith("Cannot fill own order");
+      await expect(
+        marketplace.connect(operator).fillOrder(1, 6, buyer.address)
+      ).to.be.revertedWith("Invalid fill amount");
+      await expect(
+        marketplace.connect(operator).fillOrder(1, 4, buyer.address)
+      ).to.be.revertedWith("Not enough coins");
+      await expect(
+        marketplace.setTradeFee(1_001, treasury.address)
+      ).to.be.revertedWith("Trade fee too high");
+    });
+  });
+
   describe("Contract Management", function () {
     it("Should set new operator", async function () {
       await marketplace.connect(owner).setOperator(user.address);
@@ -157,14 +1233,14 @@ describe("Marketplace Contract", function () {
     it("Should pause and unpause contract", async function () {
       await marketplace.connect(owner).setPauseContract(true);
       await expect(
-        marketplace.connect(operator).exchangeCoinsToFood(10, user.address)
+        marketplace.connect(operator).exchangeCoinsToFood(10, 10, user.address)
       ).to.be.reverted;
 
       await marketplace.connect(owner).setPauseContract(false);
 
       await coins.connect(operator).mint(user.address, 100);
       await expect(
-        marketplace.connect(operator).exchangeCoinsToFood(10, user.address)
+        marketplace.connect(operator).exchangeCoinsToFood(10, 10, user.address)
       ).not.to.be.reverted;
     });
   });
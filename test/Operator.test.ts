@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import {
   Operator,
   Familiars,
@@ -12,8 +13,32 @@ import {
   FamiliarsLib,
   ERC6551Registry,
   KarmicWellSpring,
+  Crafting,
+  FamiliarsRenderer,
 } from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  getOperatorDomain,
+  signOperatorAction,
+  OperatorAction,
+  OperatorActionValues,
+  unorderedNonce,
+} from "../sdk/signatures";
+import {
+  ActionType,
+  buyFoodAction,
+  buyItemAction,
+  buyTreasureBoxAction,
+  craftAction,
+  equipItemAction,
+  goToLocationAction,
+  repairItemAction,
+  trainAction,
+} from "../sdk/actions";
+import { allowedActionsMask } from "../sdk/locations";
+import { PricingModel, TradeAsset } from "../sdk/FamiliarsClient";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 
 describe("Operator Contract", function () {
   let operator: Operator;
@@ -33,8 +58,28 @@ describe("Operator Contract", function () {
 
   // Constants for testing
   const TOKEN_URI = "ipfs://QmTest";
-  const CHAIN_ID = 84532;
   const SALT = 3123;
+  const DEADLINE = 4102444800n; // 2100-01-01
+
+  // Signs an action for the given caller, returning the trailing call arguments
+  async function signAction<A extends OperatorAction>(
+    action: A,
+    caller: SignerWithAddress,
+    params: Omit<OperatorActionValues[A], "caller" | "nonce" | "deadline">,
+    verifier: SignerWithAddress = owner,
+    nonce?: bigint
+  ): Promise<[bigint, bigint, string]> {
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = getOperatorDomain(await operator.getAddress(), chainId);
+    const value = {
+      ...params,
+      caller: caller.address,
+      nonce: nonce ?? (await operator.nonces(caller.address)),
+      deadline: DEADLINE,
+    } as OperatorActionValues[A];
+    const signature = await signOperatorAction(verifier, domain, action, value);
+    return [value.nonce as bigint, DEADLINE, signature];
+  }
 
   beforeEach(async function () {
     [owner, addr1, addr2] = await ethers.getSigners();
@@ -63,42 +108,34 @@ describe("Operator Contract", function () {
     );
     familiarsItem = await FamiliarsItemFactory.deploy();
 
-    const MarketplaceFactory = await ethers.getContractFactory("Marketplace");
-
     const RegistryFactory = await ethers.getContractFactory("ERC6551Registry");
     registry = await RegistryFactory.deploy();
 
-    const OperatorFactory = await ethers.getContractFactory("Operator", {
-      libraries: {
-        FamiliarsLib: familiarsLib,
-      },
-    });
-
-    // Deploy all required contracts
-    const karmicSpringFactory = await ethers.getContractFactory(
-      "KarmicWellSpring"
-    );
-    karmicwellspring = await karmicSpringFactory.deploy(
+    // Deploy the upgradeable contracts behind their proxies
+    karmicwellspring = await deployProxy<KarmicWellSpring>("KarmicWellSpring", [
       await karmicEnergy.getAddress(),
       await food.getAddress(),
-      await coins.getAddress()
-    );
-
-    marketplace = await MarketplaceFactory.deploy(
+      await coins.getAddress(),
+    ]);
+    marketplace = await deployProxy<Marketplace>("Marketplace", [
       await karmicEnergy.getAddress(),
       await food.getAddress(),
-      await coins.getAddress()
-    );
-    operator = await OperatorFactory.deploy(
-      await familiars.getAddress(),
-      await food.getAddress(),
       await coins.getAddress(),
-      await karmicEnergy.getAddress(),
-      await familiarsItem.getAddress(),
-      await marketplace.getAddress(),
-      await karmicwellspring.getAddress(),
-      await registry.getAddress(),
-      await tbaImpl.getAddress()
+    ]);
+    operator = await deployProxy<Operator>(
+      "Operator",
+      [
+        await familiars.getAddress(),
+        await food.getAddress(),
+        await coins.getAddress(),
+        await karmicEnergy.getAddress(),
+        await familiarsItem.getAddress(),
+        await marketplace.getAddress(),
+        await karmicwellspring.getAddress(),
+        await registry.getAddress(),
+        await tbaImpl.getAddress(),
+      ],
+      { libraries: { FamiliarsLib: familiarsLib } }
     );
 
     const operatorAddress = await operator.getAddress();
@@ -145,32 +182,242 @@ describe("Operator Contract", function () {
 
   describe("NPC Creation", function () {
     it("Should create NPC with valid signature", async function () {
-      const nonce = await operator.nonce();
-      const message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, owner.address]
-      );
-      const signature = await owner.signMessage(ethers.getBytes(message));
+      const nonce = await operator.nonces(owner.address);
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
 
-      await operator.createNPC(addr1.address, TOKEN_URI, signature);
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
       expect(await familiars.ownerOf(1)).to.equal(addr1.address);
-      expect(await operator.nonce()).to.equal(nonce + 1n);
+      expect(await operator.nonces(owner.address)).to.equal(nonce + 1n);
     });
 
     it("Should fail with invalid signature", async function () {
-      const nonce = await operator.nonce();
-      const message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, addr1.address]
+      const auth = await signAction(
+        "CreateNPC",
+        addr1,
+        { to: addr1.address, uri: TOKEN_URI },
+        addr1
+      );
+
+      await expect(
+        operator.createNPC(addr1.address, TOKEN_URI, ...auth)
+      ).to.be.revertedWith("Invalid signature");
+    });
+  });
+
+  describe("Typed Signatures", function () {
+    beforeEach(async function () {
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+    });
+
+    it("Should reject a signature spent on a different action", async function () {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 2,
+      });
+
+      await expect(
+        operator.connect(addr1).buyTreasureBox(1, 0, ...auth)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject a signature spent on a different token or location", async function () {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 2,
+      });
+
+      await expect(
+        operator.connect(addr1).goToLocation(2, 2, ...auth)
+      ).to.be.revertedWith("Invalid signature");
+      await expect(
+        operator.connect(addr1).goToLocation(1, 3, ...auth)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject a signature submitted by another caller", async function () {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 2,
+      });
+
+      await expect(
+        operator.connect(addr2).goToLocation(1, 2, ...auth)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject an expired signature", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = getOperatorDomain(await operator.getAddress(), chainId);
+      const deadline = (await time.latest()) - 1;
+      const signature = await signOperatorAction(
+        owner,
+        domain,
+        "GoToLocation",
+        {
+          caller: addr1.address,
+          tokenId: 1,
+          location: 2,
+          nonce: 0,
+          deadline,
+        }
+      );
+
+      await expect(
+        operator.connect(addr1).goToLocation(1, 2, 0, deadline, signature)
+      ).to.be.revertedWith("Signature expired");
+    });
+
+    it("Should reject a signature for another Operator deployment", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = getOperatorDomain(addr2.address, chainId);
+      const signature = await signOperatorAction(
+        owner,
+        domain,
+        "GoToLocation",
+        {
+          caller: addr1.address,
+          tokenId: 1,
+          location: 2,
+          nonce: 0,
+          deadline: DEADLINE,
+        }
       );
-      const signature = await addr1.signMessage(ethers.getBytes(message));
 
       await expect(
-        operator.createNPC(addr1.address, TOKEN_URI, signature)
+        operator.connect(addr1).goToLocation(1, 2, 0, DEADLINE, signature)
       ).to.be.revertedWith("Invalid signature");
     });
   });
 
+  describe("Nonces", function () {
+    beforeEach(async function () {
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+      await operator.createNPC(
+        addr2.address,
+        TOKEN_URI,
+        ...(await signAction("CreateNPC", owner, {
+          to: addr2.address,
+          uri: TOKEN_URI,
+        }))
+      );
+    });
+
+    it("Should track sequential nonces per caller", async function () {
+      const auth1 = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      const auth2 = await signAction("GoToLocation", addr2, {
+        tokenId: 2,
+        location: 3,
+      });
+
+      await operator.connect(addr2).goToLocation(2, 3, ...auth2);
+      await operator.connect(addr1).goToLocation(1, 3, ...auth1);
+
+      expect(await operator.nonces(addr1.address)).to.equal(1);
+      expect(await operator.nonces(addr2.address)).to.equal(1);
+    });
+
+    it("Should reject a replayed sequential nonce", async function () {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      await operator.connect(addr1).goToLocation(1, 3, ...auth);
+
+      await expect(
+        operator.connect(addr1).goToLocation(1, 3, ...auth)
+      ).to.be.revertedWith("Invalid nonce");
+    });
+
+    it("Should accept unordered nonces in any order", async function () {
+      const flag = await operator.UNORDERED_NONCE_FLAG();
+      const first = await signAction(
+        "GoToLocation",
+        addr1,
+        { tokenId: 1, location: 3 },
+        owner,
+        unorderedNonce(7)
+      );
+      const second = await signAction(
+        "GoToLocation",
+        addr1,
+        { tokenId: 1, location: 4 },
+        owner,
+        unorderedNonce(300)
+      );
+
+      expect(unorderedNonce(0)).to.equal(flag);
+      await operator.connect(addr1).goToLocation(1, 4, ...second);
+      await operator.connect(addr1).goToLocation(1, 3, ...first);
+
+      expect(await operator.isNonceUsed(addr1.address, unorderedNonce(7))).to.be
+        .true;
+      expect(await operator.isNonceUsed(addr1.address, unorderedNonce(300))).to
+        .be.true;
+      expect(await operator.isNonceUsed(addr1.address, unorderedNonce(8))).to.be
+        .false;
+      expect(await operator.nonceBitmap(addr1.address, 1)).to.equal(1n << 44n);
+      expect(await operator.nonces(addr1.address)).to.equal(0);
+      await expect(
+        operator.connect(addr1).goToLocation(1, 3, ...first)
+      ).to.be.revertedWith("Nonce already used");
+    });
+
+    it("Should let the player invalidate an issued signature", async function () {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+
+      await expect(operator.connect(addr1).invalidateNonce(addr1.address, 0))
+        .to.emit(operator, "NonceInvalidated")
+        .withArgs(addr1.address, 0);
+
+      expect(await operator.nonces(addr1.address)).to.equal(1);
+      await expect(
+        operator.connect(addr1).goToLocation(1, 3, ...auth)
+      ).to.be.revertedWith("Invalid nonce");
+    });
+
+    it("Should let the verifier invalidate an unordered nonce", async function () {
+      const auth = await signAction(
+        "GoToLocation",
+        addr1,
+        { tokenId: 1, location: 3 },
+        owner,
+        unorderedNonce(5)
+      );
+
+      await operator.invalidateNonce(addr1.address, unorderedNonce(5));
+
+      await expect(
+        operator.connect(addr1).goToLocation(1, 3, ...auth)
+      ).to.be.revertedWith("Nonce already used");
+      await expect(
+        operator.invalidateNonce(addr1.address, unorderedNonce(5))
+      ).to.be.revertedWith("Nonce already used");
+    });
+
+    it("Should not let others invalidate a player's nonce", async function () {
+      await expect(
+        operator.connect(addr2).invalidateNonce(addr1.address, 0)
+      ).to.be.revertedWith("Caller is not the nonce owner or the verifier");
+    });
+  });
+
   describe("Location Movement", function () {
     const itemAttributes = {
       healthIncrease: 0,
@@ -185,54 +432,65 @@ describe("Operator Contract", function () {
       luckDecrease: 0,
     };
     beforeEach(async function () {
-      let nonce = await operator.nonce();
-      let message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, owner.address]
-      );
-      let signature = await owner.signMessage(ethers.getBytes(message));
-      await operator.createNPC(addr1.address, TOKEN_URI, signature);
+      let auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
 
       const tba = await operator._getTba(1);
       await familiarsItem.ownerMint(tba, 1, 10, itemAttributes);
       await familiarsItem.ownerMint(tba, 2, 10, itemAttributes);
+      await familiarsItem.setItemSlot(1, 2); // Mouth
+      await familiarsItem.setItemSlot(2, 1); // Head
     });
 
     it("Should move to location with valid signature", async function () {
-      const nonce = await operator.nonce();
-      const message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, addr1.address]
-      );
-      const signature = await owner.signMessage(ethers.getBytes(message));
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
 
-      await operator.connect(addr1).goToLocation(1, 3, signature); // 3 = GATHERING_AREA
+      await operator.connect(addr1).goToLocation(1, 3, ...auth); // 3 = GATHERING_AREA
       expect(await familiars.getCurrentLocation(1)).to.deep.equal([
         "Gathering Area",
         3,
       ]);
     });
+    it("Should signal a metadata update when equipping", async function () {
+      const auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 2,
+        itemId: 1,
+      });
+      await expect(operator.connect(addr1).equipItem(1, 2, 1, ...auth))
+        .to.emit(familiars, "MetadataUpdate")
+        .withArgs(1);
+    });
     it("Should move to location with equipment", async function () {
-      let nonce = await operator.nonce();
-      let message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, addr1.address]
-      );
-      let signature = await owner.signMessage(ethers.getBytes(message));
-
-      await operator.connect(addr1).equipItem(1, 1, 2, signature);
+      let auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 2,
+        itemId: 1,
+      });
+      await operator.connect(addr1).equipItem(1, 2, 1, ...auth);
+      auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 1,
+        itemId: 2,
+      });
+      await operator.connect(addr1).equipItem(1, 1, 2, ...auth);
 
-      nonce = await operator.nonce();
-      message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, addr1.address]
-      );
-      signature = await owner.signMessage(ethers.getBytes(message));
+      auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
 
-      await operator.connect(addr1).goToLocation(1, 3, signature);
+      await operator.connect(addr1).goToLocation(1, 3, ...auth);
       const stats = await operator.getNPCStats(1);
 
-      expect(stats[3]).to.be.gt(4);
+      // Both slots add their karmic energy
+      expect(stats[3]).to.equal(10);
     });
   });
 
@@ -251,46 +509,186 @@ describe("Operator Contract", function () {
     };
 
     beforeEach(async function () {
-      const nonce = await operator.nonce();
-      const message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, owner.address]
-      );
-      const signature = await owner.signMessage(ethers.getBytes(message));
-      await operator.createNPC(addr1.address, TOKEN_URI, signature);
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
     });
 
     it("Should equip items with valid signature", async function () {
       // First mint some items
       const tba = await operator._getTba(1);
       await familiarsItem.ownerMint(tba, 1, 10, itemAttributes);
-      await familiarsItem.ownerMint(tba, 2, 10, itemAttributes);
+      await familiarsItem.setItemSlot(1, 4); // Charm
 
-      let nonce = await operator.nonce();
-      let message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, addr1.address]
-      );
-      let signature = await owner.signMessage(ethers.getBytes(message));
+      const auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 4,
+        itemId: 1,
+      });
+
+      await expect(operator.connect(addr1).equipItem(1, 4, 1, ...auth))
+        .to.emit(familiars, "ItemEquipped")
+        .withArgs(1, 4, 1);
+
+      const [, , , , , equippedItems] = await operator.getNPCStats(1);
+      expect(equippedItems).to.have.length(1);
+      expect(equippedItems[0].slot).to.equal(4);
+      expect(equippedItems[0].itemId).to.equal(1);
+    });
+
+    it("Should bundle equipping an item", async function () {
+      const tba = await operator._getTba(1);
+      await familiarsItem.ownerMint(tba, 1, 10, itemAttributes);
+      await familiarsItem.setItemSlot(1, 3); // Body
+
+      const actions = [equipItemAction(3, 1)];
+      const auth = await signAction("ExecuteActions", addr1, {
+        tokenId: 1,
+        actions,
+      });
+      await operator.connect(addr1).executeActions(1, actions, ...auth);
+
+      const [equipped] = await familiars.getEquippedItems(1);
+      expect(equipped.itemId).to.equal(1);
+    });
+
+    it("Should compute luck from the equipped items", async function () {
+      const tba = await operator._getTba(1);
+      await familiarsItem.ownerMint(tba, 1, 1, {
+        ...itemAttributes,
+        luckIncrease: 80,
+      });
+      await familiarsItem.ownerMint(tba, 2, 1, {
+        ...itemAttributes,
+        luckIncrease: 0,
+        luckDecrease: 20,
+      });
+      await familiarsItem.ownerMint(tba, 3, 1, {
+        ...itemAttributes,
+        luckIncrease: 90,
+      });
+      await familiarsItem.setItemSlot(1, 1);
+      await familiarsItem.setItemSlot(2, 2);
+      await familiarsItem.setItemSlot(3, 4);
+      expect(await operator.getLuck(1)).to.equal(0);
+
+      for (const [slot, itemId] of [
+        [1, 1],
+        [2, 2],
+      ]) {
+        const auth = await signAction("EquipItem", addr1, {
+          tokenId: 1,
+          slot,
+          itemId,
+        });
+        await operator.connect(addr1).equipItem(1, slot, itemId, ...auth);
+      }
+      expect(await operator.getLuck(1)).to.equal(60);
+
+      // Luck is bounded to 100
+      const auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 4,
+        itemId: 3,
+      });
+      await operator.connect(addr1).equipItem(1, 4, 3, ...auth);
+      expect(await operator.getLuck(1)).to.equal(100);
+
+      // Items that left the account no longer count
+      await familiarsItem.setOperator(owner.address);
+      await familiarsItem.operatorTransfer(tba, owner.address, 3, 1);
+      expect(await operator.getLuck(1)).to.equal(60);
+    });
+
+    it("Should wear equipped items on every trip", async function () {
+      const tba = await operator._getTba(1);
+      await familiarsItem.ownerMint(tba, 1, 1, itemAttributes);
+      await familiarsItem.setItemSlot(1, 1);
+      await familiarsItem.setItemDurability(1, 3, 1);
+      let auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 1,
+        itemId: 1,
+      });
+      await operator.connect(addr1).equipItem(1, 1, 1, ...auth);
 
-      await operator.connect(addr1).equipItem(1, 1, 2, signature);
+      let [, , , , , equipped] = await operator.getNPCStats(1);
+      expect(equipped[0].durability).to.equal(3);
+      expect(equipped[0].maxDurability).to.equal(3);
 
-      const equippedItems = await familiars.getEquippedItems(1);
+      auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      await expect(operator.connect(addr1).goToLocation(1, 3, ...auth))
+        .to.emit(familiarsItem, "ItemWorn")
+        .withArgs(tba, 1, 2);
+      [, , , , , equipped] = await operator.getNPCStats(1);
+      expect(equipped[0].durability).to.equal(2);
+    });
+
+    it("Should burn and unequip items when they break", async function () {
+      const tba = await operator._getTba(1);
+      await familiarsItem.ownerMint(tba, 1, 1, itemAttributes);
+      await familiarsItem.setItemSlot(1, 1);
+      await familiarsItem.setItemDurability(1, 1, 1);
+      let auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 1,
+        itemId: 1,
+      });
+      await operator.connect(addr1).equipItem(1, 1, 1, ...auth);
+
+      auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      await expect(operator.connect(addr1).goToLocation(1, 3, ...auth))
+        .to.emit(familiarsItem, "ItemBroken")
+        .withArgs(tba, 1)
+        .and.to.emit(familiars, "ItemUnequipped")
+        .withArgs(1, 1, 1);
+      expect(await familiarsItem.balanceOf(tba, 1)).to.equal(0);
+      expect(await familiars.getEquippedItems(1)).to.be.empty;
+      // The bonus still applied on the last use
+      expect((await operator.getNPCStats(1))[3]).to.equal(5);
+    });
 
-      expect(equippedItems.mouth).to.equal(1);
-      expect(equippedItems.head).to.equal(2);
+    it("Should unequip items the Familiar no longer holds", async function () {
+      const tba = await operator._getTba(1);
+      await familiarsItem.ownerMint(tba, 1, 1, itemAttributes);
+      await familiarsItem.setItemSlot(1, 1);
+      let auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 1,
+        itemId: 1,
+      });
+      await operator.connect(addr1).equipItem(1, 1, 1, ...auth);
+
+      // Move the item out of the Familiar's account
+      await familiarsItem.setOperator(owner.address);
+      await familiarsItem.operatorTransfer(tba, owner.address, 1, 1);
+      await familiarsItem.setOperator(await operator.getAddress());
+      auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      await expect(operator.connect(addr1).goToLocation(1, 3, ...auth))
+        .to.emit(familiars, "ItemUnequipped")
+        .withArgs(1, 1, 1);
+      expect(await familiars.getEquippedItems(1)).to.be.empty;
     });
   });
 
   describe("Stats Management", function () {
     beforeEach(async function () {
-      const nonce = await operator.nonce();
-      const message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, owner.address]
-      );
-      const signature = await owner.signMessage(ethers.getBytes(message));
-      await operator.createNPC(addr1.address, TOKEN_URI, signature);
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
     });
 
     it("Should return correct NPC stats", async function () {
@@ -308,8 +706,7 @@ describe("Operator Contract", function () {
       expect(coinBalance).to.equal(0);
       expect(karmicBalance).to.equal(0);
       expect(foodBalance).to.equal(0);
-      expect(equippedItems.mouth).to.equal(0);
-      expect(equippedItems.head).to.equal(0);
+      expect(equippedItems).to.be.empty;
     });
   });
 
@@ -327,16 +724,15 @@ describe("Operator Contract", function () {
       getHealth: 10,
       getKarmicEnergy: 50,
       getFood: 100,
+      minLevel: 0,
     };
     beforeEach(async function () {
       // Create NPC
-      const nonce = await operator.nonce();
-      const message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, owner.address]
-      );
-      const signature = await owner.signMessage(ethers.getBytes(message));
-      await operator.createNPC(addr1.address, TOKEN_URI, signature);
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
 
       // Set up exchange rates in karmicwellspring
       await karmicwellspring.connect(owner).addExchangeRate(50, 10, 10); // 50 karmic -> 10 coins, 10 food
@@ -393,34 +789,26 @@ describe("Operator Contract", function () {
 
     describe("Karmic Energy Exchange", function () {
       beforeEach(async function () {
-        let nonce = await operator.nonce();
-
-        let message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        let signature = await owner.signMessage(ethers.getBytes(message));
+        let auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 1,
+        });
         await familiars.setLocationRequirements(1, requirements);
-        await operator.connect(addr1).goToLocation(1, 1, signature);
-        nonce = await operator.nonce();
-
-        message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        signature = await owner.signMessage(ethers.getBytes(message));
+        await operator.connect(addr1).goToLocation(1, 1, ...auth);
+        auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 0,
+        });
 
-        await operator.connect(addr1).goToLocation(1, 0, signature);
+        await operator.connect(addr1).goToLocation(1, 0, ...auth);
       });
       it("Should exchange karmic energy for rewards successfully", async function () {
         const tba = await operator._getTba(1);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("ExchangeKarmicEnergy", addr1, {
+          tokenId: 1,
+          karmicEnergyAmt: 50,
+        });
 
         // Initial balances
         const initialKarmic = await karmicEnergy.balanceOf(tba, 0);
@@ -428,7 +816,7 @@ describe("Operator Contract", function () {
         const initialFood = await food.balanceOf(tba, 0);
 
         // Exchange 50 karmic energy
-        await operator.connect(addr1).exchangeKarmicEnergy(1, 50, signature);
+        await operator.connect(addr1).exchangeKarmicEnergy(1, 50, ...auth);
         const decimal = await coins.decimals();
         const coinsLatest = 10n * 10n ** decimal;
 
@@ -441,34 +829,21 @@ describe("Operator Contract", function () {
       });
 
       it("Should fail exchange with insufficient karmic energy", async function () {
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, owner.address]
-        );
-
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("ExchangeKarmicEnergy", owner, {
+          tokenId: 1,
+          karmicEnergyAmt: 100,
+        });
 
-        await expect(operator.exchangeKarmicEnergy(1, 100, signature)).to.be
+        await expect(operator.exchangeKarmicEnergy(1, 100, ...auth)).to.be
           .reverted;
       });
 
       it("Should fail exchange with invalid karmic amount", async function () {
-        let nonce = await operator.nonce();
-        let message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, owner.address]
-        );
-        let signature = await owner.signMessage(ethers.getBytes(message));
-
-        nonce = await operator.nonce();
-        message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, owner.address]
-        );
-
-        signature = await owner.signMessage(ethers.getBytes(message));
-        await expect(operator.exchangeKarmicEnergy(1, 752, signature)).to.be
+        const auth = await signAction("ExchangeKarmicEnergy", owner, {
+          tokenId: 1,
+          karmicEnergyAmt: 752,
+        });
+        await expect(operator.exchangeKarmicEnergy(1, 752, ...auth)).to.be
           .reverted;
       });
 
@@ -477,29 +852,25 @@ describe("Operator Contract", function () {
 
         await karmicwellspring.connect(owner).setPauseContract(true);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, owner.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("ExchangeKarmicEnergy", owner, {
+          tokenId: 1,
+          karmicEnergyAmt: 50,
+        });
 
-        await expect(operator.exchangeKarmicEnergy(1, 50, signature)).to.be
+        await expect(operator.exchangeKarmicEnergy(1, 50, ...auth)).to.be
           .reverted;
       });
 
       it("Should emit KarmicExchanged event", async function () {
         const tba = await operator._getTba(1);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("ExchangeKarmicEnergy", addr1, {
+          tokenId: 1,
+          karmicEnergyAmt: 50,
+        });
 
         await expect(
-          operator.connect(addr1).exchangeKarmicEnergy(1, 50, signature)
+          operator.connect(addr1).exchangeKarmicEnergy(1, 50, ...auth)
         )
           .to.emit(karmicwellspring, "KarmicExchanged")
           .withArgs(tba, 50, 10, 10);
@@ -520,52 +891,43 @@ describe("Operator Contract", function () {
         getHealth: 10,
         getKarmicEnergy: 150,
         getFood: 0,
+        minLevel: 0,
       };
       beforeEach(async () => {
-        let nonce = await operator.nonce();
-
-        let message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        let signature = await owner.signMessage(ethers.getBytes(message));
+        let auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 1,
+        });
         await familiars.setLocationRequirements(1, requirements);
         const tba = await operator._getTba(1);
-        await operator.connect(addr1).goToLocation(1, 1, signature);
-        nonce = await operator.nonce();
-
-        message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        signature = await owner.signMessage(ethers.getBytes(message));
+        await operator.connect(addr1).goToLocation(1, 1, ...auth);
+        auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 0,
+        });
 
-        await operator.connect(addr1).goToLocation(1, 0, signature);
+        await operator.connect(addr1).goToLocation(1, 0, ...auth);
       });
       it("Should handle multiple exchanges correctly", async function () {
         const tba = await operator._getTba(1);
         const initialCoin = await coins.balanceOf(tba);
         const decimals = await coins.decimals();
 
-        let nonce = await operator.nonce();
-        let message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        let signature = await owner.signMessage(ethers.getBytes(message));
+        let auth = await signAction("ExchangeKarmicEnergy", addr1, {
+          tokenId: 1,
+          karmicEnergyAmt: 50,
+        });
 
         // First exchange - 50 KE should give 10 coins
-        await operator.connect(addr1).exchangeKarmicEnergy(1, 50, signature);
+        await operator.connect(addr1).exchangeKarmicEnergy(1, 50, ...auth);
 
         // Second exchange - 100 KE should give 25 coins
-        nonce = await operator.nonce();
-        message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        signature = await owner.signMessage(ethers.getBytes(message));
+        auth = await signAction("ExchangeKarmicEnergy", addr1, {
+          tokenId: 1,
+          karmicEnergyAmt: 100,
+        });
 
-        await operator.connect(addr1).exchangeKarmicEnergy(1, 100, signature);
+        await operator.connect(addr1).exchangeKarmicEnergy(1, 100, ...auth);
 
         const karmicCoinExchange = 35n * 10n ** decimals; // 10 + 25 exchange
 
@@ -603,24 +965,21 @@ describe("Operator Contract", function () {
       getHealth: 10,
       getKarmicEnergy: 50,
       getFood: 0,
+      minLevel: 0,
     };
     beforeEach(async function () {
       // Create NPC
-      let nonce = await operator.nonce();
-      let message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, owner.address]
-      );
-      let signature = await owner.signMessage(ethers.getBytes(message));
-      await operator.createNPC(addr1.address, TOKEN_URI, signature);
-      nonce = await operator.nonce();
-      message = ethers.solidityPackedKeccak256(
-        ["uint256", "uint256", "address"],
-        [nonce, CHAIN_ID, addr1.address]
-      );
-      signature = await owner.signMessage(ethers.getBytes(message));
+      let auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+      auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 1,
+      });
       await familiars.setLocationRequirements(1, requirements);
-      await operator.connect(addr1).goToLocation(1, 1, signature);
+      await operator.connect(addr1).goToLocation(1, 1, ...auth);
     });
 
     describe("Buy Treasure Box", function () {
@@ -630,67 +989,201 @@ describe("Operator Contract", function () {
         let tba = await operator._getTba(1);
         let initialCoins = await coins.balanceOf(tba);
 
-        let nonce = await operator.nonce();
-        let message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        let signature = await owner.signMessage(ethers.getBytes(message));
-        await operator.connect(addr1).goToLocation(1, 4, signature);
-        nonce = await operator.nonce();
-        message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        signature = await owner.signMessage(ethers.getBytes(message));
-        await operator.connect(addr1).buyTreasureBox(1, signature);
+        let auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 4,
+        });
+        await operator.connect(addr1).goToLocation(1, 4, ...auth);
+        auth = await signAction("BuyTreasureBox", addr1, {
+          tokenId: 1,
+          boxType: 0,
+        });
+        await operator.connect(addr1).buyTreasureBox(1, 0, ...auth);
 
         const finalCoins = await coins.balanceOf(tba);
 
         expect(finalCoins).to.be.not.equal(initialCoins);
       });
 
+      it("Should record the buyer's luck on the box", async function () {
+        const tba = await operator._getTba(1);
+        await familiarsItem.ownerMint(tba, 1, 1, {
+          healthIncrease: 0,
+          healthDecrease: 0,
+          karmicIncrease: 0,
+          karmicDecrease: 0,
+          foodIncrease: 0,
+          foodDecrease: 0,
+          coinIncrease: 0,
+          coinDecrease: 0,
+          luckIncrease: 30,
+          luckDecrease: 0,
+        });
+        await familiarsItem.setItemSlot(1, 4);
+        let auth = await signAction("EquipItem", addr1, {
+          tokenId: 1,
+          slot: 4,
+          itemId: 1,
+        });
+        await operator.connect(addr1).equipItem(1, 4, 1, ...auth);
+        auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 4,
+        });
+        await operator.connect(addr1).goToLocation(1, 4, ...auth);
+        auth = await signAction("BuyTreasureBox", addr1, {
+          tokenId: 1,
+          boxType: 0,
+        });
+        await operator.connect(addr1).buyTreasureBox(1, 0, ...auth);
+
+        expect((await marketplace.pendingBoxes(1)).luck).to.equal(30);
+      });
+
       it("Should fail to buy treasure box with insufficient coins", async function () {
         const tba = await operator._getTba(1);
         // Spend all coins
         const balance = await coins.balanceOf(tba);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("BuyTreasureBox", addr1, {
+          tokenId: 1,
+          boxType: 0,
+        });
 
-        await expect(operator.connect(addr1).buyTreasureBox(1, signature)).to.be
-          .reverted;
+        await expect(operator.connect(addr1).buyTreasureBox(1, 0, ...auth)).to
+          .be.reverted;
       });
 
       it("Should fail to buy treasure box when marketplace is paused", async function () {
         await marketplace.setPauseContract(true);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("BuyTreasureBox", addr1, {
+          tokenId: 1,
+          boxType: 0,
+        });
 
-        await expect(operator.connect(addr1).buyTreasureBox(1, signature)).to.be
-          .reverted;
+        await expect(operator.connect(addr1).buyTreasureBox(1, 0, ...auth)).to
+          .be.reverted;
+      });
+    });
+
+    describe("Buy Item", function () {
+      const ITEM_ID = 5;
+
+      beforeEach(async function () {
+        await familiarsItem.setMarketplace(await marketplace.getAddress());
+        await marketplace.setFamiliarsItem(await familiarsItem.getAddress());
+        await marketplace.setItemListing(ITEM_ID, 10, 10, 0, 0, 0);
+      });
+
+      it("Should buy listed items at the marketplace", async function () {
+        const tba = await operator._getTba(1);
+        let auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 4,
+        });
+        await operator.connect(addr1).goToLocation(1, 4, ...auth);
+
+        auth = await signAction("BuyItem", addr1, {
+          tokenId: 1,
+          itemId: ITEM_ID,
+          qty: 2,
+        });
+        await expect(operator.connect(addr1).buyItem(1, ITEM_ID, 2, ...auth))
+          .to.emit(marketplace, "BuyItem")
+          .withArgs(tba, ITEM_ID, 2, 20);
+        expect(await familiarsItem.balanceOf(tba, ITEM_ID)).to.equal(2);
+      });
+
+      it("Should only buy items at the marketplace", async function () {
+        const auth = await signAction("BuyItem", addr1, {
+          tokenId: 1,
+          itemId: ITEM_ID,
+          qty: 1,
+        });
+        await expect(
+          operator.connect(addr1).buyItem(1, ITEM_ID, 1, ...auth)
+        ).to.be.revertedWith("Action not allowed at location");
+      });
+
+      it("Should buy items in a bundle", async function () {
+        const tba = await operator._getTba(1);
+        const actions = [goToLocationAction(4), buyItemAction(ITEM_ID, 1)];
+        const auth = await signAction("ExecuteActions", addr1, {
+          tokenId: 1,
+          actions,
+        });
+        await operator.connect(addr1).executeActions(1, actions, ...auth);
+        expect(await familiarsItem.balanceOf(tba, ITEM_ID)).to.equal(1);
+      });
+    });
+
+    describe("Repair Item", function () {
+      const ITEM_ID = 6;
+
+      beforeEach(async function () {
+        await familiarsItem.setMarketplace(await marketplace.getAddress());
+        await marketplace.setFamiliarsItem(await familiarsItem.getAddress());
+        const tba = await operator._getTba(1);
+        await familiarsItem.ownerMint(tba, ITEM_ID, 1, {
+          healthIncrease: 0,
+          healthDecrease: 0,
+          karmicIncrease: 0,
+          karmicDecrease: 0,
+          foodIncrease: 0,
+          foodDecrease: 0,
+          coinIncrease: 0,
+          coinDecrease: 0,
+          luckIncrease: 0,
+          luckDecrease: 0,
+        });
+        await familiarsItem.setItemSlot(ITEM_ID, 3);
+        await familiarsItem.setItemDurability(ITEM_ID, 10, 4);
+        const auth = await signAction("EquipItem", addr1, {
+          tokenId: 1,
+          slot: 3,
+          itemId: ITEM_ID,
+        });
+        await operator.connect(addr1).equipItem(1, 3, ITEM_ID, ...auth);
+      });
+
+      it("Should repair items at the marketplace for coins", async function () {
+        const tba = await operator._getTba(1);
+        // The trip to the marketplace wears the item once
+        const actions = [goToLocationAction(4), repairItemAction(ITEM_ID)];
+        const auth = await signAction("ExecuteActions", addr1, {
+          tokenId: 1,
+          actions,
+        });
+        await expect(
+          operator.connect(addr1).executeActions(1, actions, ...auth)
+        )
+          .to.emit(marketplace, "RepairItem")
+          .withArgs(tba, ITEM_ID, 1, 4);
+
+        const [, , , , , equipped] = await operator.getNPCStats(1);
+        expect(equipped[0].durability).to.equal(10);
+      });
+
+      it("Should only repair items at the marketplace", async function () {
+        const auth = await signAction("RepairItem", addr1, {
+          tokenId: 1,
+          itemId: ITEM_ID,
+        });
+        await expect(
+          operator.connect(addr1).repairItem(1, ITEM_ID, ...auth)
+        ).to.be.revertedWith("Action not allowed at location");
       });
     });
 
     describe("Exchange Food to Coins", function () {
       beforeEach(async function () {
         const tba = await operator._getTba(1);
-        let nonce = await operator.nonce();
-        let message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        let signature = await owner.signMessage(ethers.getBytes(message));
-        await operator.connect(addr1).goToLocation(1, 4, signature);
+        let auth = await signAction("GoToLocation", addr1, {
+          tokenId: 1,
+          location: 4,
+        });
+        await operator.connect(addr1).goToLocation(1, 4, ...auth);
       });
 
       it("Should successfully exchange food for coins", async function () {
@@ -698,17 +1191,16 @@ describe("Operator Contract", function () {
         const initialFood = await food.balanceOf(tba, 0);
         const initialCoins = await coins.balanceOf(tba);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
-
         const foodAmount = 50;
+        const auth = await signAction("BuyFood", addr1, {
+          tokenId: 1,
+          coinsAmt: foodAmount,
+          minFoodOut: foodAmount,
+        });
+
         await operator
           .connect(addr1)
-          .buyFoodToMarketplace(1, foodAmount, signature);
+          .buyFoodToMarketplace(1, foodAmount, foodAmount, ...auth);
 
         const finalFood = await food.balanceOf(tba, 0);
         const finalCoins = await coins.balanceOf(tba);
@@ -720,30 +1212,28 @@ describe("Operator Contract", function () {
       it("Should fail to exchange food with insufficient balance", async function () {
         const tba = await operator._getTba(1);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("BuyFood", addr1, {
+          tokenId: 1,
+          coinsAmt: 150,
+          minFoodOut: 150,
+        });
 
         await expect(
-          operator.connect(addr1).buyFoodToMarketplace(1, 150, signature)
+          operator.connect(addr1).buyFoodToMarketplace(1, 150, 150, ...auth)
         ).to.be.reverted;
       });
 
       it("Should fail to exchange food when marketplace is paused", async function () {
         await marketplace.setPauseContract(true);
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("BuyFood", addr1, {
+          tokenId: 1,
+          coinsAmt: 50,
+          minFoodOut: 50,
+        });
 
         await expect(
-          operator.connect(addr1).buyFoodToMarketplace(1, 50, signature)
+          operator.connect(addr1).buyFoodToMarketplace(1, 50, 50, ...auth)
         ).to.be.reverted;
       });
 
@@ -751,19 +1241,858 @@ describe("Operator Contract", function () {
         const tba = await operator._getTba(1);
         const foodAmount = 50;
 
-        const nonce = await operator.nonce();
-        const message = ethers.solidityPackedKeccak256(
-          ["uint256", "uint256", "address"],
-          [nonce, CHAIN_ID, addr1.address]
-        );
-        const signature = await owner.signMessage(ethers.getBytes(message));
+        const auth = await signAction("BuyFood", addr1, {
+          tokenId: 1,
+          coinsAmt: foodAmount,
+          minFoodOut: foodAmount,
+        });
 
         await expect(
-          operator.connect(addr1).buyFoodToMarketplace(1, foodAmount, signature)
+          operator
+            .connect(addr1)
+            .buyFoodToMarketplace(1, foodAmount, foodAmount, ...auth)
         )
           .to.emit(marketplace, "FoodExchange")
           .withArgs(tba, foodAmount, foodAmount);
       });
+
+      it("Should revert when the price moves past minFoodOut", async function () {
+        await marketplace.setFoodPricing(PricingModel.FIXED, 8_000, [], 0, 0);
+
+        const auth = await signAction("BuyFood", addr1, {
+          tokenId: 1,
+          coinsAmt: 50,
+          minFoodOut: 50,
+        });
+        await expect(
+          operator.connect(addr1).buyFoodToMarketplace(1, 50, 50, ...auth)
+        ).to.be.revertedWith("Food below minimum");
+      });
+    });
+  });
+
+  describe("Karmic Tower Training", function () {
+    const requirements = {
+      minHealth: 1,
+      healthCost: 0,
+      minKarmicEnergy: 0,
+      karmicEnergyCost: 0,
+      minFood: 0,
+      foodCost: 0,
+      minCoin: 0,
+      coinCost: 0,
+      getCoin: 0,
+      getHealth: 30,
+      getKarmicEnergy: 150,
+      getFood: 0,
+      minLevel: 0,
+    };
+
+    beforeEach(async function () {
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+      await familiars.setLocationRequirements(1, requirements);
+    });
+
+    it("Should spend karmic energy at the tower for XP and levels", async function () {
+      const tba = await operator._getTba(1);
+      const actions = [goToLocationAction(1), trainAction(120)];
+      const auth = await signAction("ExecuteActions", addr1, {
+        tokenId: 1,
+        actions,
+      });
+
+      await expect(operator.connect(addr1).executeActions(1, actions, ...auth))
+        .to.emit(familiars, "XpGained")
+        .withArgs(1, 120, 120)
+        .and.to.emit(familiars, "LevelUp")
+        .withArgs(1, 2);
+      expect(await karmicEnergy.balanceOf(tba, 0)).to.equal(30);
+      expect(await familiars.getLevel(1)).to.equal(2);
+    });
+
+    it("Should signal a metadata update on level up", async function () {
+      let auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 1,
+      });
+      await operator.connect(addr1).goToLocation(1, 1, ...auth);
+
+      auth = await signAction("Train", addr1, {
+        tokenId: 1,
+        karmicEnergyAmt: 100,
+      });
+      await expect(operator.connect(addr1).train(1, 100, ...auth))
+        .to.emit(familiars, "LevelUp")
+        .withArgs(1, 2)
+        .and.to.emit(familiars, "MetadataUpdate")
+        .withArgs(1);
+    });
+
+    it("Should heal up to the max health of the level", async function () {
+      let auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 1,
+      });
+      await operator.connect(addr1).goToLocation(1, 1, ...auth);
+      expect(await familiars.getHealth(1)).to.equal(100);
+
+      auth = await signAction("Train", addr1, {
+        tokenId: 1,
+        karmicEnergyAmt: 100,
+      });
+      await operator.connect(addr1).train(1, 100, ...auth);
+      auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 1,
+      });
+      await operator.connect(addr1).goToLocation(1, 1, ...auth);
+      expect(await familiars.getHealth(1)).to.equal(110);
+    });
+
+    it("Should only train at the tower", async function () {
+      const auth = await signAction("Train", addr1, {
+        tokenId: 1,
+        karmicEnergyAmt: 10,
+      });
+      await expect(
+        operator.connect(addr1).train(1, 10, ...auth)
+      ).to.be.revertedWith("Action not allowed at location");
+    });
+
+    it("Should lock locations below their minimum level", async function () {
+      await familiars.setLocationRequirements(3, {
+        ...requirements,
+        minLevel: 2,
+      });
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      await expect(operator.connect(addr1).goToLocation(1, 3, ...auth))
+        .to.be.revertedWithCustomError(familiarsLib, "InsufficientLevel")
+        .withArgs(2, 1);
+    });
+  });
+
+  describe("Crafting", function () {
+    const NO_ATTRIBUTES = {
+      healthIncrease: 0,
+      healthDecrease: 0,
+      karmicIncrease: 0,
+      karmicDecrease: 0,
+      foodIncrease: 0,
+      foodDecrease: 0,
+      coinIncrease: 0,
+      coinDecrease: 0,
+      luckIncrease: 0,
+      luckDecrease: 0,
+    };
+    const requirements = {
+      minHealth: 1,
+      healthCost: 0,
+      minKarmicEnergy: 0,
+      karmicEnergyCost: 0,
+      minFood: 0,
+      foodCost: 0,
+      minCoin: 0,
+      coinCost: 0,
+      getCoin: 20,
+      getHealth: 0,
+      getKarmicEnergy: 0,
+      getFood: 0,
+      minLevel: 0,
+    };
+    const INPUT_ITEM_ID = 3;
+    const OUTPUT_ITEM_ID = 8;
+    let crafting: Crafting;
+
+    beforeEach(async function () {
+      crafting = await ethers.deployContract("Crafting", [
+        await karmicEnergy.getAddress(),
+        await food.getAddress(),
+        await coins.getAddress(),
+        await familiarsItem.getAddress(),
+      ]);
+      const craftingAddress = await crafting.getAddress();
+      await crafting.setOperator(await operator.getAddress());
+      await operator.setCrafting(craftingAddress);
+      await coins.setCrafting(craftingAddress);
+      await familiarsItem.setCrafting(craftingAddress);
+      await familiarsItem.setItemAttributes(OUTPUT_ITEM_ID, {
+        ...NO_ATTRIBUTES,
+        luckIncrease: 10,
+      });
+      await crafting.addRecipe(
+        {
+          name: "Charm",
+          enabled: true,
+          coins: 15,
+          food: 0,
+          karmicEnergy: 0,
+          outputItemId: OUTPUT_ITEM_ID,
+          outputAmount: 1,
+          outputAttributes: { ...NO_ATTRIBUTES, luckIncrease: 10 },
+        },
+        [{ itemId: INPUT_ITEM_ID, amount: 2 }]
+      );
+
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+      await familiarsItem.ownerMint(
+        await operator._getTba(1),
+        INPUT_ITEM_ID,
+        2,
+        NO_ATTRIBUTES
+      );
+      await familiars.setLocationRequirements(3, requirements);
+    });
+
+    it("Should craft a recipe at the gathering area", async function () {
+      const tba = await operator._getTba(1);
+      const actions = [goToLocationAction(3), craftAction(0)];
+      const auth = await signAction("ExecuteActions", addr1, {
+        tokenId: 1,
+        actions,
+      });
+
+      await expect(operator.connect(addr1).executeActions(1, actions, ...auth))
+        .to.emit(crafting, "Crafted")
+        .withArgs(tba, 0, OUTPUT_ITEM_ID, 1);
+      expect(await familiarsItem.balanceOf(tba, INPUT_ITEM_ID)).to.equal(0);
+      expect(await familiarsItem.balanceOf(tba, OUTPUT_ITEM_ID)).to.equal(1);
+      expect(await coins.balanceOf(tba)).to.equal(ethers.parseEther("5"));
+    });
+
+    it("Should only craft at the gathering area", async function () {
+      const auth = await signAction("Craft", addr1, {
+        tokenId: 1,
+        recipeId: 0,
+      });
+      await expect(
+        operator.connect(addr1).craft(1, 0, ...auth)
+      ).to.be.revertedWith("Action not allowed at location");
+    });
+
+    it("Should only allow the owner to set the crafting contract", async function () {
+      await expect(
+        operator.connect(addr1).setCrafting(addr1.address)
+      ).to.be.revertedWithCustomError(operator, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Metadata Rendering", function () {
+    let renderer: FamiliarsRenderer;
+
+    // Decodes a base64 data URI
+    const decode = (uri: string) =>
+      Buffer.from(uri.slice(uri.indexOf(",") + 1), "base64").toString();
+
+    beforeEach(async function () {
+      renderer = await ethers.deployContract("FamiliarsRenderer", [
+        await operator.getAddress(),
+      ]);
+      await familiars.setRenderer(await renderer.getAddress());
+
+      let auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+      await familiarsItem.ownerMint(await operator._getTba(1), 2, 1, {
+        healthIncrease: 0,
+        healthDecrease: 0,
+        karmicIncrease: 0,
+        karmicDecrease: 0,
+        foodIncrease: 0,
+        foodDecrease: 0,
+        coinIncrease: 0,
+        coinDecrease: 0,
+        luckIncrease: 0,
+        luckDecrease: 0,
+      });
+      await familiarsItem.setItemSlot(2, 1); // Head
+      auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 1,
+        itemId: 2,
+      });
+      await operator.connect(addr1).equipItem(1, 1, 2, ...auth);
+    });
+
+    it("Should render the live state of a Familiar", async function () {
+      await familiars.connect(addr1).setRenderedURI(1, true);
+      const uri = await familiars.tokenURI(1);
+      expect(uri).to.match(/^data:application\/json;base64,/);
+
+      const metadata = JSON.parse(decode(uri));
+      expect(metadata.name).to.equal("Familiar #1");
+      expect(metadata.attributes).to.deep.include({
+        trait_type: "Health",
+        value: 100,
+        max_value: 100,
+      });
+      expect(metadata.attributes).to.deep.include({
+        trait_type: "Location",
+        value: "Home",
+      });
+      expect(metadata.attributes).to.deep.include({
+        display_type: "number",
+        trait_type: "Level",
+        value: 1,
+      });
+      expect(metadata.attributes).to.deep.include({
+        trait_type: "Head",
+        value: "Item #2",
+      });
+      expect(metadata.image).to.match(/^data:image\/svg\+xml;base64,/);
+      expect(decode(metadata.image)).to.contain("Head: Item #2");
+    });
+
+    it("Should serve the stored URI unless switched on", async function () {
+      expect(await familiars.tokenURI(1)).to.equal(TOKEN_URI);
+
+      await familiars.connect(addr1).setRenderedURI(1, true);
+      await familiars.setRenderer(ethers.ZeroAddress);
+      expect(await familiars.tokenURI(1)).to.equal(TOKEN_URI);
+    });
+
+    it("Should signal a metadata update on every action", async function () {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      await expect(operator.connect(addr1).goToLocation(1, 3, ...auth))
+        .to.emit(familiars, "MetadataUpdate")
+        .withArgs(1);
+    });
+  });
+
+  describe("Location Registry", function () {
+    const requirements = {
+      minHealth: 0,
+      healthCost: 0,
+      minKarmicEnergy: 0,
+      karmicEnergyCost: 0,
+      minFood: 0,
+      foodCost: 0,
+      minCoin: 0,
+      coinCost: 0,
+      getCoin: 20,
+      getHealth: 0,
+      getKarmicEnergy: 0,
+      getFood: 0,
+      minLevel: 0,
+    };
+
+    beforeEach(async function () {
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+    });
+
+    it("Should apply requirements of added locations", async function () {
+      // Dungeon pays 20 coins and sells food
+      await familiars.addLocation(
+        "Dungeon",
+        allowedActionsMask([ActionType.GO_TO_LOCATION, ActionType.BUY_FOOD]),
+        requirements
+      );
+      let auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 5,
+      });
+      await expect(operator.connect(addr1).goToLocation(1, 5, ...auth))
+        .to.emit(familiars, "GoToLocation")
+        .withArgs(1, "Dungeon");
+
+      auth = await signAction("BuyFood", addr1, {
+        tokenId: 1,
+        coinsAmt: 5,
+        minFoodOut: 5,
+      });
+      await operator.connect(addr1).buyFoodToMarketplace(1, 5, 5, ...auth);
+      expect(await food.balanceOf(await operator._getTba(1), 0)).to.equal(5);
+    });
+
+    it("Should not travel to disabled locations", async function () {
+      await familiars.updateLocation(
+        3,
+        "Gathering Area",
+        false,
+        allowedActionsMask([ActionType.GO_TO_LOCATION])
+      );
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+
+      await expect(
+        operator.connect(addr1).goToLocation(1, 3, ...auth)
+      ).to.be.revertedWith("Location is not open");
+    });
+
+    it("Should only allow actions enabled at the current location", async function () {
+      let auth = await signAction("BuyFood", addr1, {
+        tokenId: 1,
+        coinsAmt: 1,
+        minFoodOut: 1,
+      });
+      await expect(
+        operator.connect(addr1).buyFoodToMarketplace(1, 1, 1, ...auth)
+      ).to.be.revertedWith("Action not allowed at location");
+
+      await familiars.updateLocation(2, "Home", true, 0);
+      auth = await signAction("EquipItem", addr1, {
+        tokenId: 1,
+        slot: 1,
+        itemId: 1,
+      });
+      await expect(
+        operator.connect(addr1).equipItem(1, 1, 1, ...auth)
+      ).to.be.revertedWith("Action not allowed at location");
+    });
+  });
+
+  describe("Upkeep", function () {
+    const HOUR = 3600;
+
+    beforeEach(async function () {
+      let auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+
+      // The Gathering Area hands out 5 food
+      await familiars.setLocationRequirements(3, {
+        minHealth: 0,
+        healthCost: 0,
+        minKarmicEnergy: 0,
+        karmicEnergyCost: 0,
+        minFood: 0,
+        foodCost: 0,
+        minCoin: 0,
+        coinCost: 0,
+        getCoin: 0,
+        getHealth: 0,
+        getKarmicEnergy: 0,
+        getFood: 5,
+        minLevel: 0,
+      });
+      await goTo(3);
+    });
+
+    async function goTo(location: number) {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location,
+      });
+      return operator.connect(addr1).goToLocation(1, location, ...auth);
+    }
+
+    it("Should not charge upkeep until it is configured", async function () {
+      await time.increase(10 * HOUR);
+      expect(await operator.pendingUpkeep(1)).to.deep.equal([0n, 0n, 10n]);
+
+      await expect(goTo(2)).not.to.emit(operator, "UpkeepSettled");
+      expect(await food.balanceOf(await operator._getTba(1), 0)).to.equal(5);
+    });
+
+    it("Should not charge for the hours before upkeep was configured", async function () {
+      await time.increase(10 * HOUR);
+      await operator.setUpkeep(2, 10);
+      expect(await operator.pendingUpkeep(1)).to.deep.equal([0n, 0n, 0n]);
+
+      await expect(goTo(2)).not.to.emit(operator, "UpkeepSettled");
+      expect(await food.balanceOf(await operator._getTba(1), 0)).to.equal(5);
+      expect(await familiars.getHealth(1)).to.equal(100);
+
+      await time.increase(2 * HOUR);
+      expect(await operator.pendingUpkeep(1)).to.deep.equal([4n, 0n, 2n]);
+    });
+
+    it("Should eat food for every elapsed hour", async function () {
+      await operator.setUpkeep(2, 10);
+      await time.increase(2 * HOUR);
+      expect(await operator.pendingUpkeep(1)).to.deep.equal([4n, 0n, 2n]);
+
+      await expect(goTo(2))
+        .to.emit(operator, "UpkeepSettled")
+        .withArgs(1, 4, 0);
+      expect(await food.balanceOf(await operator._getTba(1), 0)).to.equal(1);
+      expect(await familiars.getHealth(1)).to.equal(100);
+    });
+
+    it("Should drain health for the hours the food does not cover", async function () {
+      await operator.setUpkeep(2, 10);
+      await time.increase(5 * HOUR);
+      // 5 food covers 2 of the 5 hours
+      expect(await operator.pendingUpkeep(1)).to.deep.equal([5n, 30n, 5n]);
+
+      await goTo(2);
+      expect(await food.balanceOf(await operator._getTba(1), 0)).to.equal(0);
+      expect(await familiars.getHealth(1)).to.equal(70);
+    });
+
+    it("Should never drain health below 1", async function () {
+      await operator.setUpkeep(5, 50);
+      await time.increase(10 * HOUR);
+
+      await goTo(2);
+      expect(await familiars.getHealth(1)).to.equal(1);
+    });
+
+    it("Should carry partial hours over to the next settlement", async function () {
+      await operator.setUpkeep(1, 10);
+      // The clock restarts when the rates change
+      const changedAt = await operator.upkeepChangedAt();
+      await time.increase(HOUR + HOUR / 2);
+
+      await goTo(2);
+      expect(await familiars.getLastUpkeep(1)).to.equal(changedAt + 3600n);
+      expect((await operator.pendingUpkeep(1))[2]).to.equal(0);
+    });
+
+    it("Should only allow the owner to configure upkeep", async function () {
+      await expect(operator.connect(addr1).setUpkeep(1, 1))
+        .to.be.revertedWithCustomError(operator, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+      await expect(operator.setUpkeep(3, 7))
+        .to.emit(operator, "SetUpkeep")
+        .withArgs(3, 7);
+      expect(await operator.upkeep()).to.deep.equal([3n, 7n]);
+    });
+  });
+
+  describe("Travel", function () {
+    const requirements = {
+      minHealth: 0,
+      healthCost: 10,
+      minKarmicEnergy: 0,
+      karmicEnergyCost: 0,
+      minFood: 0,
+      foodCost: 0,
+      minCoin: 0,
+      coinCost: 0,
+      getCoin: 20,
+      getHealth: 0,
+      getKarmicEnergy: 0,
+      getFood: 0,
+      minLevel: 0,
+    };
+
+    beforeEach(async function () {
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+      await familiars.setLocationRequirements(4, requirements);
+      await familiars.setTravelDuration(2, 4, 3600); // Home to Marketplace
+    });
+
+    async function travelToMarketplace() {
+      const auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 4,
+      });
+      return operator.connect(addr1).goToLocation(1, 4, ...auth);
+    }
+
+    it("Should pay costs on departure and rewards on arrival", async function () {
+      await expect(travelToMarketplace())
+        .to.emit(familiars, "TravelStarted")
+        .and.not.to.emit(familiars, "GoToLocation");
+      let [health, location, coinBalance] = await operator.getNPCStats(1);
+      expect(health).to.equal(90);
+      expect(location).to.equal("Home");
+      expect(coinBalance).to.equal(0);
+      expect((await familiars.getEta(1)).remaining).to.equal(3600);
+
+      await expect(operator.arrive(1)).to.be.revertedWith(
+        "NPC has not arrived yet"
+      );
+      await time.increase(3600);
+      await expect(operator.connect(addr2).arrive(1))
+        .to.emit(familiars, "GoToLocation")
+        .withArgs(1, "Marketplace");
+
+      [health, location, coinBalance] = await operator.getNPCStats(1);
+      expect(health).to.equal(90);
+      expect(location).to.equal("Marketplace");
+      expect(coinBalance).to.equal(ethers.parseEther("20"));
+      await expect(operator.arrive(1)).to.be.revertedWith(
+        "NPC is not in transit"
+      );
+    });
+
+    it("Should block other actions while in transit", async function () {
+      await travelToMarketplace();
+
+      let auth = await signAction("BuyFood", addr1, {
+        tokenId: 1,
+        coinsAmt: 1,
+        minFoodOut: 1,
+      });
+      await expect(
+        operator.connect(addr1).buyFoodToMarketplace(1, 1, 1, ...auth)
+      ).to.be.revertedWith("NPC is in transit");
+
+      auth = await signAction("GoToLocation", addr1, {
+        tokenId: 1,
+        location: 3,
+      });
+      await expect(
+        operator.connect(addr1).goToLocation(1, 3, ...auth)
+      ).to.be.revertedWith("NPC is in transit");
+    });
+
+    it("Should arrive on the next action once the trip is over", async function () {
+      await travelToMarketplace();
+      await time.increase(3600);
+
+      const auth = await signAction("BuyFood", addr1, {
+        tokenId: 1,
+        coinsAmt: 5,
+        minFoodOut: 5,
+      });
+      await expect(
+        operator.connect(addr1).buyFoodToMarketplace(1, 5, 5, ...auth)
+      )
+        .to.emit(familiars, "GoToLocation")
+        .withArgs(1, "Marketplace");
+      expect(await food.balanceOf(await operator._getTba(1), 0)).to.equal(5);
+      expect(await familiars.isInTransit(1)).to.be.false;
+    });
+
+    it("Should arrive at once when the trip has no duration", async function () {
+      await familiars.setTravelDuration(2, 4, 0);
+
+      await expect(travelToMarketplace())
+        .to.emit(familiars, "GoToLocation")
+        .withArgs(1, "Marketplace");
+      expect(await familiars.isInTransit(1)).to.be.false;
+      expect((await operator.getNPCStats(1))[2]).to.equal(
+        ethers.parseEther("20")
+      );
+    });
+  });
+
+  describe("Action Bundles", function () {
+    const requirements = {
+      minHealth: 1,
+      healthCost: 10,
+      minKarmicEnergy: 0,
+      karmicEnergyCost: 0,
+      minFood: 0,
+      foodCost: 0,
+      minCoin: 0,
+      coinCost: 0,
+      getCoin: 20,
+      getHealth: 10,
+      getKarmicEnergy: 0,
+      getFood: 0,
+      minLevel: 0,
+    };
+
+    beforeEach(async function () {
+      const auth = await signAction("CreateNPC", owner, {
+        to: addr1.address,
+        uri: TOKEN_URI,
+      });
+      await operator.createNPC(addr1.address, TOKEN_URI, ...auth);
+      await familiars.setLocationRequirements(4, requirements);
+    });
+
+    it("Should apply a whole turn with a single signature", async function () {
+      const tba = await operator._getTba(1);
+      const actions = [
+        goToLocationAction(4),
+        buyFoodAction(10, 10),
+        buyTreasureBoxAction(0),
+        goToLocationAction(2),
+      ];
+      const auth = await signAction("ExecuteActions", addr1, {
+        tokenId: 1,
+        actions,
+      });
+
+      await expect(operator.connect(addr1).executeActions(1, actions, ...auth))
+        .to.emit(marketplace, "FoodExchange")
+        .withArgs(tba, 10, 10)
+        .and.to.emit(marketplace, "BuyTreasureBox");
+
+      expect(await familiars.getCurrentLocation(1)).to.deep.equal(["Home", 2]);
+      expect(await food.balanceOf(tba, 0)).to.equal(10);
+      expect(await operator.nonces(addr1.address)).to.equal(1);
+    });
+
+    it("Should revert with the index of the failing action", async function () {
+      const actions = [goToLocationAction(4), buyFoodAction(1000, 1000)];
+      const auth = await signAction("ExecuteActions", addr1, {
+        tokenId: 1,
+        actions,
+      });
+
+      await expect(operator.connect(addr1).executeActions(1, actions, ...auth))
+        .to.be.revertedWithCustomError(operator, "ActionFailed")
+        .withArgs(1, anyValue);
+
+      // Nothing from the bundle is applied
+      expect(await familiars.getCurrentLocation(1)).to.deep.equal(["Home", 2]);
+      expect(await operator.nonces(addr1.address)).to.equal(0);
+    });
+
+    it("Should reject a signature over a different bundle", async function () {
+      const auth = await signAction("ExecuteActions", addr1, {
+        tokenId: 1,
+        actions: [goToLocationAction(4)],
+      });
+
+      await expect(
+        operator
+          .connect(addr1)
+          .executeActions(1, [goToLocationAction(3)], ...auth)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject an empty bundle", async function () {
+      const auth = await signAction("ExecuteActions", addr1, {
+        tokenId: 1,
+        actions: [],
+      });
+
+      await expect(
+        operator.connect(addr1).executeActions(1, [], ...auth)
+      ).to.be.revertedWith("No actions to execute");
+    });
+
+    it("Should not allow bundled actions to be called directly", async function () {
+      await expect(
+        operator.connect(addr1).executeBundledAction(1, goToLocationAction(4))
+      ).to.be.revertedWith("Caller is not the operator");
+    });
+  });
+
+  describe("Order Book", function () {
+    const requirements = {
+      minHealth: 1,
+      healthCost: 0,
+      minKarmicEnergy: 0,
+      karmicEnergyCost: 0,
+      minFood: 0,
+      foodCost: 0,
+      minCoin: 0,
+      coinCost: 0,
+      getCoin: 20,
+      getHealth: 0,
+      getKarmicEnergy: 0,
+      getFood: 10,
+      minLevel: 0,
+    };
+    let seller: string;
+    let buyer: string;
+
+    beforeEach(async function () {
+      await familiars.setLocationRequirements(4, requirements);
+      for (const [tokenId, player] of [
+        [1, addr1],
+        [2, addr2],
+      ] as const) {
+        let auth = await signAction("CreateNPC", owner, {
+          to: player.address,
+          uri: TOKEN_URI,
+        });
+        await operator.createNPC(player.address, TOKEN_URI, ...auth);
+        auth = await signAction("GoToLocation", player, {
+          tokenId,
+          location: 4,
+        });
+        await operator.connect(player).goToLocation(tokenId, 4, ...auth);
+      }
+      seller = await operator._getTba(1);
+      buyer = await operator._getTba(2);
+
+      const auth = await signAction("CreateOrder", addr1, {
+        tokenId: 1,
+        asset: TradeAsset.FOOD,
+        itemId: 0,
+        amount: 5,
+        price: 2,
+      });
+      await operator
+        .connect(addr1)
+        .createOrder(1, TradeAsset.FOOD, 0, 5, 2, ...auth);
+    });
+
+    it("Should trade resources between Familiars", async function () {
+      expect(await food.balanceOf(seller, 0)).to.equal(5);
+
+      const auth = await signAction("FillOrder", addr2, {
+        tokenId: 2,
+        orderId: 1,
+        amount: 3,
+      });
+      await expect(operator.connect(addr2).fillOrder(2, 1, 3, ...auth))
+        .to.emit(marketplace, "OrderFilled")
+        .withArgs(1, buyer, 3, ethers.parseEther("6"), 0);
+
+      expect(await food.balanceOf(buyer, 0)).to.equal(13);
+      expect(await coins.balanceOf(buyer)).to.equal(ethers.parseEther("14"));
+      expect(await coins.balanceOf(seller)).to.equal(ethers.parseEther("26"));
+    });
+
+    it("Should return the escrow when the seller cancels", async function () {
+      let auth = await signAction("CancelOrder", addr2, {
+        tokenId: 2,
+        orderId: 1,
+      });
+      await expect(
+        operator.connect(addr2).cancelOrder(2, 1, ...auth)
+      ).to.be.revertedWith("Caller is not the seller");
+
+      auth = await signAction("CancelOrder", addr1, { tokenId: 1, orderId: 1 });
+      await expect(operator.connect(addr1).cancelOrder(1, 1, ...auth))
+        .to.emit(marketplace, "OrderCancelled")
+        .withArgs(1);
+      expect(await food.balanceOf(seller, 0)).to.equal(10);
+    });
+
+    it("Should only trade at the marketplace", async function () {
+      let auth = await signAction("GoToLocation", addr2, {
+        tokenId: 2,
+        location: 2,
+      });
+      await operator.connect(addr2).goToLocation(2, 2, ...auth);
+
+      auth = await signAction("FillOrder", addr2, {
+        tokenId: 2,
+        orderId: 1,
+        amount: 1,
+      });
+      await expect(
+        operator.connect(addr2).fillOrder(2, 1, 1, ...auth)
+      ).to.be.revertedWith("Action not allowed at location");
+    });
+
+    it("Should not bundle order book actions", async function () {
+      const actions = [{ actionType: ActionType.TRADE, data: "0x" }];
+      const auth = await signAction("ExecuteActions", addr2, {
+        tokenId: 2,
+        actions,
+      });
+      await expect(operator.connect(addr2).executeActions(2, actions, ...auth))
+        .to.be.revertedWithCustomError(operator, "ActionFailed")
+        .withArgs(0, anyValue);
     });
   });
 });
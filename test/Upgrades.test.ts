@@ -0,0 +1,166 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { KarmicWellSpring, Marketplace } from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
+import {
+  StorageSlot,
+  UPGRADEABLE_CONTRACTS,
+  compareStorageLayouts,
+  loadStorageLayout,
+  readStorageLayout,
+} from "../tasks/storageLayout";
+
+describe("Upgrades", function () {
+  let marketplace: Marketplace;
+  let karmicWellSpring: KarmicWellSpring;
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  // ERC-1967 slot holding the implementation behind a proxy
+  const IMPLEMENTATION_SLOT =
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+  async function implementationOf(proxy: { getAddress(): Promise<string> }) {
+    const slot = await ethers.provider.getStorage(
+      await proxy.getAddress(),
+      IMPLEMENTATION_SLOT
+    );
+    return ethers.getAddress(ethers.dataSlice(slot, 12));
+  }
+
+  beforeEach(async function () {
+    [owner, user] = await ethers.getSigners();
+
+    const karmicEnergy = await ethers.deployContract("KarmicEnergy");
+    const food = await ethers.deployContract("Food");
+    const coins = await ethers.deployContract("Coins");
+    const resources = [
+      await karmicEnergy.getAddress(),
+      await food.getAddress(),
+      await coins.getAddress(),
+    ];
+    marketplace = await deployProxy<Marketplace>("Marketplace", resources);
+    karmicWellSpring = await deployProxy<KarmicWellSpring>(
+      "KarmicWellSpring",
+      resources
+    );
+  });
+
+  describe("Proxies", function () {
+    it("Should keep the state across an upgrade", async function () {
+      await marketplace.setOperator(user.address);
+      await marketplace.setTradeFee(250, owner.address);
+      await karmicWellSpring.addExchangeRate(100, 25, 25);
+
+      for (const [contract, name] of [
+        [marketplace, "Marketplace"],
+        [karmicWellSpring, "KarmicWellSpring"],
+      ] as const) {
+        const implementation = await ethers.deployContract(name);
+        await expect(
+          contract.upgradeToAndCall(await implementation.getAddress(), "0x")
+        )
+          .to.emit(contract, "Upgraded")
+          .withArgs(await implementation.getAddress());
+        expect(await implementationOf(contract)).to.equal(
+          await implementation.getAddress()
+        );
+        expect(await contract.owner()).to.equal(owner.address);
+      }
+
+      expect(await marketplace.operator()).to.equal(user.address);
+      expect(await marketplace.tradeFee()).to.equal(250);
+      expect(await marketplace.nextBoxId()).to.equal(1);
+      expect(await marketplace.boxTypeCount()).to.equal(1);
+      expect(await karmicWellSpring.karmicToCoins(100)).to.equal(25);
+    });
+
+    it("Should only allow the owner to upgrade", async function () {
+      const implementation = await ethers.deployContract("Marketplace");
+      await expect(
+        marketplace
+          .connect(user)
+          .upgradeToAndCall(await implementation.getAddress(), "0x")
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should not initialize a proxy twice", async function () {
+      await expect(
+        marketplace.initialize(user.address, user.address, user.address)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidInitialization");
+    });
+
+    it("Should lock the implementations", async function () {
+      const implementation = await ethers.getContractAt(
+        "KarmicWellSpring",
+        await implementationOf(karmicWellSpring)
+      );
+      await expect(
+        implementation.initialize(user.address, user.address, user.address)
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+  });
+
+  describe("Storage Layouts", function () {
+    const layout: StorageSlot[] = [
+      { label: "operator", slot: 0, offset: 0, type: "address" },
+      { label: "paused", slot: 0, offset: 20, type: "bool" },
+      {
+        label: "prices",
+        slot: 1,
+        offset: 0,
+        type: "mapping(uint256 => uint256)",
+      },
+    ];
+
+    it("Should match the recorded layouts", async function () {
+      for (const name of UPGRADEABLE_CONTRACTS) {
+        expect(
+          compareStorageLayouts(
+            loadStorageLayout(hre, name),
+            await readStorageLayout(hre, name)
+          ),
+          name
+        ).to.deep.equal([]);
+      }
+    });
+
+    it("Should allow appending variables", function () {
+      expect(
+        compareStorageLayouts(layout, [
+          ...layout,
+          { label: "fee", slot: 2, offset: 0, type: "uint16" },
+        ])
+      ).to.deep.equal([]);
+    });
+
+    it("Should detect reordered variables", function () {
+      expect(
+        compareStorageLayouts(layout, [
+          { ...layout[2], slot: 0 },
+          { ...layout[0], slot: 1 },
+        ])
+      ).to.deep.equal([
+        "operator at slot 0:0 was replaced by prices",
+        "paused was removed from slot 0:20",
+        "prices at slot 1:0 was replaced by operator",
+      ]);
+    });
+
+    it("Should detect removed and retyped variables", function () {
+      expect(
+        compareStorageLayouts(layout, [
+          layout[0],
+          { ...layout[2], type: "mapping(uint256 => uint128)" },
+        ])
+      ).to.deep.equal([
+        "paused was removed from slot 0:20",
+        "prices changed type from mapping(uint256 => uint256) to mapping(uint256 => uint128)",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AddressInfo } from "net";
+import http from "http";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  Operator,
+  Familiars,
+  KarmicWellSpring,
+  Marketplace,
+} from "../typechain-types";
+import { deployProxy } from "./helpers/proxy";
+import { Location } from "../sdk/locations";
+import { unorderedNonce } from "../sdk/signatures";
+import { createVerifierService } from "../verifier/server";
+import { RateLimiter } from "../verifier/rateLimiter";
+
+describe("Verifier Service", function () {
+  let operator: Operator;
+  let familiars: Familiars;
+  let server: http.Server;
+  let url: string;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  let addr2: SignerWithAddress;
+
+  const TOKEN_URI = "ipfs://QmTest";
+
+  // Posts a sign request, returning the status and JSON body
+  async function requestSignature(request: Record<string, unknown>) {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return { status: res.status, body: await res.json() };
+  }
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+
+    familiars = await ethers.deployContract("Familiars");
+    const familiarsLib = await ethers.deployContract("FamiliarsLib");
+    const tbaImpl = await ethers.deployContract("ERC6551Account");
+    const coins = await ethers.deployContract("Coins");
+    const karmicEnergy = await ethers.deployContract("KarmicEnergy");
+    const food = await ethers.deployContract("Food");
+    const familiarsItem = await ethers.deployContract("FamiliarsItem");
+    const registry = await ethers.deployContract("ERC6551Registry");
+    const resources = [
+      await karmicEnergy.getAddress(),
+      await food.getAddress(),
+      await coins.getAddress(),
+    ];
+    const wellspring = await deployProxy<KarmicWellSpring>(
+      "KarmicWellSpring",
+      resources
+    );
+    const marketplace = await deployProxy<Marketplace>(
+      "Marketplace",
+      resources
+    );
+
+    operator = await deployProxy<Operator>(
+      "Operator",
+      [
+        await familiars.getAddress(),
+        await food.getAddress(),
+        await coins.getAddress(),
+        await karmicEnergy.getAddress(),
+        await familiarsItem.getAddress(),
+        await marketplace.getAddress(),
+        await wellspring.getAddress(),
+        await registry.getAddress(),
+        await tbaImpl.getAddress(),
+      ],
+      { libraries: { FamiliarsLib: familiarsLib } }
+    );
+
+    const operatorAddress = await operator.getAddress();
+    for (const contract of [
+      familiars,
+      coins,
+      karmicEnergy,
+      food,
+      familiarsItem,
+      marketplace,
+      wellspring,
+    ]) {
+      await contract.setOperator(operatorAddress);
+    }
+    for (const contract of [coins, karmicEnergy, food]) {
+      await contract.setMarketplace(await marketplace.getAddress());
+      await contract.setKarmicWellSpring(await wellspring.getAddress());
+    }
+
+    server = await createVerifierService({
+      operator: operatorAddress,
+      provider: ethers.provider,
+      verifier: owner,
+      rateLimit: { limit: 3, windowMs: 60_000 },
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sign`;
+
+    const { body } = await requestSignature({
+      action: "CreateNPC",
+      caller: addr1.address,
+      params: { to: addr1.address, uri: TOKEN_URI },
+    });
+    await operator
+      .connect(addr1)
+      .createNPC(
+        addr1.address,
+        TOKEN_URI,
+        body.nonce,
+        body.deadline,
+        body.signature
+      );
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe("Signing", function () {
+    it("Should sign actions that pass the rules", async function () {
+      const { status, body } = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.GATHERING_AREA },
+      });
+
+      expect(status).to.equal(200);
+      expect(body.nonce).to.equal("1");
+      await operator
+        .connect(addr1)
+        .goToLocation(
+          1,
+          Location.GATHERING_AREA,
+          body.nonce,
+          body.deadline,
+          body.signature
+        );
+      const [, location] = await familiars.getCurrentLocation(1);
+      expect(location).to.equal(Location.GATHERING_AREA);
+    });
+
+    it("Should sign for a requested unordered nonce", async function () {
+      const nonce = unorderedNonce(3);
+      const { status, body } = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.GATHERING_AREA },
+        nonce: nonce.toString(),
+      });
+
+      expect(status).to.equal(200);
+      expect(BigInt(body.nonce)).to.equal(nonce);
+    });
+
+    it("Should reject spent nonces", async function () {
+      await operator
+        .connect(addr1)
+        .invalidateNonce(addr1.address, unorderedNonce(3));
+      const { status, body } = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.GATHERING_AREA },
+        nonce: unorderedNonce(3).toString(),
+      });
+
+      expect(status).to.equal(422);
+      expect(body.error).to.equal("Nonce already used");
+    });
+  });
+
+  describe("Rules", function () {
+    it("Should refuse actions on Familiars the caller does not own", async function () {
+      const { status, body } = await requestSignature({
+        action: "GoToLocation",
+        caller: addr2.address,
+        params: { tokenId: "1", location: Location.GATHERING_AREA },
+      });
+
+      expect(status).to.equal(422);
+      expect(body.error).to.equal("Caller does not own the Familiar");
+    });
+
+    it("Should refuse trips whose requirements are not met", async function () {
+      await familiars.setLocationRequirements(Location.KARMIC_TOWER, {
+        minHealth: 0,
+        healthCost: 0,
+        minKarmicEnergy: 0,
+        karmicEnergyCost: 0,
+        minFood: 2,
+        foodCost: 1,
+        minCoin: 0,
+        coinCost: 0,
+        getCoin: 0,
+        getHealth: 0,
+        getKarmicEnergy: 0,
+        getFood: 0,
+        minLevel: 0,
+      });
+      const { status, body } = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.KARMIC_TOWER },
+      });
+
+      expect(status).to.equal(422);
+      expect(body.error).to.equal("Insufficient food: requires 2, has 0");
+    });
+
+    it("Should refuse actions while the Familiar is in transit", async function () {
+      await familiars.setTravelDuration(
+        Location.HOME,
+        Location.GATHERING_AREA,
+        600
+      );
+      let { body } = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.GATHERING_AREA },
+      });
+      await operator
+        .connect(addr1)
+        .goToLocation(
+          1,
+          Location.GATHERING_AREA,
+          body.nonce,
+          body.deadline,
+          body.signature
+        );
+
+      let status: number;
+      ({ status, body } = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.HOME },
+      }));
+      expect(status).to.equal(422);
+      expect(body.error).to.equal("NPC is in transit");
+    });
+
+    it("Should refuse purchases away from the marketplace", async function () {
+      const { status, body } = await requestSignature({
+        action: "BuyFood",
+        caller: addr1.address,
+        params: { tokenId: "1", coinsAmt: "1", minFoodOut: "1" },
+      });
+
+      expect(status).to.equal(422);
+      expect(body.error).to.equal("Action not allowed at location");
+    });
+
+    it("Should refuse purchases without enough coins", async function () {
+      const auth = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.MARKET_PLACE },
+      });
+      await operator
+        .connect(addr1)
+        .goToLocation(
+          1,
+          Location.MARKET_PLACE,
+          auth.body.nonce,
+          auth.body.deadline,
+          auth.body.signature
+        );
+
+      const { status, body } = await requestSignature({
+        action: "BuyTreasureBox",
+        caller: addr1.address,
+        params: { tokenId: "1", boxType: "0" },
+      });
+
+      expect(status).to.equal(422);
+      expect(body.error).to.equal("Not enough coins");
+    });
+
+    it("Should refuse equipping items outside of their slot", async function () {
+      const { status, body } = await requestSignature({
+        action: "EquipItem",
+        caller: addr1.address,
+        params: { tokenId: "1", slot: "1", itemId: "4" },
+      });
+
+      expect(status).to.equal(422);
+      expect(body.error).to.equal("Item does not fit the slot");
+    });
+
+    it("Should refuse bundles that revert in simulation", async function () {
+      const { status, body } = await requestSignature({
+        action: "ExecuteActions",
+        caller: addr1.address,
+        params: {
+          tokenId: "1",
+          actions: [{ actionType: 4, data: "0x" }],
+        },
+      });
+
+      expect(status).to.equal(422);
+      expect(body.error).to.match(/^Simulation reverted: /);
+    });
+  });
+
+  describe("Requests", function () {
+    it("Should reject malformed requests", async function () {
+      const unknown = await requestSignature({
+        action: "Teleport",
+        caller: addr1.address,
+        params: {},
+      });
+      expect(unknown.status).to.equal(400);
+
+      for (const action of ["toString", "constructor", "__proto__"]) {
+        const inherited = await requestSignature({
+          action,
+          caller: addr1.address,
+          params: {},
+        });
+        expect(inherited.status).to.equal(400);
+        expect(inherited.body.error).to.equal(`Unknown action ${action}`);
+      }
+
+      const missing = await requestSignature({
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1" },
+      });
+      expect(missing.status).to.equal(400);
+      expect(missing.body.error).to.equal("Missing param location");
+    });
+
+    it("Should rate limit each caller", async function () {
+      const request = {
+        action: "GoToLocation",
+        caller: addr1.address,
+        params: { tokenId: "1", location: Location.GATHERING_AREA },
+      };
+      // The CreateNPC request of beforeEach counts towards the limit of 3
+      expect((await requestSignature(request)).status).to.equal(200);
+      expect((await requestSignature(request)).status).to.equal(200);
+      const limited = await requestSignature(request);
+
+      expect(limited.status).to.equal(429);
+      expect(limited.body.error).to.equal("Rate limit exceeded");
+      const other = await requestSignature({
+        ...request,
+        caller: addr2.address,
+      });
+      expect(other.status).to.equal(422);
+    });
+
+    it("Should free rate limit slots once the window passes", function () {
+      let now = 0;
+      const limiter = new RateLimiter(1, 1000, () => now);
+
+      expect(limiter.consume("a")).to.be.true;
+      expect(limiter.consume("a")).to.be.false;
+      now = 1000;
+      expect(limiter.consume("a")).to.be.true;
+    });
+  });
+});
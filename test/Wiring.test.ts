@@ -0,0 +1,187 @@
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import OperatorModule from "../ignition/modules/Operator";
+import {
+  WiringContracts,
+  checkWiring,
+  fixWiring,
+  formatWiringReport,
+} from "../tasks/wiring";
+
+describe("Deployment Wiring", function () {
+  let contracts: WiringContracts;
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  async function at<T>(name: string, address: string | Promise<string>) {
+    return (await ethers.getContractAt(name, await address)) as unknown as T;
+  }
+
+  beforeEach(async function () {
+    [owner, user] = await ethers.getSigners();
+
+    // Deploy the graph the same way the networks are deployed
+    const deployment = await ignition.deploy(OperatorModule);
+    const operator = await at<WiringContracts["operator"]>(
+      "Operator",
+      deployment.operator.getAddress()
+    );
+    contracts = {
+      familiars: await at("Familiars", operator.familiars()),
+      food: await at("Food", operator.food()),
+      coins: await at("Coins", operator.coins()),
+      karmicEnergy: await at("KarmicEnergy", operator.karmicEnergy()),
+      familiarsItem: await at("FamiliarsItem", operator.familiarsItem()),
+      marketplace: await at("Marketplace", operator.marketplace()),
+      karmicWellSpring: await at(
+        "KarmicWellSpring",
+        operator.karmicWellSpring()
+      ),
+      crafting: await at("Crafting", operator.crafting()),
+      operator,
+      renderer: await at("FamiliarsRenderer", deployment.renderer.getAddress()),
+    };
+  });
+
+  it("Should match the graph of the ignition module", async function () {
+    const mismatches = await checkWiring(contracts, {
+      owner: owner.address,
+      verifier: owner.address,
+    });
+
+    expect(mismatches).to.deep.equal([]);
+    expect(formatWiringReport(mismatches)).to.equal(
+      "Deployment wiring matches, nothing to fix."
+    );
+  });
+
+  it("Should report and fix stale pointers and roles", async function () {
+    await contracts.karmicWellSpring.setOperator(owner.address);
+    await contracts.familiarsItem.setOperator(user.address);
+    await contracts.operator.setVerifier(user.address);
+
+    const expected = { owner: owner.address, verifier: owner.address };
+    const mismatches = await checkWiring(contracts, expected);
+    expect(
+      mismatches.map(({ contract, check, expected, actual, fix }) => [
+        contract,
+        check,
+        expected,
+        actual,
+        fix?.call,
+      ])
+    ).to.deep.equal([
+      [
+        "operator",
+        "verifier",
+        owner.address,
+        user.address,
+        `setVerifier(${owner.address})`,
+      ],
+      [
+        "familiarsItem",
+        "operator",
+        "operator",
+        user.address,
+        "setOperator(operator)",
+      ],
+      [
+        "karmicWellSpring",
+        "operator",
+        "operator",
+        owner.address,
+        "setOperator(operator)",
+      ],
+      [
+        "familiarsItem",
+        "MINTER_ROLE",
+        "operator",
+        "missing",
+        "grantRole(MINTER_ROLE, operator)",
+      ],
+      [
+        "familiarsItem",
+        "MINTER_ROLE",
+        "-",
+        user.address,
+        `revokeRole(MINTER_ROLE, ${user.address})`,
+      ],
+      [
+        "familiarsItem",
+        "BURNER_ROLE",
+        "operator",
+        "missing",
+        "grantRole(BURNER_ROLE, operator)",
+      ],
+      [
+        "familiarsItem",
+        "BURNER_ROLE",
+        "-",
+        user.address,
+        `revokeRole(BURNER_ROLE, ${user.address})`,
+      ],
+      [
+        "familiarsItem",
+        "URI_ADMIN_ROLE",
+        "operator",
+        "missing",
+        "grantRole(URI_ADMIN_ROLE, operator)",
+      ],
+      [
+        "familiarsItem",
+        "URI_ADMIN_ROLE",
+        "-",
+        user.address,
+        `revokeRole(URI_ADMIN_ROLE, ${user.address})`,
+      ],
+    ]);
+    expect(formatWiringReport(mismatches).split("\n")[0]).to.match(
+      /^Contract +\| Check +\| Expected +\| Actual +\| Fix$/
+    );
+
+    const txs = await fixWiring(owner, mismatches);
+    expect(txs).to.have.lengthOf(mismatches.length);
+    expect(await checkWiring(contracts, expected)).to.deep.equal([]);
+    expect(await contracts.operator.verifier()).to.equal(owner.address);
+  });
+
+  it("Should report extra role holders and owners", async function () {
+    const minter = await contracts.coins.MINTER_ROLE();
+    await contracts.coins.grantRole(minter, user.address);
+    await contracts.renderer.transferOwnership(user.address);
+
+    const mismatches = await checkWiring(contracts, {
+      owner: owner.address,
+      verifier: owner.address,
+    });
+    expect(
+      mismatches.map(({ contract, check, actual }) => [contract, check, actual])
+    ).to.deep.equal([
+      ["coins", "MINTER_ROLE", user.address],
+      ["renderer", "owner", user.address],
+    ]);
+    expect(mismatches[1].fix?.call).to.equal(
+      `transferOwnership(${owner.address})`
+    );
+  });
+
+  it("Should leave pointers set at initialization without a fix", async function () {
+    const coins = await ethers.deployContract("Coins");
+    contracts.coins = coins;
+
+    const mismatches = await checkWiring(contracts, {
+      owner: owner.address,
+      verifier: owner.address,
+    });
+    const initialized = mismatches.filter(({ check }) => check === "coins");
+    expect(initialized.map(({ contract }) => contract)).to.deep.equal([
+      "operator",
+      "marketplace",
+      "karmicWellSpring",
+      "crafting",
+    ]);
+    expect(initialized.every(({ fix }) => fix === undefined)).to.be.true;
+    expect(formatWiringReport(initialized)).to.contain("| none");
+  });
+});
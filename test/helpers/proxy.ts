@@ -0,0 +1,25 @@
+import { BaseContract } from "ethers";
+import { ethers } from "hardhat";
+import { FactoryOptions } from "hardhat/types";
+
+/**
+ * Deploys an upgradeable contract behind an ERC1967 proxy, the way the
+ * ignition modules do
+ * @param name Name of the implementation contract
+ * @param args Arguments of its initialize function
+ * @param options Libraries to link the implementation with
+ * @return The contract attached to the proxy
+ */
+export async function deployProxy<T extends BaseContract>(
+  name: string,
+  args: unknown[],
+  options: FactoryOptions = {}
+): Promise<T> {
+  const factory = await ethers.getContractFactory(name, options);
+  const implementation = await factory.deploy();
+  const proxy = await ethers.deployContract("ERC1967Proxy", [
+    await implementation.getAddress(),
+    factory.interface.encodeFunctionData("initialize", args),
+  ]);
+  return factory.attach(await proxy.getAddress()) as unknown as T;
+}
@@ -0,0 +1,36 @@
+/**
+ * Sliding-window rate limiter keyed by caller
+ */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  /**
+   * @param limit Requests allowed per key within the window
+   * @param windowMs Length of the window in milliseconds
+   * @param now Clock, replaceable in tests
+   */
+  constructor(
+    readonly limit: number,
+    readonly windowMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Records a request for a key
+   * @param key Caller the request is counted against
+   * @return False if the key is over its limit, the request is then not recorded
+   */
+  consume(key: string): boolean {
+    const now = this.now();
+    const recent = (this.hits.get(key) ?? []).filter(
+      (time) => now - time < this.windowMs
+    );
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return true;
+  }
+}
@@ -0,0 +1,658 @@
+import { BigNumberish, ContractRunner, ZeroAddress } from "ethers";
+import {
+  Crafting,
+  Crafting__factory,
+  Familiars,
+  FamiliarsItem,
+  FamiliarsItem__factory,
+  Familiars__factory,
+  KarmicWellSpring,
+  KarmicWellSpring__factory,
+  Marketplace,
+  Marketplace__factory,
+  Operator,
+  Operator__factory,
+} from "../typechain-types";
+import { ActionType } from "../sdk/actions";
+import { fromWholeCoins } from "../sdk/amounts";
+import { TradeAsset } from "../sdk/FamiliarsClient";
+import { OperatorAction, OperatorActionValues } from "../sdk/signatures";
+
+/**
+ * An action request the verifier refuses to sign
+ */
+export class RuleViolation extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleViolation";
+  }
+}
+
+/**
+ * Contracts the game rules are read from
+ */
+export interface RuleContracts {
+  operator: Operator;
+  familiars: Familiars;
+  familiarsItem: FamiliarsItem;
+  karmicWellSpring: KarmicWellSpring;
+  marketplace: Marketplace;
+  crafting: Crafting;
+}
+
+/**
+ * An action to authorize, without the nonce and deadline chosen by the verifier
+ */
+export type ActionRequest<A extends OperatorAction = OperatorAction> = Omit<
+  OperatorActionValues[A],
+  "nonce" | "deadline"
+>;
+
+// State of the Familiar an action is requested for
+interface NpcState {
+  tba: string;
+  health: bigint;
+  location: number; // Id in the Familiars location registry
+  coins: bigint;
+  karmicEnergy: bigint;
+  food: bigint;
+  level: bigint;
+}
+
+/**
+ * Connects to a deployed Operator and the contracts holding the game rules
+ * @param operatorAddress Address of the Operator
+ * @param runner Provider used for reads and simulations
+ */
+export async function connectRuleContracts(
+  operatorAddress: string,
+  runner: ContractRunner
+): Promise<RuleContracts> {
+  const operator = Operator__factory.connect(operatorAddress, runner);
+  const [familiars, familiarsItem, karmicWellSpring, marketplace, crafting] =
+    await Promise.all([
+      operator.familiars(),
+      operator.familiarsItem(),
+      operator.karmicWellSpring(),
+      operator.marketplace(),
+      operator.crafting(),
+    ]);
+  return {
+    operator,
+    familiars: Familiars__factory.connect(familiars, runner),
+    familiarsItem: FamiliarsItem__factory.connect(familiarsItem, runner),
+    karmicWellSpring: KarmicWellSpring__factory.connect(
+      karmicWellSpring,
+      runner
+    ),
+    marketplace: Marketplace__factory.connect(marketplace, runner),
+    crafting: Crafting__factory.connect(crafting, runner),
+  };
+}
+
+/**
+ * Checks an action against the current chain state
+ * @notice Mirrors the checks of the Operator and adds ownership of the Familiar
+ * @param contracts Contracts returned by connectRuleContracts
+ * @param action Name of the typed action
+ * @param request Caller and parameters of the action
+ */
+export async function checkAction<A extends OperatorAction>(
+  contracts: RuleContracts,
+  action: A,
+  request: ActionRequest<A>
+): Promise<void> {
+  switch (action) {
+    case "CreateNPC": {
+      const { uri } = request as ActionRequest<"CreateNPC">;
+      if (uri.length === 0) throw new RuleViolation("Token URI is empty");
+      return;
+    }
+    case "GoToLocation": {
+      const { caller, tokenId, location } =
+        request as ActionRequest<"GoToLocation">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      const destination = Number(location);
+      if (
+        !(await contracts.familiars.isActionAllowed(
+          destination,
+          ActionType.GO_TO_LOCATION
+        ))
+      ) {
+        throw new RuleViolation("Location is not open");
+      }
+      await checkRequirements(contracts, npc, destination);
+      return;
+    }
+    case "EquipItem": {
+      const { caller, tokenId, slot, itemId } =
+        request as ActionRequest<"EquipItem">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.EQUIP_ITEM);
+      const slotCount = await contracts.familiars.slotCount();
+      if (BigInt(slot) === 0n || BigInt(slot) > slotCount) {
+        throw new RuleViolation("Slot does not exist");
+      }
+      // Emptying the slot is left to the simulation
+      if (BigInt(itemId) === 0n) return;
+      if (
+        (await contracts.familiarsItem.getItemSlot(itemId)) !== BigInt(slot)
+      ) {
+        throw new RuleViolation("Item does not fit the slot");
+      }
+      if ((await contracts.familiarsItem.balanceOf(npc.tba, itemId)) === 0n) {
+        throw new RuleViolation(`Item ${itemId} is not held by the Familiar`);
+      }
+      return;
+    }
+    case "ExchangeKarmicEnergy": {
+      const { caller, tokenId, karmicEnergyAmt } =
+        request as ActionRequest<"ExchangeKarmicEnergy">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.EXCHANGE_KARMIC_ENERGY);
+      const tiers = await contracts.karmicWellSpring.getExchangeTiers();
+      if (!tiers.includes(BigInt(karmicEnergyAmt))) {
+        throw new RuleViolation("Amount must be on valid tier");
+      }
+      if (npc.karmicEnergy < BigInt(karmicEnergyAmt)) {
+        throw new RuleViolation("Not enough karmic energy");
+      }
+      return;
+    }
+    case "BuyFood": {
+      const { caller, tokenId, coinsAmt, minFoodOut } =
+        request as ActionRequest<"BuyFood">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.BUY_FOOD);
+      if (BigInt(coinsAmt) === 0n) {
+        throw new RuleViolation("Amount must be greater than 0");
+      }
+      if (npc.coins < fromWholeCoins(BigInt(coinsAmt))) {
+        throw new RuleViolation("Not enough coins");
+      }
+      const foodAmt = await contracts.marketplace.quoteFood(coinsAmt);
+      if (foodAmt === 0n) {
+        throw new RuleViolation("Amount too small to buy food");
+      }
+      if (foodAmt < BigInt(minFoodOut)) {
+        throw new RuleViolation("Food below minimum");
+      }
+      return;
+    }
+    case "BuyTreasureBox": {
+      const { caller, tokenId, boxType } =
+        request as ActionRequest<"BuyTreasureBox">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.BUY_TREASURE_BOX);
+      if (BigInt(boxType) >= (await contracts.marketplace.boxTypeCount())) {
+        throw new RuleViolation("Box type does not exist");
+      }
+      const [box] = await contracts.marketplace.getBoxType(boxType);
+      if (!box.enabled) throw new RuleViolation("Box type is not on sale");
+      if (box.maxSupply !== 0n && box.sold >= box.maxSupply) {
+        throw new RuleViolation("Box type is sold out");
+      }
+      if (npc.coins < fromWholeCoins(box.price)) {
+        throw new RuleViolation("Not enough coins");
+      }
+      return;
+    }
+    case "BuyItem": {
+      // The sale window is left to the simulation, it runs at the chain time
+      const { caller, tokenId, itemId, qty } =
+        request as ActionRequest<"BuyItem">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.BUY_ITEM);
+      const listing = await contracts.marketplace.getItemListing(itemId);
+      if (!listing.listed) throw new RuleViolation("Item is not listed");
+      if (BigInt(qty) === 0n) {
+        throw new RuleViolation("Amount must be greater than 0");
+      }
+      if (BigInt(qty) > listing.stock) {
+        throw new RuleViolation("Not enough stock");
+      }
+      const bought = await contracts.marketplace.itemsBought(itemId, npc.tba);
+      if (
+        listing.maxPerNpc !== 0n &&
+        bought + BigInt(qty) > listing.maxPerNpc
+      ) {
+        throw new RuleViolation("Purchase limit reached");
+      }
+      if (npc.coins < fromWholeCoins(listing.price * BigInt(qty))) {
+        throw new RuleViolation("Not enough coins");
+      }
+      return;
+    }
+    case "RepairItem": {
+      const { caller, tokenId, itemId } =
+        request as ActionRequest<"RepairItem">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.REPAIR_ITEM);
+      if ((await contracts.familiarsItem.balanceOf(npc.tba, itemId)) === 0n) {
+        throw new RuleViolation("Item not held");
+      }
+      const [[durability, max], price] = await Promise.all([
+        contracts.familiarsItem.getDurability(npc.tba, itemId),
+        contracts.familiarsItem.repairPrices(itemId),
+      ]);
+      if (durability === max) throw new RuleViolation("Item is not damaged");
+      if (npc.coins < fromWholeCoins(price * (max - durability))) {
+        throw new RuleViolation("Not enough coins");
+      }
+      return;
+    }
+    case "Train": {
+      const { caller, tokenId, karmicEnergyAmt } =
+        request as ActionRequest<"Train">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.TRAIN);
+      if (BigInt(karmicEnergyAmt) === 0n) {
+        throw new RuleViolation("Amount must be greater than 0");
+      }
+      if (npc.karmicEnergy < BigInt(karmicEnergyAmt)) {
+        throw new RuleViolation("Not enough karmic energy");
+      }
+      return;
+    }
+    case "Craft": {
+      const { caller, tokenId, recipeId } = request as ActionRequest<"Craft">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.CRAFT);
+      if (BigInt(recipeId) >= (await contracts.crafting.recipeCount())) {
+        throw new RuleViolation("Recipe does not exist");
+      }
+      const [recipe, items] = await contracts.crafting.getRecipe(recipeId);
+      if (!recipe.enabled) throw new RuleViolation("Recipe is not enabled");
+      if (npc.coins < fromWholeCoins(recipe.coins)) {
+        throw new RuleViolation("Not enough coins");
+      }
+      if (npc.food < recipe.food) throw new RuleViolation("Not enough food");
+      if (npc.karmicEnergy < recipe.karmicEnergy) {
+        throw new RuleViolation("Not enough karmic energy");
+      }
+      for (const { itemId, amount } of items) {
+        if (
+          (await contracts.familiarsItem.balanceOf(npc.tba, itemId)) < amount
+        ) {
+          throw new RuleViolation("Not enough items");
+        }
+      }
+      return;
+    }
+    case "CreateOrder": {
+      const { caller, tokenId, asset, itemId, amount, price } =
+        request as ActionRequest<"CreateOrder">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.TRADE);
+      if (BigInt(amount) === 0n) {
+        throw new RuleViolation("Amount must be greater than 0");
+      }
+      if (BigInt(price) === 0n)
+        throw new RuleViolation("Price must be positive");
+      const isItem = Number(asset) === TradeAsset.ITEM;
+      if (isItem !== (BigInt(itemId) !== 0n)) {
+        throw new RuleViolation("Only item orders have an item id");
+      }
+      const held = isItem
+        ? await contracts.familiarsItem.balanceOf(npc.tba, itemId)
+        : Number(asset) === TradeAsset.FOOD
+        ? npc.food
+        : npc.karmicEnergy;
+      if (held < BigInt(amount)) {
+        throw new RuleViolation("Not enough to sell");
+      }
+      if (isItem && held === BigInt(amount)) {
+        const [durability, max] = await contracts.familiarsItem.getDurability(
+          npc.tba,
+          itemId
+        );
+        if (durability < max) {
+          throw new RuleViolation("Repair the item before trading it");
+        }
+      }
+      return;
+    }
+    case "FillOrder": {
+      const { caller, tokenId, orderId, amount } =
+        request as ActionRequest<"FillOrder">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      await requireAction(contracts, npc, ActionType.TRADE);
+      const order = await contracts.marketplace.orders(orderId);
+      if (order.seller === ZeroAddress) {
+        throw new RuleViolation("Order does not exist");
+      }
+      if (order.seller === npc.tba) {
+        throw new RuleViolation("Cannot fill own order");
+      }
+      if (BigInt(amount) === 0n || BigInt(amount) > order.amount) {
+        throw new RuleViolation("Invalid fill amount");
+      }
+      if (npc.coins < fromWholeCoins(order.price * BigInt(amount))) {
+        throw new RuleViolation("Not enough coins");
+      }
+      return;
+    }
+    case "CancelOrder": {
+      const { caller, tokenId, orderId } =
+        request as ActionRequest<"CancelOrder">;
+      const npc = await loadNpc(contracts, caller, tokenId);
+      const order = await contracts.marketplace.orders(orderId);
+      if (order.seller === ZeroAddress) {
+        throw new RuleViolation("Order does not exist");
+      }
+      if (order.seller !== npc.tba) {
+        throw new RuleViolation("Caller is not the seller");
+      }
+      return;
+    }
+    case "ExecuteActions": {
+      // Later steps depend on the state left by earlier ones, so the bundle
+      // itself is only checked by the simulation of the whole call
+      const { caller, tokenId, actions } =
+        request as ActionRequest<"ExecuteActions">;
+      await loadNpc(contracts, caller, tokenId);
+      if (actions.length === 0) {
+        throw new RuleViolation("No actions to execute");
+      }
+      for (const { actionType } of actions) {
+        if (!(Number(actionType) in ActionType)) {
+          throw new RuleViolation(`Unknown action type ${actionType}`);
+        }
+        if (Number(actionType) === ActionType.TRADE) {
+          throw new RuleViolation("Action cannot be bundled");
+        }
+      }
+      return;
+    }
+    default:
+      throw new RuleViolation(`Unknown action ${action}`);
+  }
+}
+
+/**
+ * Runs a signed action as an eth_call from the caller
+ * @param contracts Contracts returned by connectRuleContracts
+ * @param action Name of the typed action
+ * @param value Signed parameters of the action
+ * @param signature Verifier signature over the value
+ */
+export async function simulateAction<A extends OperatorAction>(
+  contracts: RuleContracts,
+  action: A,
+  value: OperatorActionValues[A],
+  signature: string
+): Promise<void> {
+  const { operator } = contracts;
+  const auth = [value.nonce, value.deadline, signature] as const;
+  const overrides = { from: value.caller };
+  try {
+    switch (action) {
+      case "CreateNPC": {
+        const { to, uri } = value as OperatorActionValues["CreateNPC"];
+        await operator.createNPC.staticCall(to, uri, ...auth, overrides);
+        return;
+      }
+      case "GoToLocation": {
+        const { tokenId, location } =
+          value as OperatorActionValues["GoToLocation"];
+        await operator.goToLocation.staticCall(
+          tokenId,
+          location,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "EquipItem": {
+        const { tokenId, slot, itemId } =
+          value as OperatorActionValues["EquipItem"];
+        await operator.equipItem.staticCall(
+          tokenId,
+          slot,
+          itemId,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "ExchangeKarmicEnergy": {
+        const { tokenId, karmicEnergyAmt } =
+          value as OperatorActionValues["ExchangeKarmicEnergy"];
+        await operator.exchangeKarmicEnergy.staticCall(
+          tokenId,
+          karmicEnergyAmt,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "BuyFood": {
+        const { tokenId, coinsAmt, minFoodOut } =
+          value as OperatorActionValues["BuyFood"];
+        await operator.buyFoodToMarketplace.staticCall(
+          tokenId,
+          coinsAmt,
+          minFoodOut,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "BuyTreasureBox": {
+        const { tokenId, boxType } =
+          value as OperatorActionValues["BuyTreasureBox"];
+        await operator.buyTreasureBox.staticCall(
+          tokenId,
+          boxType,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "BuyItem": {
+        const { tokenId, itemId, qty } =
+          value as OperatorActionValues["BuyItem"];
+        await operator.buyItem.staticCall(
+          tokenId,
+          itemId,
+          qty,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "RepairItem": {
+        const { tokenId, itemId } = value as OperatorActionValues["RepairItem"];
+        await operator.repairItem.staticCall(
+          tokenId,
+          itemId,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "Train": {
+        const { tokenId, karmicEnergyAmt } =
+          value as OperatorActionValues["Train"];
+        await operator.train.staticCall(
+          tokenId,
+          karmicEnergyAmt,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "Craft": {
+        const { tokenId, recipeId } = value as OperatorActionValues["Craft"];
+        await operator.craft.staticCall(tokenId, recipeId, ...auth, overrides);
+        return;
+      }
+      case "CreateOrder": {
+        const { tokenId, asset, itemId, amount, price } =
+          value as OperatorActionValues["CreateOrder"];
+        await operator.createOrder.staticCall(
+          tokenId,
+          asset,
+          itemId,
+          amount,
+          price,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "FillOrder": {
+        const { tokenId, orderId, amount } =
+          value as OperatorActionValues["FillOrder"];
+        await operator.fillOrder.staticCall(
+          tokenId,
+          orderId,
+          amount,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "CancelOrder": {
+        const { tokenId, orderId } =
+          value as OperatorActionValues["CancelOrder"];
+        await operator.cancelOrder.staticCall(
+          tokenId,
+          orderId,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+      case "ExecuteActions": {
+        const { tokenId, actions } =
+          value as OperatorActionValues["ExecuteActions"];
+        await operator.executeActions.staticCall(
+          tokenId,
+          actions,
+          ...auth,
+          overrides
+        );
+        return;
+      }
+    }
+  } catch (error) {
+    throw new RuleViolation(`Simulation reverted: ${revertReason(error)}`);
+  }
+}
+
+/**
+ * Loads a Familiar and checks that the caller owns it
+ * @param contracts Contracts returned by connectRuleContracts
+ * @param caller Address requesting the action
+ * @param tokenId The ID of the Familiar
+ */
+async function loadNpc(
+  contracts: RuleContracts,
+  caller: string,
+  tokenId: BigNumberish
+): Promise<NpcState> {
+  let owner: string;
+  try {
+    owner = await contracts.familiars.ownerOf(tokenId);
+  } catch {
+    throw new RuleViolation(`Familiar ${tokenId} does not exist`);
+  }
+  if (owner.toLowerCase() !== caller.toLowerCase()) {
+    throw new RuleViolation("Caller does not own the Familiar");
+  }
+  const [
+    tba,
+    [health, , coins, karmicEnergy, food],
+    [, location],
+    travel,
+    [foodEaten, healthLost],
+    level,
+  ] = await Promise.all([
+    contracts.operator._getTba(tokenId),
+    contracts.operator.getNPCStats(tokenId),
+    contracts.familiars.getCurrentLocation(tokenId),
+    contracts.familiars.getTravel(tokenId),
+    contracts.operator.pendingUpkeep(tokenId),
+    contracts.familiars.getLevel(tokenId),
+  ]);
+  let current = Number(location);
+  if (travel.arrivalTime !== 0n) {
+    const { remaining } = await contracts.familiars.getEta(tokenId);
+    if (remaining > 0n) {
+      throw new RuleViolation("NPC is in transit");
+    }
+    // The Operator completes the trip before the action, the rewards of the
+    // destination are left to the simulation
+    current = Number(travel.destination);
+  }
+  // The Operator settles upkeep before the action
+  return {
+    tba,
+    health: health - healthLost,
+    location: current,
+    coins,
+    karmicEnergy,
+    food: food - foodEaten,
+    level,
+  };
+}
+
+/**
+ * Checks the minimums and costs of a destination, like FamiliarsLib.checkRequirements
+ */
+async function checkRequirements(
+  contracts: RuleContracts,
+  npc: NpcState,
+  location: number
+): Promise<void> {
+  const req = await contracts.familiars.getLocationRequirements(location);
+  if (npc.level < req.minLevel) {
+    throw new RuleViolation(
+      `Insufficient level: requires ${req.minLevel}, has ${npc.level}`
+    );
+  }
+  const checks: [string, bigint, bigint, bigint][] = [
+    ["health", npc.health, req.minHealth, req.healthCost],
+    [
+      "karmic energy",
+      npc.karmicEnergy,
+      req.minKarmicEnergy,
+      req.karmicEnergyCost,
+    ],
+    ["food", npc.food, req.minFood, req.foodCost],
+    ["coins", npc.coins, req.minCoin, req.coinCost],
+  ];
+  for (const [resource, current, minimum, cost] of checks) {
+    const required = minimum > cost ? minimum : cost;
+    if (current < required) {
+      throw new RuleViolation(
+        `Insufficient ${resource}: requires ${required}, has ${current}`
+      );
+    }
+  }
+}
+
+/**
+ * Rejects actions the current location of a Familiar does not allow
+ */
+async function requireAction(
+  contracts: RuleContracts,
+  npc: NpcState,
+  action: ActionType
+): Promise<void> {
+  if (!(await contracts.familiars.isActionAllowed(npc.location, action))) {
+    throw new RuleViolation("Action not allowed at location");
+  }
+}
+
+// Extracts a readable reason from a failed eth_call
+function revertReason(error: unknown): string {
+  const e = error as {
+    reason?: string | null;
+    revert?: { name: string } | null;
+    shortMessage?: string;
+    message?: string;
+  };
+  return e.reason ?? e.revert?.name ?? e.shortMessage ?? String(e.message);
+}
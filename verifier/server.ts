@@ -0,0 +1,198 @@
+import http from "http";
+import { Provider, Signer, isAddress } from "ethers";
+import {
+  OPERATOR_TYPES,
+  OperatorAction,
+  OperatorActionValues,
+  getOperatorDomain,
+  signOperatorAction,
+} from "../sdk/signatures";
+import { RateLimiter } from "./rateLimiter";
+import {
+  ActionRequest,
+  RuleContracts,
+  RuleViolation,
+  checkAction,
+  connectRuleContracts,
+  simulateAction,
+} from "./rules";
+
+// Largest request body accepted, in bytes
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * Options of the verifier signing service
+ */
+export interface VerifierServiceOptions {
+  operator: string; // Address of the Operator
+  provider: Provider; // Chain the rules are checked against
+  verifier: Signer; // Holder of the Operator verifier key
+  rateLimit?: { limit: number; windowMs: number }; // 10 per minute by default
+  ttl?: number; // Seconds a signature stays valid, 600 by default
+}
+
+/**
+ * Body of POST /sign
+ */
+export interface SignRequest {
+  action: OperatorAction;
+  caller: string; // Address that will submit the transaction
+  params: Record<string, unknown>; // Fields of the typed action
+  nonce?: string; // Unordered nonce to sign for, defaults to nonces(caller)
+}
+
+/**
+ * Response of POST /sign, the trailing arguments of the Operator call
+ */
+export interface SignResponse {
+  nonce: string;
+  deadline: string;
+  signature: string;
+}
+
+// Error answered with its HTTP status
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Creates the HTTP service signing player actions that pass the game rules
+ * @notice Call listen() on the returned server to start it
+ */
+export async function createVerifierService(
+  options: VerifierServiceOptions
+): Promise<http.Server> {
+  const contracts = await connectRuleContracts(
+    options.operator,
+    options.provider
+  );
+  const { chainId } = await options.provider.getNetwork();
+  const domain = getOperatorDomain(options.operator, chainId);
+  const { limit, windowMs } = options.rateLimit ?? {
+    limit: 10,
+    windowMs: 60_000,
+  };
+  const limiter = new RateLimiter(limit, windowMs);
+  const ttl = options.ttl ?? 600;
+
+  // Checks, signs and simulates a single request
+  async function sign(request: SignRequest): Promise<SignResponse> {
+    if (!limiter.consume(request.caller.toLowerCase())) {
+      throw new HttpError(429, "Rate limit exceeded");
+    }
+    const actionRequest = {
+      ...request.params,
+      caller: request.caller,
+    } as ActionRequest;
+    await checkAction(contracts, request.action, actionRequest);
+
+    const nonce = await chooseNonce(contracts, request);
+    const block = await options.provider.getBlock("latest");
+    const deadline = BigInt(block!.timestamp + ttl);
+    const value = {
+      ...actionRequest,
+      nonce,
+      deadline,
+    } as OperatorActionValues[OperatorAction];
+    const signature = await signOperatorAction(
+      options.verifier,
+      domain,
+      request.action,
+      value
+    );
+    await simulateAction(contracts, request.action, value, signature);
+    return {
+      nonce: nonce.toString(),
+      deadline: deadline.toString(),
+      signature,
+    };
+  }
+
+  return http.createServer(async (req, res) => {
+    try {
+      if (req.url !== "/sign") throw new HttpError(404, "Not found");
+      if (req.method !== "POST") {
+        throw new HttpError(405, "Method not allowed");
+      }
+      const request = parseSignRequest(await readBody(req));
+      respond(res, 200, await sign(request));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        respond(res, error.status, { error: error.message });
+      } else if (error instanceof RuleViolation) {
+        respond(res, 422, { error: error.message });
+      } else {
+        respond(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
+
+/**
+ * Picks the nonce to sign for, rejecting nonces that were already spent
+ */
+async function chooseNonce(
+  contracts: RuleContracts,
+  request: SignRequest
+): Promise<bigint> {
+  if (request.nonce === undefined) {
+    return contracts.operator.nonces(request.caller);
+  }
+  const nonce = BigInt(request.nonce);
+  if (await contracts.operator.isNonceUsed(request.caller, nonce)) {
+    throw new RuleViolation("Nonce already used");
+  }
+  return nonce;
+}
+
+/**
+ * Validates the shape of a POST /sign body
+ */
+function parseSignRequest(body: string): SignRequest {
+  let request: SignRequest;
+  try {
+    request = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, "Body is not valid JSON");
+  }
+  if (!request || !Object.hasOwn(OPERATOR_TYPES, request.action)) {
+    throw new HttpError(400, `Unknown action ${request?.action}`);
+  }
+  if (typeof request.caller !== "string" || !isAddress(request.caller)) {
+    throw new HttpError(400, "Invalid caller address");
+  }
+  if (typeof request.params !== "object" || request.params === null) {
+    throw new HttpError(400, "Missing params");
+  }
+  for (const { name } of OPERATOR_TYPES[request.action]) {
+    if (name === "caller" || name === "nonce" || name === "deadline") continue;
+    if (request.params[name] === undefined) {
+      throw new HttpError(400, `Missing param ${name}`);
+    }
+  }
+  return request;
+}
+
+// Reads a request body up to MAX_BODY_SIZE
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new HttpError(413, "Body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+// Writes a JSON response
+function respond(res: http.ServerResponse, status: number, body: object) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}